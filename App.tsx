@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { AppProvider, useAppStore } from './store';
 import { MapTab } from './components/MapTab';
 import { Backoffice } from './components/Backoffice';
@@ -46,6 +46,43 @@ const ThemeEffect = () => {
   return null;
 };
 
+// Holds the UI back until the selected storage backend has been loaded
+const StorageGate = ({ children }: { children?: React.ReactNode }) => {
+  const { storageStatus, storageError, storageConfig, setStorageConfig } = useAppStore();
+
+  if (storageStatus === 'loading') {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background text-sm text-muted-foreground">
+        Loading data...
+      </div>
+    );
+  }
+
+  if (storageStatus === 'error') {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Storage unavailable</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Could not load data from the <span className="font-mono">{storageConfig.backend}</span> backend{storageConfig.backend === 'rest' ? ` (${storageConfig.restUrl})` : ''}.
+            </p>
+            {storageError && <p className="text-xs font-mono text-destructive break-all">{storageError}</p>}
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setStorageConfig({ ...storageConfig, backend: 'local' })}>Use Browser Storage</Button>
+              <Button onClick={() => setStorageConfig({ ...storageConfig })}>Retry</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
 // Helper for Icon Rendering (duplicated from Backoffice for simplicity in this file)
 const IconRenderer = ({ name, className }: { name: string, className?: string }) => {
   const icons: Record<string, any> = { Zap, Star, MapIcon: Map, MapPin, Layers, Search, AlertTriangle, Tool: Wrench, Truck };
@@ -53,14 +90,11 @@ const IconRenderer = ({ name, className }: { name: string, className?: string })
   return <LucideIcon className={className} />;
 };
 
-function AppContent({ onLogout }: { onLogout: () => void }) {
-  const { activeTab, setActiveTab, shortcuts, executeShortcut, setCurrentUser, hasPermission } = useAppStore();
+function AppContent() {
+  const { activeTab, setActiveTab, shortcuts, executeShortcut, hasPermission, logout } = useAppStore();
   const { t } = useTranslation();
 
-  const handleLogout = () => {
-    setCurrentUser(null);
-    onLogout();
-  };
+  const handleLogout = () => logout();
 
   const renderContent = () => {
     // Basic protection if user manually sets tab state but lacks permission
@@ -246,18 +280,20 @@ const UserProfileView = () => {
   );
 };
 
-export default function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+// Signed in through the login form or a saved session
+const SessionGate = () => {
+  const { currentUser } = useAppStore();
+  return currentUser ? <AppContent /> : <Login />;
+};
 
+export default function App() {
   return (
     <AppProvider>
       <ThemeEffect />
       <ToastProvider>
-        {isAuthenticated ? (
-          <AppContent onLogout={() => setIsAuthenticated(false)} />
-        ) : (
-          <Login onLogin={() => setIsAuthenticated(true)} />
-        )}
+        <StorageGate>
+          <SessionGate />
+        </StorageGate>
       </ToastProvider>
     </AppProvider>
   );
@@ -0,0 +1,72 @@
+import React, { useCallback } from 'react';
+import { useAppStore } from '../store';
+import { AttachmentRef } from '../types';
+import { useToast } from './ui/use-toast';
+import { formatFileSize, isImage } from '../services/attachments';
+import { FileText, MapPin } from 'lucide-react';
+
+// Opens an attachment's file in a new tab
+export const useOpenAttachment = () => {
+  const { getAttachment } = useAppStore();
+  const { toast } = useToast();
+  return useCallback(async (ref: AttachmentRef) => {
+    // Opened before the file is read, or popup blockers refuse it
+    const tab = window.open('', '_blank');
+    try {
+      const attachment = await getAttachment(ref.id);
+      if (!attachment) throw new Error(`${ref.name} is no longer available`);
+      const url = URL.createObjectURL(attachment.data);
+      if (tab) tab.location.href = url;
+      else window.location.assign(url);
+      // The tab has loaded it by then
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (e) {
+      tab?.close();
+      toast({ title: 'Cannot Open File', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  }, [getAttachment, toast]);
+};
+
+interface AttachmentTileProps {
+  attachment: AttachmentRef;
+  onOpen: (attachment: AttachmentRef) => void;
+  children?: React.ReactNode; // Extra controls over the tile, e.g. remove
+}
+
+// A thumbnail, or an icon for files without one. Not a button, so it stays usable in disabled fieldsets.
+export const AttachmentTile: React.FC<AttachmentTileProps> = ({ attachment, onOpen, children }) => (
+  <div className="relative group w-20" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+    <div
+      role="button"
+      tabIndex={0}
+      className="w-20 h-20 rounded-md border bg-muted/30 overflow-hidden flex items-center justify-center cursor-pointer hover:ring-2 hover:ring-primary/40"
+      onClick={() => onOpen(attachment)}
+      onKeyDown={e => { if (e.key === 'Enter') onOpen(attachment); }}
+    >
+      {isImage(attachment) && attachment.thumbnail ? (
+        <img src={attachment.thumbnail} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : (
+        <FileText className="w-8 h-8 text-muted-foreground" />
+      )}
+    </div>
+    {attachment.location && (
+      <MapPin className="absolute bottom-5 left-1 w-3.5 h-3.5 text-white drop-shadow" />
+    )}
+    <div className="text-[10px] truncate mt-0.5 text-muted-foreground">{attachment.name}</div>
+    {children}
+  </div>
+);
+
+interface AttachmentGalleryProps {
+  attachments: AttachmentRef[];
+}
+
+export const AttachmentGallery = ({ attachments }: AttachmentGalleryProps) => {
+  const openAttachment = useOpenAttachment();
+  if (attachments.length === 0) return <span className="text-sm text-muted-foreground">-</span>;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(a => <AttachmentTile key={a.id} attachment={a} onOpen={openAttachment} />)}
+    </div>
+  );
+};
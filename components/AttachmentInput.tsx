@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { useAppStore } from '../store';
+import { AttachmentRef, FieldDefinition } from '../types';
+import { Button } from './ui/button';
+import { useToast } from './ui/use-toast';
+import { AttachmentTile, useOpenAttachment } from './AttachmentGallery';
+import { ACCEPTED_ATTACHMENT_TYPES, attachmentRefs } from '../services/attachments';
+import { Loader2, MapPin, Paperclip, X } from 'lucide-react';
+
+interface AttachmentInputProps {
+  field: FieldDefinition;
+  tableId: string;
+  value: any;
+  onChange: (value: any) => void;
+  // Offered for geotagged photos: places the record at the photo's position
+  onUseLocation?: (location: [number, number]) => void;
+  disabled?: boolean;
+}
+
+// Form input of an attachment field: photos and PDFs, uploaded as soon as they are picked
+export const AttachmentInput = ({ field, tableId, value, onChange, onUseLocation, disabled }: AttachmentInputProps) => {
+  const { addAttachment } = useAppStore();
+  const { toast } = useToast();
+  const openAttachment = useOpenAttachment();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(0);
+  const attachments = attachmentRefs(value);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const picked = Array.from(files);
+    setUploading(picked.length);
+    const added: AttachmentRef[] = [];
+    for (const file of picked) {
+      try {
+        added.push(await addAttachment(file, tableId));
+      } catch (e) {
+        toast({ title: 'File Not Added', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+      }
+    }
+    setUploading(0);
+    if (fileInput.current) fileInput.current.value = '';
+    if (added.length > 0) onChange([...attachments, ...added]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map(a => (
+            <AttachmentTile key={a.id} attachment={a} onOpen={openAttachment}>
+              {!disabled && (
+                <button
+                  type="button"
+                  className="absolute -top-1.5 -right-1.5 rounded-full bg-background border shadow-sm p-0.5 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  onClick={() => onChange(attachments.filter(other => other.id !== a.id))}
+                  title="Remove"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+              {!disabled && onUseLocation && a.location && (
+                <button
+                  type="button"
+                  className="text-[10px] text-blue-600 hover:underline flex items-center gap-0.5"
+                  onClick={() => onUseLocation(a.location!)}
+                  title={`${a.location[0].toFixed(6)}, ${a.location[1].toFixed(6)}`}
+                >
+                  <MapPin className="w-3 h-3" /> Place here
+                </button>
+              )}
+            </AttachmentTile>
+          ))}
+        </div>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept={ACCEPTED_ATTACHMENT_TYPES}
+        className="hidden"
+        onChange={e => handleFiles(e.target.files)}
+      />
+      <Button type="button" variant="outline" size="sm" disabled={disabled || uploading > 0} onClick={() => fileInput.current?.click()}>
+        {uploading > 0 ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+        {uploading > 0 ? `Adding ${uploading} file${uploading > 1 ? 's' : ''}...` : `Add ${field.label.toLowerCase()}`}
+      </Button>
+    </div>
+  );
+};
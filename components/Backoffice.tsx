@@ -7,12 +7,12 @@ import {
   BarChart3, Activity, PieChart as PieChartIcon, CalendarRange, Filter,
   FileJson, FileSpreadsheet, HardDrive, Download, RefreshCw, MoreVertical, ChevronDown, FileCode,
   Smartphone, Monitor, Cpu, Clock, Wifi, MousePointerClick, TableProperties, Code,
-  AlertTriangle, Palette, ToggleLeft
+  AlertTriangle, Palette, ToggleLeft, ChevronLeft, ChevronRight, ChevronUp
 } from 'lucide-react';
 import { useTranslation } from '../hooks/useTranslation';
 import { useAppStore } from '../store';
-import { TableSchema, User, UserRole, Shortcut, ShortcutType, TileLayerConfig } from '../types';
-import { GEO_TYPES, LANGUAGES, PERMISSIONS_LIST, SHORTCUT_ICONS, SHORTCUT_TYPES } from '../constants';
+import { AuditAction, AuditEntry, AuditTargetType, TableSchema, User, UserRole, Shortcut, ShortcutType, TileLayerConfig, TileLayerType, WmsLayerOptions, VectorTileOptions, StorageBackend, CrsDefinition, TrashEntry } from '../types';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, GEO_TYPES, LANGUAGES, PERMISSIONS_LIST, SHORTCUT_ICONS, SHORTCUT_TYPES, STORAGE_BACKENDS, TRASH_RETENTION_DAYS } from '../constants';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -36,6 +36,12 @@ import {
 } from 'recharts';
 import { ShortcutsConfigView } from './ShortcutsConfigView'; // Assuming you might extract this later, but keeping logic here if not present in previous context
 import { UsersSecurityView } from './UsersSecurityView'; // Placeholder if needed
+import { BUILT_IN_CRS, WEB_MERCATOR, WGS84, detectUnits, getCrs, validateProjDefinition } from '../services/crs';
+import { validateVectorStyle } from '../services/vectorStyle';
+import { attachmentRefs, blobToDataUrl } from '../services/attachments';
+import { IMAGE_FORMATS, INFO_FORMATS, WMS_VERSIONS, WmtsCapabilities, WmtsChoice, createWmtsLayer, fetchWmtsCapabilities } from '../services/ogc';
+import { AuditQuery, auditToCSV, formatAuditValue } from '../services/audit';
+import { downloadFile } from '../services/dataExport';
 
 const genId = () => Math.random().toString(36).substr(2, 9);
 
@@ -76,8 +82,25 @@ interface SystemTableDef {
 }
 
 const DatabaseAdminView = () => {
-    const { schemas, records, users, roles } = useAppStore();
+    const { schemas, records, recordCounts, loadTables, users, roles, storageConfig, storageStatus, storageError, setStorageConfig, logAudit, getAttachment } = useAppStore();
     const { toast } = useToast();
+
+    // Dumps and previews cover every table, so all records are loaded here
+    useEffect(() => {
+        loadTables(schemas.map(s => s.id));
+    }, [schemas, loadTables]);
+
+    // Storage backend form (applied explicitly, since switching reloads all data)
+    const [backendDraft, setBackendDraft] = useState(storageConfig);
+
+    const handleApplyBackend = () => {
+        if (backendDraft.backend === 'rest' && !backendDraft.restUrl?.trim()) {
+            toast({ title: "Error", description: "Server URL is required.", variant: "destructive" });
+            return;
+        }
+        setStorageConfig({ ...backendDraft, restUrl: backendDraft.restUrl?.trim() });
+        toast({ title: "Storage Updated", description: "Data is now loaded from the selected backend.", variant: "success" });
+    };
     
     // Local state to simulate database configurations
     const [dbConfigs, setDbConfigs] = useState<Record<string, { autoBackup: boolean, lastBackup: string }>>({});
@@ -204,9 +227,30 @@ const DatabaseAdminView = () => {
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
+        logAudit({ action: 'export', targetType: 'database', targetId: table.name, targetLabel: table.name, details: `${data.length} rows as ${format}` });
+    };
+
+    // The files of every attachment field, with their data as data URLs
+    const collectAttachments = async () => {
+        const attachmentFields = new Map<string, string[]>(schemas.map(s => [s.id, s.fields.filter(f => f.type === 'attachment').map(f => f.name)]));
+        const refs = records.flatMap(r => (attachmentFields.get(r.tableId) || []).flatMap(name => attachmentRefs(r.data[name])));
+        const files = [];
+        for (const ref of refs) {
+            const stored = await getAttachment(ref.id);
+            if (stored) files.push({ ...stored, data: await blobToDataUrl(stored.data) });
+        }
+        return files;
     };
 
-    const handleExportAll = (format: 'json' | 'sql' | 'csv' = 'json') => {
+    const handleExportAll = async (format: 'json' | 'sql' | 'csv' = 'json') => {
+        let attachments: Awaited<ReturnType<typeof collectAttachments>>;
+        try {
+            attachments = await collectAttachments();
+        } catch (e: any) {
+            toast({ title: 'Export failed', description: e?.message || String(e), variant: 'destructive' });
+            return;
+        }
+        logAudit({ action: 'export', targetType: 'database', targetId: 'full_backup', targetLabel: 'Full backup', details: format });
         // Full System Dump
         if (format === 'sql') {
             let sql = `-- Full Database Backup\n\n`;
@@ -232,6 +276,14 @@ const DatabaseAdminView = () => {
             users.forEach(u => {
                 sql += `INSERT INTO sys_users (id, username, email, role_id) VALUES ('${u.id}', '${u.username}', '${u.email}', '${u.roleId}');\n`;
             });
+            sql += `\n`;
+
+            // 4. Attachment files
+            sql += `-- Table: attachments\n`;
+            sql += `CREATE TABLE IF NOT EXISTS attachments (id TEXT PRIMARY KEY, table_id TEXT, name TEXT, type TEXT, data TEXT);\n`;
+            attachments.forEach(a => {
+                sql += `INSERT INTO attachments (id, table_id, name, type, data) VALUES ('${a.id}', '${a.tableId}', '${a.name.replace(/'/g, "''")}', '${a.type}', '${a.data}');\n`;
+            });
 
             const blob = new Blob([sql], { type: 'application/sql' });
             const url = URL.createObjectURL(blob);
@@ -244,7 +296,7 @@ const DatabaseAdminView = () => {
             URL.revokeObjectURL(url);
         } else {
             // Simple JSON dump
-            const data = { schemas, records, users, roles };
+            const data = { schemas, records, users, roles, attachments };
             const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
@@ -266,10 +318,10 @@ const DatabaseAdminView = () => {
         
         return {
             totalTables: schemas.length, // Logical user tables
-            totalRecords: records.length,
+            totalRecords: Object.values<number>(recordCounts).reduce((sum, n) => sum + n, 0),
             totalSize: (totalSize / 1024).toFixed(2) + ' KB'
         };
-    }, [schemas, records]);
+    }, [schemas, records, recordCounts]);
 
     return (
         <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
@@ -307,6 +359,57 @@ const DatabaseAdminView = () => {
                 </Card>
             </div>
 
+            <Card>
+                <CardHeader>
+                    <CardTitle>Storage Backend</CardTitle>
+                    <CardDescription>
+                        Where schemas, records, users and configuration are persisted. An empty backend is seeded with the current data when selected.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Backend</Label>
+                            <Combobox
+                                options={STORAGE_BACKENDS}
+                                value={backendDraft.backend}
+                                onChange={(val) => setBackendDraft({ ...backendDraft, backend: val as StorageBackend })}
+                            />
+                        </div>
+                        {backendDraft.backend === 'rest' && (
+                            <div className="space-y-2">
+                                <Label>Server URL</Label>
+                                <Input
+                                    value={backendDraft.restUrl || ''}
+                                    onChange={(e) => setBackendDraft({ ...backendDraft, restUrl: e.target.value })}
+                                    placeholder="http://localhost:3001/api"
+                                    className="font-mono text-xs"
+                                />
+                                <p className="text-[10px] text-muted-foreground">Start the shared server with <span className="font-mono">npm run storage-server</span>.</p>
+                            </div>
+                        )}
+                    </div>
+                    {storageError && (
+                        <div className="flex items-start gap-2 text-xs text-destructive bg-destructive/10 p-2 rounded-md">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            <span className="break-all">Last storage error: {storageError}</span>
+                        </div>
+                    )}
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                    <span className="text-xs text-muted-foreground">
+                        Active: <span className="font-mono">{storageConfig.backend}</span> ({storageStatus})
+                    </span>
+                    <Button
+                        size="sm"
+                        onClick={handleApplyBackend}
+                        disabled={backendDraft.backend === storageConfig.backend && backendDraft.restUrl === storageConfig.restUrl}
+                    >
+                        <Save className="w-4 h-4 mr-2" /> Apply
+                    </Button>
+                </CardFooter>
+            </Card>
+
             <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-6">
                     <div className="space-y-1">
@@ -495,31 +598,184 @@ const DatabaseAdminView = () => {
     );
 };
 
-// --- Usage Statistics View ---
+// --- Audit Log View ---
 
-interface LogEntry {
-  id: string;
-  user: string;
-  action: string;
-  target: string;
-  timestamp: string;
-  status: 'success' | 'warning' | 'error';
-}
+type AuditFilters = Omit<AuditQuery, 'offset' | 'limit'>;
 
-const UsageStatisticsView = () => {
-    // Mock Data
-    const logs: LogEntry[] = useMemo(() => {
-        return Array.from({length: 20}).map((_, i) => ({
-            id: `log_${i}`,
-            user: ['admin', 'editor', 'viewer'][Math.floor(Math.random()*3)],
-            action: ['CREATE_RECORD', 'UPDATE_SCHEMA', 'EXPORT_DATA', 'LOGIN', 'DELETE_RECORD'][Math.floor(Math.random()*5)],
-            target: ['Table: Assets', 'Table: Interventions', 'System'][Math.floor(Math.random()*3)],
-            timestamp: new Date(Date.now() - Math.floor(Math.random() * 1000000000)).toISOString(),
-            status: Math.random() > 0.9 ? 'error' : (Math.random() > 0.8 ? 'warning' : 'success')
-        })).sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    }, []);
+const AUDIT_PAGE_SIZE = 25;
+
+const AuditLogView = () => {
+    const { queryAudit, auditVersion, users } = useAppStore();
+    const { toast } = useToast();
+    const [filters, setFilters] = useState<AuditFilters>({});
+    const [page, setPage] = useState(1);
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
 
-    const [activeSubTab, setActiveSubTab] = useState<'overview' | 'tech' | 'modules' | 'connectivity'>('overview');
+    useEffect(() => {
+        let cancelled = false;
+        queryAudit({ ...filters, offset: (page - 1) * AUDIT_PAGE_SIZE, limit: AUDIT_PAGE_SIZE })
+            .then(result => {
+                if (cancelled) return;
+                setEntries(result.entries);
+                setTotal(result.total);
+            })
+            .catch(e => console.error("Failed to query audit log", e));
+        return () => { cancelled = true; };
+    }, [queryAudit, auditVersion, filters, page]);
+
+    const totalPages = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+    const updateFilters = (updates: Partial<AuditFilters>) => {
+        setFilters(prev => ({ ...prev, ...updates }));
+        setPage(1);
+    };
+
+    // Exports every entry matching the current filters
+    const handleExportCSV = async () => {
+        try {
+            const result = await queryAudit({ ...filters, offset: 0, limit: Number.MAX_SAFE_INTEGER });
+            downloadFile(auditToCSV(result.entries), `audit-log-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv;charset=utf-8');
+            toast({ title: "Export Complete", description: `${result.entries.length} log entries exported.`, variant: "success" });
+        } catch (e: any) {
+            toast({ title: "Export failed", description: e?.message || String(e), variant: "destructive" });
+        }
+    };
+
+    const actionLabel = (action: AuditAction) => AUDIT_ACTIONS.find(a => a.value === action)?.label || action;
+    const targetTypeLabel = (type: AuditTargetType) => AUDIT_TARGET_TYPES.find(t => t.value === type)?.label || type;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                    <CardTitle>Audit Log</CardTitle>
+                    <CardDescription>Every change, import, export and sign-in, newest first.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={total === 0}>
+                    <Download className="w-4 h-4 mr-2" /> Export CSV
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+                    <Input
+                        className="h-8 text-xs lg:col-span-2"
+                        placeholder="Search user, target or details..."
+                        value={filters.search || ''}
+                        onChange={e => updateFilters({ search: e.target.value })}
+                    />
+                    <Select className="h-8 text-xs" value={filters.userId || ''} onChange={e => updateFilters({ userId: e.target.value || undefined })}>
+                        <option value="">All users</option>
+                        {users.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+                    </Select>
+                    <Select className="h-8 text-xs" value={filters.action || ''} onChange={e => updateFilters({ action: (e.target.value || undefined) as AuditAction | undefined })}>
+                        <option value="">All actions</option>
+                        {AUDIT_ACTIONS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                    </Select>
+                    <Select className="h-8 text-xs" value={filters.targetType || ''} onChange={e => updateFilters({ targetType: (e.target.value || undefined) as AuditTargetType | undefined })}>
+                        <option value="">All targets</option>
+                        {AUDIT_TARGET_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </Select>
+                    <div className="flex gap-1">
+                        <Input type="date" className="h-8 text-xs px-1" value={filters.from || ''} onChange={e => updateFilters({ from: e.target.value || undefined })} title="From" />
+                        <Input type="date" className="h-8 text-xs px-1" value={filters.to || ''} onChange={e => updateFilters({ to: e.target.value || undefined })} title="To" />
+                    </div>
+                </div>
+
+                <div className="border rounded-md">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-[170px]">Timestamp</TableHead>
+                                <TableHead>User</TableHead>
+                                <TableHead>Action</TableHead>
+                                <TableHead>Target</TableHead>
+                                <TableHead>Changes</TableHead>
+                                <TableHead>Status</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {entries.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No log entries match these filters.</TableCell>
+                                </TableRow>
+                            )}
+                            {entries.map(entry => (
+                                <React.Fragment key={entry.id}>
+                                    <TableRow
+                                        className={cn(entry.changes?.length && "cursor-pointer")}
+                                        onClick={() => entry.changes?.length && setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                    >
+                                        <TableCell className="font-mono text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                                        <TableCell>{entry.username}</TableCell>
+                                        <TableCell className="font-medium text-xs">{actionLabel(entry.action)}</TableCell>
+                                        <TableCell className="text-xs">
+                                            <div>{targetTypeLabel(entry.targetType)}{entry.targetLabel && <span className="text-muted-foreground"> · {entry.targetLabel}</span>}</div>
+                                            <div className="font-mono text-[10px] text-muted-foreground">{entry.targetId}</div>
+                                        </TableCell>
+                                        <TableCell className="text-xs text-muted-foreground">
+                                            {entry.changes?.length ? (
+                                                <span className="flex items-center gap-1">
+                                                    {entry.changes.length} field{entry.changes.length > 1 ? 's' : ''}
+                                                    {expandedId === entry.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                                </span>
+                                            ) : entry.details}
+                                        </TableCell>
+                                        <TableCell>
+                                            <span className={cn(
+                                                "px-2 py-0.5 rounded-full text-[10px] uppercase font-bold",
+                                                entry.status === 'success' ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+                                            )}>
+                                                {entry.status}
+                                            </span>
+                                        </TableCell>
+                                    </TableRow>
+                                    {expandedId === entry.id && entry.changes && (
+                                        <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                            <TableCell colSpan={6} className="p-0">
+                                                <div className="px-4 py-2 space-y-1 max-h-64 overflow-y-auto">
+                                                    {entry.details && <div className="text-xs text-muted-foreground pb-1">{entry.details}</div>}
+                                                    {entry.changes.map(change => (
+                                                        <div key={change.field} className="grid grid-cols-[160px_1fr_1fr] gap-3 text-xs">
+                                                            <span className="font-mono text-muted-foreground truncate" title={change.field}>{change.field}</span>
+                                                            <span className="font-mono text-red-700 bg-red-50 px-1 rounded truncate" title={formatAuditValue(change.before)}>{formatAuditValue(change.before) || '—'}</span>
+                                                            <span className="font-mono text-green-700 bg-green-50 px-1 rounded truncate" title={formatAuditValue(change.after)}>{formatAuditValue(change.after) || '—'}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">
+                        {total === 0 ? 'No entries' : `Showing ${(page - 1) * AUDIT_PAGE_SIZE + 1} to ${Math.min(page * AUDIT_PAGE_SIZE, total)} of ${total}`}
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} title="Previous Page">
+                            <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <span className="text-xs">Page {page} of {totalPages}</span>
+                        <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page >= totalPages} title="Next Page">
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- Usage Statistics View ---
+
+const UsageStatisticsView = () => {
+    const [activeSubTab, setActiveSubTab] = useState<'audit' | 'overview' | 'tech' | 'modules' | 'connectivity'>('audit');
 
     const chartData = [
         { name: 'Mon', logins: 45, edits: 120, exports: 10 },
@@ -557,7 +813,7 @@ const UsageStatisticsView = () => {
                 <h3 className="text-lg font-medium flex items-center gap-2"><Activity className="w-5 h-5" /> System Analytics</h3>
                 
                 <div className="flex bg-muted p-1 rounded-md">
-                    {['overview', 'tech', 'modules', 'connectivity'].map(tab => (
+                    {['audit', 'overview', 'tech', 'modules', 'connectivity'].map(tab => (
                         <button
                             key={tab}
                             onClick={() => setActiveSubTab(tab as any)}
@@ -572,6 +828,8 @@ const UsageStatisticsView = () => {
                 </div>
             </div>
             
+            {activeSubTab === 'audit' && <AuditLogView />}
+
             {activeSubTab === 'overview' && (
                 <div className="space-y-6">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -625,42 +883,6 @@ const UsageStatisticsView = () => {
                             </CardContent>
                         </Card>
                     </div>
-
-                    <Card>
-                        <CardHeader><CardTitle>Audit Logs</CardTitle></CardHeader>
-                        <CardContent>
-                            <Table>
-                                <TableHeader>
-                                    <TableRow>
-                                        <TableHead>Timestamp</TableHead>
-                                        <TableHead>User</TableHead>
-                                        <TableHead>Action</TableHead>
-                                        <TableHead>Target</TableHead>
-                                        <TableHead>Status</TableHead>
-                                    </TableRow>
-                                </TableHeader>
-                                <TableBody>
-                                    {logs.map(log => (
-                                        <TableRow key={log.id}>
-                                            <TableCell className="font-mono text-xs text-muted-foreground">{new Date(log.timestamp).toLocaleString()}</TableCell>
-                                            <TableCell>{log.user}</TableCell>
-                                            <TableCell className="font-medium text-xs">{log.action}</TableCell>
-                                            <TableCell className="text-muted-foreground">{log.target}</TableCell>
-                                            <TableCell>
-                                                <span className={cn(
-                                                    "px-2 py-0.5 rounded-full text-[10px] uppercase font-bold",
-                                                    log.status === 'success' ? "bg-green-100 text-green-700" : 
-                                                    log.status === 'warning' ? "bg-yellow-100 text-yellow-700" : "bg-red-100 text-red-700"
-                                                )}>
-                                                    {log.status}
-                                                </span>
-                                            </TableCell>
-                                        </TableRow>
-                                    ))}
-                                </TableBody>
-                            </Table>
-                        </CardContent>
-                    </Card>
                 </div>
             )}
 
@@ -743,11 +965,23 @@ const UsageStatisticsView = () => {
 // --- Map Configuration View ---
 
 const MapConfigView = () => {
-    const { mapConfig, updateMapConfig, schemas, updateSchema } = useAppStore();
+    const { mapConfig, updateMapConfig, schemas, updateSchema, crsList } = useAppStore();
     const { toast } = useToast();
-    const [activeTab, setActiveTab] = useState<'layers' | 'styles'>('layers');
+    const [activeTab, setActiveTab] = useState<'layers' | 'styles' | 'crs'>('layers');
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editingLayer, setEditingLayer] = useState<Partial<TileLayerConfig>>({});
+    // Tile grid fields are edited as text and parsed on save
+    const [gridInput, setGridInput] = useState({ originX: '', originY: '', resolutions: '', tileSize: '' });
+
+    // WMTS: the capabilities document is only needed while choosing the layer
+    const [capabilitiesInput, setCapabilitiesInput] = useState('');
+    const [wmtsCapabilities, setWmtsCapabilities] = useState<WmtsCapabilities | null>(null);
+    const [isLoadingCapabilities, setIsLoadingCapabilities] = useState(false);
+
+    // Coordinate Systems State
+    const [isCrsModalOpen, setIsCrsModalOpen] = useState(false);
+    const [editingCrs, setEditingCrs] = useState<Partial<CrsDefinition> & { originalCode?: string }>({});
+    const customCrs = mapConfig.customCrs || [];
     
     // Feature Styling State
     const [selectedStyleSchemaId, setSelectedStyleSchemaId] = useState<string | null>(null);
@@ -756,12 +990,40 @@ const MapConfigView = () => {
     [schemas, selectedStyleSchemaId]);
 
     const handleSaveLayer = () => {
-        if (!editingLayer.name || !editingLayer.url) {
-            toast({ title: "Error", description: "Name and URL are required.", variant: "destructive" });
+        const type = editingLayer.type || 'xyz';
+        if (!editingLayer.name || (!editingLayer.url && type !== 'vector')) {
+            toast({ title: "Error", description: type === 'wmts' ? "Name and a WMTS layer are required." : "Name and URL are required.", variant: "destructive" });
             return;
         }
+        if (type === 'wms' && !editingLayer.wms?.layers.trim()) {
+            toast({ title: "Error", description: "A WMS layer needs at least one layer name.", variant: "destructive" });
+            return;
+        }
+        if (type === 'vector') {
+            const styleError = validateVectorStyle(editingLayer.vector?.style || '') ||
+                (editingLayer.vector?.darkStyle?.trim() ? validateVectorStyle(editingLayer.vector.darkStyle) : null);
+            if (styleError) {
+                toast({ title: "Error", description: styleError, variant: "destructive" });
+                return;
+            }
+        }
 
-        const newLayer = {
+        // Web Mercator and plate carrée have standard grids; any other CRS needs its own.
+        // MapLibre only renders Web Mercator.
+        const crs = type === 'vector' ? WEB_MERCATOR : editingLayer.crs || WEB_MERCATOR;
+        let tileGrid: TileLayerConfig['tileGrid'];
+        if (type !== 'vector' && (gridInput.resolutions.trim() || (crs !== WEB_MERCATOR && crs !== WGS84))) {
+            const origin: [number, number] = [parseFloat(gridInput.originX), parseFloat(gridInput.originY)];
+            const resolutions = gridInput.resolutions.split(/[\s,;]+/).filter(Boolean).map(Number);
+            const isDescending = resolutions.every((r, i) => r > 0 && (i === 0 || r < resolutions[i - 1]));
+            if (!origin.every(isFinite) || resolutions.length === 0 || !resolutions.every(isFinite) || !isDescending) {
+                toast({ title: "Error", description: `A layer in ${crs} needs a grid origin and decreasing resolutions.`, variant: "destructive" });
+                return;
+            }
+            tileGrid = { origin, resolutions, tileSize: Number(gridInput.tileSize) || undefined };
+        }
+
+        const newLayer: TileLayerConfig = {
             id: editingLayer.id || genId(),
             name: editingLayer.name,
             url: editingLayer.url,
@@ -769,7 +1031,13 @@ const MapConfigView = () => {
             maxZoom: Number(editingLayer.maxZoom) || 19,
             subdomains: editingLayer.subdomains || '',
             isDefaultVisible: editingLayer.isDefaultVisible,
-            defaultOpacity: editingLayer.defaultOpacity ?? 1
+            defaultOpacity: editingLayer.defaultOpacity ?? 1,
+            ...(crs !== WEB_MERCATOR ? { crs } : {}),
+            ...(tileGrid ? { tileGrid } : {}),
+            ...(type !== 'xyz' ? { type } : {}),
+            ...(type === 'wms' ? { wms: editingLayer.wms } : {}),
+            ...(type === 'wmts' ? { wmts: editingLayer.wmts } : {}),
+            ...(type === 'vector' ? { vector: editingLayer.vector } : {})
         };
 
         if (editingLayer.id) {
@@ -802,9 +1070,133 @@ const MapConfigView = () => {
         } else {
             setEditingLayer({ name: '', url: '', attribution: '', maxZoom: 19, subdomains: 'abc', isDefaultVisible: false, defaultOpacity: 1 });
         }
+        fillGridInput(layer?.tileGrid);
+        setCapabilitiesInput(layer?.wmts?.capabilitiesUrl || '');
+        setWmtsCapabilities(null);
         setIsEditModalOpen(true);
     };
 
+    const fillGridInput = (grid?: TileLayerConfig['tileGrid']) => {
+        setGridInput({
+            originX: grid ? String(grid.origin[0]) : '',
+            originY: grid ? String(grid.origin[1]) : '',
+            resolutions: grid ? grid.resolutions.join(', ') : '',
+            tileSize: grid?.tileSize ? String(grid.tileSize) : ''
+        });
+    };
+
+    // Service Layer Helpers
+    const changeLayerType = (type: TileLayerType) => {
+        const wms: WmsLayerOptions = { layers: '', styles: '', format: 'image/png', transparent: true, version: '1.3.0', queryable: true, infoFormat: 'application/json' };
+        setEditingLayer({
+            ...editingLayer,
+            type,
+            url: type === (editingLayer.type || 'xyz') ? editingLayer.url : '',
+            wms: type === 'wms' ? editingLayer.wms || wms : undefined,
+            wmts: type === 'wmts' ? editingLayer.wmts : undefined,
+            vector: type === 'vector' ? editingLayer.vector || { style: '' } : undefined
+        });
+    };
+
+    const updateWms = (updates: Partial<WmsLayerOptions>) => {
+        setEditingLayer({ ...editingLayer, wms: { ...editingLayer.wms!, ...updates } });
+    };
+
+    const updateVector = (updates: Partial<VectorTileOptions>) => {
+        setEditingLayer({ ...editingLayer, vector: { ...editingLayer.vector!, ...updates } });
+    };
+
+    const applyWmtsChoice = (capabilities: WmtsCapabilities, choice: WmtsChoice) => {
+        try {
+            const resolved = createWmtsLayer(capabilities, choice);
+            const title = capabilities.layers.find(l => l.identifier === choice.layer)?.title;
+            setEditingLayer(prev => ({ ...prev, ...resolved, name: prev.name || title }));
+            fillGridInput(resolved.tileGrid);
+        } catch (err) {
+            toast({ title: "Unsupported Layer", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+        }
+    };
+
+    // Defaults for a layer: its default style, a matrix set in a known CRS, PNG when offered
+    const selectWmtsLayer = (capabilities: WmtsCapabilities, identifier: string) => {
+        const layer = capabilities.layers.find(l => l.identifier === identifier);
+        if (!layer) return;
+        applyWmtsChoice(capabilities, {
+            layer: layer.identifier,
+            style: layer.styles[0] || 'default',
+            tileMatrixSet: layer.matrixSets.find(id => getCrs(capabilities.matrixSets[id]?.crs)) || layer.matrixSets[0] || '',
+            format: layer.formats.find(f => f === 'image/png') || layer.formats[0] || 'image/png'
+        });
+    };
+
+    const loadCapabilities = async () => {
+        if (!capabilitiesInput.trim()) return;
+        setIsLoadingCapabilities(true);
+        try {
+            const capabilities = await fetchWmtsCapabilities(capabilitiesInput);
+            setWmtsCapabilities(capabilities);
+            const current = capabilities.layers.find(l => l.identifier === editingLayer.wmts?.layer);
+            if (current && editingLayer.wmts) {
+                applyWmtsChoice(capabilities, editingLayer.wmts);
+            } else {
+                selectWmtsLayer(capabilities, capabilities.layers[0].identifier);
+            }
+        } catch (err) {
+            toast({ title: "Capabilities Failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+        } finally {
+            setIsLoadingCapabilities(false);
+        }
+    };
+
+    const wmtsLayerInfo = wmtsCapabilities?.layers.find(l => l.identifier === editingLayer.wmts?.layer);
+
+    // Coordinate System Helpers
+    const openCrsEdit = (crs?: CrsDefinition) => {
+        setEditingCrs(crs ? { ...crs, originalCode: crs.code } : { code: '', name: '', proj4: '' });
+        setIsCrsModalOpen(true);
+    };
+
+    const handleSaveCrs = () => {
+        const code = (editingCrs.code || '').trim();
+        const definition = (editingCrs.proj4 || '').trim();
+        if (!code || !editingCrs.name?.trim()) {
+            toast({ title: "Error", description: "Code and name are required.", variant: "destructive" });
+            return;
+        }
+        if (BUILT_IN_CRS.some(c => c.code === code) || (code !== editingCrs.originalCode && customCrs.some(c => c.code === code))) {
+            toast({ title: "Error", description: `${code} is already defined.`, variant: "destructive" });
+            return;
+        }
+        const error = validateProjDefinition(definition);
+        if (error) {
+            toast({ title: "Invalid Definition", description: error, variant: "destructive" });
+            return;
+        }
+
+        const crs: CrsDefinition = { code, name: editingCrs.name.trim(), proj4: definition, units: detectUnits(definition) };
+        const updated = editingCrs.originalCode
+            ? customCrs.map(c => c.code === editingCrs.originalCode ? crs : c)
+            : [...customCrs, crs];
+        // Base layers follow a renamed code
+        const tileLayers = editingCrs.originalCode && editingCrs.originalCode !== code
+            ? mapConfig.tileLayers.map(l => l.crs === editingCrs.originalCode ? { ...l, crs: code } : l)
+            : mapConfig.tileLayers;
+        updateMapConfig({ ...mapConfig, tileLayers, customCrs: updated });
+        toast({ title: editingCrs.originalCode ? "Updated" : "Created", description: `Coordinate system ${code} saved.` });
+        setIsCrsModalOpen(false);
+        setEditingCrs({});
+    };
+
+    const handleDeleteCrs = (code: string) => {
+        const usedBy = mapConfig.tileLayers.filter(l => l.crs === code);
+        if (usedBy.length > 0) {
+            toast({ title: "Error", description: `${code} is used by ${usedBy.map(l => l.name).join(', ')}.`, variant: "destructive" });
+            return;
+        }
+        updateMapConfig({ ...mapConfig, customCrs: customCrs.filter(c => c.code !== code) });
+        toast({ title: "Deleted", description: `Coordinate system ${code} removed.` });
+    };
+
     // Style Helpers
     const updateSubLayerConfig = (schema: TableSchema, key: string, value: any) => {
         const current = schema.subLayerConfig || { enabled: false, field: '', rules: [] };
@@ -889,6 +1281,15 @@ const MapConfigView = () => {
                 >
                     Layer Styles
                 </button>
+                <button
+                    onClick={() => setActiveTab('crs')}
+                    className={cn(
+                        "px-3 py-1.5 text-sm font-medium rounded-sm transition-all",
+                        activeTab === 'crs' ? "bg-background shadow text-foreground" : "text-muted-foreground hover:text-foreground"
+                    )}
+                >
+                    Coordinate Systems
+                </button>
             </div>
 
             {activeTab === 'layers' && (
@@ -903,6 +1304,7 @@ const MapConfigView = () => {
                                 <TableRow>
                                     <TableHead>Name</TableHead>
                                     <TableHead>URL Template</TableHead>
+                                    <TableHead className="w-[110px]">CRS</TableHead>
                                     <TableHead className="w-[100px]">Default</TableHead>
                                     <TableHead className="w-[100px]">Opacity</TableHead>
                                     <TableHead className="text-right">Actions</TableHead>
@@ -913,9 +1315,15 @@ const MapConfigView = () => {
                                     <TableRow key={layer.id}>
                                         <TableCell className="font-medium">
                                             {layer.name}
+                                            {layer.type && layer.type !== 'xyz' && (
+                                                <span className="ml-2 text-[10px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded border border-blue-200 uppercase">{layer.type}</span>
+                                            )}
                                         </TableCell>
                                         <TableCell className="text-xs text-muted-foreground max-w-[300px] truncate" title={layer.url}>
-                                            {layer.url}
+                                            {layer.url || (layer.vector && (layer.vector.style.trim().startsWith('{') ? 'Inline style' : layer.vector.style))}
+                                        </TableCell>
+                                        <TableCell className="text-xs font-mono">
+                                            {layer.crs || WEB_MERCATOR}
                                         </TableCell>
                                         <TableCell>
                                             {layer.isDefaultVisible ? (
@@ -950,6 +1358,63 @@ const MapConfigView = () => {
                 </Card>
             )}
 
+            {activeTab === 'crs' && (
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                        <div>
+                            <CardTitle>Coordinate Systems</CardTitle>
+                            <CardDescription>Systems available to display, type, import and export coordinates, and to tile base layers.</CardDescription>
+                        </div>
+                        <Button size="sm" onClick={() => openCrsEdit()}><Plus className="w-4 h-4 mr-2" /> Add System</Button>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-[130px]">Code</TableHead>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Definition</TableHead>
+                                    <TableHead className="w-[90px]">Units</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {crsList.map(crs => {
+                                    const isBuiltIn = BUILT_IN_CRS.some(c => c.code === crs.code);
+                                    return (
+                                        <TableRow key={crs.code}>
+                                            <TableCell className="font-mono text-xs">{crs.code}</TableCell>
+                                            <TableCell className="font-medium">{crs.name}</TableCell>
+                                            <TableCell className="text-xs text-muted-foreground font-mono max-w-[300px] truncate" title={crs.proj4}>{crs.proj4}</TableCell>
+                                            <TableCell className="text-xs">{crs.units}</TableCell>
+                                            <TableCell className="text-right">
+                                                {isBuiltIn ? (
+                                                    <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded border border-slate-200">Built-in</span>
+                                                ) : (
+                                                    <div className="flex justify-end gap-2">
+                                                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openCrsEdit(crs)}>
+                                                            <Edit className="w-4 h-4" />
+                                                        </Button>
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8 text-destructive hover:bg-destructive/10"
+                                                            onClick={() => handleDeleteCrs(crs.code)}
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </Button>
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
             {activeTab === 'styles' && (
                 <div className="grid grid-cols-12 gap-6 h-[600px]">
                     {/* Layer List */}
@@ -1068,7 +1533,7 @@ const MapConfigView = () => {
             )}
 
             <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
-                <DialogContent>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle>{editingLayer.id ? 'Edit Layer' : 'Add Layer'}</DialogTitle>
                     </DialogHeader>
@@ -1078,24 +1543,198 @@ const MapConfigView = () => {
                             <Input value={editingLayer.name || ''} onChange={e => setEditingLayer({...editingLayer, name: e.target.value})} placeholder="e.g. OpenStreetMap" />
                         </div>
                         <div className="space-y-2">
-                            <Label>URL Template <span className="text-red-500">*</span></Label>
-                            <Input value={editingLayer.url || ''} onChange={e => setEditingLayer({...editingLayer, url: e.target.value})} placeholder="https://{s}.tile.osm.org/{z}/{x}/{y}.png" />
-                            <p className="text-xs text-muted-foreground">Use placeholders like {'{s}'}, {'{z}'}, {'{x}'}, {'{y}'}</p>
+                            <Label>Type</Label>
+                            <Combobox
+                                options={[
+                                    { value: 'xyz', label: 'XYZ Tiles' },
+                                    { value: 'wms', label: 'WMS' },
+                                    { value: 'wmts', label: 'WMTS' },
+                                    { value: 'vector', label: 'Vector Tiles (MVT)' }
+                                ]}
+                                value={editingLayer.type || 'xyz'}
+                                onChange={(val) => val && changeLayerType(val as TileLayerType)}
+                            />
                         </div>
+                        {(editingLayer.type || 'xyz') === 'xyz' && (
+                            <div className="space-y-2">
+                                <Label>URL Template <span className="text-red-500">*</span></Label>
+                                <Input value={editingLayer.url || ''} onChange={e => setEditingLayer({...editingLayer, url: e.target.value})} placeholder="https://{s}.tile.osm.org/{z}/{x}/{y}.png" />
+                                <p className="text-xs text-muted-foreground">Use placeholders like {'{s}'}, {'{z}'}, {'{x}'}, {'{y}'}</p>
+                            </div>
+                        )}
+                        {editingLayer.type === 'wms' && editingLayer.wms && (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>Service URL <span className="text-red-500">*</span></Label>
+                                    <Input value={editingLayer.url || ''} onChange={e => setEditingLayer({...editingLayer, url: e.target.value})} placeholder="https://example.org/geoserver/wms" />
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label>Layers <span className="text-red-500">*</span></Label>
+                                        <Input value={editingLayer.wms.layers} onChange={e => updateWms({ layers: e.target.value })} placeholder="cadastre:parcels,cadastre:buildings" />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Styles</Label>
+                                        <Input value={editingLayer.wms.styles || ''} onChange={e => updateWms({ styles: e.target.value })} placeholder="Server default" />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label>Image Format</Label>
+                                        <Combobox options={IMAGE_FORMATS} value={editingLayer.wms.format} onChange={(val) => val && updateWms({ format: val })} />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Version</Label>
+                                        <Combobox options={WMS_VERSIONS} value={editingLayer.wms.version} onChange={(val) => val && updateWms({ version: val as WmsLayerOptions['version'] })} />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="flex flex-col gap-2">
+                                        <Label className="text-sm">Transparent</Label>
+                                        <Switch checked={editingLayer.wms.transparent} onCheckedChange={(c) => updateWms({ transparent: c })} />
+                                    </div>
+                                    <div className="flex flex-col gap-2">
+                                        <Label className="text-sm">Feature Info on Click</Label>
+                                        <div className="flex items-center gap-2">
+                                            <Switch checked={editingLayer.wms.queryable || false} onCheckedChange={(c) => updateWms({ queryable: c })} />
+                                            {editingLayer.wms.queryable && (
+                                                <Combobox options={INFO_FORMATS} value={editingLayer.wms.infoFormat || 'application/json'} onChange={(val) => val && updateWms({ infoFormat: val })} className="h-8" />
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            </>
+                        )}
+                        {editingLayer.type === 'wmts' && (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>Capabilities URL <span className="text-red-500">*</span></Label>
+                                    <div className="flex gap-2">
+                                        <Input value={capabilitiesInput} onChange={e => setCapabilitiesInput(e.target.value)} placeholder="https://example.org/wmts/1.0.0/WMTSCapabilities.xml" />
+                                        <Button variant="outline" onClick={loadCapabilities} disabled={isLoadingCapabilities || !capabilitiesInput.trim()}>
+                                            {isLoadingCapabilities ? <RefreshCw className="w-4 h-4 animate-spin" /> : 'Load'}
+                                        </Button>
+                                    </div>
+                                    {editingLayer.wmts && !wmtsCapabilities && (
+                                        <p className="text-xs text-muted-foreground">
+                                            {editingLayer.wmts.layer} ({editingLayer.wmts.style}, {editingLayer.wmts.tileMatrixSet}, {editingLayer.wmts.format}). Load the capabilities to change it.
+                                        </p>
+                                    )}
+                                </div>
+                                {wmtsCapabilities && editingLayer.wmts && (
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="space-y-2 col-span-2">
+                                            <Label>Layer</Label>
+                                            <Combobox
+                                                options={wmtsCapabilities.layers.map(l => ({ value: l.identifier, label: l.title }))}
+                                                value={editingLayer.wmts.layer}
+                                                onChange={(val) => val && selectWmtsLayer(wmtsCapabilities, val)}
+                                            />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Style</Label>
+                                            <Combobox
+                                                options={(wmtsLayerInfo?.styles || []).map(v => ({ value: v, label: v }))}
+                                                value={editingLayer.wmts.style}
+                                                onChange={(val) => val && applyWmtsChoice(wmtsCapabilities, { ...editingLayer.wmts!, style: val })}
+                                            />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Format</Label>
+                                            <Combobox
+                                                options={(wmtsLayerInfo?.formats || []).map(v => ({ value: v, label: v }))}
+                                                value={editingLayer.wmts.format}
+                                                onChange={(val) => val && applyWmtsChoice(wmtsCapabilities, { ...editingLayer.wmts!, format: val })}
+                                            />
+                                        </div>
+                                        <div className="space-y-2 col-span-2">
+                                            <Label>Tile Matrix Set</Label>
+                                            <Combobox
+                                                options={(wmtsLayerInfo?.matrixSets || []).map(v => ({ value: v, label: `${v} (${wmtsCapabilities.matrixSets[v]?.crs || 'unknown CRS'})` }))}
+                                                value={editingLayer.wmts.tileMatrixSet}
+                                                onChange={(val) => val && applyWmtsChoice(wmtsCapabilities, { ...editingLayer.wmts!, tileMatrixSet: val })}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                            </>
+                        )}
+                        {editingLayer.type === 'vector' && editingLayer.vector && (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>Style <span className="text-red-500">*</span></Label>
+                                    <Textarea rows={4} className="font-mono text-xs" value={editingLayer.vector.style} onChange={e => updateVector({ style: e.target.value })} placeholder="https://example.org/styles/basemap/style.json" />
+                                    {editingLayer.vector.style.trim() !== '' && validateVectorStyle(editingLayer.vector.style) && (
+                                        <p className="text-xs text-red-500">{validateVectorStyle(editingLayer.vector.style)}</p>
+                                    )}
+                                    <p className="text-xs text-muted-foreground">A MapLibre style URL, or the style JSON itself.</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Dark Theme Style</Label>
+                                    <Textarea rows={3} className="font-mono text-xs" value={editingLayer.vector.darkStyle || ''} onChange={e => updateVector({ darkStyle: e.target.value })} placeholder="Same as the style" />
+                                    {editingLayer.vector.darkStyle?.trim() && validateVectorStyle(editingLayer.vector.darkStyle) && (
+                                        <p className="text-xs text-red-500">{validateVectorStyle(editingLayer.vector.darkStyle)}</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Tile URL</Label>
+                                    <Input value={editingLayer.url || ''} onChange={e => setEditingLayer({...editingLayer, url: e.target.value})} placeholder="http://localhost:8080/tiles/{z}/{x}/{y}.pbf" />
+                                    <p className="text-xs text-muted-foreground">Serves the style's vector sources that declare no url or tiles, e.g. a self-hosted tile folder.</p>
+                                </div>
+                            </>
+                        )}
                         <div className="space-y-2">
                             <Label>Attribution</Label>
                             <Input value={editingLayer.attribution || ''} onChange={e => setEditingLayer({...editingLayer, attribution: e.target.value})} placeholder="© OpenStreetMap contributors" />
                         </div>
                         <div className="grid grid-cols-2 gap-4">
-                            <div className="space-y-2">
-                                <Label>Subdomains</Label>
-                                <Input value={editingLayer.subdomains || ''} onChange={e => setEditingLayer({...editingLayer, subdomains: e.target.value})} placeholder="abc" />
-                            </div>
+                            {(editingLayer.type || 'xyz') === 'xyz' && (
+                                <div className="space-y-2">
+                                    <Label>Subdomains</Label>
+                                    <Input value={editingLayer.subdomains || ''} onChange={e => setEditingLayer({...editingLayer, subdomains: e.target.value})} placeholder="abc" />
+                                </div>
+                            )}
                             <div className="space-y-2">
                                 <Label>Max Zoom</Label>
                                 <Input type="number" value={editingLayer.maxZoom || ''} onChange={e => setEditingLayer({...editingLayer, maxZoom: Number(e.target.value)})} placeholder="19" />
                             </div>
                         </div>
+
+                        {editingLayer.type !== 'vector' && (
+                        <div className="space-y-4 border-t pt-4">
+                            <div className="space-y-2">
+                                <Label>Tile Grid CRS</Label>
+                                <Combobox
+                                    options={crsList.map(c => ({ value: c.code, label: `${c.code} - ${c.name}` }))}
+                                    value={editingLayer.crs || WEB_MERCATOR}
+                                    onChange={(val) => setEditingLayer({...editingLayer, crs: val || WEB_MERCATOR})}
+                                />
+                            </div>
+                            {((editingLayer.crs || WEB_MERCATOR) !== WEB_MERCATOR || gridInput.resolutions.trim() !== '') && (
+                                <>
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div className="space-y-2">
+                                            <Label>Origin X</Label>
+                                            <Input value={gridInput.originX} onChange={e => setGridInput({...gridInput, originX: e.target.value})} placeholder={getCrs(editingLayer.crs)?.units === 'degrees' ? '-180' : '0'} />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Origin Y</Label>
+                                            <Input value={gridInput.originY} onChange={e => setGridInput({...gridInput, originY: e.target.value})} placeholder={getCrs(editingLayer.crs)?.units === 'degrees' ? '90' : '0'} />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Tile Size</Label>
+                                            <Input type="number" value={gridInput.tileSize} onChange={e => setGridInput({...gridInput, tileSize: e.target.value})} placeholder="256" />
+                                        </div>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Resolutions</Label>
+                                        <Textarea rows={2} className="font-mono text-xs" value={gridInput.resolutions} onChange={e => setGridInput({...gridInput, resolutions: e.target.value})} placeholder="104579.22, 52277.53, 26135.49, ..." />
+                                        <p className="text-xs text-muted-foreground">Units per pixel for zoom 0, 1, 2... Origin is the top-left corner of the grid, in the units of the CRS.{(editingLayer.crs || WEB_MERCATOR) === WEB_MERCATOR && ' Leave empty for the standard Web Mercator grid.'}{editingLayer.crs === WGS84 && ' Leave empty for the standard plate carrée grid.'}</p>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                        )}
                         
                         <div className="grid grid-cols-2 gap-4 border-t pt-4">
                             <div className="flex flex-col gap-2">
@@ -1129,6 +1768,190 @@ const MapConfigView = () => {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            <Dialog open={isCrsModalOpen} onOpenChange={setIsCrsModalOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{editingCrs.originalCode ? 'Edit Coordinate System' : 'Add Coordinate System'}</DialogTitle>
+                        <DialogDescription>Any definition proj4 understands: a proj string or OGC WKT.</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-2">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Code <span className="text-red-500">*</span></Label>
+                                <Input value={editingCrs.code || ''} onChange={e => setEditingCrs({...editingCrs, code: e.target.value})} placeholder="EPSG:27700" />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Name <span className="text-red-500">*</span></Label>
+                                <Input value={editingCrs.name || ''} onChange={e => setEditingCrs({...editingCrs, name: e.target.value})} placeholder="OSGB36 / British National Grid" />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Definition <span className="text-red-500">*</span></Label>
+                            <Textarea rows={4} className="font-mono text-xs" value={editingCrs.proj4 || ''} onChange={e => setEditingCrs({...editingCrs, proj4: e.target.value})} placeholder="+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +units=m +no_defs" />
+                            {editingCrs.proj4?.trim() && (
+                                <p className="text-xs text-muted-foreground">
+                                    {validateProjDefinition(editingCrs.proj4) || `Valid definition, in ${detectUnits(editingCrs.proj4)}.`}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsCrsModalOpen(false)}>Cancel</Button>
+                        <Button onClick={handleSaveCrs}>Save</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+// --- Trash ---
+
+const TrashView = () => {
+    const { loadTrash, trashVersion, restoreTrashEntry, purgeTrashEntry, schemas, hasPermission } = useAppStore();
+    const { toast } = useToast();
+    const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+    const [purgeEntry, setPurgeEntry] = useState<TrashEntry | null>(null);
+    const canPurge = hasPermission('sys_admin');
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTrash()
+            .then(items => { if (!cancelled) setEntries(items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))); })
+            .catch(e => console.error("Failed to load trash", e));
+        return () => { cancelled = true; };
+    }, [loadTrash, trashVersion]);
+
+    // A record can only go back into a table that exists
+    const missingTable = (entry: TrashEntry) => {
+        const tableId = entry.items.records?.[0]?.tableId;
+        return entry.type === 'record' && !!tableId && !schemas.some(s => s.id === tableId);
+    };
+
+    const tableName = (entry: TrashEntry) => {
+        if (entry.type === 'schema') return entry.label;
+        const tableId = entry.items.records?.[0]?.tableId;
+        return schemas.find(s => s.id === tableId)?.name || 'Deleted table';
+    };
+
+    const contents = (entry: TrashEntry) => {
+        if (entry.type === 'record') return '1 record';
+        const { records = [], dashboards = [], calendars = [] } = entry.items;
+        return [
+            `${records.length} record${records.length === 1 ? '' : 's'}`,
+            dashboards.length > 0 && `${dashboards.length} dashboard${dashboards.length === 1 ? '' : 's'}`,
+            calendars.length > 0 && `${calendars.length} calendar${calendars.length === 1 ? '' : 's'}`
+        ].filter(Boolean).join(', ');
+    };
+
+    const daysLeft = (entry: TrashEntry) => Math.max(0, Math.ceil((new Date(entry.expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+    const handleRestore = (entry: TrashEntry) => {
+        try {
+            restoreTrashEntry(entry);
+        } catch (e) {
+            toast({ title: "Cannot Restore", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+            return;
+        }
+        toast({ title: "Restored", description: `${entry.type === 'schema' ? 'Table' : 'Record'} "${entry.label}" is back (${contents(entry)}).`, variant: "success" });
+    };
+
+    const confirmPurge = () => {
+        if (!purgeEntry) return;
+        try {
+            purgeTrashEntry(purgeEntry);
+        } catch (e) {
+            toast({ title: "Cannot Delete", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+            setPurgeEntry(null);
+            return;
+        }
+        toast({ title: "Permanently deleted", description: `"${purgeEntry.label}" can no longer be restored.`, variant: "info" });
+        setPurgeEntry(null);
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
+            <div className="space-y-1">
+                <h3 className="text-lg font-medium">Trash</h3>
+                <p className="text-sm text-muted-foreground">
+                    Deleted tables and records are kept for {TRASH_RETENTION_DAYS} days, then permanently deleted. Restoring a table also restores its records, dashboards and calendars.
+                </p>
+            </div>
+            <Card>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Item</TableHead>
+                                <TableHead>Table</TableHead>
+                                <TableHead>Contents</TableHead>
+                                <TableHead>Deleted</TableHead>
+                                <TableHead>Expires</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {entries?.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">The trash is empty.</TableCell>
+                                </TableRow>
+                            )}
+                            {entries?.map(entry => (
+                                <TableRow key={entry.id}>
+                                    <TableCell>
+                                        <div className="flex items-center gap-2">
+                                            {entry.type === 'schema' ? <TableProperties className="w-4 h-4 text-muted-foreground" /> : <FileJson className="w-4 h-4 text-muted-foreground" />}
+                                            <span className="font-medium">{entry.label}</span>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="text-sm text-muted-foreground">{tableName(entry)}</TableCell>
+                                    <TableCell className="text-xs text-muted-foreground">{contents(entry)}</TableCell>
+                                    <TableCell className="text-xs">
+                                        <div>{new Date(entry.deletedAt).toLocaleString()}</div>
+                                        <div className="text-muted-foreground">by {entry.deletedBy}</div>
+                                    </TableCell>
+                                    <TableCell className="text-xs text-muted-foreground">{daysLeft(entry)} days</TableCell>
+                                    <TableCell className="text-right">
+                                        <div className="flex justify-end gap-2">
+                                            <Button
+                                                variant="outline" size="sm"
+                                                disabled={missingTable(entry)}
+                                                title={missingTable(entry) ? 'Restore its table first' : undefined}
+                                                onClick={() => handleRestore(entry)}
+                                            >
+                                                <RefreshCw className="w-3 h-3 mr-2" /> Restore
+                                            </Button>
+                                            {canPurge && (
+                                                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => setPurgeEntry(entry)}>
+                                                    <Trash2 className="w-3 h-3 mr-2" /> Delete forever
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!purgeEntry} onOpenChange={(open) => !open && setPurgeEntry(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2 text-destructive">
+                            <AlertTriangle className="w-5 h-5" /> Delete permanently
+                        </DialogTitle>
+                        <DialogDescription>
+                            "{purgeEntry?.label}" ({purgeEntry && contents(purgeEntry)}) and its version history will be deleted. This action cannot be undone.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setPurgeEntry(null)}>Cancel</Button>
+                        <Button variant="destructive" onClick={confirmPurge}>Delete forever</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 };
@@ -1138,6 +1961,7 @@ const MapConfigView = () => {
 export const Backoffice: React.FC = () => {
     const { t } = useTranslation();
     const { hasPermission, schemas, addSchema, updateSchema, deleteSchema, currentUser, preferences, updatePreferences, mapConfig, updateMapConfig } = useAppStore();
+    const { toast } = useToast();
     const [activeSection, setActiveSection] = useState('general');
     
     // Schema Editor State
@@ -1157,9 +1981,13 @@ export const Backoffice: React.FC = () => {
         setEditingSchema(null);
     };
 
-    const handleSchemaDelete = (id: string) => {
-        if (confirm("Are you sure you want to delete this table? All data will be lost.")) {
-            deleteSchema(id);
+    const handleSchemaDelete = async (id: string) => {
+        if (confirm("Move this table to the trash? Its records, dashboards and calendars go with it and can be restored from Trash.")) {
+            try {
+                await deleteSchema(id);
+            } catch (e) {
+                toast({ title: "Cannot Delete Table", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+            }
         }
     };
 
@@ -1243,6 +2071,9 @@ export const Backoffice: React.FC = () => {
             case 'logs':
                 return <UsageStatisticsView />;
 
+            case 'trash':
+                return <TrashView />;
+
             case 'schemas':
                 return (
                     <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
@@ -1321,6 +2152,10 @@ export const Backoffice: React.FC = () => {
                             id="logs" label="System Logs" icon={Activity} 
                             active={activeSection === 'logs'} onClick={() => handleNavigation('logs')} 
                         />
+                        <NavItem 
+                            id="trash" label="Trash" icon={Trash2} 
+                            active={activeSection === 'trash'} onClick={() => handleNavigation('trash')} 
+                        />
                     </NavGroup>
 
                     <NavGroup title="Modules">
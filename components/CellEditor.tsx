@@ -0,0 +1,61 @@
+import React from 'react';
+import { FieldDefinition } from '../types';
+import { cn } from '../lib/utils';
+import { inputType } from '../services/fieldFormat';
+import { Input } from './ui/input';
+import { Select } from './ui/select';
+
+interface CellEditorProps {
+  field: FieldDefinition;
+  value: string; // The value as text (see cellText)
+  onChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  onBlur?: () => void;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+// Text-based input for a grid cell or a bulk edit; the caller reads the text with parseCellText
+export const CellEditor = ({ field, value, onChange, onKeyDown, onBlur, autoFocus, className }: CellEditorProps) => {
+  const common = { onKeyDown, onBlur, autoFocus, className: cn("h-8 text-sm", className) };
+
+  if (field.type === 'select' || field.type === 'boolean') {
+    const options = field.type === 'boolean'
+      ? [{ value: 'true', label: field.booleanLabels?.true || 'Yes' }, { value: 'false', label: field.booleanLabels?.false || 'No' }]
+      : field.options || [];
+    return (
+      <Select {...common} className={cn(common.className, "py-0 pr-8")} value={value} onChange={e => onChange(e.target.value)}>
+        {field.type === 'select' && <option value="">-</option>}
+        {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </Select>
+    );
+  }
+
+  if (field.type === 'date' || field.type === 'datetime') {
+    return (
+      <Input
+        {...common}
+        type={field.type === 'date' ? 'date' : 'datetime-local'}
+        value={field.type === 'date' ? value.slice(0, 10) : value.slice(0, 16)}
+        onChange={e => onChange(e.target.value)}
+      />
+    );
+  }
+
+  // Several choices are typed with semicolons between them, as they are copied. The caret goes after
+  // the text, so the key that started an edit is typed on from.
+  return (
+    <Input
+      {...common}
+      type={field.type === 'number' ? 'text' : inputType(field.type)}
+      inputMode={field.type === 'number' ? 'decimal' : undefined}
+      placeholder={field.type === 'multiselect' ? 'One; Two' : undefined}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      onFocus={e => {
+        const end = e.target.value.length;
+        try { e.target.setSelectionRange(end, end); } catch { /* Email inputs have no caret position */ }
+      }}
+    />
+  );
+};
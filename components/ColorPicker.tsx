@@ -6,7 +6,7 @@ export const ColorPicker = ({ color, onChange, disabled }: { color: string, onCh
   <div className="flex items-center gap-2">
     <input 
       type="color" 
-      value={color} 
+      value={color || '#000000'} 
       onChange={e => onChange(e.target.value)} 
       disabled={disabled}
       className="h-8 w-8 rounded border p-0 cursor-pointer disabled:opacity-50"
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store';
 import { DashboardSchema, DashboardWidget, DashboardFilter } from '../types';
 import { Button } from './ui/button';
@@ -18,7 +18,7 @@ import { DashboardView } from './DashboardTab';
 const genId = () => Math.random().toString(36).substr(2, 9);
 
 export const DashboardEditor: React.FC = () => {
-    const { dashboards, schemas, records, addDashboard, updateDashboard, deleteDashboard } = useAppStore();
+    const { dashboards, schemas, records, loadTables, addDashboard, updateDashboard, deleteDashboard } = useAppStore();
     const { toast } = useToast();
     const { t } = useTranslation();
 
@@ -164,6 +164,11 @@ export const DashboardEditor: React.FC = () => {
         setEditingDash(prev => ({ ...prev!, filters: prev!.filters.filter((_, i) => i !== idx) }));
     };
 
+    // The live preview needs the records of the edited dashboard's table
+    useEffect(() => {
+        if (editingDash?.tableId) loadTables([editingDash.tableId]);
+    }, [editingDash?.tableId, loadTables]);
+
 
     if (editingDash) {
         const sourceSchema = schemas.find(s => s.id === editingDash.tableId);
@@ -299,7 +304,7 @@ export const DashboardEditor: React.FC = () => {
                                              
                                              {/* Adaptive Value Input */}
                                              <div className="flex-1">
-                                                 {fieldDef?.type === 'select' ? (
+                                                 {fieldDef?.type === 'select' || fieldDef?.type === 'multiselect' ? (
                                                      <Combobox 
                                                          options={fieldDef.options?.map(o => ({ value: o.value, label: o.label, color: o.color })) || []}
                                                          value={f.value}
@@ -396,7 +401,7 @@ export const DashboardEditor: React.FC = () => {
                                 <div className="space-y-2">
                                     <Label>Field</Label>
                                     <Combobox 
-                                        options={fields.filter(f => f.type === 'select' || f.type === 'boolean' || f.type === 'text').map(f => ({ value: f.name, label: f.label }))}
+                                        options={fields.filter(f => f.type === 'select' || f.type === 'multiselect' || f.type === 'boolean' || f.type === 'text' || f.type === 'color' || f.formula).map(f => ({ value: f.name, label: f.label }))}
                                         value={editingWidget.field || ''}
                                         onChange={val => setEditingWidget({...editingWidget, field: val})}
                                         placeholder="Select Field"
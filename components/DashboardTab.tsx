@@ -2,12 +2,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAppStore } from '../store';
 import { analyzeData } from '../services/geminiService';
+import { hideFields } from '../services/access';
 import { Button } from './ui/button';
 import { Combobox } from './ui/combobox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Sparkles, Loader2, BarChart3, Table as TableIcon } from 'lucide-react';
 import { useTranslation } from '../hooks/useTranslation';
+import { useRelationLabels } from '../hooks/useRelationLabels';
+import { relationTargets } from '../services/relations';
+import { attachmentRefs } from '../services/attachments';
+import { multiSelectValues, selectedOptions } from '../services/fieldFormat';
+import { FORMATTED_TYPES, FieldValue } from './FieldValue';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { DataRecord, TableSchema, DashboardSchema } from '../types';
 
@@ -29,6 +35,7 @@ interface DashboardViewProps {
 
 export const DashboardView: React.FC<DashboardViewProps> = ({ activeSchema, dashboardConfig, records, showHeader = true, onAnalyzeRequest }) => {
   const { t } = useTranslation();
+  const formatRelation = useRelationLabels(relationTargets(activeSchema));
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -53,6 +60,18 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ activeSchema, dash
                 if (!f.value || !f.field) return true; // Ignore empty filters
                 const val = r.data[f.field];
                 const checkVal = f.value;
+                const type = activeSchema.fields.find(field => field.name === f.field)?.type;
+
+                // A multiple choice equals a value when the value is among its choices
+                if (type === 'multiselect') {
+                    const chosen = multiSelectValues(val);
+                    if (f.operator === 'equals') return chosen.includes(String(checkVal));
+                    if (f.operator === 'neq') return !chosen.includes(String(checkVal));
+                }
+                // Numbers typed in as text are still compared as numbers
+                if (type === 'number' && (f.operator === 'gt' || f.operator === 'lt') && val !== '' && val !== undefined && val !== null) {
+                    return f.operator === 'gt' ? Number(val) > Number(checkVal) : Number(val) < Number(checkVal);
+                }
 
                 switch(f.operator) {
                     // Use loose equality to handle string vs number/boolean issues
@@ -91,8 +110,11 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ activeSchema, dash
      if (!field) return [];
 
      const counts = activeRecords.reduce((acc, curr) => {
-       const key = String(curr.data[field.name] || 'Unknown');
-       acc[key] = (acc[key] || 0) + 1;
+       // A record with several choices counts once for each of them
+       const keys = field.type === 'multiselect'
+         ? selectedOptions(field, curr.data[field.name]).map(o => o.label)
+         : [String((field.type === 'relation' ? formatRelation(curr.data[field.name]) : curr.data[field.name]) || 'Unknown')];
+       (keys.length > 0 ? keys : ['Unknown']).forEach(key => { acc[key] = (acc[key] || 0) + 1; });
        return acc;
      }, {} as Record<string, number>);
 
@@ -259,7 +281,13 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ activeSchema, dash
                                   {activeSchema.fields.map(f => {
                                      const val = r.data[f.name];
                                      let displayVal: React.ReactNode = String(val || '-');
-                                     if (f.type === 'select' && f.options) {
+                                     if (f.type === 'relation') {
+                                        displayVal = formatRelation(val) || '-';
+                                     } else if (f.type === 'attachment') {
+                                        displayVal = attachmentRefs(val).map(a => a.name).join(', ') || '-';
+                                     } else if (FORMATTED_TYPES.includes(f.type)) {
+                                        displayVal = <FieldValue field={f} value={val} compact />;
+                                     } else if (f.type === 'select' && f.options) {
                                         const opt = f.options.find(o => o.value === val);
                                         if (opt?.color) {
                                           displayVal = (
@@ -300,10 +328,12 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ activeSchema, dash
 };
 
 export const DashboardTab: React.FC = () => {
-  const { schemas, records, dashboards, dashboardState, setDashboardState } = useAppStore();
+  const { visibleSchemas: schemas, records, loadTables, dashboards: allDashboards, dashboardState, setDashboardState, getTableAccess } = useAppStore();
   const { t } = useTranslation();
   
   const selectedDashboardId = dashboardState.activeDashboardId || '';
+  // Dashboards over tables the user's role may read; their charts leave out hidden fields
+  const dashboards = useMemo(() => allDashboards.filter(d => schemas.some(s => s.id === d.tableId)), [allDashboards, schemas]);
 
   const setSelectedDashboardId = (id: string) => {
     setDashboardState({ activeDashboardId: id });
@@ -321,6 +351,10 @@ export const DashboardTab: React.FC = () => {
   const activeDashboard = dashboards.find(d => d.id === selectedDashboardId);
   const activeSchema = activeDashboard ? schemas.find(s => s.id === activeDashboard.tableId) : null;
 
+  useEffect(() => {
+    if (activeSchema) loadTables([activeSchema.id]);
+  }, [activeSchema, loadTables]);
+
   if (dashboards.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground flex-col gap-2">
@@ -364,7 +398,7 @@ export const DashboardTab: React.FC = () => {
            }}
            records={records} 
            showHeader={false} 
-           onAnalyzeRequest={analyzeData}
+           onAnalyzeRequest={(schema, rows) => analyzeData(schema, rows.map(r => hideFields(r, getTableAccess(schema.id))))}
         />
       )}
     </div>
@@ -1,7 +1,7 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import { useAppStore } from '../store';
-import { DataRecord, TableSchema } from '../types';
+import { DataRecord, FeatureGeometry, FieldDefinition, QueryGroup, SavedView, SpatialFilter, TableSchema } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -14,17 +14,62 @@ import { Switch } from './ui/switch';
 import { Select } from './ui/select';
 import { useToast } from './ui/use-toast';
 import { cn, getDirtyFields } from '../lib/utils';
+import { getGeometryCenter } from '../lib/geometry';
 import { 
   Plus, Search, Edit, Trash2, MapPin, Filter, 
   ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown,
   LayoutList, Map as MapIcon, Database, SlidersHorizontal, X,
-  ChevronsLeft, ChevronsRight
+  ChevronsLeft, ChevronsRight, Upload, Download, ChevronDown, History, Link2, Paperclip, ListFilter, Bookmark,
+  Undo2, PenLine
 } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { ImportWizard } from './ImportWizard';
+import { RecordHistory } from './RecordHistory';
+import { RecordPicker } from './RecordPicker';
+import { AttachmentInput } from './AttachmentInput';
+import { ColorPicker } from './ColorPicker';
+import { MultiSelectInput, NumberInput, RichTextEditor } from './FieldInputs';
+import { CellEditor } from './CellEditor';
+import { FORMATTED_TYPES, FieldValue } from './FieldValue';
+import { formatFieldValue, inputType } from '../services/fieldFormat';
+import { attachmentRefs } from '../services/attachments';
+import { RelatedRecords } from './RelatedRecords';
+import { QueryBuilder, SpatialFilterEditor, newQueryGroup } from './QueryBuilder';
+import { RecordQuery } from '../services/recordQuery';
+import { countConditions, isActiveSpatialFilter } from '../services/queryFilter';
+import { useRelationLabels } from '../hooks/useRelationLabels';
+import { hasRelations, relationTargets } from '../services/relations';
+import { exportLayer, LAYER_EXPORT_FORMATS, LayerExportFormat } from '../services/dataExport';
+import { applyFormulas, defaultRecordData } from '../services/formulas';
+import { WGS84 } from '../services/crs';
+import { parseTabularText } from '../services/dataImport';
+import { validateRecordData } from '../services/validation';
+import { RecordEdit, batchDuplicates, cellText, isEditableField, parseCellText, revertFields, sameValue, toTabularText } from '../services/gridEditing';
 
 const genId = () => Math.random().toString(36).substr(2, 9);
 
+// Row on the current page and column among the table's fields
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// A change made from the grid, undone as a whole
+interface GridBatch {
+  label: string;
+  tableId: string;
+  updated: { before: DataRecord; after: DataRecord; fields: string[] }[];
+  deletedIds: string[]; // Restored from the trash
+}
+
+const MAX_UNDO = 20;
+// Fields whose editor is a list or a calendar rather than text a key press can start
+const PICKED_TYPES = ['select', 'boolean', 'date', 'datetime'];
+const MOVES: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+
 export const DataTab: React.FC = () => {
-  const { schemas, records, mapState, dataState, setDataState, addRecord, updateRecord, deleteRecord, setMapState, setActiveTab, hasPermission } = useAppStore();
+  // Only the tables and fields the user's role may read
+  const { visibleSchemas: schemas, recordsVersion, queryRecords, validateRecord, currentUser, mapState, dataState, setDataState, addRecord, updateRecord, deleteRecord, setMapState, setActiveTab, hasPermission, getTableAccess, logAudit, getAttachment, views, addView, updateView, deleteView, loadTrash, restoreTrashEntry } = useAppStore();
   const { t } = useTranslation();
   const { toast } = useToast();
 
@@ -39,13 +84,39 @@ export const DataTab: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
 
+  // Query builder and saved views
+  const [showQuery, setShowQuery] = useState(false);
+  const [queryFilter, setQueryFilter] = useState<QueryGroup>(newQueryGroup);
+  const [spatialFilter, setSpatialFilter] = useState<SpatialFilter | null>(null);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+
   // Editing State
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingRecordId, setEditingRecordId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [initialFormData, setInitialFormData] = useState<Record<string, any>>({});
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [dialogPanel, setDialogPanel] = useState<'form' | 'history' | 'related'>('form');
+  // Position of a geotagged photo the record is placed at when saved (point tables)
+  const [photoLocation, setPhotoLocation] = useState<[number, number] | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Inline editing: the active cell, the corner the range was extended from, the cell being typed in
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [rangeAnchor, setRangeAnchor] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  const [cellDraft, setCellDraft] = useState('');
+  const [undoStack, setUndoStack] = useState<GridBatch[]>([]);
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+  const [bulkField, setBulkField] = useState('');
+  const [bulkValue, setBulkValue] = useState('');
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+  const gridRef = React.useRef<HTMLDivElement>(null);
+  // The record being edited; cleared once the edit is saved or cancelled, as blur follows both
+  const editingRef = React.useRef<{ recordId: string; col: number } | null>(null);
 
   // Unsaved Changes
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
@@ -55,6 +126,11 @@ export const DataTab: React.FC = () => {
   // Default to first available if none selected
   const activeSchemaId = dataState.activeTableId || (schemas.length > 0 ? schemas[0].id : null);
   const activeSchema = schemas.find(s => s.id === activeSchemaId);
+  const access = activeSchemaId ? getTableAccess(activeSchemaId) : null;
+  const formatRelation = useRelationLabels(relationTargets(activeSchema));
+  const canCreate = canEdit && !!access?.create;
+  const canUpdate = canEdit && !!access?.update;
+  const canDelete = canEdit && !!access?.delete;
 
   // Group Schemas for Sidebar
   const spatialSchemas = schemas.filter(s => s.geometryType !== 'none');
@@ -65,75 +141,142 @@ export const DataTab: React.FC = () => {
      setLocalSearch(dataState.searchQuery);
   }, [dataState.searchQuery]);
 
+  // Saved views of the table that belong to the user; a shortcut may open someone else's
+  const tableViews = views.filter(v => v.tableId === activeSchemaId && v.userId === currentUser?.id);
+  const activeView = views.find(v => v.id === dataState.activeViewId && v.tableId === activeSchemaId);
+  const queryCount = countConditions(queryFilter) + (isActiveSpatialFilter(spatialFilter) || spatialFilter?.type === 'extent' ? 1 : 0);
+
+  const applyView = (view: SavedView) => {
+     setLocalSearch(view.search || '');
+     setColumnFilters(view.columnFilters || {});
+     setShowFilters(Object.values(view.columnFilters || {}).some(Boolean));
+     setQueryFilter(view.filter || newQueryGroup());
+     setSpatialFilter(view.spatial || null);
+     setShowQuery(countConditions(view.filter) > 0 || !!view.spatial);
+     setSortConfig(view.sort || null);
+     setCurrentPage(1);
+  };
+
+  // Views are applied once when opened, from the menu or a shortcut; later edits are the user's
+  const appliedViewRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+     if (!activeView || appliedViewRef.current === activeView.id) return;
+     appliedViewRef.current = activeView.id;
+     applyView(activeView);
+  }, [activeView]);
+
   // Handle Table Selection
   const handleTableChange = (id: string) => {
-     setDataState({ activeTableId: id, searchQuery: '' });
+     setDataState({ activeTableId: id, searchQuery: '', activeViewId: null });
+     appliedViewRef.current = null;
      setLocalSearch('');
      setColumnFilters({});
+     setQueryFilter(newQueryGroup());
+     setSpatialFilter(null);
      setSortConfig(null);
      setCurrentPage(1);
+     setSelectedIds([]);
+     setActiveCell(null);
+     setRangeAnchor(null);
   };
 
-  // --- Filtering & Sorting Logic ---
-  const processedRecords = useMemo(() => {
-     if (!activeSchema) return [];
-     
-     // 1. Filter by Table
-     let result = records.filter(r => r.tableId === activeSchema.id);
-     
-     // 2. Global Search
-     if (localSearch) {
-        const lower = localSearch.toLowerCase();
-        result = result.filter(r => 
-           Object.values(r.data).some(v => String(v).toLowerCase().includes(lower))
-        );
-     }
+  const clearFilters = () => {
+     setLocalSearch('');
+     setColumnFilters({});
+     setQueryFilter(newQueryGroup());
+     setSpatialFilter(null);
+     setCurrentPage(1);
+  };
 
-     // 3. Column Filters
-     if (showFilters) {
-         Object.entries(columnFilters).forEach(([key, filterValue]) => {
-             if (!filterValue) return;
-             const lowerFilter = String(filterValue).toLowerCase();
-             result = result.filter(r => {
-                 const val = r.data[key];
-                 return String(val || '').toLowerCase().includes(lowerFilter);
-             });
-         });
-     }
+  // What the grid shows now, as it would be saved in a view
+  const currentViewState = (): Pick<SavedView, 'search' | 'columnFilters' | 'filter' | 'spatial' | 'sort'> => ({
+     search: localSearch,
+     columnFilters: showFilters ? Object.fromEntries(Object.entries(columnFilters).filter(([, v]) => !!v)) as Record<string, string> : {},
+     filter: queryFilter,
+     spatial: spatialFilter || undefined,
+     sort: sortConfig
+  });
 
-     // 4. Sorting
-     if (sortConfig) {
-         result.sort((a, b) => {
-             const valA = a.data[sortConfig.key];
-             const valB = b.data[sortConfig.key];
-             
-             // Handle Dates
-             if (activeSchema.fields.find(f => f.name === sortConfig.key)?.type === 'date') {
-                 const dateA = new Date(valA || 0).getTime();
-                 const dateB = new Date(valB || 0).getTime();
-                 return sortConfig.direction === 'asc' ? dateA - dateB : dateB - dateA;
-             }
-
-             // Handle Numbers
-             if (typeof valA === 'number' && typeof valB === 'number') {
-                 return sortConfig.direction === 'asc' ? valA - valB : valB - valA;
-             }
-
-             // Default String Comparison
-             const strA = String(valA || '').toLowerCase();
-             const strB = String(valB || '').toLowerCase();
-             if (strA < strB) return sortConfig.direction === 'asc' ? -1 : 1;
-             if (strA > strB) return sortConfig.direction === 'asc' ? 1 : -1;
-             return 0;
-         });
+  const handleSaveView = () => {
+     if (!activeSchema || !currentUser || !viewName.trim()) return;
+     const now = new Date().toISOString();
+     const view: SavedView = { id: genId(), name: viewName.trim(), userId: currentUser.id, tableId: activeSchema.id, ...currentViewState(), createdAt: now, updatedAt: now };
+     addView(view);
+     appliedViewRef.current = view.id;
+     setDataState({ activeViewId: view.id });
+     setIsSaveViewOpen(false);
+     toast({ title: 'View saved', description: view.name, variant: 'success' });
+  };
+
+  const handleUpdateView = () => {
+     if (!activeView) return;
+     updateView({ ...activeView, ...currentViewState(), updatedAt: new Date().toISOString() });
+     toast({ title: 'View updated', description: activeView.name, variant: 'success' });
+  };
+
+  const handleDeleteView = () => {
+     if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+     deleteView(activeView.id);
+     setDataState({ activeViewId: null });
+     appliedViewRef.current = null;
+  };
+
+  // --- Filtering, Sorting & Paging ---
+  // Evaluated by the storage backend so only the visible page is loaded
+  const [currentRecords, setCurrentRecords] = useState<DataRecord[]>([]);
+  const formGeometry = (): FeatureGeometry | null => photoLocation
+     ? { type: 'Point', coordinates: photoLocation }
+     : currentRecords.find(r => r.id === editingRecordId)?.geometry ?? null;
+  const formulaContext = () => ({ geometry: formGeometry(), username: currentUser?.username });
+  // Computed fields as they will be saved
+  const computedData = isEditModalOpen && activeSchema ? applyFormulas(activeSchema, formData, formulaContext()) : formData;
+  const [totalRecords, setTotalRecords] = useState(0);
+
+  // The search, filters and sort of the grid; an extent filter takes the map's current bounds
+  const buildQuery = (schema: TableSchema, offset: number, limit: number): RecordQuery => ({
+     tableId: schema.id,
+     offset,
+     limit,
+     search: localSearch,
+     columnFilters: showFilters ? columnFilters : {},
+     filter: queryFilter,
+     fieldTypes: Object.fromEntries(schema.fields.map(f => [f.name, f.type])),
+     spatial: spatialFilter?.type === 'extent' ? { ...spatialFilter, bounds: mapState.bounds } : spatialFilter,
+     sort: sortConfig ? { ...sortConfig, type: schema.fields.find(f => f.name === sortConfig.key)?.type } : null
+  });
+
+  React.useEffect(() => {
+     if (!activeSchema) {
+        setCurrentRecords([]);
+        setTotalRecords(0);
+        return;
      }
 
-     return result;
-  }, [records, activeSchema, localSearch, columnFilters, sortConfig, showFilters]);
+     let cancelled = false;
+     queryRecords(buildQuery(activeSchema, (currentPage - 1) * itemsPerPage, itemsPerPage)).then(page => {
+        if (cancelled) return;
+        setCurrentRecords(page.records);
+        setTotalRecords(page.total);
+     }).catch(e => console.error("Failed to query records", e));
+
+     return () => { cancelled = true; };
+  }, [queryRecords, recordsVersion, activeSchema, currentPage, itemsPerPage, localSearch, columnFilters, sortConfig, showFilters, queryFilter, spatialFilter, mapState.bounds]);
+
+  // Export the whole table as currently searched, filtered and sorted
+  const handleExport = async (format: LayerExportFormat) => {
+     if (!activeSchema) return;
+     try {
+        const page = await queryRecords(buildQuery(activeSchema, 0, Number.MAX_SAFE_INTEGER));
+        await exportLayer(page.records, activeSchema, format, mapState.projection, getAttachment);
+        logAudit({ action: 'export', targetType: 'schema', targetId: activeSchema.id, targetLabel: activeSchema.name, details: `${page.records.length} records as ${format}` });
+        toast({ title: t('data.export_success'), description: `${page.records.length} records from ${activeSchema.name}`, variant: 'success' });
+     } catch (e: any) {
+        toast({ title: 'Export failed', description: e?.message || String(e), variant: 'destructive' });
+     }
+  };
 
   // Pagination
-  const totalPages = Math.ceil(processedRecords.length / itemsPerPage);
-  const currentRecords = processedRecords.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+  const totalPages = Math.ceil(totalRecords / itemsPerPage);
 
   // Adjust current page if out of bounds (e.g. after filtering)
   React.useEffect(() => {
@@ -152,20 +295,380 @@ export const DataTab: React.FC = () => {
       });
   };
 
+  // --- Inline & Bulk Editing ---
+  // Cells are edited in place and pasted into like a spreadsheet. Every change made from the grid
+  // is one batch: it is validated whole before anything is saved, and undone whole.
+  const columns = activeSchema?.fields || [];
+  const isCellEditable = (field: FieldDefinition) => canUpdate && !!access && isEditableField(field, access.readOnlyFields);
+  const rowNumber = (row: number) => (currentPage - 1) * itemsPerPage + row + 1;
+  const selectedRecords = currentRecords.filter(r => selectedIds.includes(r.id));
+  const bulkFields = columns.filter(isCellEditable);
+  const tableUndo = undoStack.filter(b => b.tableId === activeSchemaId);
+  const lastBatch = tableUndo[tableUndo.length - 1];
+
+  const cellRange = activeCell ? {
+     top: Math.min(activeCell.row, (rangeAnchor || activeCell).row),
+     bottom: Math.max(activeCell.row, (rangeAnchor || activeCell).row),
+     left: Math.min(activeCell.col, (rangeAnchor || activeCell).col),
+     right: Math.max(activeCell.col, (rangeAnchor || activeCell).col)
+  } : null;
+  const inRange = (row: number, col: number) =>
+     !!cellRange && row >= cellRange.top && row <= cellRange.bottom && col >= cellRange.left && col <= cellRange.right;
+
+  // Selection and the active cell belong to the page shown
+  React.useEffect(() => {
+     setSelectedIds(prev => prev.filter(id => currentRecords.some(r => r.id === id)));
+     setActiveCell(prev => prev && prev.row < currentRecords.length ? prev : null);
+     setRangeAnchor(prev => prev && prev.row < currentRecords.length ? prev : null);
+  }, [currentRecords]);
+
+  React.useEffect(() => {
+     if (!activeCell) return;
+     gridRef.current?.querySelector(`[data-cell="${activeCell.row}-${activeCell.col}"]`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeCell]);
+
+  const reportProblems = (problems: string[]) => {
+     toast({
+        title: 'Nothing Saved',
+        description: problems.slice(0, 3).join('; ') + (problems.length > 3 ? ` (and ${problems.length - 3} more)` : ''),
+        variant: 'destructive'
+     });
+  };
+
+  // The batch is refused for errors on the changed fields and for any other error the change brings
+  // (a rule on another field comparing with a changed one), while a record's older gaps do not stop
+  // it being edited cell by cell. Resolves to the number of records saved, or null when refused.
+  const saveBatch = async (label: string, edits: RecordEdit[]): Promise<number | null> => {
+     if (!activeSchema) return null;
+     const changed = edits
+        .map(edit => ({ ...edit, fields: edit.fields.filter(name => !sameValue(edit.record.data[name], edit.data[name])) }))
+        .filter(edit => edit.fields.length > 0)
+        .map(edit => ({ ...edit, data: applyFormulas(activeSchema, edit.data, { geometry: edit.record.geometry, username: currentUser?.username }) }));
+     if (changed.length === 0) return 0;
+
+     const rowLabel = (recordId: string) => `Row ${rowNumber(currentRecords.findIndex(r => r.id === recordId))}`;
+     const problems: string[] = [];
+     for (const edit of changed) {
+        const errors = await validateRecord(activeSchema, edit.data, edit.record.id);
+        const previous = validateRecordData(activeSchema, edit.record.data, access?.readOnlyFields);
+        Object.entries(errors)
+           .filter(([name]) => edit.fields.includes(name) || !previous[name])
+           .forEach(([, message]) => problems.push(`${rowLabel(edit.record.id)}: ${message}`));
+     }
+     batchDuplicates(activeSchema, changed).forEach(d => problems.push(`${rowLabel(d.recordId)}: ${d.message}`));
+     if (problems.length > 0) {
+        reportProblems(problems);
+        return null;
+     }
+
+     const updatedAt = new Date().toISOString();
+     const updated = changed.map(edit => ({ before: edit.record, after: { ...edit.record, data: edit.data, updatedAt }, fields: edit.fields }));
+     updated.forEach(({ before, after }) => updateRecord(after, before));
+     setUndoStack(prev => [...prev.slice(1 - MAX_UNDO), { label, tableId: activeSchema.id, updated, deletedIds: [] }]);
+     return updated.length;
+  };
+
+  // Typed, pasted or cleared cells; those of computed and read-only fields are left as they are
+  const saveCells = async (label: string, cells: (CellPosition & { text: string })[]) => {
+     const edits = new Map<string, RecordEdit>();
+     const problems: string[] = [];
+     let skipped = 0;
+     cells.forEach(({ row, col, text }) => {
+        const record = currentRecords[row];
+        const field = columns[col];
+        if (!record || !field) return;
+        if (!isCellEditable(field)) {
+           skipped++;
+           return;
+        }
+        const parsed = parseCellText(field, text);
+        if (parsed.error) {
+           problems.push(`Row ${rowNumber(row)}, ${field.label}: ${parsed.error}`);
+           return;
+        }
+        const edit = edits.get(record.id) || { record, data: { ...record.data }, fields: [] };
+        edit.data[field.name] = parsed.value;
+        edit.fields.push(field.name);
+        edits.set(record.id, edit);
+     });
+     if (problems.length > 0) {
+        reportProblems(problems);
+        return null;
+     }
+     const saved = await saveBatch(label, Array.from(edits.values()));
+     if (saved !== null && skipped > 0) {
+        toast({ title: 'Some Cells Unchanged', description: `${skipped} cell${skipped > 1 ? 's' : ''} of computed or read-only fields ${skipped > 1 ? 'were' : 'was'} left as ${skipped > 1 ? 'they were' : 'it was'}.`, variant: 'info' });
+     }
+     return saved;
+  };
+
+  const undoLast = async () => {
+     if (!lastBatch) return;
+     setUndoStack(prev => prev.filter(b => b !== lastBatch));
+     const notes: string[] = [];
+     try {
+        if (lastBatch.updated.length > 0) {
+           // The records as they are now, which may have changed since the batch
+           const ids = lastBatch.updated.map(u => u.after.id);
+           const current = new Map<string, DataRecord>((await queryRecords({ tableId: lastBatch.tableId, offset: 0, limit: ids.length, ids })).records.map(r => [r.id, r]));
+           const updatedAt = new Date().toISOString();
+           let kept = 0;
+           let missing = 0;
+           lastBatch.updated.forEach(({ before, after, fields }) => {
+              const record = current.get(after.id);
+              if (!record) {
+                 missing++;
+                 return;
+              }
+              const reverted = revertFields(record, before, after, fields);
+              kept += reverted.kept;
+              if (reverted.changed) updateRecord({ ...record, data: reverted.data, updatedAt }, record);
+           });
+           if (kept > 0) notes.push(`${kept} value${kept === 1 ? ' was' : 's were'} edited again since and kept`);
+           if (missing > 0) notes.push(`${missing} record${missing === 1 ? ' is' : 's are'} no longer there`);
+        }
+        if (lastBatch.deletedIds.length > 0) {
+           const entries = (await loadTrash()).filter(e => e.type === 'record' && lastBatch.deletedIds.includes(e.targetId));
+           entries.forEach(restoreTrashEntry);
+           const gone = lastBatch.deletedIds.length - entries.length;
+           if (gone > 0) notes.push(`${gone} of the deleted records ${gone === 1 ? 'is' : 'are'} no longer in the trash`);
+        }
+     } catch (e) {
+        toast({ title: 'Undo Failed', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+        return;
+     }
+     if (notes.length > 0) {
+        toast({ title: 'Partly Undone', description: `${lastBatch.label}: ${notes.join('; ')}.`, variant: 'destructive' });
+     } else {
+        toast({ title: 'Undone', description: lastBatch.label, variant: 'info' });
+     }
+  };
+
+  const selectCell = (cell: CellPosition, extend: boolean) => {
+     if (editingCell && editingCell.row === cell.row && editingCell.col === cell.col) return;
+     setRangeAnchor(extend ? (rangeAnchor || activeCell) : null);
+     setActiveCell(cell);
+  };
+
+  const moveTo = (row: number, col: number, extend: boolean) => {
+     selectCell({
+        row: Math.max(0, Math.min(currentRecords.length - 1, row)),
+        col: Math.max(0, Math.min(columns.length - 1, col))
+     }, extend);
+  };
+
+  // Cells that cannot be edited in place (links, files, rich text, read-only values) open the record form
+  const startEditing = (cell: CellPosition, typed?: string) => {
+     const record = currentRecords[cell.row];
+     const field = columns[cell.col];
+     if (!record || !field) return;
+     if (!isCellEditable(field)) {
+        if (canUpdate) handleEditClick(record);
+        return;
+     }
+     editingRef.current = { recordId: record.id, col: cell.col };
+     setActiveCell(cell);
+     setRangeAnchor(null);
+     setEditingCell(cell);
+     setCellDraft(typed ?? cellText(field, record.data[field.name]));
+  };
+
+  // Leaving the editor by clicking elsewhere saves it without taking the focus back to the grid
+  const finishEditing = (save: boolean, move?: [number, number], refocus = true) => {
+     const editing = editingRef.current;
+     editingRef.current = null;
+     setEditingCell(null);
+     if (refocus) gridRef.current?.focus();
+     if (!editing) return;
+     const row = currentRecords.findIndex(r => r.id === editing.recordId);
+     if (move && row >= 0) moveTo(row + move[0], editing.col + move[1], false);
+     const field = columns[editing.col];
+     if (!save || row < 0 || !field || cellDraft === cellText(field, currentRecords[row].data[field.name])) return;
+     saveCells(`Edit ${field.label}`, [{ row, col: editing.col, text: cellDraft }]);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+     if (e.key === 'Enter') {
+        e.preventDefault();
+        finishEditing(true, [e.shiftKey ? -1 : 1, 0]);
+     } else if (e.key === 'Tab') {
+        e.preventDefault();
+        finishEditing(true, [0, e.shiftKey ? -1 : 1]);
+     } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finishEditing(false);
+     }
+  };
+
+  // Keys reach the grid only while no editor, filter or button inside it has the focus
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+     if (e.target !== e.currentTarget || editingRef.current) return;
+     const mod = e.ctrlKey || e.metaKey;
+     if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undoLast();
+        return;
+     }
+     if (!activeCell) {
+        if (MOVES[e.key] && currentRecords.length > 0 && columns.length > 0) {
+           e.preventDefault();
+           setActiveCell({ row: 0, col: 0 });
+        }
+        return;
+     }
+     if (MOVES[e.key]) {
+        e.preventDefault();
+        moveTo(activeCell.row + MOVES[e.key][0], activeCell.col + MOVES[e.key][1], e.shiftKey);
+        return;
+     }
+     switch (e.key) {
+        case 'Tab': {
+           // Past the first or last column, Tab leaves the grid as usual
+           const col = activeCell.col + (e.shiftKey ? -1 : 1);
+           if (col < 0 || col >= columns.length) return;
+           e.preventDefault();
+           moveTo(activeCell.row, col, false);
+           return;
+        }
+        case 'Enter':
+        case 'F2':
+           e.preventDefault();
+           startEditing(activeCell);
+           return;
+        case 'Delete':
+        case 'Backspace': {
+           if (!cellRange || !canUpdate) return;
+           e.preventDefault();
+           const cells: (CellPosition & { text: string })[] = [];
+           for (let row = cellRange.top; row <= cellRange.bottom; row++) {
+              for (let col = cellRange.left; col <= cellRange.right; col++) cells.push({ row, col, text: '' });
+           }
+           saveCells('Clear cells', cells);
+           return;
+        }
+        case 'Escape':
+           setRangeAnchor(null);
+           return;
+     }
+     // A printable key replaces the value, as in a spreadsheet
+     const field = columns[activeCell.col];
+     if (e.key.length === 1 && !mod && !e.altKey && field && isCellEditable(field)) {
+        e.preventDefault();
+        startEditing(activeCell, PICKED_TYPES.includes(field.type) ? undefined : e.key);
+     }
+  };
+
+  const handleCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+     if (e.target !== e.currentTarget || editingRef.current || !cellRange) return;
+     const rows: string[][] = [];
+     for (let row = cellRange.top; row <= cellRange.bottom; row++) {
+        const record = currentRecords[row];
+        if (!record) continue;
+        rows.push(columns.slice(cellRange.left, cellRange.right + 1).map(f =>
+           f.type === 'relation' ? formatRelation(record.data[f.name]) : cellText(f, record.data[f.name])));
+     }
+     e.clipboardData.setData('text/plain', toTabularText(rows));
+     e.preventDefault();
+  };
+
+  // A single value fills the selected range; a block of cells is pasted from the range's top left
+  // cell, and what falls past the page's last row or the last column is left out
+  const handlePaste = async (e: React.ClipboardEvent<HTMLDivElement>) => {
+     if (e.target !== e.currentTarget || editingRef.current || !cellRange || !canUpdate) return;
+     const rows = parseTabularText(e.clipboardData.getData('text/plain'));
+     if (rows.length === 0) return;
+     e.preventDefault();
+     const cells: (CellPosition & { text: string })[] = [];
+     if (rows.length === 1 && rows[0].length === 1) {
+        for (let row = cellRange.top; row <= cellRange.bottom; row++) {
+           for (let col = cellRange.left; col <= cellRange.right; col++) cells.push({ row, col, text: rows[0][0] });
+        }
+     } else {
+        rows.forEach((values, i) => values.forEach((text, j) => cells.push({ row: cellRange.top + i, col: cellRange.left + j, text })));
+     }
+     const inside = cells.filter(c => c.row < currentRecords.length && c.col < columns.length);
+     const saved = await saveCells('Paste', inside);
+     if (saved === null) return;
+     const lastRow = cellRange.top + rows.length - 1;
+     setRangeAnchor({ row: Math.min(lastRow, currentRecords.length - 1), col: Math.min(cellRange.left + Math.max(...rows.map(r => r.length)) - 1, columns.length - 1) });
+     setActiveCell({ row: cellRange.top, col: cellRange.left });
+     toast({
+        title: 'Pasted',
+        description: `${saved} record${saved === 1 ? '' : 's'} updated${inside.length < cells.length ? `; ${cells.length - inside.length} cells past the end of the page were left out` : ''}. Press Ctrl+Z to undo.`,
+        variant: inside.length < cells.length ? 'info' : 'success'
+     });
+  };
+
+  const toggleSelected = (id: string) =>
+     setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  const allSelected = currentRecords.length > 0 && currentRecords.every(r => selectedIds.includes(r.id));
+
+  const openBulkEdit = () => {
+     const field = bulkFields[0];
+     setBulkField(field?.name || '');
+     setBulkValue(field?.type === 'boolean' ? 'false' : '');
+     setIsBulkEditOpen(true);
+  };
+
+  const handleBulkEdit = async () => {
+     const field = bulkFields.find(f => f.name === bulkField);
+     if (!field) return;
+     const parsed = parseCellText(field, bulkValue);
+     if (parsed.error) {
+        reportProblems([`${field.label}: ${parsed.error}`]);
+        return;
+     }
+     const saved = await saveBatch(`Set ${field.label} on ${selectedRecords.length} records`, selectedRecords.map(record => ({
+        record, data: { ...record.data, [field.name]: parsed.value }, fields: [field.name]
+     })));
+     if (saved === null) return;
+     setIsBulkEditOpen(false);
+     toast({ title: 'Records Updated', description: `${field.label} set on ${saved} record${saved === 1 ? '' : 's'}. Press Ctrl+Z to undo.`, variant: 'success' });
+  };
+
+  // Records are deleted one by one, so those a relation restricts are kept and the others still go
+  const handleBulkDelete = async () => {
+     if (!activeSchema) return;
+     const deletedIds: string[] = [];
+     const failures: string[] = [];
+     for (const record of selectedRecords) {
+        try {
+           await deleteRecord(record.id, record);
+           deletedIds.push(record.id);
+        } catch (e) {
+           failures.push(e instanceof Error ? e.message : String(e));
+        }
+     }
+     setIsBulkDeleteOpen(false);
+     setSelectedIds([]);
+     if (deletedIds.length > 0) {
+        setUndoStack(prev => [...prev.slice(1 - MAX_UNDO), { label: `Delete ${deletedIds.length} records`, tableId: activeSchema.id, updated: [], deletedIds }]);
+        toast({ title: t('data.record_deleted'), description: `${deletedIds.length} record${deletedIds.length === 1 ? '' : 's'} moved to the trash. Press Ctrl+Z to undo.`, variant: 'info' });
+     }
+     if (failures.length > 0) {
+        toast({ title: 'Cannot Delete', description: `${failures.length} record${failures.length === 1 ? ' was' : 's were'} kept: ${failures[0]}`, variant: 'destructive' });
+     }
+  };
+
   // CRUD Handlers
   const handleEditClick = (record: DataRecord) => {
      setEditingRecordId(record.id);
      setFormData({ ...record.data });
      setInitialFormData({ ...record.data });
      setFormErrors({});
+     setDialogPanel('form');
+     setPhotoLocation(null);
      setIsEditModalOpen(true);
   };
 
   const handleCreateClick = () => {
+     const defaults = activeSchema ? defaultRecordData(activeSchema, { username: currentUser?.username }) : {};
      setEditingRecordId(null);
-     setFormData({});
-     setInitialFormData({});
+     setFormData(defaults);
+     setInitialFormData(defaults);
      setFormErrors({});
+     setDialogPanel('form');
+     setPhotoLocation(null);
      setIsEditModalOpen(true);
   };
 
@@ -198,41 +701,34 @@ export const DataTab: React.FC = () => {
      }
   };
 
-  const handleSaveEdit = (e: React.FormEvent) => {
+  const handleSaveEdit = async (e: React.FormEvent) => {
      e.preventDefault();
      if (!activeSchema) return;
 
-     const errors: Record<string, string> = {};
-     activeSchema.fields.forEach(f => {
-        if (f.required) {
-           const val = formData[f.name];
-           if (val === undefined || val === null || val === '') {
-              errors[f.name] = `${f.label} is required`;
-           }
-        }
-     });
-
+     const data = applyFormulas(activeSchema, formData, formulaContext());
+     const errors = await validateRecord(activeSchema, data, editingRecordId || undefined);
      if (Object.keys(errors).length > 0) {
         setFormErrors(errors);
         return;
      }
 
      if (editingRecordId) {
-        const original = records.find(r => r.id === editingRecordId);
+        const original = currentRecords.find(r => r.id === editingRecordId);
         if (original) {
            updateRecord({
               ...original,
-              data: formData,
+              geometry: formGeometry(),
+              data,
               updatedAt: new Date().toISOString()
-           });
+           }, original);
            toast({ title: t('data.record_updated'), variant: 'success' });
         }
      } else {
         const newRec: DataRecord = {
            id: genId(),
            tableId: activeSchema.id,
-           geometry: null,
-           data: formData,
+           geometry: formGeometry(),
+           data,
            createdAt: new Date().toISOString(),
            updatedAt: new Date().toISOString()
         };
@@ -246,10 +742,14 @@ export const DataTab: React.FC = () => {
       setDeleteConfirmId(id);
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = async () => {
       if (deleteConfirmId) {
-          deleteRecord(deleteConfirmId);
-          toast({ title: t('data.record_deleted'), variant: 'info' });
+          try {
+              await deleteRecord(deleteConfirmId, currentRecords.find(r => r.id === deleteConfirmId));
+              toast({ title: t('data.record_deleted'), variant: 'info' });
+          } catch (e) {
+              toast({ title: "Cannot Delete", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+          }
           setDeleteConfirmId(null);
       }
   };
@@ -261,13 +761,8 @@ export const DataTab: React.FC = () => {
       }
       setActiveTab('map');
       
-      let center: [number, number] | undefined;
-      if (record.geometry.type === 'Point') {
-          center = [record.geometry.coordinates[0], record.geometry.coordinates[1]];
-      } else if (record.geometry.coordinates && record.geometry.coordinates.length > 0) {
-          const first = record.geometry.coordinates[0];
-          center = Array.isArray(first) ? [first[0], first[1]] : undefined;
-      }
+      // Center of the feature's extent, whatever its type or number of parts
+      const center = getGeometryCenter(record.geometry) || undefined;
 
       setMapState({
           activeLayerId: record.tableId,
@@ -329,6 +824,7 @@ export const DataTab: React.FC = () => {
   };
 
   const isCreating = !editingRecordId;
+  const editingRecord = editingRecordId ? currentRecords.find(r => r.id === editingRecordId) : undefined;
 
   return (
     <div className="flex h-full bg-background overflow-hidden">
@@ -415,13 +911,65 @@ export const DataTab: React.FC = () => {
                              <h1 className="text-lg font-semibold flex items-center gap-2">
                                  {activeSchema.name}
                                  <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
-                                    {processedRecords.length} {t('data.records')}
+                                    {totalRecords} {t('data.records')}
                                  </span>
                              </h1>
                              <p className="text-xs text-muted-foreground truncate max-w-[300px]">{activeSchema.description}</p>
                         </div>
 
                         <div className="flex items-center gap-2">
+                            {/* Undo the last change made from the grid */}
+                            {lastBatch && (
+                                <Button variant="outline" size="sm" onClick={undoLast} title={`Undo ${lastBatch.label} (Ctrl+Z)`}>
+                                    <Undo2 className="w-4 h-4 mr-2" /> Undo
+                                </Button>
+                            )}
+
+                            {/* Saved Views */}
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button variant="outline" size="sm" className="max-w-[200px]">
+                                        <Bookmark className="w-4 h-4 mr-2 shrink-0" />
+                                        <span className="truncate">{activeView ? activeView.name : 'Views'}</span>
+                                        <ChevronDown className="w-3 h-3 ml-1 shrink-0" />
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    <DropdownMenuLabel>My Views</DropdownMenuLabel>
+                                    {tableViews.length === 0 && (
+                                        <div className="px-2 py-1.5 text-xs text-muted-foreground">No saved views for this table.</div>
+                                    )}
+                                    {tableViews.map(v => (
+                                        <DropdownMenuItem key={v.id} className={cn(v.id === activeView?.id && "font-semibold")} onClick={() => { appliedViewRef.current = v.id; setDataState({ activeViewId: v.id }); applyView(v); }}>
+                                            {v.name}
+                                        </DropdownMenuItem>
+                                    ))}
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={() => { setViewName(''); setIsSaveViewOpen(true); }}>Save as New View...</DropdownMenuItem>
+                                    {activeView && activeView.userId === currentUser?.id && (
+                                        <>
+                                            <DropdownMenuItem onClick={handleUpdateView}>Update "{activeView.name}"</DropdownMenuItem>
+                                            <DropdownMenuItem className="text-destructive" onClick={handleDeleteView}>Delete "{activeView.name}"</DropdownMenuItem>
+                                        </>
+                                    )}
+                                    {activeView && (
+                                        <DropdownMenuItem onClick={() => { setDataState({ activeViewId: null }); appliedViewRef.current = null; clearFilters(); setSortConfig(null); }}>Close View</DropdownMenuItem>
+                                    )}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+
+                            {/* Toggle Query Builder */}
+                            <Button 
+                                variant={showQuery ? 'secondary' : 'outline'} 
+                                size="sm" 
+                                onClick={() => setShowQuery(!showQuery)}
+                                className={cn(showQuery && "bg-blue-50 text-blue-600 border-blue-200")}
+                            >
+                                <ListFilter className="w-4 h-4 mr-2" />
+                                Query
+                                {queryCount > 0 && <span className="ml-1.5 rounded-full bg-blue-600 text-white text-[10px] px-1.5 leading-4">{queryCount}</span>}
+                            </Button>
+
                             {/* Toggle Column Filters */}
                             <Button 
                                 variant={showFilters ? 'secondary' : 'outline'} 
@@ -444,8 +992,31 @@ export const DataTab: React.FC = () => {
                                 />
                             </div>
 
+                            {/* Export */}
+                            <div className="ml-2">
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button variant="outline" size="sm">
+                                            <Download className="w-4 h-4 mr-2" /> {t('data.export')} <ChevronDown className="w-3 h-3 ml-1" />
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                        {LAYER_EXPORT_FORMATS.map(f => (
+                                            <DropdownMenuItem key={f.value} onClick={() => handleExport(f.value)}>{f.label}{f.value === 'geojson' && mapState.projection !== WGS84 && ` (${mapState.projection})`}</DropdownMenuItem>
+                                        ))}
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
+                            </div>
+
+                            {/* Import */}
+                            {canCreate && (
+                                <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} className="ml-2">
+                                    <Upload className="w-4 h-4 mr-2" /> {t('data.import')}
+                                </Button>
+                            )}
+
                             {/* Add Button */}
-                            {canEdit && (
+                            {canCreate && (
                                 <Button onClick={handleCreateClick} size="sm" className="ml-2">
                                     <Plus className="w-4 h-4 mr-2" /> {t('common.add')}
                                 </Button>
@@ -453,12 +1024,81 @@ export const DataTab: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Query Builder */}
+                    {showQuery && (
+                        <div className="border-b bg-background px-6 py-4 shrink-0 max-h-[45vh] overflow-y-auto">
+                            <div className={cn("grid gap-6", activeSchema.geometryType !== 'none' && "lg:grid-cols-[2fr_1fr]")}>
+                                <div className="space-y-2">
+                                    <Label className="text-xs uppercase text-muted-foreground">Conditions</Label>
+                                    <QueryBuilder
+                                        fields={activeSchema.fields}
+                                        value={queryFilter}
+                                        onChange={group => { setQueryFilter(group); setCurrentPage(1); }}
+                                    />
+                                </div>
+                                {activeSchema.geometryType !== 'none' && (
+                                    <div className="space-y-2">
+                                        <Label className="text-xs uppercase text-muted-foreground">Location</Label>
+                                        <SpatialFilterEditor
+                                            value={spatialFilter}
+                                            onChange={spatial => { setSpatialFilter(spatial); setCurrentPage(1); }}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            {queryCount > 0 && (
+                                <div className="flex justify-end mt-2">
+                                    <Button variant="ghost" size="sm" onClick={() => { setQueryFilter(newQueryGroup()); setSpatialFilter(null); setCurrentPage(1); }}>
+                                        <X className="w-3 h-3 mr-1" /> Clear Query
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Table View */}
                     <div className="flex-1 overflow-auto p-6 flex flex-col">
-                        <div className="bg-background rounded-md border shadow-sm overflow-hidden flex-1">
+                        {/* Bulk actions on the selected rows */}
+                        {selectedIds.length > 0 && (
+                            <div className="mb-3 flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm shadow-sm">
+                                <span className="font-medium">{selectedIds.length} selected</span>
+                                {canUpdate && (
+                                    <Button variant="outline" size="sm" onClick={openBulkEdit} disabled={bulkFields.length === 0}>
+                                        <PenLine className="w-4 h-4 mr-2" /> Set Field...
+                                    </Button>
+                                )}
+                                {canDelete && (
+                                    <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" onClick={() => setIsBulkDeleteOpen(true)}>
+                                        <Trash2 className="w-4 h-4 mr-2" /> {t('common.delete')}
+                                    </Button>
+                                )}
+                                <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelectedIds([])}>
+                                    <X className="w-3 h-3 mr-1" /> Clear Selection
+                                </Button>
+                            </div>
+                        )}
+
+                        {/* Arrow keys move between cells, Enter or typing edits, Ctrl+C/V copy and paste ranges */}
+                        <div
+                            ref={gridRef}
+                            tabIndex={0}
+                            onKeyDown={handleGridKeyDown}
+                            onCopy={handleCopy}
+                            onPaste={handlePaste}
+                            className="bg-background rounded-md border shadow-sm overflow-hidden flex-1 focus:outline-none"
+                        >
                             <Table>
                                 <TableHeader className="bg-muted/30">
                                     <TableRow>
+                                        <TableHead className="w-[40px] px-3">
+                                            <input
+                                                type="checkbox"
+                                                className="rounded border-gray-300 text-primary focus:ring-primary"
+                                                checked={allSelected}
+                                                onChange={() => setSelectedIds(allSelected ? [] : currentRecords.map(r => r.id))}
+                                                title="Select all rows on this page"
+                                            />
+                                        </TableHead>
                                         <TableHead className="w-[60px] text-center">#</TableHead>
                                         {activeSchema.fields.map(f => (
                                             <TableHead key={f.id} className="min-w-[150px]">
@@ -484,6 +1124,7 @@ export const DataTab: React.FC = () => {
                                     {/* Column Filters Row */}
                                     {showFilters && (
                                         <TableRow className="bg-blue-50/50 hover:bg-blue-50/50">
+                                            <TableHead></TableHead>
                                             <TableHead></TableHead>
                                             {activeSchema.fields.map(f => (
                                                 <TableHead key={f.id} className="py-2">
@@ -516,11 +1157,33 @@ export const DataTab: React.FC = () => {
                                 </TableHeader>
                                 <TableBody>
                                     {currentRecords.map((record, idx) => (
-                                        <TableRow key={record.id} className="group hover:bg-muted/30">
+                                        <TableRow key={record.id} className={cn("group hover:bg-muted/30", selectedIds.includes(record.id) && "bg-primary/5")}>
+                                            <TableCell className="px-3">
+                                                <input
+                                                    type="checkbox"
+                                                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                                                    checked={selectedIds.includes(record.id)}
+                                                    onChange={() => toggleSelected(record.id)}
+                                                />
+                                            </TableCell>
                                             <TableCell className="text-center text-xs text-muted-foreground bg-muted/5 font-mono">
-                                                {(currentPage - 1) * itemsPerPage + idx + 1}
+                                                {rowNumber(idx)}
                                             </TableCell>
-                                            {activeSchema.fields.map(f => {
+                                            {activeSchema.fields.map((f, col) => {
+                                                if (editingCell?.row === idx && editingCell.col === col) {
+                                                    return (
+                                                        <TableCell key={f.id} data-cell={`${idx}-${col}`} className="py-1 px-2 min-w-[150px]">
+                                                            <CellEditor
+                                                                field={f}
+                                                                value={cellDraft}
+                                                                onChange={setCellDraft}
+                                                                onKeyDown={handleEditorKeyDown}
+                                                                onBlur={() => finishEditing(true, undefined, false)}
+                                                                autoFocus
+                                                            />
+                                                        </TableCell>
+                                                    );
+                                                }
                                                 const val = record.data[f.name];
                                                 let display = val;
                                                 if (f.type === 'select') {
@@ -533,6 +1196,17 @@ export const DataTab: React.FC = () => {
                                                             </span>
                                                         );
                                                     }
+                                                } else if (FORMATTED_TYPES.includes(f.type)) {
+                                                    display = <FieldValue field={f} value={val} compact />;
+                                                } else if (f.type === 'relation') {
+                                                    display = formatRelation(val);
+                                                } else if (f.type === 'attachment') {
+                                                    const files = attachmentRefs(val);
+                                                    display = files.length > 0 ? (
+                                                        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground" title={files.map(a => a.name).join(', ')}>
+                                                            <Paperclip className="w-3 h-3" /> {files.length}
+                                                        </span>
+                                                    ) : null;
                                                 } else if (f.type === 'boolean') {
                                                     display = val ? (
                                                         <span className="text-green-600 bg-green-50 px-2 py-0.5 rounded text-xs font-medium border border-green-100">{f.booleanLabels?.true || 'Yes'}</span>
@@ -541,7 +1215,17 @@ export const DataTab: React.FC = () => {
                                                     );
                                                 }
                                                 return (
-                                                    <TableCell key={f.id} className="py-3 text-sm max-w-[200px] truncate" title={String(val)}>
+                                                    <TableCell
+                                                        key={f.id}
+                                                        data-cell={`${idx}-${col}`}
+                                                        onMouseDown={e => selectCell({ row: idx, col }, e.shiftKey)}
+                                                        onDoubleClick={() => startEditing({ row: idx, col })}
+                                                        className={cn(
+                                                            "py-3 text-sm max-w-[200px] truncate select-none",
+                                                            inRange(idx, col) && "bg-blue-50 dark:bg-blue-950/40",
+                                                            activeCell?.row === idx && activeCell.col === col && "outline outline-2 -outline-offset-2 outline-primary"
+                                                        )}
+                                                        title={FORMATTED_TYPES.includes(f.type) ? formatFieldValue(f, val) : typeof display === 'string' ? display : val && typeof val === 'object' ? undefined : String(val)}>
                                                         {display}
                                                     </TableCell>
                                                 );
@@ -553,15 +1237,15 @@ export const DataTab: React.FC = () => {
                                                             <MapPin className="w-3.5 h-3.5" />
                                                         </Button>
                                                     )}
-                                                    {canEdit && (
-                                                        <>
-                                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-600 hover:text-slate-900" onClick={() => handleEditClick(record)} title="Edit">
-                                                                <Edit className="w-3.5 h-3.5" />
-                                                            </Button>
-                                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-400 hover:text-red-600 hover:bg-red-50" onClick={() => handleDeleteClick(record.id)} title="Delete">
-                                                                <Trash2 className="w-3.5 h-3.5" />
-                                                            </Button>
-                                                        </>
+                                                    {canUpdate && (
+                                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-600 hover:text-slate-900" onClick={() => handleEditClick(record)} title="Edit">
+                                                            <Edit className="w-3.5 h-3.5" />
+                                                        </Button>
+                                                    )}
+                                                    {canDelete && (
+                                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-red-400 hover:text-red-600 hover:bg-red-50" onClick={() => handleDeleteClick(record.id)} title="Delete">
+                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                        </Button>
                                                     )}
                                                 </div>
                                             </TableCell>
@@ -569,12 +1253,12 @@ export const DataTab: React.FC = () => {
                                     ))}
                                     {currentRecords.length === 0 && (
                                         <TableRow>
-                                            <TableCell colSpan={activeSchema.fields.length + 2} className="h-48 text-center">
+                                            <TableCell colSpan={activeSchema.fields.length + 3} className="h-48 text-center">
                                                 <div className="flex flex-col items-center justify-center text-muted-foreground gap-2">
                                                     <SlidersHorizontal className="w-8 h-8 opacity-20" />
                                                     <p>{t('data.noRecords')}</p>
-                                                    {(localSearch || Object.keys(columnFilters).some(k => columnFilters[k])) && (
-                                                        <Button variant="link" size="sm" onClick={() => { setLocalSearch(''); setColumnFilters({}); }}>Clear Filters</Button>
+                                                    {(localSearch || Object.keys(columnFilters).some(k => columnFilters[k]) || queryCount > 0) && (
+                                                        <Button variant="link" size="sm" onClick={clearFilters}>Clear Filters</Button>
                                                     )}
                                                 </div>
                                             </TableCell>
@@ -588,7 +1272,7 @@ export const DataTab: React.FC = () => {
                         <div className="mt-4 flex items-center justify-between border-t pt-4">
                             <div className="flex items-center gap-4">
                                 <div className="text-xs text-muted-foreground">
-                                    {t('data.showing')} {(currentPage - 1) * itemsPerPage + 1} {t('data.to')} {Math.min(currentPage * itemsPerPage, processedRecords.length)} {t('data.of')} {processedRecords.length}
+                                    {t('data.showing')} {(currentPage - 1) * itemsPerPage + 1} {t('data.to')} {Math.min(currentPage * itemsPerPage, totalRecords)} {t('data.of')} {totalRecords}
                                 </div>
                                 <div className="flex items-center gap-2">
                                     <span className="text-xs text-muted-foreground">Rows per page</span>
@@ -646,30 +1330,96 @@ export const DataTab: React.FC = () => {
                     <div className="w-8 h-8 rounded-full flex items-center justify-center bg-primary/10 text-primary">
                         {isCreating ? <Plus className="w-4 h-4" /> : <Edit className="w-4 h-4" />}
                     </div>
-                    <div>
+                    <div className="flex-1">
                         <DialogTitle>{isCreating ? t('data.create') : t('data.edit')}</DialogTitle>
                         <DialogDescription>
                         {isCreating ? t('data.create_desc') : t('data.edit_desc')}
                         </DialogDescription>
                     </div>
+                    {activeSchema && editingRecord && hasRelations(schemas, activeSchema) && (
+                        <Button variant={dialogPanel === 'related' ? 'secondary' : 'ghost'} size="sm" onClick={() => setDialogPanel(dialogPanel === 'related' ? 'form' : 'related')}>
+                            <Link2 className="w-4 h-4 mr-2" /> Related
+                        </Button>
+                    )}
+                    {editingRecord && (
+                        <Button variant={dialogPanel === 'history' ? 'secondary' : 'ghost'} size="sm" className="mr-6" onClick={() => setDialogPanel(dialogPanel === 'history' ? 'form' : 'history')}>
+                            <History className="w-4 h-4 mr-2" /> History
+                        </Button>
+                    )}
                 </div>
              </DialogHeader>
-             {activeSchema && (
+             {editingRecord && dialogPanel === 'related' && (
+                 <div className="py-2 max-h-[60vh] overflow-y-auto px-1">
+                    <RelatedRecords record={editingRecord} />
+                 </div>
+             )}
+             {activeSchema && editingRecord && dialogPanel === 'history' && (
+                 <div className="py-2 max-h-[60vh] overflow-y-auto px-1">
+                    <RecordHistory schema={activeSchema} record={editingRecord} canRestore={canUpdate} onRestored={forceCloseModal} />
+                 </div>
+             )}
+             {activeSchema && dialogPanel === 'form' && (
                  <form id="data-edit-form" onSubmit={handleSaveEdit} className="space-y-4 py-2 max-h-[60vh] overflow-y-auto px-1">
                     {activeSchema.fields.map(field => (
-                    <div key={field.id} className="space-y-2">
+                    // Read-only fields for the user's role stay visible but cannot be changed
+                    <fieldset key={field.id} disabled={access?.readOnlyFields.includes(field.name)} className="space-y-2 disabled:opacity-60">
                         <Label>
                             {field.label}
                             {field.required && <span className="text-red-500 ml-1">*</span>}
+                            {field.formula && <span className="ml-2 text-[10px] uppercase text-muted-foreground">Computed</span>}
                         </Label>
                         
-                        {field.type === 'select' ? (
+                        {field.formula ? (
+                            <Input readOnly value={String(computedData[field.name] ?? '')} title={`= ${field.formula}`} className="bg-muted/50" />
+                        ) : field.type === 'select' ? (
                             <Combobox 
                                 options={field.options?.map(o => ({ value: o.value, label: o.label, color: o.color })) || []}
                                 value={formData[field.name] || ''}
                                 onChange={val => handleFormDataChange(field.name, val)}
                                 className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
                             />
+                        ) : field.type === 'multiselect' ? (
+                            <MultiSelectInput
+                                field={field}
+                                value={formData[field.name]}
+                                onChange={val => handleFormDataChange(field.name, val)}
+                                className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                            />
+                        ) : field.type === 'richtext' ? (
+                            <RichTextEditor
+                                field={field}
+                                value={formData[field.name]}
+                                onChange={val => handleFormDataChange(field.name, val)}
+                                disabled={access?.readOnlyFields.includes(field.name)}
+                                className={cn(formErrors[field.name] && "border-red-500")}
+                            />
+                        ) : field.type === 'color' ? (
+                            <ColorPicker color={formData[field.name] || ''} onChange={val => handleFormDataChange(field.name, val)} />
+                        ) : field.type === 'number' ? (
+                            <NumberInput
+                                field={field}
+                                value={formData[field.name]}
+                                onChange={val => handleFormDataChange(field.name, val)}
+                                className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                            />
+                        ) : field.type === 'attachment' ? (
+                            <AttachmentInput
+                                field={field}
+                                tableId={activeSchema.id}
+                                value={formData[field.name]}
+                                onChange={val => handleFormDataChange(field.name, val)}
+                                onUseLocation={activeSchema.geometryType === 'point' ? (location) => {
+                                    setPhotoLocation(location);
+                                    toast({ title: 'Location Set', description: `The record will be placed at ${location[0].toFixed(6)}, ${location[1].toFixed(6)} when saved.`, variant: 'info' });
+                                } : undefined}
+                            />
+                        ) : field.type === 'relation' ? (
+                            <RecordPicker
+                                field={field}
+                                value={formData[field.name]}
+                                onChange={val => handleFormDataChange(field.name, val)}
+                                className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                            />
                         ) : field.type === 'boolean' ? (
                             <div className="flex items-center space-x-2 border p-3 rounded-md bg-muted/20">
                             <Switch 
@@ -696,7 +1446,7 @@ export const DataTab: React.FC = () => {
                             />
                         ) : (
                             <Input 
-                                type={field.type === 'number' ? 'number' : 'text'}
+                                type={inputType(field.type)}
                                 required={field.required}
                                 value={formData[field.name] || ''}
                                 onChange={e => handleFormDataChange(field.name, e.target.value)}
@@ -704,13 +1454,13 @@ export const DataTab: React.FC = () => {
                             />
                         )}
                         {formErrors[field.name] && <p className="text-[10px] text-red-500 font-medium animate-in slide-in-from-top-1">{formErrors[field.name]}</p>}
-                    </div>
+                    </fieldset>
                     ))}
                  </form>
              )}
              <DialogFooter>
                 <Button variant="outline" onClick={attemptCloseModal}>{t('common.cancel')}</Button>
-                <Button type="submit" form="data-edit-form">{isCreating ? t('common.add') : t('data.save')}</Button>
+                {dialogPanel === 'form' && <Button type="submit" form="data-edit-form">{isCreating ? t('common.add') : t('data.save')}</Button>}
              </DialogFooter>
           </DialogContent>
         </Dialog>
@@ -749,6 +1499,72 @@ export const DataTab: React.FC = () => {
               </DialogFooter>
           </DialogContent>
        </Dialog>
+
+       {/* Save View */}
+       <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+          <DialogContent>
+              <DialogHeader>
+                  <DialogTitle>Save View</DialogTitle>
+                  <DialogDescription>Keeps the search, filters, query and sort of {activeSchema?.name} under a name only you see. Shortcuts can open it.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input value={viewName} onChange={e => setViewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSaveView()} placeholder="e.g. Open issues near the depot" autoFocus />
+              </div>
+              <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsSaveViewOpen(false)}>{t('common.cancel')}</Button>
+                  <Button onClick={handleSaveView} disabled={!viewName.trim() || !currentUser}>{t('common.save')}</Button>
+              </DialogFooter>
+          </DialogContent>
+       </Dialog>
+
+       {/* Bulk Edit */}
+       <Dialog open={isBulkEditOpen} onOpenChange={setIsBulkEditOpen}>
+          <DialogContent>
+              <DialogHeader>
+                  <DialogTitle>Set Field</DialogTitle>
+                  <DialogDescription>Gives the field one value on the {selectedRecords.length} selected record{selectedRecords.length === 1 ? '' : 's'}. Computed and read-only fields cannot be set.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                  <div className="space-y-2">
+                      <Label>Field</Label>
+                      <Select value={bulkField} onChange={e => {
+                          setBulkField(e.target.value);
+                          setBulkValue(bulkFields.find(f => f.name === e.target.value)?.type === 'boolean' ? 'false' : '');
+                      }}>
+                          {bulkFields.map(f => <option key={f.id} value={f.name}>{f.label}</option>)}
+                      </Select>
+                  </div>
+                  {bulkFields.filter(f => f.name === bulkField).map(f => (
+                      <div key={f.id} className="space-y-2">
+                          <Label>Value</Label>
+                          <CellEditor field={f} value={bulkValue} onChange={setBulkValue} onKeyDown={e => e.key === 'Enter' && handleBulkEdit()} className="h-10" />
+                          {!f.required && <p className="text-[10px] text-muted-foreground">Leave empty to clear the field.</p>}
+                      </div>
+                  ))}
+              </div>
+              <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsBulkEditOpen(false)}>{t('common.cancel')}</Button>
+                  <Button onClick={handleBulkEdit} disabled={!bulkField || selectedRecords.length === 0}>Apply</Button>
+              </DialogFooter>
+          </DialogContent>
+       </Dialog>
+
+       {/* Bulk Delete */}
+       <Dialog open={isBulkDeleteOpen} onOpenChange={setIsBulkDeleteOpen}>
+          <DialogContent>
+              <DialogHeader>
+                  <DialogTitle>Delete {selectedRecords.length} Record{selectedRecords.length === 1 ? '' : 's'}</DialogTitle>
+                  <DialogDescription>The selected records are moved to the trash. Records a relation still links to are kept.</DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsBulkDeleteOpen(false)}>{t('common.cancel')}</Button>
+                  <Button variant="destructive" onClick={handleBulkDelete}>{t('common.delete')}</Button>
+              </DialogFooter>
+          </DialogContent>
+       </Dialog>
+
+       <ImportWizard open={isImportOpen} onOpenChange={setIsImportOpen} defaultTableId={activeSchemaId} />
     </div>
   );
 };
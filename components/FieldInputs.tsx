@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bold, Check, ChevronsUpDown, Italic, Link as LinkIcon, List, ListOrdered, Underline, X } from 'lucide-react';
+import { FieldDefinition } from '../types';
+import { cn } from '../lib/utils';
+import { richTextToPlain, sanitizeRichText } from '../lib/richText';
+import { multiSelectValues, numberStep, selectedOptions } from '../services/fieldFormat';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+// --- Form inputs of the richer field types, shared by the data, map and planning forms ---
+
+interface FieldInputProps {
+  field: FieldDefinition;
+  value: any;
+  onChange: (value: any) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// A number input with the field's step and its unit shown inside the box
+export const NumberInput = ({ field, value, onChange, className, disabled }: FieldInputProps) => (
+  <div className="relative">
+    <Input
+      type="number"
+      step={numberStep(field)}
+      required={field.required}
+      value={value ?? ''}
+      onChange={e => onChange(e.target.value)}
+      disabled={disabled}
+      className={cn(field.unit && "pr-12", className)}
+    />
+    {field.unit && (
+      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground pointer-events-none">{field.unit}</span>
+    )}
+  </div>
+);
+
+// The options of a multi-select field, picked in any number
+export const MultiSelectInput = ({ field, value, onChange, className, disabled }: FieldInputProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = multiSelectValues(value);
+
+  const toggle = (option: string) =>
+    onChange(selected.includes(option) ? selected.filter(v => v !== option) : [...selected, option]);
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedOptions(field, selected).map(option => (
+            <span key={option.value} className="inline-flex items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs" style={option.color ? { borderColor: option.color + '60' } : undefined}>
+              {option.color && <span className="w-1.5 h-1.5 rounded-full" style={{ background: option.color }} />}
+              {option.label}
+              {!disabled && (
+                <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => toggle(option.value)} title="Remove">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+      <Popover open={open} onOpenChange={setOpen} className="w-full">
+        <PopoverTrigger asChild>
+          <Button variant="outline" role="combobox" aria-expanded={open} type="button" className={cn("w-full justify-between", className)} disabled={disabled}>
+            <span className="truncate text-muted-foreground">{selected.length > 0 ? `${selected.length} selected` : 'Select...'}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search..." />
+            <CommandList>
+              <CommandEmpty>No option found.</CommandEmpty>
+              <CommandGroup>
+                {(field.options || []).map(option => (
+                  <CommandItem key={option.value} value={option.label} onSelect={() => toggle(option.value)}>
+                    <Check className={cn("mr-2 h-4 w-4", selected.includes(option.value) ? "opacity-100" : "opacity-0")} />
+                    {option.color && <span className="w-2 h-2 rounded-full mr-2" style={{ background: option.color }} />}
+                    {option.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+const TOOLBAR = [
+  { command: 'bold', icon: Bold, title: 'Bold' },
+  { command: 'italic', icon: Italic, title: 'Italic' },
+  { command: 'underline', icon: Underline, title: 'Underline' },
+  { command: 'insertUnorderedList', icon: List, title: 'Bulleted list' },
+  { command: 'insertOrderedList', icon: ListOrdered, title: 'Numbered list' },
+];
+
+// Shared with the read-only views so lists and links look the same everywhere
+export const RICH_TEXT_CLASSES = "[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_a]:text-blue-600 [&_a]:underline [&_h1]:text-lg [&_h1]:font-bold [&_h2]:font-bold [&_h3]:font-semibold [&_blockquote]:border-l-2 [&_blockquote]:pl-2 [&_blockquote]:text-muted-foreground";
+
+// Long formatted text. The editable area is left alone while typing, so the caret stays put;
+// it is only rewritten when the value changes from outside, e.g. when another record is opened.
+export const RichTextEditor = ({ field, value, onChange, className, disabled }: FieldInputProps) => {
+  const editor = useRef<HTMLDivElement>(null);
+  const emitted = useRef<string | null>(null);
+
+  useEffect(() => {
+    const html = String(value ?? '');
+    if (editor.current && html !== emitted.current) {
+      editor.current.innerHTML = sanitizeRichText(html);
+      emitted.current = html;
+    }
+  }, [value]);
+
+  const emit = () => {
+    if (!editor.current) return;
+    // An editor holding only an empty line counts as empty, so required fields stay required
+    const html = richTextToPlain(editor.current.innerHTML) ? sanitizeRichText(editor.current.innerHTML) : '';
+    emitted.current = html;
+    onChange(html);
+  };
+
+  const run = (command: string, argument?: string) => {
+    editor.current?.focus();
+    document.execCommand(command, false, argument);
+    emit();
+  };
+
+  const addLink = () => {
+    const url = window.prompt('Link address (https://...)');
+    if (url) run('createLink', url);
+  };
+
+  return (
+    <div className={cn("rounded-md border bg-background", disabled && "opacity-60", className)}>
+      {!disabled && (
+        <div className="flex gap-0.5 border-b p-1">
+          {TOOLBAR.map(({ command, icon: Icon, title }) => (
+            <Button key={command} type="button" variant="ghost" size="icon" className="h-7 w-7" title={title} onMouseDown={e => e.preventDefault()} onClick={() => run(command)}>
+              <Icon className="w-3.5 h-3.5" />
+            </Button>
+          ))}
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Link" onMouseDown={e => e.preventDefault()} onClick={addLink}>
+            <LinkIcon className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      )}
+      <div
+        ref={editor}
+        role="textbox"
+        aria-multiline="true"
+        aria-label={field.label}
+        contentEditable={!disabled}
+        suppressContentEditableWarning
+        onInput={emit}
+        onPaste={e => {
+          // Pasted markup goes through the same filter as saved text
+          e.preventDefault();
+          const html = e.clipboardData.getData('text/html');
+          document.execCommand('insertHTML', false, html ? sanitizeRichText(html) : e.clipboardData.getData('text/plain').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/\n/g, '<br>'));
+          emit();
+        }}
+        className={cn("min-h-[96px] max-h-64 overflow-y-auto px-3 py-2 text-sm focus:outline-none", RICH_TEXT_CLASSES)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { FieldDefinition, FieldType } from '../types';
+import { cn } from '../lib/utils';
+import { sanitizeRichText } from '../lib/richText';
+import { fieldLink, formatNumber, selectedOptions } from '../services/fieldFormat';
+import { RICH_TEXT_CLASSES } from './FieldInputs';
+
+// Types shown by FieldValue; the views keep their own rendering for the others
+export const FORMATTED_TYPES: FieldType[] = ['number', 'multiselect', 'url', 'email', 'phone', 'richtext', 'color'];
+
+interface FieldValueProps {
+  field: FieldDefinition;
+  value: any;
+  compact?: boolean; // One line, as in grid cells: rich text is cut to its first line
+}
+
+// Read-only display of a value of one of the FORMATTED_TYPES
+export const FieldValue = ({ field, value, compact }: FieldValueProps) => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  switch (field.type) {
+    case 'number':
+      return <span className="tabular-nums">{formatNumber(field, value)}</span>;
+    case 'multiselect':
+      return (
+        <span className={cn("inline-flex gap-1", compact ? "overflow-hidden" : "flex-wrap")}>
+          {selectedOptions(field, value).map(option => (
+            <span key={option.value} className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium border bg-white whitespace-nowrap" style={option.color ? { borderColor: option.color + '40' } : undefined}>
+              {option.color && <span className="w-1.5 h-1.5 rounded-full" style={{ background: option.color }} />}
+              {option.label}
+            </span>
+          ))}
+        </span>
+      );
+    case 'url':
+    case 'email':
+    case 'phone': {
+      const href = fieldLink(field, value);
+      // Links open outside the app; a click in a grid row should not also select the row
+      return href ? (
+        <a href={href} target={field.type === 'url' ? '_blank' : undefined} rel="noopener noreferrer" className="text-blue-600 hover:underline" onClick={e => e.stopPropagation()}>
+          {String(value)}
+        </a>
+      ) : <span>{String(value)}</span>;
+    }
+    case 'color':
+      return (
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-3.5 h-3.5 rounded border" style={{ background: String(value) }} />
+          <span className="font-mono text-xs">{String(value)}</span>
+        </span>
+      );
+    case 'richtext':
+      return (
+        <div
+          className={cn(RICH_TEXT_CLASSES, compact && "line-clamp-1 [&_*]:inline")}
+          dangerouslySetInnerHTML={{ __html: sanitizeRichText(String(value)) }}
+        />
+      );
+    default:
+      return <span>{String(value)}</span>;
+  }
+};
@@ -0,0 +1,604 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { useAppStore } from '../store';
+import { TableSchema, FieldType, GeometryType } from '../types';
+import { FIELD_TYPES, GEO_TYPES } from '../constants';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Combobox } from './ui/combobox';
+import { Switch } from './ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { useToast } from './ui/use-toast';
+import { cn } from '../lib/utils';
+import { Upload, FileJson, AlertTriangle, ArrowRight, ArrowLeft, Loader2, MapPin, Globe } from 'lucide-react';
+import {
+  ImportDataset, FieldMapping, CsvTable, CoordinateSource, CSV_DELIMITERS,
+  parseGeoJSON, parseCSV, csvToDataset, guessCoordinateSource, coordinateColumns,
+  proposeSchema, inferGeometryType, identityMapping, guessMapping, buildRecords, validateRecords, acceptsGeometry
+} from '../services/dataImport';
+import { parseShapefileZip } from '../services/shapefile';
+import { WGS84, isGeographic } from '../services/crs';
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultTableId?: string | null;
+}
+
+type Step = 'file' | 'target' | 'review';
+
+const CSV_EXTENSIONS = /\.(csv|tsv|txt)$/i;
+const ZIP_EXTENSION = /\.zip$/i;
+const MAX_REPORTED_ERRORS = 200;
+
+const COORDINATE_MODES = [
+  { value: 'latlng', label: 'Latitude / Longitude columns' },
+  { value: 'wkt', label: 'WKT column' },
+  { value: 'none', label: 'No geometry' },
+];
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ open, onOpenChange, defaultTableId }) => {
+  const { schemas, visibleSchemas, addSchema, addRecords, setDataState, hasPermission, getTableAccess, crsList } = useAppStore();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canCreateTable = hasPermission('manage_schemas');
+  // Existing tables the user's role may add records to, without the fields hidden from them
+  const targetSchemas = visibleSchemas.filter(s => getTableAccess(s.id).create);
+
+  const [step, setStep] = useState<Step>('file');
+  const [dataset, setDataset] = useState<ImportDataset | null>(null);
+  const [mode, setMode] = useState<'new' | 'existing'>('new');
+  const [isImporting, setIsImporting] = useState(false);
+
+  // New table: proposed schema and which proposed fields are kept
+  const [proposedSchema, setProposedSchema] = useState<TableSchema | null>(null);
+  const [includedFields, setIncludedFields] = useState<Record<string, boolean>>({});
+
+  // Existing table: target and property mapping
+  const [targetTableId, setTargetTableId] = useState<string>('');
+  const [mapping, setMapping] = useState<FieldMapping>({});
+
+  // CSV: the raw text is kept so the file can be re-read with another delimiter
+  const [csvSource, setCsvSource] = useState<{ text: string; fileName: string } | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [coordinateSource, setCoordinateSource] = useState<CoordinateSource>({ kind: 'none' });
+  const [skipInvalidRows, setSkipInvalidRows] = useState(true);
+
+  // Source CRS: '' reads what the file declares (WGS84 for CSV); other files are also kept to be re-read
+  const [sourceCrs, setSourceCrs] = useState('');
+  const [fileSource, setFileSource] = useState<{ fileName: string; text?: string; buffer?: ArrayBuffer; detectedCrs?: string } | null>(null);
+
+  const targetSchema = mode === 'new' ? proposedSchema : targetSchemas.find(s => s.id === targetTableId) || null;
+
+  const reset = () => {
+    setStep('file');
+    setDataset(null);
+    setProposedSchema(null);
+    setIncludedFields({});
+    setMapping({});
+    setCsvSource(null);
+    setCsvTable(null);
+    setCoordinateSource({ kind: 'none' });
+    setSkipInvalidRows(true);
+    setSourceCrs('');
+    setFileSource(null);
+    setIsImporting(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const selectTarget = (ds: ImportDataset, tableId: string) => {
+    setTargetTableId(tableId);
+    const schema = targetSchemas.find(s => s.id === tableId);
+    setMapping(schema ? guessMapping(ds, schema) : {});
+  };
+
+  // Coordinate columns are not proposed as fields of a new table
+  const startImport = (parsed: ImportDataset, preferExisting: boolean, excludedProperties: string[] = []) => {
+    const proposal = proposeSchema(parsed, schemas.length);
+    setDataset(parsed);
+    setProposedSchema(proposal);
+    setIncludedFields(Object.fromEntries(proposal.fields.map((f, i) => [f.id, !excludedProperties.includes(parsed.properties[i])])));
+    setMode(canCreateTable && !(preferExisting && defaultTableId) ? 'new' : 'existing');
+    selectTarget(parsed, defaultTableId || targetSchemas[0]?.id || '');
+    setStep('target');
+  };
+
+  const csvCrs = sourceCrs || WGS84;
+
+  const loadCsv = (text: string, fileName: string, delimiter?: string) => {
+    const table = parseCSV(text, fileName, delimiter);
+    if (table.rows.length === 0) throw new Error("The file has a header row but no data rows.");
+    const source = guessCoordinateSource(table.columns);
+    setCsvSource({ text, fileName });
+    setCsvTable(table);
+    setCoordinateSource(source);
+    // Spreadsheets usually feed an existing table: start on the active one
+    startImport(csvToDataset(table, source, csvCrs), true, coordinateColumns(source));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      if (CSV_EXTENSIONS.test(file.name)) {
+        loadCsv(await file.text(), file.name);
+        return;
+      }
+      const source = ZIP_EXTENSION.test(file.name)
+        ? { fileName: file.name, buffer: await file.arrayBuffer() }
+        : { fileName: file.name, text: await file.text() };
+      const parsed = source.buffer ? parseShapefileZip(source.buffer, file.name) : parseGeoJSON(source.text!, file.name);
+      if (parsed.features.length === 0) {
+        toast({ title: "Nothing to import", description: "The file contains no features.", variant: "destructive" });
+        return;
+      }
+      setFileSource({ ...source, detectedCrs: parsed.crs });
+      startImport(parsed, false);
+    } catch (err) {
+      toast({ title: "Import Failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const changeDelimiter = (delimiter: string) => {
+    if (!csvSource) return;
+    try {
+      loadCsv(csvSource.text, csvSource.fileName, delimiter);
+    } catch (err) {
+      toast({ title: "Import Failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const changeCoordinateSource = (source: CoordinateSource) => {
+    if (!csvTable || !proposedSchema) return;
+    const parsed = csvToDataset(csvTable, source, csvCrs);
+    const geometryType = inferGeometryType(parsed.features);
+    const excluded = coordinateColumns(source);
+    setCoordinateSource(source);
+    setDataset(parsed);
+    setProposedSchema({ ...proposedSchema, geometryType, visibleInMap: geometryType !== 'none', allowNonSpatialEntry: geometryType === 'none' });
+    setIncludedFields(Object.fromEntries(proposedSchema.fields.map((f, i) => [f.id, excluded.includes(parsed.properties[i]) ? false : includedFields[f.id]])));
+  };
+
+  // Only the geometries change: the proposed schema and mapping are kept
+  const changeSourceCrs = (code: string) => {
+    try {
+      const parsed = csvTable
+        ? csvToDataset(csvTable, coordinateSource, code || WGS84)
+        : fileSource?.buffer
+          ? parseShapefileZip(fileSource.buffer, fileSource.fileName, code || undefined)
+          : fileSource?.text !== undefined
+            ? parseGeoJSON(fileSource.text, fileSource.fileName, code || undefined)
+            : null;
+      if (!parsed) return;
+      setSourceCrs(code);
+      setDataset(parsed);
+    } catch (err) {
+      toast({ title: "Import Failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const changeCoordinateMode = (kind: string) => {
+    if (!csvTable) return;
+    const guess = guessCoordinateSource(csvTable.columns);
+    const [first = '', second = first] = csvTable.columns;
+    if (kind === 'latlng') {
+      changeCoordinateSource(guess.kind === 'latlng' ? guess : { kind: 'latlng', lat: first, lng: second });
+    } else if (kind === 'wkt') {
+      changeCoordinateSource(guess.kind === 'wkt' ? guess : { kind: 'wkt', column: first });
+    } else {
+      changeCoordinateSource({ kind: 'none' });
+    }
+  };
+
+  const updateProposedField = (fieldId: string, updates: { label?: string; type?: FieldType }) => {
+    if (!proposedSchema) return;
+    setProposedSchema({
+      ...proposedSchema,
+      fields: proposedSchema.fields.map((f, i) => {
+        if (f.id !== fieldId) return f;
+        const next = { ...f, ...updates };
+        // Switching to a list offers the distinct values found in the file, each choice on its own for multiple choice
+        if ((updates.type === 'select' || updates.type === 'multiselect') && !next.options?.length && dataset) {
+          const raw = dataset.features.map(feat => feat.properties[dataset.properties[i]]).filter(v => v !== null && v !== undefined && v !== '');
+          const values = new Set(updates.type === 'multiselect' ? raw.flatMap(v => String(v).split(/[;,]/).map(s => s.trim()).filter(Boolean)) : raw.map(String));
+          next.options = Array.from(values).sort().map(v => ({ label: v, value: v }));
+        }
+        return next;
+      })
+    });
+  };
+
+  // The schema and mapping the records will be written with (a new table keeps only the selected fields)
+  const resolved = useMemo(() => {
+    if (!dataset || !targetSchema) return null;
+    if (mode === 'existing') return { schema: targetSchema, mapping };
+    const identity = identityMapping(dataset, targetSchema);
+    const kept = targetSchema.fields.filter(f => includedFields[f.id]);
+    return {
+      schema: { ...targetSchema, fields: kept, hoverFields: (targetSchema.hoverFields || []).filter(name => kept.some(f => f.name === name)) },
+      mapping: Object.fromEntries(Object.entries(identity).filter(([, name]) => kept.some(f => f.name === name)))
+    };
+  }, [dataset, targetSchema, mode, includedFields, mapping]);
+
+  const rowErrors = useMemo(
+    () => step === 'review' && dataset && resolved ? validateRecords(dataset, resolved.schema, resolved.mapping) : [],
+    [step, dataset, resolved]
+  );
+  const invalidIndexes = useMemo(() => new Set(rowErrors.map(e => e.index)), [rowErrors]);
+
+  // Geometry compatibility summary for the review step
+  const summary = useMemo(() => {
+    if (!dataset || !resolved) return null;
+    const withGeometry = dataset.features.filter(f => f.geometry).length;
+    const accepted = dataset.features.filter(f => acceptsGeometry(resolved.schema.geometryType, f.geometry)).length;
+    const mappedFields = Object.values(resolved.mapping).filter(Boolean).length;
+    const importable = skipInvalidRows ? dataset.features.length - invalidIndexes.size : dataset.features.length;
+    return { total: dataset.features.length, withGeometry, accepted, mappedFields, invalid: invalidIndexes.size, importable };
+  }, [dataset, resolved, invalidIndexes, skipInvalidRows]);
+
+  const handleImport = async () => {
+    if (!dataset || !resolved) return;
+    setIsImporting(true);
+
+    try {
+      let schema = resolved.schema;
+
+      if (mode === 'new') {
+        if (!schema.name.trim()) {
+          toast({ title: "Error", description: "Table name is required.", variant: "destructive" });
+          setIsImporting(false);
+          return;
+        }
+        schema = { ...schema, id: genId() };
+        addSchema(schema);
+      }
+
+      const source = skipInvalidRows && invalidIndexes.size > 0
+        ? { ...dataset, features: dataset.features.filter((_, i) => !invalidIndexes.has(i)) }
+        : dataset;
+      const newRecords = buildRecords(source, schema, resolved.mapping);
+      await addRecords(newRecords);
+
+      toast({ title: "Import Complete", description: `${newRecords.length} records imported into ${schema.name}.`, variant: "success" });
+      setDataState({ activeTableId: schema.id, searchQuery: '' });
+      handleClose();
+    } catch (err) {
+      setIsImporting(false);
+      toast({ title: "Import Failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const fieldOptions = (schema: TableSchema) => [
+    { value: '', label: '— Ignore —' },
+    ...schema.fields.map(f => ({ value: f.name, label: `${f.label} (${f.type})` }))
+  ];
+
+  const sampleValue = (prop: string) => {
+    const found = dataset?.features.find(f => f.properties[prop] !== undefined && f.properties[prop] !== null && f.properties[prop] !== '');
+    if (!found) return '';
+    const value = found.properties[prop];
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()} className="max-w-3xl">
+      <DialogContent className="max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Upload className="w-5 h-5" /> Import Data</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Load a GeoJSON FeatureCollection, a CSV file or a zipped shapefile.'}
+            {step === 'target' && `${dataset?.features.length} ${csvTable ? 'rows' : 'features'} read from ${dataset?.name}. Choose where to import them.`}
+            {step === 'review' && 'Check the summary before importing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {step === 'file' && (
+            <div
+              className="border-2 border-dashed rounded-lg p-10 flex flex-col items-center gap-3 text-muted-foreground cursor-pointer hover:bg-muted/30 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileJson className="w-10 h-10 opacity-40" />
+              <p className="text-sm">Click to select a <span className="font-mono">.geojson</span>, <span className="font-mono">.json</span>, <span className="font-mono">.csv</span> or <span className="font-mono">.zip</span> (shapefile) file</p>
+              <input ref={fileInputRef} type="file" accept=".geojson,.json,.csv,.tsv,.txt,.zip,application/geo+json,application/json,text/csv,application/zip" className="hidden" onChange={handleFileChange} />
+            </div>
+          )}
+
+          {step === 'target' && dataset && proposedSchema && (
+            <div className="space-y-4">
+              {csvTable && (
+                <div className="border rounded-md p-3 space-y-3 bg-muted/20">
+                  <div className="text-xs font-semibold uppercase text-muted-foreground tracking-wider flex items-center gap-2">
+                    <MapPin className="w-3 h-3" /> CSV Columns
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Delimiter</Label>
+                      <Combobox options={CSV_DELIMITERS} value={csvTable.delimiter} onChange={changeDelimiter} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Geometry</Label>
+                      <Combobox options={COORDINATE_MODES} value={coordinateSource.kind} onChange={changeCoordinateMode} />
+                    </div>
+                  </div>
+                  {coordinateSource.kind === 'latlng' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>{isGeographic(csvCrs) ? 'Latitude Column' : 'Y (Northing) Column'}</Label>
+                        <Combobox
+                          options={csvTable.columns.map(c => ({ value: c, label: c }))}
+                          value={coordinateSource.lat}
+                          onChange={(val) => changeCoordinateSource({ ...coordinateSource, lat: val })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>{isGeographic(csvCrs) ? 'Longitude Column' : 'X (Easting) Column'}</Label>
+                        <Combobox
+                          options={csvTable.columns.map(c => ({ value: c, label: c }))}
+                          value={coordinateSource.lng}
+                          onChange={(val) => changeCoordinateSource({ ...coordinateSource, lng: val })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {coordinateSource.kind === 'wkt' && (
+                    <div className="space-y-2">
+                      <Label>WKT Column</Label>
+                      <Combobox
+                        options={csvTable.columns.map(c => ({ value: c, label: c }))}
+                        value={coordinateSource.column}
+                        onChange={(val) => changeCoordinateSource({ kind: 'wkt', column: val })}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {(csvTable ? coordinateSource.kind !== 'none' : !!fileSource) && (
+                <div className="border rounded-md p-3 space-y-2 bg-muted/20">
+                  <div className="text-xs font-semibold uppercase text-muted-foreground tracking-wider flex items-center gap-2">
+                    <Globe className="w-3 h-3" /> Coordinate System
+                  </div>
+                  <Combobox
+                    options={[
+                      ...(csvTable ? [] : [{ value: '', label: `As declared in the file (${fileSource?.detectedCrs || (fileSource?.buffer ? '.prj' : WGS84)})` }]),
+                      ...crsList.map(c => ({ value: c.code, label: `${c.code} - ${c.name}` }))
+                    ]}
+                    value={csvTable ? csvCrs : sourceCrs}
+                    onChange={changeSourceCrs}
+                  />
+                  <p className="text-[10px] text-muted-foreground">Coordinates are converted to WGS84 when imported.</p>
+                </div>
+              )}
+
+              <div className="flex bg-muted p-1 rounded-md">
+                <button
+                  className={cn("flex-1 text-sm py-1.5 rounded-sm transition-all", mode === 'new' ? "bg-background shadow-sm font-medium" : "text-muted-foreground hover:text-foreground", !canCreateTable && "opacity-50 cursor-not-allowed")}
+                  onClick={() => canCreateTable && setMode('new')}
+                  disabled={!canCreateTable}
+                  title={!canCreateTable ? 'Requires the Manage Configuration permission' : undefined}
+                >
+                  New Table
+                </button>
+                <button
+                  className={cn("flex-1 text-sm py-1.5 rounded-sm transition-all", mode === 'existing' ? "bg-background shadow-sm font-medium" : "text-muted-foreground hover:text-foreground")}
+                  onClick={() => setMode('existing')}
+                >
+                  Existing Table
+                </button>
+              </div>
+
+              {mode === 'new' ? (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Table Name</Label>
+                      <Input value={proposedSchema.name} onChange={e => setProposedSchema({ ...proposedSchema, name: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Geometry Type</Label>
+                      <Combobox
+                        options={GEO_TYPES}
+                        value={proposedSchema.geometryType}
+                        onChange={(val) => setProposedSchema({ ...proposedSchema, geometryType: val as GeometryType, visibleInMap: val !== 'none' })}
+                      />
+                    </div>
+                  </div>
+                  <div className="border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[60px]">Keep</TableHead>
+                          <TableHead>Property</TableHead>
+                          <TableHead>Label</TableHead>
+                          <TableHead className="w-[180px]">Type</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {proposedSchema.fields.map((field, i) => (
+                          <TableRow key={field.id}>
+                            <TableCell>
+                              <Switch
+                                checked={!!includedFields[field.id]}
+                                onCheckedChange={(checked) => setIncludedFields({ ...includedFields, [field.id]: checked })}
+                                className="scale-75"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-mono text-xs">{dataset.properties[i]}</div>
+                              <div className="text-[10px] text-muted-foreground truncate max-w-[160px]">{sampleValue(dataset.properties[i])}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Input className="h-8" value={field.label} onChange={e => updateProposedField(field.id, { label: e.target.value })} />
+                            </TableCell>
+                            <TableCell>
+                              <Combobox
+                                options={FIELD_TYPES.filter(t => t.value !== 'relation' && t.value !== 'attachment')}
+                                value={field.type}
+                                onChange={(val) => updateProposedField(field.id, { type: val as FieldType })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label>Target Table</Label>
+                    <Combobox
+                      options={targetSchemas.map(s => ({ value: s.id, label: s.name, color: s.color }))}
+                      value={targetTableId}
+                      onChange={(val) => selectTarget(dataset, val)}
+                      placeholder="Select a table..."
+                    />
+                  </div>
+                  {targetSchema && (
+                    <div className="border rounded-md">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Property</TableHead>
+                            <TableHead>Sample</TableHead>
+                            <TableHead className="w-[240px]">Target Field</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {dataset.properties.map(prop => (
+                            <TableRow key={prop}>
+                              <TableCell className="font-mono text-xs">{prop}</TableCell>
+                              <TableCell className="text-xs text-muted-foreground truncate max-w-[200px]">{sampleValue(prop)}</TableCell>
+                              <TableCell>
+                                <Combobox
+                                  options={fieldOptions(targetSchema)}
+                                  value={mapping[prop] || ''}
+                                  onChange={(val) => setMapping({ ...mapping, [prop]: val })}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {step === 'review' && summary && resolved && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-3">
+                <div className="border rounded-md p-3">
+                  <div className="text-xs text-muted-foreground uppercase tracking-wider">Records</div>
+                  <div className="text-2xl font-bold">{summary.total}</div>
+                </div>
+                <div className="border rounded-md p-3">
+                  <div className="text-xs text-muted-foreground uppercase tracking-wider">With Errors</div>
+                  <div className={cn("text-2xl font-bold", summary.invalid > 0 && "text-destructive")}>{summary.invalid}</div>
+                </div>
+                <div className="border rounded-md p-3">
+                  <div className="text-xs text-muted-foreground uppercase tracking-wider">With Geometry</div>
+                  <div className="text-2xl font-bold">{summary.accepted}</div>
+                </div>
+                <div className="border rounded-md p-3">
+                  <div className="text-xs text-muted-foreground uppercase tracking-wider">Mapped Fields</div>
+                  <div className="text-2xl font-bold">{summary.mappedFields}</div>
+                </div>
+              </div>
+              <p className="text-sm">
+                Target: <span className="font-medium">{resolved.schema.name || 'Untitled'}</span>{' '}
+                <span className="text-xs font-mono text-muted-foreground bg-muted px-1 rounded">{resolved.schema.geometryType}</span>
+                {mode === 'new' && <span className="text-xs text-muted-foreground"> (new table)</span>}
+              </p>
+              {(summary.withGeometry > summary.accepted || dataset!.warnings.length > 0) && (
+                <div className="space-y-1 text-xs text-amber-700 bg-amber-50 dark:bg-amber-950/30 dark:text-amber-400 p-3 rounded-md">
+                  {summary.withGeometry > summary.accepted && (
+                    <div className="flex gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {summary.withGeometry - summary.accepted} geometries do not match the table's geometry type and will be left empty.</div>
+                  )}
+                  {dataset!.warnings.map(w => (
+                    <div key={w} className="flex gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {w}</div>
+                  ))}
+                </div>
+              )}
+
+              {/* Per-row error report */}
+              {rowErrors.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-medium text-destructive">
+                      {rowErrors.length} problem{rowErrors.length > 1 ? 's' : ''} in {summary.invalid} row{summary.invalid > 1 ? 's' : ''}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="skip-invalid" className="text-xs font-normal">Skip rows with errors</Label>
+                      <Switch id="skip-invalid" checked={skipInvalidRows} onCheckedChange={setSkipInvalidRows} className="scale-75" />
+                    </div>
+                  </div>
+                  {!skipInvalidRows && (
+                    <p className="text-xs text-muted-foreground">Invalid values will be left empty in the imported records.</p>
+                  )}
+                  <div className="border rounded-md max-h-64 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[70px]">Row</TableHead>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Value</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rowErrors.slice(0, MAX_REPORTED_ERRORS).map((err, i) => (
+                          <TableRow key={i}>
+                            <TableCell className="font-mono text-xs">{err.row}</TableCell>
+                            <TableCell className="text-xs">{err.field || '—'}</TableCell>
+                            <TableCell className="text-xs font-mono truncate max-w-[160px]">{err.value}</TableCell>
+                            <TableCell className="text-xs text-destructive">{err.message}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {rowErrors.length > MAX_REPORTED_ERRORS && (
+                    <p className="text-xs text-muted-foreground">Showing the first {MAX_REPORTED_ERRORS} problems.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step !== 'file' && (
+            <Button variant="outline" onClick={() => setStep(step === 'review' ? 'target' : 'file')} disabled={isImporting}>
+              <ArrowLeft className="w-4 h-4 mr-2" /> Back
+            </Button>
+          )}
+          {step === 'target' && (
+            <Button onClick={() => setStep('review')} disabled={!targetSchema}>
+              Next <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          )}
+          {step === 'review' && (
+            <Button onClick={handleImport} disabled={isImporting || !summary?.importable}>
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {summary?.importable} Records
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,13 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
-import { Map, Lock, User, Globe, Layers, Eye, EyeOff, ChevronDown, Zap } from 'lucide-react';
+import { Map, Lock, User, Globe, Layers, Eye, EyeOff, ChevronDown, Zap, KeyRound, ArrowLeft, LogIn } from 'lucide-react';
 import { useTranslation } from '../hooks/useTranslation';
 import { cn } from '../lib/utils';
 import { useAppStore } from '../store';
 import { LANGUAGES } from '../constants';
+import { describePasswordPolicy } from '../services/auth';
+import { hasOidcCallback } from '../services/oidc';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,20 +17,49 @@ import {
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
 
-interface LoginProps {
-  onLogin: () => void;
-}
+const RESET_INPUT_CLASS = "bg-slate-900/50 border-slate-700 text-white placeholder:text-slate-600 focus:border-blue-500 transition-all";
 
-export const Login: React.FC<LoginProps> = ({ onLogin }) => {
+// Signing in switches the app to the main view (see SessionGate in App.tsx)
+export const Login: React.FC = () => {
   const { t, lang } = useTranslation();
-  const { updatePreferences, users, setCurrentUser } = useAppStore();
+  const { updatePreferences, login, resetPassword, passwordPolicy, ssoConfig, beginSsoLogin, completeSsoLogin } = useAppStore();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState<{ username?: string; password?: string; general?: string }>({});
+  const [notice, setNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // "Forgot password?": an administrator issues a one-time code from Users & Security
+  const [mode, setMode] = useState<'login' | 'reset'>('login');
+  const [resetCode, setResetCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Back from the identity provider: finish the single sign-on it was sent to
+  useEffect(() => {
+    if (!hasOidcCallback()) return;
+    setIsLoading(true);
+    completeSsoLogin().catch((e: any) => {
+      setErrors({ general: e?.message || t('login.error') });
+      setIsLoading(false);
+    });
+  }, [completeSsoLogin]);
+
+  const handleSsoLogin = async () => {
+    setErrors({});
+    setNotice(null);
+    setIsLoading(true);
+    try {
+      await beginSsoLogin(remember);
+    } catch (e: any) {
+      setErrors({ general: e?.message || t('login.error') });
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
@@ -48,40 +79,61 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
     }
 
     setIsLoading(true);
-
-    setTimeout(() => {
-      // Find user by username or email and match password
-      const user = users.find(u => 
-        (u.username === username || u.email === username) && 
-        u.password === password
-      );
-
-      if (user) {
-        setCurrentUser(user);
-        onLogin();
-      } else {
-        setErrors({ general: t('login.error') });
-        setIsLoading(false);
-      }
-    }, 600);
+    setNotice(null);
+    try {
+      // Lookup by username or email, password check and lockout all happen in the store
+      await login(username.trim(), password, remember);
+    } catch (e: any) {
+      setErrors({ general: e?.message || t('login.error') });
+      setIsLoading(false);
+    }
   };
 
-  const handleDemoLogin = () => {
+  const handleDemoLogin = async () => {
     setUsername('admin');
     setPassword('admin');
     setErrors({});
+    setNotice(null);
+    setIsLoading(true);
+    try {
+      await login('admin', 'admin', false);
+    } catch (e: any) {
+      // The demo account was removed or its password changed
+      setErrors({ general: `Demo login unavailable: ${e?.message || t('login.error')}` });
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    if (!username.trim() || !resetCode.trim() || !newPassword) {
+      setErrors({ general: 'Fill in your username, the reset code and a new password.' });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setErrors({ general: 'The new passwords do not match.' });
+      return;
+    }
     setIsLoading(true);
-    setTimeout(() => {
-       const admin = users.find(u => u.username === 'admin');
-       if (admin) {
-           setCurrentUser(admin);
-           onLogin();
-       } else {
-           // Fallback if admin user was deleted/modified
-           setErrors({ general: "Demo user not found." });
-           setIsLoading(false);
-       }
-    }, 800);
+    try {
+      await resetPassword(username.trim(), resetCode, newPassword);
+      setMode('login');
+      setPassword('');
+      setResetCode('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setNotice('Your password has been changed. Sign in with the new password.');
+    } catch (e: any) {
+      setErrors({ general: e?.message || String(e) });
+    }
+    setIsLoading(false);
+  };
+
+  const switchMode = (next: 'login' | 'reset') => {
+    setMode(next);
+    setErrors({});
+    setNotice(null);
   };
 
   const clearError = (field: 'username' | 'password') => {
@@ -167,11 +219,45 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
 
             <Card className="border-slate-800 bg-slate-950/80 backdrop-blur-xl shadow-2xl ring-1 ring-white/10">
               <CardHeader className="space-y-1 pb-6">
-                <CardTitle className="text-2xl font-bold text-center text-white">{t('login.welcome')}</CardTitle>
+                <CardTitle className="text-2xl font-bold text-center text-white">{mode === 'reset' ? 'Reset password' : t('login.welcome')}</CardTitle>
                 <CardDescription className="text-center text-slate-400">
-                  {t('login.instruction')}
+                  {mode === 'reset' ? 'Enter the one-time code your administrator gave you and choose a new password.' : t('login.instruction')}
                 </CardDescription>
               </CardHeader>
+              {mode === 'reset' ? (
+              <form onSubmit={handleReset}>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reset-username" className="text-slate-200">{t('login.username')}</Label>
+                    <Input id="reset-username" value={username} onChange={e => setUsername(e.target.value)} className={RESET_INPUT_CLASS} autoComplete="username" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reset-code" className="text-slate-200">Reset code</Label>
+                    <Input id="reset-code" placeholder="XXXX-XXXX" value={resetCode} onChange={e => setResetCode(e.target.value)} className={cn(RESET_INPUT_CLASS, "font-mono uppercase tracking-widest")} autoComplete="one-time-code" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password" className="text-slate-200">New password</Label>
+                    <Input id="new-password" type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} className={RESET_INPUT_CLASS} autoComplete="new-password" />
+                    <Input type="password" placeholder="Repeat the new password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={RESET_INPUT_CLASS} autoComplete="new-password" />
+                    <p className="text-xs text-slate-500">{describePasswordPolicy(passwordPolicy)}</p>
+                  </div>
+
+                  {errors.general && (
+                    <div className="bg-red-500/10 p-3 rounded-md flex items-center gap-2 text-sm text-red-400 animate-in fade-in slide-in-from-top-1 border border-red-500/20">
+                      <span className="font-medium">Error:</span> {errors.general}
+                    </div>
+                  )}
+                </CardContent>
+                <CardFooter className="pt-2 pb-6 flex flex-col gap-3">
+                  <Button className="w-full bg-gradient-to-r from-blue-600 to-violet-600 hover:from-blue-700 hover:to-violet-700 text-white border-0 shadow-lg shadow-blue-900/20 h-11 font-medium" disabled={isLoading}>
+                    <KeyRound className="w-4 h-4 mr-2" /> Set new password
+                  </Button>
+                  <button type="button" onClick={() => switchMode('login')} className="text-xs text-blue-400 hover:text-blue-300 transition-colors flex items-center gap-1">
+                    <ArrowLeft className="w-3 h-3" /> Back to sign in
+                  </button>
+                </CardFooter>
+              </form>
+              ) : (
               <form onSubmit={handleSubmit}>
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
@@ -232,14 +318,22 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                       <input 
                         type="checkbox" 
                         id="remember" 
+                        checked={remember}
+                        onChange={e => setRemember(e.target.checked)}
                         className="h-4 w-4 rounded border-slate-700 bg-slate-900 text-blue-600 focus:ring-blue-500 focus:ring-offset-slate-900"
                       />
                       <label htmlFor="remember" className="text-sm font-medium leading-none text-slate-400 cursor-pointer select-none">Remember me</label>
                     </div>
-                    <button type="button" className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
+                    <button type="button" onClick={() => switchMode('reset')} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
                       Forgot password?
                     </button>
                   </div>
+
+                  {notice && (
+                    <div className="bg-green-500/10 p-3 rounded-md text-sm text-green-400 animate-in fade-in slide-in-from-top-1 border border-green-500/20">
+                      {notice}
+                    </div>
+                  )}
                   
                   {errors.general && (
                     <div className="bg-red-500/10 p-3 rounded-md flex items-center gap-2 text-sm text-red-400 animate-in fade-in slide-in-from-top-1 border border-red-500/20">
@@ -247,6 +341,23 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                     </div>
                   )}
 
+                  {ssoConfig.enabled && (
+                    <div className="space-y-3 pt-2">
+                      <div className="flex items-center gap-3 text-xs text-slate-500">
+                        <div className="h-px flex-1 bg-slate-800" /> or <div className="h-px flex-1 bg-slate-800" />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleSsoLogin}
+                        disabled={isLoading}
+                        className="w-full h-10 border-slate-700 bg-slate-900/50 text-slate-200 hover:bg-slate-800 hover:text-white"
+                      >
+                        <LogIn className="w-4 h-4 mr-2" /> Sign in with {ssoConfig.providerName}
+                      </Button>
+                    </div>
+                  )}
+
                   <div className="bg-blue-500/10 border border-blue-500/20 rounded-md p-3 text-xs text-blue-300 text-center mt-4 space-y-3">
                     <div>
                         Demo Credentials: <span className="font-mono font-bold text-blue-200">admin</span> / <span className="font-mono font-bold text-blue-200">admin</span>
@@ -275,6 +386,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                   </Button>
                 </CardFooter>
               </form>
+              )}
             </Card>
             
             <p className="text-center text-xs text-slate-500">
@@ -4,15 +4,21 @@ import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import L from 'leaflet';
 // CSS is loaded via index.html
 import { useAppStore } from '../store';
-import { DataRecord } from '../types';
+import { DataRecord, FieldDefinition, TableSchema, TileLayerConfig } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
 import { 
   MousePointer2, Plus, Move, Ruler, Filter, Printer, 
   Trash2, X, Map as MapIcon, Layers, Search, ChevronDown, ChevronUp,
   CircleDot, Hexagon, Spline, Undo2, Redo2, Save, Target, PenLine,
-  FileDown, ChevronRight, AlertTriangle, Globe, GripVertical, Maximize2
+  FileDown, ChevronRight, AlertTriangle, Globe, GripVertical, Maximize2, Crosshair, Route as RouteIcon, History, Link2
 } from 'lucide-react';
 import { cn, getDirtyFields } from '../lib/utils';
+import {
+  getSimpleType, getPoints, getLines, getPolygons, getVertices, moveVertex, translateGeometry,
+  getGeometryBounds, getGeometryCenter, intersectsBounds
+} from '../lib/geometry';
+import { buildRoutingGraph, findRoute } from '../lib/routing';
+import { ROUTE_PROFILES } from '../constants';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { useToast } from './ui/use-toast';
@@ -22,6 +28,24 @@ import { Combobox } from './ui/combobox';
 import { DatePicker } from './ui/date-picker';
 import { Switch } from './ui/switch';
 import { Textarea } from './ui/textarea';
+import { exportLayer, LAYER_EXPORT_FORMATS, LayerExportFormat } from '../services/dataExport';
+import { WEB_MERCATOR, WGS84, formatCoordinate, fromWgs84, getCrs, isGeographic, parseCoordinateInput, toWgs84 } from '../services/crs';
+import { FeatureInfoResult, FeatureInfoView, fetchFeatureInfo } from '../services/ogc';
+import { applyFormulas, defaultRecordData } from '../services/formulas';
+import { VectorTileLayer } from '../lib/vectorTileLayer';
+import { RecordHistory } from './RecordHistory';
+import { RecordPicker } from './RecordPicker';
+import { RelatedRecords } from './RelatedRecords';
+import { useRelationLabels } from '../hooks/useRelationLabels';
+import { hasRelations, relationTargets } from '../services/relations';
+import { attachmentRefs } from '../services/attachments';
+import { fieldLink, formatFieldValue, formatNumber, inputType, selectedOptions } from '../services/fieldFormat';
+import { sanitizeRichText } from '../lib/richText';
+import { AttachmentInput } from './AttachmentInput';
+import { ColorPicker } from './ColorPicker';
+import { MultiSelectInput, NumberInput, RICH_TEXT_CLASSES, RichTextEditor } from './FieldInputs';
+import { FORMATTED_TYPES, FieldValue } from './FieldValue';
+import { AttachmentGallery, useOpenAttachment } from './AttachmentGallery';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 
@@ -65,28 +89,239 @@ const formatArea = (areaSqMeters: number) => {
     }
 };
 
+const formatDistance = (meters: number) =>
+    meters > 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(0)} m`;
+
+const formatDuration = (seconds: number) => {
+    const minutes = Math.round(seconds / 60);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+// --- Tile grids ---
+// The bottom visible base layer decides the grid the map is drawn in; tiled layers cut in another grid
+// cannot be shown with it. WMS images are requested in whatever grid the map uses.
+
+const hasCustomGrid = (layer?: TileLayerConfig) => !!layer?.tileGrid?.resolutions.length && !!getCrs(layer.crs || WEB_MERCATOR);
+
+const gridKey = (layer?: TileLayerConfig) => {
+  const code = layer?.crs || WEB_MERCATOR;
+  if (!hasCustomGrid(layer)) return code === WGS84 ? WGS84 : WEB_MERCATOR;
+  return `${code}|${JSON.stringify(layer!.tileGrid)}`;
+};
+
+const fitsGrid = (layer: TileLayerConfig | undefined, key: string) => layer?.type === 'wms' || gridKey(layer) === key;
+
+const createLeafletCrs = (layer?: TileLayerConfig): L.CRS => {
+  const code = layer?.crs || WEB_MERCATOR;
+  const grid = layer?.tileGrid;
+  if (!grid || !hasCustomGrid(layer)) {
+    return code === WGS84 ? L.CRS.EPSG4326 : L.CRS.EPSG3857;
+  }
+
+  const [originX, originY] = grid.origin;
+  const scales = grid.resolutions.map(resolution => 1 / resolution);
+  const last = scales.length - 1;
+
+  return L.Util.extend({}, L.CRS, {
+    code,
+    projection: {
+      project: (latlng: L.LatLng) => L.point(fromWgs84(code, [latlng.lat, latlng.lng])),
+      unproject: (point: L.Point) => L.latLng(toWgs84(code, [point.x, point.y]))
+    },
+    transformation: new L.Transformation(1, -originX, -1, originY),
+    // Fractional zooms interpolate between the configured resolutions
+    scale: (zoom: number) => {
+      const i = Math.max(0, Math.min(last, Math.floor(zoom)));
+      const next = scales[Math.min(i + 1, last)];
+      return scales[i] + (next - scales[i]) * (zoom - i);
+    },
+    zoom: (scale: number) => {
+      for (let i = 0; i < last; i++) {
+        if (scale >= scales[i] && scale <= scales[i + 1]) return i + (scale - scales[i]) / (scales[i + 1] - scales[i]);
+      }
+      return scale < scales[0] ? 0 : last;
+    },
+    distance: L.CRS.Earth.distance,
+    R: L.CRS.Earth.R,
+    infinite: true
+  }) as L.CRS;
+};
+
+const gridMaxZoom = (layer?: TileLayerConfig) => {
+  const maxZoom = layer?.maxZoom || 19;
+  return layer?.tileGrid?.resolutions.length ? Math.min(maxZoom, layer.tileGrid.resolutions.length - 1) : maxZoom;
+};
+
+type BaseLayer = L.TileLayer | VectorTileLayer;
+
+const vectorStyle = (config: TileLayerConfig, dark: boolean) =>
+  (dark && config.vector?.darkStyle?.trim()) || config.vector!.style;
+
+const createBaseLayer = (config: TileLayerConfig, dark: boolean, onStyleError?: (error: any) => void): BaseLayer => {
+  if (config.type === 'vector' && config.vector) {
+      return new VectorTileLayer({
+          style: vectorStyle(config, dark),
+          tilesUrl: config.url || undefined,
+          attribution: config.attribution,
+          onStyleError
+      });
+  }
+  const options = {
+      attribution: config.attribution,
+      maxZoom: gridMaxZoom(config),
+      tileSize: config.tileGrid?.tileSize || 256
+  };
+  if (config.type === 'wms' && config.wms) {
+      return L.tileLayer.wms(config.url, {
+          ...options,
+          layers: config.wms.layers,
+          styles: config.wms.styles || '',
+          format: config.wms.format,
+          transparent: config.wms.transparent,
+          version: config.wms.version
+      });
+  }
+  if (config.type === 'wmts' && config.wmts) {
+      // Leaflet resolves function options when filling the URL template
+      const { matrixIds } = config.wmts;
+      return L.tileLayer(config.url, {
+          ...options,
+          TileMatrix: (data: { z: number }) => matrixIds[data.z] ?? data.z,
+          TileRow: (data: { y: number }) => data.y,
+          TileCol: (data: { x: number }) => data.x
+      } as L.TileLayerOptions);
+  }
+  return L.tileLayer(config.url, { ...options, subdomains: config.subdomains || 'abc' });
+};
+
+// --- WMS GetFeatureInfo popup ---
+
+const escapeHtml = (value: any) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+type FeatureInfoEntry = { layer: TileLayerConfig; result?: FeatureInfoResult; error?: string };
+
+// Attachment fields in feature popups: thumbnails of photos, names of other files. Clicks are
+// wired up when the popup opens.
+const renderAttachments = (value: any) => attachmentRefs(value).map(a => a.thumbnail
+  ? `<img src="${a.thumbnail}" alt="${escapeHtml(a.name)}" title="${escapeHtml(a.name)}" data-attachment-id="${escapeHtml(a.id)}" class="btn-open-attachment inline-block w-12 h-12 object-cover rounded border cursor-pointer mr-1 mb-1">`
+  : `<a href="#" data-attachment-id="${escapeHtml(a.id)}" class="btn-open-attachment block truncate text-blue-600 underline">${escapeHtml(a.name)}</a>`
+).join('');
+
+// The richer field types in feature popups, as FieldValue shows them in the dialogs
+const renderFieldValue = (field: FieldDefinition, value: any) => {
+  switch (field.type) {
+    case 'number': return escapeHtml(formatNumber(field, value));
+    case 'multiselect': return selectedOptions(field, value).map(o =>
+      `<span class="inline-flex items-center gap-1 px-1.5 rounded-full border mr-1 whitespace-nowrap">${o.color ? `<span class="w-1.5 h-1.5 rounded-full" style="background:${escapeHtml(o.color)}"></span>` : ''}${escapeHtml(o.label)}</span>`
+    ).join('');
+    case 'url':
+    case 'email':
+    case 'phone': {
+      const href = fieldLink(field, value);
+      return href ? `<a href="${escapeHtml(href)}"${field.type === 'url' ? ' target="_blank" rel="noopener noreferrer"' : ''} class="text-blue-600 underline">${escapeHtml(value)}</a>` : escapeHtml(value);
+    }
+    case 'color': return `<span class="inline-block w-3 h-3 rounded border align-middle mr-1" style="background:${escapeHtml(value)}"></span><span class="font-mono">${escapeHtml(value)}</span>`;
+    case 'richtext': return `<div class="${RICH_TEXT_CLASSES}">${sanitizeRichText(String(value))}</div>`;
+    default: return escapeHtml(value);
+  }
+};
+
+const renderFeatureInfo = (entries: FeatureInfoEntry[]) => {
+  const container = document.createElement('div');
+  container.className = 'font-sans min-w-[220px] space-y-3 text-xs';
+  entries.forEach(({ layer, result, error }) => {
+      const section = document.createElement('div');
+      const header = `<h3 class="font-bold text-sm border-b pb-1 mb-1.5">${escapeHtml(layer.name)}</h3>`;
+      if (error) {
+          section.innerHTML = `${header}<p class="text-red-600">${escapeHtml(error)}</p>`;
+      } else if (result?.kind === 'features') {
+          section.innerHTML = header + (result.features.length === 0
+              ? '<p class="text-gray-500">No features here.</p>'
+              : result.features.map(f => `<div class="space-y-1 mb-2">${Object.entries(f.properties).map(([k, v]) => `
+                  <div class="grid grid-cols-[min-content_1fr] gap-2 items-baseline">
+                      <span class="text-gray-500 whitespace-nowrap font-medium">${escapeHtml(k)}:</span>
+                      <span class="text-slate-800 break-words">${escapeHtml(v ?? '')}</span>
+                  </div>`).join('')}</div>`).join('<hr class="my-1">'));
+      } else if (result?.kind === 'html') {
+          // Server markup is untrusted: render it in a sandboxed frame
+          section.innerHTML = header;
+          const frame = document.createElement('iframe');
+          frame.setAttribute('sandbox', '');
+          frame.srcdoc = result.html;
+          frame.className = 'w-full h-40 border rounded';
+          section.appendChild(frame);
+      } else if (result?.kind === 'text') {
+          section.innerHTML = `${header}<pre class="whitespace-pre-wrap max-h-40 overflow-auto">${escapeHtml(result.text)}</pre>`;
+      }
+      container.appendChild(section);
+  });
+  return container;
+};
+
+const showFeatureInfo = async (map: L.Map, e: L.LeafletMouseEvent, layers: TileLayerConfig[]) => {
+  const crs = map.options.crs!;
+  const size = map.getSize();
+  const topLeft = crs.project(map.containerPointToLatLng([0, 0]));
+  const bottomRight = crs.project(map.containerPointToLatLng([size.x, size.y]));
+  const view: FeatureInfoView = {
+      crs: crs.code || WEB_MERCATOR,
+      bbox: [topLeft.x, bottomRight.y, bottomRight.x, topLeft.y],
+      width: size.x,
+      height: size.y,
+      x: e.containerPoint.x,
+      y: e.containerPoint.y
+  };
+
+  const popup = L.popup({ maxWidth: 360, maxHeight: 320, className: 'rounded-lg shadow-xl' })
+      .setLatLng(e.latlng)
+      .setContent('<div class="font-sans text-xs text-gray-500">Querying layers...</div>')
+      .openOn(map);
+
+  const entries = await Promise.all(layers.map(layer =>
+      fetchFeatureInfo(layer, view).then(
+          (result): FeatureInfoEntry => ({ layer, result }),
+          (err): FeatureInfoEntry => ({ layer, error: err instanceof Error ? err.message : String(err) })
+      )
+  ));
+  // A later click may have replaced the popup meanwhile
+  if (popup.isOpen()) popup.setContent(renderFeatureInfo(entries));
+};
+
 export const MapTab: React.FC = () => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<L.Map | null>(null);
   const isMapReady = useRef(false);
   
   // Base Layer Management
-  const baseLayersRef = useRef<Record<string, L.TileLayer>>({});
+  const baseLayersRef = useRef<Record<string, BaseLayer>>({});
   
   const layerGroups = useRef<Record<string, L.LayerGroup>>({});
   const measureLayer = useRef<L.LayerGroup | null>(null);
+  const routeLayer = useRef<L.LayerGroup | null>(null);
   const drawingLayer = useRef<L.LayerGroup | null>(null); // Layer for active drawing
   const filterLayer = useRef<L.Rectangle | null>(null);
   const printLayer = useRef<L.Rectangle | null>(null); // Layer for print viewfinder
   const printDragMarker = useRef<L.Marker | null>(null); // Reference to the drag handle
+  const appliedGridKey = useRef(gridKey());
+  const cursorReadout = useRef<HTMLSpanElement>(null); // Written directly on mousemove to avoid re-rendering
   
   const { 
-    mapState, setMapState, schemas, records, addRecord, updateRecord, deleteRecord, hasPermission, mapConfig
+    mapState, setMapState, visibleSchemas: schemas, records, recordCounts, loadTables, addRecord, updateRecord, deleteRecord, validateRecord, hasPermission, getTableAccess, mapConfig, crsList, preferences, logAudit, currentUser, getAttachment
   } = useAppStore();
   const { t } = useTranslation();
   const { toast } = useToast();
+  const openAttachment = useOpenAttachment();
+  const formatRelation = useRelationLabels(useMemo(() => Array.from(new Set(schemas.flatMap(s => relationTargets(s)))), [schemas]));
 
   const canEdit = hasPermission('edit_map');
+  // Edits also need the layer's table grant
+  const canEditTable = (tableId: string, action: 'create' | 'update' | 'delete') => canEdit && getTableAccess(tableId)[action];
+  const isDarkTheme = preferences.theme === 'dark' ||
+      (preferences.theme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
 
   // Local state for tools
   const [measurePoints, setMeasurePoints] = useState<L.LatLng[]>([]);
@@ -94,6 +329,10 @@ export const MapTab: React.FC = () => {
   const [totalArea, setTotalArea] = useState(0);
   const [measureType, setMeasureType] = useState<'line' | 'polygon'>('line');
   const [measureTemp, setMeasureTemp] = useState<L.LatLng | null>(null); // Cursor for measure rubber-banding
+  const [routeNetworkId, setRouteNetworkId] = useState<string | null>(null); // Line layer used as the road network
+  const [routeWaypoints, setRouteWaypoints] = useState<[number, number][]>([]); // Start, via-points, destination
+  const [routeProfile, setRouteProfile] = useState('car');
+  const [routeTargetId, setRouteTargetId] = useState<string | null>(null); // Layer the route is saved to
   
   // Use ref for drag start to avoid stale state in mousemove events
   const dragStartRef = useRef<L.LatLng | null>(null);
@@ -123,6 +362,7 @@ export const MapTab: React.FC = () => {
 
   // View Record Modal State (for mapDisplayMode='dialog')
   const [viewingRecord, setViewingRecord] = useState<DataRecord | null>(null);
+  const [recordPanel, setRecordPanel] = useState<'fields' | 'history' | 'related'>('fields');
 
   // Dirty State Handling
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
@@ -134,6 +374,15 @@ export const MapTab: React.FC = () => {
   // Search Results State (Spatial Filter)
   const [searchResults, setSearchResults] = useState<DataRecord[]>([]);
 
+  // Layer Export: restricted to the features currently displayed (sub-layers, spatial filter)
+  // except for the layers listed here, whose menu was set to export every feature
+  const [exportAllLayers, setExportAllLayers] = useState<string[]>([]);
+
+  // Coordinates are shown and typed in mapState.projection
+  const [goToInput, setGoToInput] = useState('');
+  const [positionInput, setPositionInput] = useState(''); // Point position in the feature dialog
+  const positionLabel = isGeographic(mapState.projection) ? 'latitude, longitude' : 'X, Y';
+
   // Print State
   const [printConfig, setPrintConfig] = useState({
     title: 'GeoNexus Map Export',
@@ -226,27 +475,41 @@ export const MapTab: React.FC = () => {
     isMapReady.current = true;
     
     measureLayer.current = L.layerGroup().addTo(map);
+    routeLayer.current = L.layerGroup().addTo(map);
     drawingLayer.current = L.layerGroup().addTo(map);
 
-    // Force size update to fix any gray area issues on init
-    setTimeout(() => {
-        map.invalidateSize();
-    }, 200);
-
-    // Map Move/Zoom Events
-    map.on('moveend', () => {
+    // Map Move/Zoom Events; the bounds are kept for the DataTab's map extent filter
+    const saveMapView = () => {
       const center = map.getCenter();
+      const bounds = map.getBounds();
       setMapState({
         center: [center.lat, center.lng],
-        zoom: map.getZoom()
+        zoom: map.getZoom(),
+        bounds: [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]]
       });
-    });
+    };
+    map.on('moveend', saveMapView);
+
+    // Force size update to fix any gray area issues on init
+    setTimeout(() => {
+        map.invalidateSize();
+        if (mapInstance.current === map) saveMapView(); // Not if the tab was left already
+    }, 200);
 
     // --- Interactive Map Events ---
     map.on('click', (e: L.LeafletMouseEvent) => {
        const { toolMode, activeLayerId } = stateRef.current.mapState;
        const { measurePoints, activeGeoType } = stateRef.current;
 
+       // SELECT TOOL: query WMS layers on blank map clicks (feature clicks open their own popup)
+       if (toolMode === 'select' && e.sourceTarget === map) {
+          const queryable = stateRef.current.mapState.visibleBaseLayers
+             .filter(id => baseLayersRef.current[id])
+             .map(id => stateRef.current.mapConfig.tileLayers.find(l => l.id === id))
+             .filter(l => l?.type === 'wms' && l.wms?.queryable) as TileLayerConfig[];
+          if (queryable.length > 0) showFeatureInfo(map, e, queryable);
+       }
+
        // ADD TOOL
        if (toolMode === 'add') {
           if (!activeLayerId) {
@@ -273,6 +536,11 @@ export const MapTab: React.FC = () => {
           }
        }
 
+       // ROUTE TOOL: each click adds a destination, the previous one becomes a via-point
+       if (toolMode === 'route') {
+          setRouteWaypoints(prev => [...prev, [e.latlng.lat, e.latlng.lng]]);
+       }
+
        // MEASURE TOOL
        if (toolMode === 'measure') {
           const newPoints = [...measurePoints, e.latlng];
@@ -297,6 +565,10 @@ export const MapTab: React.FC = () => {
 
     // Drawing Rubber Banding & Filter Box
     map.on('mousemove', (e: L.LeafletMouseEvent) => {
+       if (cursorReadout.current) {
+           cursorReadout.current.textContent = formatCoordinate(stateRef.current.mapState.projection, [e.latlng.lat, e.latlng.lng]);
+       }
+
        // Check stateRef for current values
        if (stateRef.current.mapState.toolMode === 'add' && stateRef.current.activeGeoType !== 'point' && drawingPointsRef.current.length > 0) {
            setDrawingTemp(e.latlng);
@@ -366,17 +638,11 @@ export const MapTab: React.FC = () => {
 
                  if (!r.geometry) return false;
                  
-                 // Containment Logic
-                 if (r.geometry.type === 'Point') {
-                    const latlng = L.latLng(r.geometry.coordinates[0], r.geometry.coordinates[1]);
-                    return bounds.contains(latlng);
-                 } else {
-                     // For lines/polys, check if at least one point is inside or check bounds intersection
-                     // Simple check: check if the first point is inside
-                     const coords = r.geometry.coordinates;
-                     const latlng = L.latLng(coords[0][0], coords[0][1]);
-                     return bounds.contains(latlng);
-                 }
+                 // Intersection Logic: any part touching the box counts (vertices, crossing edges, or enclosing polygons)
+                 return intersectsBounds(r.geometry, [
+                     [bounds.getSouth(), bounds.getWest()],
+                     [bounds.getNorth(), bounds.getEast()]
+                 ]);
              });
              
              if (found.length > 0) {
@@ -410,12 +676,36 @@ export const MapTab: React.FC = () => {
     };
   }, []);
 
+  const gridLayer = mapConfig.tileLayers.find(l => l.id === mapState.visibleBaseLayers?.[0]);
+  const activeGridKey = gridKey(gridLayer);
+
+  // Switch the map to the grid of the bottom base layer, keeping the center and scale
+  useEffect(() => {
+      const map = mapInstance.current;
+      if (!isMapReady.current || !map || appliedGridKey.current === activeGridKey) return;
+
+      const center = map.getCenter();
+      const scale = map.options.crs!.scale(map.getZoom());
+      const crs = createLeafletCrs(gridLayer);
+      appliedGridKey.current = activeGridKey;
+
+      Object.keys(baseLayersRef.current).forEach(id => {
+          map.removeLayer(baseLayersRef.current[id]);
+          delete baseLayersRef.current[id];
+      });
+      map.options.crs = crs;
+      map.setMaxZoom(gridMaxZoom(gridLayer));
+      map.setView(center, Math.round(crs.zoom(scale)), { reset: true });
+  }, [activeGridKey]);
+
   // Handle Base Layer Changes (Multiple Layers + Opacity + Ordering)
   useEffect(() => {
       if (!isMapReady.current || !mapInstance.current || !mapConfig?.tileLayers) return;
       
       const map = mapInstance.current;
-      const visibleIds = mapState.visibleBaseLayers || [];
+      const visibleIds = (mapState.visibleBaseLayers || []).filter(id =>
+          fitsGrid(mapConfig.tileLayers.find(l => l.id === id), activeGridKey)
+      );
       
       // 1. Identify layers to Remove (Present in Ref but not in visibleIds)
       Object.keys(baseLayersRef.current).forEach(id => {
@@ -438,11 +728,11 @@ export const MapTab: React.FC = () => {
           
           if (!layer) {
               // Create Layer
-              layer = L.tileLayer(config.url, {
-                  attribution: config.attribution,
-                  maxZoom: config.maxZoom || 19,
-                  subdomains: config.subdomains || 'abc'
-              });
+              layer = createBaseLayer(config, isDarkTheme, (error) => toast({
+                  title: "Vector style failed",
+                  description: `${config.name}: ${error?.message || error}`,
+                  variant: "destructive"
+              }));
               layer.addTo(map);
               baseLayersRef.current[id] = layer;
           }
@@ -457,15 +747,30 @@ export const MapTab: React.FC = () => {
           layer.setZIndex(index); 
       });
 
-  }, [mapState.visibleBaseLayers, mapState.baseLayerOpacity, mapConfig, isMapReady.current]);
+  }, [mapState.visibleBaseLayers, mapState.baseLayerOpacity, mapConfig, activeGridKey, isMapReady.current]);
+
+  // Restyle vector base layers with the theme
+  useEffect(() => {
+      Object.entries(baseLayersRef.current).forEach(([id, layer]) => {
+          const config = mapConfig.tileLayers.find(l => l.id === id);
+          if (layer instanceof VectorTileLayer && config?.vector) layer.setStyle(vectorStyle(config, isDarkTheme));
+      });
+  }, [isDarkTheme]);
 
 
   // Handle opening the modal (Create)
-  const handleInitiateFeatureCreation = (geometry: any) => {
+  const handleInitiateFeatureCreation = (geometry: any, tableId?: string) => {
       setPendingGeometry(geometry);
+      setPositionInput(geometry.type === 'Point' ? formatCoordinate(mapState.projection, geometry.coordinates) : '');
       setEditingRecordId(null);
-      // Initialize with defaults if any
-      const defaults = mapState.featureDefaults || {};
+      // Initialize with the table's default values, then the defaults picked on the map.
+      // Read through stateRef: this also runs from the map's click handler.
+      const latest = stateRef.current;
+      const schema = latest.schemas.find(s => s.id === (tableId || latest.mapState.activeLayerId));
+      const defaults = {
+        ...(schema ? defaultRecordData(schema, { geometry, username: latest.currentUser?.username }) : {}),
+        ...mapState.featureDefaults
+      };
       setFormData(defaults); 
       setInitialFormData(defaults);
       setFormErrors({});
@@ -480,9 +785,10 @@ export const MapTab: React.FC = () => {
 
   // Handle opening the modal (Edit)
   const handleEditFeature = (record: DataRecord) => {
-      if (!canEdit) return;
+      if (!canEditTable(record.tableId, 'update')) return;
       setActiveSchemaId(record.tableId);
       setPendingGeometry(record.geometry);
+      setPositionInput(record.geometry?.type === 'Point' ? formatCoordinate(mapState.projection, record.geometry.coordinates) : '');
       setEditingRecordId(record.id);
       setFormData(record.data);
       setInitialFormData(record.data);
@@ -515,23 +821,32 @@ export const MapTab: React.FC = () => {
       setShowUnsavedDialog(false);
   };
 
-  const handleSaveFeature = (e: React.FormEvent) => {
+  const handleSaveFeature = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!activeSchemaId || !pendingGeometry) return;
       
       const schema = schemas.find(s => s.id === activeSchemaId);
       if (!schema) return;
+      if (!editingRecordId && !canEditTable(schema.id, 'create')) {
+        toast({ title: "Not Allowed", description: `You cannot add features to ${schema.name}.`, variant: "destructive" });
+        return;
+      }
 
-      // Validation logic
-      const errors: Record<string, string> = {};
-      schema.fields.forEach(field => {
-        if (field.required) {
-          const val = formData[field.name];
-          if (val === undefined || val === null || val === '') {
-            errors[field.name] = `${field.label} is required`;
-          }
+      // A typed point position replaces the clicked one; untouched text keeps full precision
+      let geometry = pendingGeometry;
+      let positionError: string | null = null;
+      if (pendingGeometry.type === 'Point' && positionInput !== formatCoordinate(mapState.projection, pendingGeometry.coordinates)) {
+        const position = parseCoordinateInput(mapState.projection, positionInput);
+        if (position) {
+          geometry = { type: 'Point', coordinates: position };
+        } else {
+          positionError = `Enter two numbers (${positionLabel}) in ${mapState.projection}`;
         }
-      });
+      }
+
+      const data = applyFormulas(schema, formData, { geometry, username: currentUser?.username });
+      const errors = await validateRecord(schema, data, editingRecordId || undefined);
+      if (positionError) errors.__position = positionError;
 
       if (Object.keys(errors).length > 0) {
         setFormErrors(errors);
@@ -544,8 +859,8 @@ export const MapTab: React.FC = () => {
           if (originalRecord) {
               updateRecord({
                   ...originalRecord,
-                  geometry: pendingGeometry, // Usually geometry isn't changed in this modal, but kept for consistency
-                  data: formData,
+                  geometry,
+                  data,
                   updatedAt: new Date().toISOString()
               });
               toast({ title: t('map.feature_updated'), description: "Changes saved successfully.", variant: "success" });
@@ -555,23 +870,30 @@ export const MapTab: React.FC = () => {
           const newRecord: DataRecord = {
              id: Math.random().toString(36).substr(2, 9),
              tableId: activeSchemaId,
-             geometry: pendingGeometry,
-             data: formData,
+             geometry,
+             data,
              createdAt: new Date().toISOString(),
              updatedAt: new Date().toISOString()
           };
           addRecord(newRecord);
-          const typeLabel = pendingGeometry.type === 'Point' ? 'Point' : (pendingGeometry.type === 'LineString' ? 'Path' : 'Area');
+          const kind = getSimpleType(pendingGeometry.type);
+          const typeLabel = kind === 'Point' ? 'Point' : (kind === 'LineString' ? 'Path' : 'Area');
           toast({ title: t('map.feature_added'), description: `${typeLabel} added to map.`, variant: "success" });
       }
 
       closeModalForce();
   };
 
-  const handleConfirmDelete = () => {
+  const handleConfirmDelete = async () => {
       if (deleteConfirmId) {
-          deleteRecord(deleteConfirmId);
-          toast({ title: "Feature Deleted", description: "The map feature has been removed.", variant: "info" });
+          try {
+              await deleteRecord(deleteConfirmId);
+              toast({ title: "Feature Deleted", description: "The map feature has been removed.", variant: "info" });
+          } catch (e) {
+              toast({ title: "Cannot Delete", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+              setDeleteConfirmId(null);
+              return;
+          }
           setDeleteConfirmId(null);
           // Close viewing modal if the deleted record was being viewed
           if (viewingRecord?.id === deleteConfirmId) {
@@ -582,10 +904,39 @@ export const MapTab: React.FC = () => {
 
   // Ref to hold latest state for event handlers
   // CRITICAL: Includes 'records' to avoid stale closure in mouseup handler
-  const stateRef = useRef({ mapState, measurePoints, activeGeoType, records, measureType });
+  const stateRef = useRef({ mapState, measurePoints, activeGeoType, records, measureType, mapConfig, schemas, currentUser });
+  useEffect(() => {
+    stateRef.current = { mapState, measurePoints, activeGeoType, records, measureType, mapConfig, schemas, currentUser };
+  }, [mapState, measurePoints, activeGeoType, records, measureType, mapConfig, schemas, currentUser]);
+
+  // Only the records of visible (or currently edited) layers are loaded from storage,
+  // plus the route network while the route tool is open
   useEffect(() => {
-    stateRef.current = { mapState, measurePoints, activeGeoType, records, measureType };
-  }, [mapState, measurePoints, activeGeoType, records, measureType]);
+    const tableIds = mapState.activeLayerId ? [...mapState.visibleLayers, mapState.activeLayerId] : mapState.visibleLayers;
+    const networkId = mapState.toolMode === 'route' ? routeNetworkId : null;
+    loadTables(networkId ? [...tableIds, networkId] : tableIds);
+  }, [mapState.visibleLayers, mapState.activeLayerId, mapState.toolMode, routeNetworkId, loadTables]);
+
+  // --- Routing ---
+  const lineSchemas = useMemo(() => schemas.filter(s => s.geometryType === 'line' || s.geometryType === 'mixed'), [schemas]);
+
+  const routeGraph = useMemo(() => {
+    if (mapState.toolMode !== 'route' || !routeNetworkId) return null;
+    return buildRoutingGraph(records.filter(r => r.tableId === routeNetworkId));
+  }, [mapState.toolMode, routeNetworkId, records]);
+
+  const route = useMemo(() =>
+    routeGraph && routeWaypoints.length > 1 ? findRoute(routeGraph, routeWaypoints) : null,
+  [routeGraph, routeWaypoints]);
+
+  const routeSpeed = ROUTE_PROFILES.find(p => p.value === routeProfile)?.speed || 50;
+
+  const handleSaveRoute = () => {
+    if (!route || !routeTargetId) return;
+    setActiveSchemaId(routeTargetId);
+    setActiveGeoType('line');
+    handleInitiateFeatureCreation({ type: 'LineString', coordinates: route.path }, routeTargetId);
+  };
 
   // Helper: Commit Drawing
   const commitDrawing = useCallback(() => {
@@ -616,7 +967,7 @@ export const MapTab: React.FC = () => {
      } else if (type === 'polygon' && points.length >= 3) {
          geometry = {
              type: 'Polygon',
-             coordinates: points.map(p => [p.lat, p.lng])
+             coordinates: [points.map(p => [p.lat, p.lng])]
          };
      }
 
@@ -772,16 +1123,13 @@ export const MapTab: React.FC = () => {
   const handleLocateFeature = (record: DataRecord) => {
       if (!mapInstance.current || !record.geometry) return;
       
-      let target: L.LatLngExpression;
-      
       if (record.geometry.type === 'Point') {
-          target = [record.geometry.coordinates[0], record.geometry.coordinates[1]];
+          const target: L.LatLngExpression = [record.geometry.coordinates[0], record.geometry.coordinates[1]];
           mapInstance.current.flyTo(target, 18);
       } else {
-          // For Line/Poly, calculate bounds
-          const coords = record.geometry.coordinates;
-          const bounds = L.latLngBounds(coords.map((c: any) => [c[0], c[1]]));
-          mapInstance.current.fitBounds(bounds, { padding: [50, 50] });
+          // For Line/Poly and multi-part features, fit all parts
+          const bounds = getGeometryBounds(record.geometry);
+          if (bounds) mapInstance.current.fitBounds(L.latLngBounds(bounds), { padding: [50, 50], maxZoom: 18 });
       }
   };
 
@@ -799,6 +1147,29 @@ export const MapTab: React.FC = () => {
     });
   };
 
+  const handleLayerExport = async (schema: TableSchema, format: LayerExportFormat) => {
+      let layerRecords = records.filter(r => r.tableId === schema.id);
+
+      if (!exportAllLayers.includes(schema.id)) {
+          const hiddenValues = mapState.hiddenSubLayers?.[schema.id] || [];
+          if (schema.subLayerConfig?.enabled && schema.subLayerConfig.field && hiddenValues.length > 0) {
+              layerRecords = layerRecords.filter(r => !hiddenValues.includes(String(r.data[schema.subLayerConfig!.field])));
+          }
+          if (searchResults.length > 0) {
+              const resultIds = new Set(searchResults.map(r => r.id));
+              layerRecords = layerRecords.filter(r => resultIds.has(r.id));
+          }
+      }
+
+      try {
+          await exportLayer(layerRecords, schema, format, mapState.projection, getAttachment);
+          logAudit({ action: 'export', targetType: 'schema', targetId: schema.id, targetLabel: schema.name, details: `${layerRecords.length} features as ${format}` });
+          toast({ title: t('data.export_success'), description: `${layerRecords.length} features from ${schema.name}` });
+      } catch (e: any) {
+          toast({ title: 'Export failed', description: e?.message || String(e), variant: 'destructive' });
+      }
+  };
+
   const handleOpacityChange = (schemaId: string, value: string) => {
       setMapState({
           layerOpacity: {
@@ -841,7 +1212,7 @@ export const MapTab: React.FC = () => {
      // Reset custom cursors
      container.style.cursor = '';
      
-     if (mode === 'add' || mode === 'measure' || mode === 'filter') {
+     if (mode === 'add' || mode === 'measure' || mode === 'route' || mode === 'filter') {
         container.style.cursor = 'crosshair';
      } else if (mode === 'move') {
         container.style.cursor = 'move';
@@ -980,7 +1351,6 @@ export const MapTab: React.FC = () => {
   useEffect(() => {
     if (!mapInstance.current) return;
     const map = mapInstance.current;
-    const isMoveMode = mapState.toolMode === 'move';
 
     // RENDER ORDER:
     // In Leaflet, typically the last added layer sits on TOP.
@@ -993,6 +1363,8 @@ export const MapTab: React.FC = () => {
 
     schemasToRender.forEach(schema => {
       if (schema.geometryType === 'none') return;
+      // Features only get drag handles on layers the user may update
+      const isMoveMode = mapState.toolMode === 'move' && canEditTable(schema.id, 'update');
       const isVisible = mapState.visibleLayers.includes(schema.id);
       
       let group = layerGroups.current[schema.id];
@@ -1021,7 +1393,7 @@ export const MapTab: React.FC = () => {
 
       schemaRecords.forEach(record => {
          if (!record.geometry) return;
-         const { type, coordinates } = record.geometry;
+         const { type } = record.geometry;
 
          // Check if this specific feature is hidden via sub-layer configuration
          if (schema.subLayerConfig?.enabled && schema.subLayerConfig.field) {
@@ -1041,30 +1413,21 @@ export const MapTab: React.FC = () => {
          }
 
          let layer: L.Layer;
-
-         if (type === 'Point') {
-            const [lat, lng] = coordinates as [number, number];
-            
-            // Custom Icon vs Circle Marker
-            if (schema.markerImage) {
-                const icon = L.icon({
-                    iconUrl: schema.markerImage,
-                    iconSize: [32, 32],
-                    iconAnchor: [16, 32],
-                    popupAnchor: [0, -32],
-                    className: isMoveMode ? 'cursor-move' : ''
-                });
-                layer = L.marker([lat, lng], { icon, draggable: isMoveMode, opacity: layerOpacity });
-            } else {
-                layer = L.circleMarker([lat, lng], {
-                    radius: 8,
-                    fillColor: color,
-                    color: '#fff',
-                    weight: 2,
-                    opacity: layerOpacity,
-                    fillOpacity: layerOpacity * 0.8
-                });
-                
+         const kind = getSimpleType(type);
+
+         if (kind === 'Point') {
+            const createMarker = ([lat, lng]: [number, number]) => {
+                // Custom Icon vs Circle Marker
+                if (schema.markerImage) {
+                    const icon = L.icon({
+                        iconUrl: schema.markerImage,
+                        iconSize: [32, 32],
+                        iconAnchor: [16, 32],
+                        popupAnchor: [0, -32],
+                        className: isMoveMode ? 'cursor-move' : ''
+                    });
+                    return L.marker([lat, lng], { icon, draggable: isMoveMode, opacity: layerOpacity });
+                }
                 if (isMoveMode) {
                      const divIcon = L.divIcon({
                          className: 'bg-transparent border-0',
@@ -1072,49 +1435,63 @@ export const MapTab: React.FC = () => {
                          iconSize: [16, 16],
                          iconAnchor: [8, 8]
                      });
-                     layer = L.marker([lat, lng], { icon: divIcon, draggable: true });
+                     return L.marker([lat, lng], { icon: divIcon, draggable: true });
                 }
-            }
-
-            // Drag Handler
-            if (isMoveMode) {
-                let startGeo: any = null;
-                // Capture initial state
-                (layer as L.Marker).on('dragstart', () => {
-                    startGeo = JSON.parse(JSON.stringify(record.geometry));
+                return L.circleMarker([lat, lng], {
+                    radius: 8,
+                    fillColor: color,
+                    color: '#fff',
+                    weight: 2,
+                    opacity: layerOpacity,
+                    fillOpacity: layerOpacity * 0.8
                 });
-                
-                (layer as L.Marker).on('dragend', (e) => {
-                    const marker = e.target;
-                    const position = marker.getLatLng();
-                    const newGeo = { ...record.geometry!, coordinates: [position.lat, position.lng] };
+            };
+
+            const markers = getPoints(record.geometry).map((pt, idx) => {
+                const marker = createMarker(pt);
+
+                // Drag Handler (each point of a MultiPoint moves on its own)
+                if (isMoveMode) {
+                    let startGeo: any = null;
+                    // Capture initial state
+                    marker.on('dragstart', () => {
+                        startGeo = JSON.parse(JSON.stringify(record.geometry));
+                    });
                     
-                    if (startGeo) {
-                        addToHistory(record.id, startGeo, newGeo);
-                    }
-
-                    updateRecord({
-                        ...record,
-                        geometry: newGeo,
-                        updatedAt: new Date().toISOString()
+                    marker.on('dragend', (e) => {
+                        const position = e.target.getLatLng();
+                        const newGeo = type === 'Point'
+                            ? { ...record.geometry!, coordinates: [position.lat, position.lng] }
+                            : moveVertex(record.geometry!, [idx], [position.lat, position.lng]);
+                        
+                        if (startGeo) {
+                            addToHistory(record.id, startGeo, newGeo);
+                        }
+
+                        updateRecord({
+                            ...record,
+                            geometry: newGeo,
+                            updatedAt: new Date().toISOString()
+                        });
                     });
-                });
-            }
+                }
+                return marker;
+            });
 
-         } else if (type === 'LineString' || type === 'Polygon') {
-             // Shared logic for Lines and Polygons
-             const points = coordinates as [number, number][]; // Assuming simple structure
+            layer = type === 'Point' ? markers[0] : L.featureGroup(markers);
 
-             if (type === 'LineString') {
-                 layer = L.polyline(points, { color, weight: 4, opacity: layerOpacity });
+         } else {
+             // Shared logic for Lines and Polygons, single or multi-part (polygons may have holes)
+             if (kind === 'LineString') {
+                 layer = L.polyline(getLines(record.geometry), { color, weight: 4, opacity: layerOpacity });
              } else {
-                 layer = L.polygon(points, { color, opacity: layerOpacity, fillOpacity: layerOpacity * 0.4 });
+                 layer = L.polygon(getPolygons(record.geometry), { color, opacity: layerOpacity, fillOpacity: layerOpacity * 0.4 });
              }
 
              // Move Logic: Add Edit Handles
              if (isMoveMode) {
-                 // 1. Vertex Handles (for both Line and Poly)
-                 points.forEach((pt, idx) => {
+                 // 1. Vertex Handles (every vertex of every part and ring)
+                 getVertices(record.geometry).forEach(({ path, position }) => {
                      const vertexIcon = L.divIcon({
                          className: 'bg-transparent border-0',
                          html: `<div style="width: 10px; height: 10px; background: white; border: 2px solid ${color}; border-radius: 50%; cursor: crosshair; box-shadow: 0 1px 2px rgba(0,0,0,0.3);"></div>`,
@@ -1122,7 +1499,7 @@ export const MapTab: React.FC = () => {
                          iconAnchor: [5, 5]
                      });
                      
-                     const vMarker = L.marker(pt, { icon: vertexIcon, draggable: true, zIndexOffset: 1000 }).addTo(group);
+                     const vMarker = L.marker(position, { icon: vertexIcon, draggable: true, zIndexOffset: 1000 }).addTo(group);
                      let startGeo: any = null;
 
                      vMarker.on('dragstart', () => {
@@ -1132,9 +1509,7 @@ export const MapTab: React.FC = () => {
                      vMarker.on('dragend', (e) => {
                          const newLat = e.target.getLatLng().lat;
                          const newLng = e.target.getLatLng().lng;
-                         const newCoords = [...points];
-                         newCoords[idx] = [newLat, newLng];
-                         const newGeo = { ...record.geometry!, coordinates: newCoords };
+                         const newGeo = moveVertex(record.geometry!, path, [newLat, newLng]);
 
                          if (startGeo) {
                              addToHistory(record.id, startGeo, newGeo);
@@ -1148,10 +1523,10 @@ export const MapTab: React.FC = () => {
                      });
                  });
 
-                 // 2. Center Handle (Polygon only)
-                 if (type === 'Polygon') {
-                     const bounds = L.latLngBounds(points.map(p => L.latLng(p[0], p[1])));
-                     const center = bounds.getCenter();
+                 // 2. Center Handle (Polygon only, moves all parts together)
+                 const extent = getGeometryBounds(record.geometry);
+                 if (kind === 'Polygon' && extent) {
+                     const center = L.latLngBounds(extent).getCenter();
                      
                      const centerIcon = L.divIcon({
                          className: 'bg-transparent border-0',
@@ -1174,8 +1549,7 @@ export const MapTab: React.FC = () => {
                          if (startPos) {
                              const latDiff = endPos.lat - startPos.lat;
                              const lngDiff = endPos.lng - startPos.lng;
-                             const newCoords = points.map(p => [p[0] + latDiff, p[1] + lngDiff]);
-                             const newGeo = { ...record.geometry!, coordinates: newCoords };
+                             const newGeo = translateGeometry(record.geometry!, latDiff, lngDiff);
 
                              if (startGeo) {
                                  addToHistory(record.id, startGeo, newGeo);
@@ -1190,8 +1564,6 @@ export const MapTab: React.FC = () => {
                      });
                  }
              }
-         } else {
-             return; 
          }
 
          // --- Interaction (Popups/Tooltips) ---
@@ -1204,16 +1576,20 @@ export const MapTab: React.FC = () => {
              });
              layer.on('mouseout', (e: L.LeafletMouseEvent) => {
                 const target = e.target;
-                const baseWeight = record.geometry?.type === 'LineString' ? 4 : 2;
-                if (target.setStyle) target.setStyle({ fillOpacity: (record.geometry?.type === 'Polygon' ? 0.4 : 0.8) * layerOpacity, weight: baseWeight });
+                const baseWeight = kind === 'LineString' ? 4 : 2;
+                if (target.setStyle) target.setStyle({ fillOpacity: (kind === 'Polygon' ? 0.4 : 0.8) * layerOpacity, weight: baseWeight });
                 if (target.setOpacity) target.setOpacity(layerOpacity);
              });
 
              // Apply Hover Fields (Tooltip) based on configuration
              if (schema.hoverFields?.length) {
                 const content = schema.hoverFields.map(field => {
-                    const val = record.data[field];
-                    return val ? `<b>${schema.fields.find(f=>f.name===field)?.label}:</b> ${val}` : '';
+                    const def = schema.fields.find(f => f.name === field);
+                    if (def?.type === 'attachment') return '';
+                    const val = def?.type === 'relation' ? formatRelation(record.data[field])
+                      : def && FORMATTED_TYPES.includes(def.type) ? escapeHtml(formatFieldValue(def, record.data[field]))
+                      : record.data[field];
+                    return val ? `<b>${def?.label}:</b> ${val}` : '';
                 }).filter(Boolean).join('<br>');
                 if (content) layer.bindTooltip(content, { direction: 'top', offset: [0, -10], className: 'font-sans text-xs px-2 py-1 shadow-sm border-0 whitespace-nowrap' });
              } else {
@@ -1226,22 +1602,30 @@ export const MapTab: React.FC = () => {
                  // MODAL DIALOG MODE
                  layer.on('click', (e) => {
                      L.DomEvent.stopPropagation(e);
+                     setRecordPanel('fields');
                      setViewingRecord(record);
                  });
              } else {
                  // POPUP MODE (Default)
                  let actionButtons = '';
-                 if (canEdit) {
+                 const canUpdateRecord = canEditTable(record.tableId, 'update');
+                 const canDeleteRecord = canEditTable(record.tableId, 'delete');
+                 const showRelated = hasRelations(schemas, schema);
+                 if (canUpdateRecord || canDeleteRecord || showRelated) {
                      actionButtons = `
                        <div class="flex justify-end gap-2 pt-2 border-t border-gray-100">
-                           <button class="btn-edit-feature flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Edit">
+                           ${showRelated ? `<button class="btn-related-feature flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Related records">
+                               <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 17H7A5 5 0 0 1 7 7h2"/><path d="M15 7h2a5 5 0 1 1 0 10h-2"/><line x1="8" x2="16" y1="12" y2="12"/></svg>
+                               Related
+                           </button>` : ''}
+                           ${canUpdateRecord ? `<button class="btn-edit-feature flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Edit">
                                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/><path d="m15 5 4 4"/></svg>
                                Edit
-                           </button>
-                           <button class="btn-delete-feature flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete">
+                           </button>` : ''}
+                           ${canDeleteRecord ? `<button class="btn-delete-feature flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete">
                                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/><line x1="10" x2="10" y1="11" y2="17"/><line x1="14" x2="14" y1="11" y2="17"/></svg>
                                Delete
-                           </button>
+                           </button>` : ''}
                        </div>
                      `;
                  }
@@ -1253,7 +1637,10 @@ export const MapTab: React.FC = () => {
                        </div>
                        <div class="space-y-1.5 text-xs mb-3">
                           ${schema.fields.map(f => {
-                             const val = record.data[f.name];
+                             const val = f.type === 'relation' ? formatRelation(record.data[f.name])
+                               : f.type === 'attachment' ? renderAttachments(record.data[f.name])
+                               : FORMATTED_TYPES.includes(f.type) && record.data[f.name] !== undefined && record.data[f.name] !== '' ? renderFieldValue(f, record.data[f.name])
+                               : record.data[f.name];
                              if (val === undefined || val === '') return '';
                              return `<div class="grid grid-cols-[min-content_1fr] gap-2 items-baseline">
                                 <span class="text-gray-500 whitespace-nowrap font-medium">${f.label}:</span> 
@@ -1270,6 +1657,26 @@ export const MapTab: React.FC = () => {
                      const container = e.popup.getElement();
                      if (!container) return;
                      
+                     const files = schema.fields.filter(f => f.type === 'attachment').flatMap(f => attachmentRefs(record.data[f.name]));
+                     container.querySelectorAll<HTMLElement>('.btn-open-attachment').forEach(el => {
+                         el.addEventListener('click', (ev) => {
+                             ev.preventDefault();
+                             ev.stopPropagation();
+                             const file = files.find(a => a.id === el.dataset.attachmentId);
+                             if (file) openAttachment(file);
+                         });
+                     });
+
+                     const relatedBtn = container.querySelector('.btn-related-feature');
+                     if (relatedBtn) {
+                         relatedBtn.addEventListener('click', (ev) => {
+                             ev.stopPropagation();
+                             setRecordPanel('related');
+                             setViewingRecord(record);
+                             e.popup.close();
+                         });
+                     }
+
                      const editBtn = container.querySelector('.btn-edit-feature');
                      if (editBtn) {
                          editBtn.addEventListener('click', (ev) => {
@@ -1295,7 +1702,7 @@ export const MapTab: React.FC = () => {
       });
     });
 
-  }, [sortedSchemas, records, mapState.visibleLayers, mapState.hiddenSubLayers, mapState.toolMode, mapState.layerOpacity, canEdit]);
+  }, [sortedSchemas, schemas, records, mapState.visibleLayers, mapState.hiddenSubLayers, mapState.toolMode, mapState.layerOpacity, canEdit, getTableAccess, formatRelation, openAttachment]);
 
   // --- Measure Layer Rendering ---
   useEffect(() => {
@@ -1394,6 +1801,41 @@ export const MapTab: React.FC = () => {
      }
   }, [measurePoints, totalDistance, totalArea, measureType, measureTemp]);
 
+  // --- Route Layer Rendering ---
+  useEffect(() => {
+     if (!routeLayer.current) return;
+     routeLayer.current.clearLayers();
+     const color = '#7c3aed';
+
+     if (route) {
+        L.polyline(route.path, { color, weight: 5, opacity: 0.85, interactive: false }).addTo(routeLayer.current);
+     }
+
+     routeWaypoints.forEach((position, index) => {
+        // Connector from the clicked position to where it joins the network
+        const snapped = route?.waypoints[index]?.position;
+        if (snapped) {
+            L.polyline([position, snapped], { color, weight: 1, dashArray: '4, 4', interactive: false }).addTo(routeLayer.current!);
+        }
+
+        const label = index === 0 ? 'A' : (index === routeWaypoints.length - 1 ? 'B' : String(index));
+        const marker = L.marker(position, {
+            draggable: true,
+            icon: L.divIcon({
+                className: '',
+                html: `<div style="background:${color}" class="w-6 h-6 rounded-full border-2 border-white shadow-md text-white text-xs font-bold flex items-center justify-center">${label}</div>`,
+                iconSize: [24, 24],
+                iconAnchor: [12, 12]
+            })
+        });
+        marker.on('dragend', () => {
+            const { lat, lng } = marker.getLatLng();
+            setRouteWaypoints(prev => prev.map((w, i) => i === index ? [lat, lng] : w));
+        });
+        marker.addTo(routeLayer.current!);
+     });
+  }, [route, routeWaypoints]);
+
   const handleExportPDF = async () => {
     if (!mapContainer.current || !mapInstance.current) return;
     setPrintConfig(prev => ({ ...prev, isExporting: true }));
@@ -1570,6 +2012,8 @@ export const MapTab: React.FC = () => {
       setMeasurePoints([]);
       setTotalDistance(0);
       setTotalArea(0);
+      setRouteWaypoints([]);
+      if (mode === 'route' && !routeNetworkId) setRouteNetworkId(lineSchemas[0]?.id ?? null);
       setDrawingPoints([]);
       drawingPointsRef.current = [];
       setDrawingRedoStack([]);
@@ -1622,8 +2066,8 @@ export const MapTab: React.FC = () => {
           mapState.visibleLayers.includes(r.tableId) && 
           Object.values(r.data).some(v => String(v).toLowerCase().includes(searchQuery.toLowerCase()))
       );
-      if (found && found.geometry && mapInstance.current) {
-          const center = L.latLng(found.geometry.coordinates[0], found.geometry.coordinates[1]);
+      const center = found?.geometry ? getGeometryCenter(found.geometry) : null;
+      if (found && center && mapInstance.current) {
           mapInstance.current.flyTo(center, 16);
           toast({ title: "Found", description: `Located record in ${schemas.find(s=>s.id===found.tableId)?.name}` });
       } else {
@@ -1631,6 +2075,16 @@ export const MapTab: React.FC = () => {
       }
   };
 
+  const handleGoToCoordinate = (e: React.FormEvent) => {
+      e.preventDefault();
+      const position = parseCoordinateInput(mapState.projection, goToInput);
+      if (!position) {
+          toast({ title: "Invalid Coordinates", description: `Enter two numbers (${positionLabel}) in ${mapState.projection}.`, variant: "destructive" });
+          return;
+      }
+      mapInstance.current?.flyTo(position, Math.max(mapInstance.current.getZoom(), 16));
+  };
+
   // Combine visible active base layers with inactive ones for the list
   const baseLayersList = useMemo(() => {
       const activeIds = mapState.visibleBaseLayers || [];
@@ -1640,6 +2094,10 @@ export const MapTab: React.FC = () => {
   }, [mapConfig.tileLayers, mapState.visibleBaseLayers]);
 
   const activeSchema = schemas.find(s => s.id === activeSchemaId);
+  // Computed fields of the feature form as they will be saved
+  const computedData = isFeatureModalOpen && activeSchema
+    ? applyFormulas(activeSchema, formData, { geometry: pendingGeometry, username: currentUser?.username })
+    : formData;
 
   // Helper for Feature View Modal styles
   const getDialogStyles = (record: DataRecord | null) => {
@@ -1706,6 +2164,12 @@ export const MapTab: React.FC = () => {
                 onClick={() => setTool('measure')} 
                 title="Measure Distance or Area"
              />
+             <ToolButton 
+                icon={RouteIcon} 
+                active={mapState.toolMode === 'route'} 
+                onClick={() => setTool('route')} 
+                title="Route on a Line Network"
+             />
              <ToolButton 
                 icon={Filter} 
                 active={mapState.toolMode === 'filter'} 
@@ -1762,6 +2226,94 @@ export const MapTab: React.FC = () => {
              </div>
           )}
 
+          {mapState.toolMode === 'route' && (
+             <div className="bg-background/95 backdrop-blur border p-3 rounded-md shadow-lg text-sm animate-in slide-in-from-left-2 w-64">
+                 <div className="font-bold flex justify-between items-center mb-3">
+                    <span className="flex items-center gap-2"><RouteIcon className="w-4 h-4" /> Route</span>
+                    <div className="flex gap-1">
+                        <button onClick={() => setRouteWaypoints(routeWaypoints.slice(0, -1))} disabled={routeWaypoints.length === 0} className="hover:bg-muted p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-40" title="Remove last point">
+                            <Undo2 className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => setRouteWaypoints([])} className="hover:bg-muted p-1 rounded text-muted-foreground hover:text-destructive" title="Clear route">
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                 </div>
+
+                 <div className="space-y-1 mb-3">
+                    <label className="text-[10px] font-bold uppercase text-muted-foreground block">Network</label>
+                    <Combobox
+                        options={lineSchemas.map(s => ({ value: s.id, label: s.name }))}
+                        value={routeNetworkId || ''}
+                        onChange={(val) => setRouteNetworkId(val || null)}
+                        placeholder="Select a line layer"
+                    />
+                    {routeGraph && routeGraph.segments.length === 0 && (
+                        <p className="text-[10px] text-destructive">This layer has no lines to route on.</p>
+                    )}
+                 </div>
+
+                 <div className="bg-muted p-1 rounded flex mb-3">
+                     {ROUTE_PROFILES.map(profile => (
+                         <button
+                            key={profile.value}
+                            onClick={() => setRouteProfile(profile.value)}
+                            className={cn("flex-1 py-1 rounded text-xs text-center transition-colors", routeProfile === profile.value ? "bg-white shadow text-primary font-medium" : "text-muted-foreground hover:text-foreground")}
+                            title={`${profile.speed} km/h`}
+                         >
+                            {profile.label}
+                         </button>
+                     ))}
+                 </div>
+
+                 {routeWaypoints.length > 0 && (
+                     <div className="space-y-1 mb-3 max-h-32 overflow-y-auto">
+                        {routeWaypoints.map((position, index) => (
+                            <div key={index} className="flex items-center gap-2 text-xs">
+                                <span className="w-10 shrink-0 text-muted-foreground">
+                                    {index === 0 ? 'Start' : (index === routeWaypoints.length - 1 ? 'End' : `Via ${index}`)}
+                                </span>
+                                <span className="flex-1 font-mono text-[10px] truncate">{formatCoordinate(mapState.projection, position)}</span>
+                                <button onClick={() => setRouteWaypoints(routeWaypoints.filter((_, i) => i !== index))} className="text-muted-foreground hover:text-destructive">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                     </div>
+                 )}
+
+                 {route ? (
+                     <div className="p-2 bg-violet-50 text-violet-900 border border-violet-200 rounded text-center">
+                         <div className="text-lg font-mono font-bold">{formatDistance(route.distance)}</div>
+                         <div className="text-xs text-violet-700">about {formatDuration(route.distance / (routeSpeed / 3.6))}</div>
+                     </div>
+                 ) : routeWaypoints.length > 1 && routeGraph && routeGraph.segments.length > 0 && (
+                     <div className="p-2 bg-red-50 text-red-700 border border-red-200 rounded text-xs text-center">
+                         These points are not connected by the network.
+                     </div>
+                 )}
+
+                 {route && canEdit && (
+                     <div className="flex gap-2 mt-3 pt-3 border-t">
+                        <Combobox
+                            options={lineSchemas.filter(s => canEditTable(s.id, 'create')).map(s => ({ value: s.id, label: s.name }))}
+                            value={routeTargetId || ''}
+                            onChange={(val) => setRouteTargetId(val || null)}
+                            placeholder="Save to layer"
+                            className="h-8 text-xs flex-1"
+                        />
+                        <Button size="sm" className="h-8" onClick={handleSaveRoute} disabled={!routeTargetId} title="Save the route as a line feature">
+                            <Save className="w-3 h-3" />
+                        </Button>
+                     </div>
+                 )}
+
+                 <div className="text-[10px] text-muted-foreground mt-2 italic text-center">
+                     Click to add the start, then destinations. Drag the markers to adjust.
+                 </div>
+             </div>
+          )}
+
           {mapState.toolMode === 'move' && (
              <div className="bg-background/95 backdrop-blur text-foreground p-3 rounded-md shadow-lg text-sm animate-in slide-in-from-left-2 w-auto border">
                  <div className="font-bold mb-3 flex items-center gap-2 border-b pb-2"><Move className="w-4 h-4" /> Move Features</div>
@@ -1842,7 +2394,7 @@ export const MapTab: React.FC = () => {
                      <div className="space-y-1">
                         <label className="text-[10px] font-bold uppercase text-muted-foreground block">Target Layer</label>
                         <Combobox 
-                            options={schemas.filter(s => s.geometryType !== 'none').map(s => ({ value: s.id, label: s.name }))}
+                            options={schemas.filter(s => s.geometryType !== 'none' && canEditTable(s.id, 'create')).map(s => ({ value: s.id, label: s.name }))}
                             value={activeSchemaId || ''}
                             onChange={(val) => {
                                 setActiveSchemaId(val);
@@ -1968,7 +2520,7 @@ export const MapTab: React.FC = () => {
                                        <Button size="icon" variant="ghost" className="h-7 w-7" title="Locate" onClick={() => handleLocateFeature(result)}>
                                            <Target className="w-3 h-3" />
                                        </Button>
-                                       {canEdit && (
+                                       {canEditTable(result.tableId, 'update') && (
                                          <Button size="icon" variant="ghost" className="h-7 w-7" title="Open/Edit" onClick={() => handleEditFeature(result)}>
                                              <PenLine className="w-3 h-3" />
                                          </Button>
@@ -2050,6 +2602,12 @@ export const MapTab: React.FC = () => {
                                                  {layer.name}
                                              </div>
 
+                                             {isActive && !fitsGrid(layer, activeGridKey) && (
+                                                 <span title={`Tiled in ${layer.crs || WEB_MERCATOR}; move it to the bottom to use its grid`}>
+                                                     <AlertTriangle className="w-3 h-3 text-amber-500" />
+                                                 </span>
+                                             )}
+
                                              {isActive && (
                                                  <button onClick={(e) => { e.stopPropagation(); toggleLayerExpand(layer.id); }} className="p-0.5 hover:bg-muted rounded text-muted-foreground">
                                                      {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
@@ -2135,7 +2693,7 @@ export const MapTab: React.FC = () => {
                                 
                                 <div className="flex items-center gap-1">
                                     <span className="text-[10px] text-muted-foreground bg-muted px-1 rounded">
-                                        {records.filter(r => r.tableId === s.id && r.geometry).length}
+                                        {isVisible ? records.filter(r => r.tableId === s.id && r.geometry).length : (recordCounts[s.id] || 0)}
                                     </span>
                                     {isVisible && (
                                         <button onClick={() => toggleLayerExpand(s.id)} className="p-0.5 hover:bg-muted rounded text-muted-foreground">
@@ -2164,6 +2722,35 @@ export const MapTab: React.FC = () => {
                                             className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-primary"
                                         />
                                     </div>
+
+                                    {/* Export */}
+                                    <div className="px-1 py-1 space-y-1">
+                                        <div className="flex items-center gap-1">
+                                            <FileDown className="w-3 h-3 text-muted-foreground" />
+                                            <span className="text-[10px] text-muted-foreground flex-1">{t('data.export')}</span>
+                                            {LAYER_EXPORT_FORMATS.map(f => (
+                                                <button
+                                                    key={f.value}
+                                                    onClick={() => handleLayerExport(s, f.value)}
+                                                    title={f.value === 'geojson' ? `Coordinates in ${mapState.projection}` : 'Coordinates in WGS84'}
+                                                    className="text-[10px] px-1.5 py-0.5 rounded border hover:bg-muted"
+                                                >
+                                                    {f.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {(hasSubLayers || searchResults.length > 0) && (
+                                            <label className="flex items-center gap-2 text-[10px] text-muted-foreground cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    className="rounded border-gray-300 text-primary focus:ring-primary h-3 w-3"
+                                                    checked={!exportAllLayers.includes(s.id)}
+                                                    onChange={(e) => setExportAllLayers(prev => e.target.checked ? prev.filter(id => id !== s.id) : [...prev, s.id])}
+                                                />
+                                                Only displayed features
+                                            </label>
+                                        )}
+                                    </div>
                                     
                                     {/* Sub-Layer Rules */}
                                     {hasSubLayers && (
@@ -2205,6 +2792,33 @@ export const MapTab: React.FC = () => {
           )}
        </div>
 
+       {/* COORDINATES (Bottom Left) */}
+       <div className="absolute bottom-4 left-4 z-[400] bg-background/95 backdrop-blur border shadow-lg rounded-lg p-2 w-64 space-y-2 text-xs">
+           <div className="flex items-center gap-2">
+               <Combobox
+                  options={crsList.map(c => ({ value: c.code, label: `${c.code} - ${c.name}` }))}
+                  value={mapState.projection}
+                  onChange={val => val && setMapState({ projection: val })}
+                  className="h-7 text-xs"
+               />
+           </div>
+           <div className="flex items-center justify-between gap-2 text-muted-foreground font-mono">
+               <span className="font-sans">{positionLabel}</span>
+               <span ref={cursorReadout} className="truncate">-</span>
+           </div>
+           <form onSubmit={handleGoToCoordinate} className="flex items-center gap-1">
+               <Input
+                  className="h-7 text-xs font-mono"
+                  placeholder={`Go to ${positionLabel}`}
+                  value={goToInput}
+                  onChange={e => setGoToInput(e.target.value)}
+               />
+               <Button type="submit" size="icon" variant="outline" className="h-7 w-7 shrink-0" title="Go to coordinates">
+                   <Crosshair className="h-3.5 w-3.5" />
+               </Button>
+           </form>
+       </div>
+
        {/* LEGEND (Bottom Right, above controls) */}
        {mapState.visibleLayers.length > 0 && printConfig.includeLegend && (
           <div className="absolute bottom-8 right-4 z-[400] bg-background/95 backdrop-blur p-2 rounded-lg shadow-lg border text-xs max-w-[200px] animate-in slide-in-from-bottom-2">
@@ -2253,20 +2867,73 @@ export const MapTab: React.FC = () => {
                
                {activeSchema && (
                   <form id="feature-form" onSubmit={handleSaveFeature} className="space-y-4 py-2">
+                     {pendingGeometry?.type === 'Point' && (
+                        <div className="space-y-2">
+                           <Label>Position <span className="text-muted-foreground font-normal">({positionLabel}, {mapState.projection})</span></Label>
+                           <Input
+                              className={cn("font-mono", formErrors.__position && "border-red-500 focus-visible:ring-red-500")}
+                              value={positionInput}
+                              onChange={e => setPositionInput(e.target.value)}
+                           />
+                           {formErrors.__position && <p className="text-[10px] text-red-500 font-medium">{formErrors.__position}</p>}
+                        </div>
+                     )}
                      {activeSchema.fields.map(field => (
-                        <div key={field.id} className="space-y-2">
+                        <fieldset key={field.id} disabled={getTableAccess(activeSchema.id).readOnlyFields.includes(field.name)} className="space-y-2 disabled:opacity-60">
                            <Label>
                               {field.label}
                               {field.required && <span className="text-red-500 ml-1">*</span>}
+                              {field.formula && <span className="ml-2 text-[10px] uppercase text-muted-foreground">Computed</span>}
                            </Label>
                            
-                           {field.type === 'select' ? (
+                           {field.formula ? (
+                              <Input readOnly value={String(computedData[field.name] ?? '')} title={`= ${field.formula}`} className="bg-muted/50" />
+                           ) : field.type === 'select' ? (
                               <Combobox 
                                  options={field.options?.map(o => ({ value: o.value, label: o.label, color: o.color })) || []}
                                  value={formData[field.name] || ''}
                                  onChange={val => setFormData({...formData, [field.name]: val})}
                                  className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
                               />
+                           ) : field.type === 'multiselect' ? (
+                              <MultiSelectInput
+                                 field={field}
+                                 value={formData[field.name]}
+                                 onChange={val => setFormData({...formData, [field.name]: val})}
+                                 className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                              />
+                           ) : field.type === 'richtext' ? (
+                              <RichTextEditor
+                                 field={field}
+                                 value={formData[field.name]}
+                                 onChange={val => setFormData({...formData, [field.name]: val})}
+                                 disabled={getTableAccess(activeSchema.id).readOnlyFields.includes(field.name)}
+                                 className={cn(formErrors[field.name] && "border-red-500")}
+                              />
+                           ) : field.type === 'color' ? (
+                              <ColorPicker color={formData[field.name] || ''} onChange={val => setFormData({...formData, [field.name]: val})} />
+                           ) : field.type === 'number' ? (
+                              <NumberInput
+                                 field={field}
+                                 value={formData[field.name]}
+                                 onChange={val => setFormData({...formData, [field.name]: val})}
+                                 className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                              />
+                           ) : field.type === 'attachment' ? (
+                              <AttachmentInput
+                                 field={field}
+                                 tableId={activeSchemaId || ''}
+                                 value={formData[field.name]}
+                                 onChange={val => setFormData({...formData, [field.name]: val})}
+                                 onUseLocation={pendingGeometry?.type === 'Point' ? (location) => setPositionInput(formatCoordinate(mapState.projection, location)) : undefined}
+                              />
+                           ) : field.type === 'relation' ? (
+                              <RecordPicker
+                                 field={field}
+                                 value={formData[field.name]}
+                                 onChange={val => setFormData({...formData, [field.name]: val})}
+                                 className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                              />
                            ) : field.type === 'boolean' ? (
                               <div className="flex items-center space-x-2">
                                 <Switch 
@@ -2293,7 +2960,7 @@ export const MapTab: React.FC = () => {
                               />
                            ) : (
                               <Input 
-                                 type={field.type === 'number' ? 'number' : 'text'}
+                                 type={inputType(field.type)}
                                  required={field.required}
                                  value={formData[field.name] || ''}
                                  onChange={e => setFormData({...formData, [field.name]: e.target.value})}
@@ -2301,7 +2968,7 @@ export const MapTab: React.FC = () => {
                               />
                            )}
                            {formErrors[field.name] && <p className="text-[10px] text-red-500 font-medium">{formErrors[field.name]}</p>}
-                        </div>
+                        </fieldset>
                      ))}
                   </form>
                )}
@@ -2329,30 +2996,64 @@ export const MapTab: React.FC = () => {
                </DialogHeader>
                
                <div className="flex-1 overflow-y-auto py-2">
-                   {viewingRecord && schemas.find(s=>s.id === viewingRecord.tableId)?.fields.map(f => {
-                       const val = viewingRecord.data[f.name];
+                   {viewingRecord && (
+                       <div className="flex justify-end gap-1 mb-2">
+                           {schemas.some(s => s.id === viewingRecord.tableId && hasRelations(schemas, s)) && (
+                               <Button variant={recordPanel === 'related' ? 'secondary' : 'ghost'} size="sm" onClick={() => setRecordPanel(recordPanel === 'related' ? 'fields' : 'related')}>
+                                   <Link2 className="w-4 h-4 mr-2" /> Related
+                               </Button>
+                           )}
+                           <Button variant={recordPanel === 'history' ? 'secondary' : 'ghost'} size="sm" onClick={() => setRecordPanel(recordPanel === 'history' ? 'fields' : 'history')}>
+                               <History className="w-4 h-4 mr-2" /> History
+                           </Button>
+                       </div>
+                   )}
+                   {viewingRecord && recordPanel === 'related' && (
+                       <RelatedRecords
+                           record={records.find(r => r.id === viewingRecord.id) || viewingRecord}
+                           onOpen={(related) => { setRecordPanel('fields'); setViewingRecord(related); }}
+                       />
+                   )}
+                   {viewingRecord && recordPanel === 'history' && schemas.find(s => s.id === viewingRecord.tableId) && (
+                       <RecordHistory
+                           schema={schemas.find(s => s.id === viewingRecord.tableId)!}
+                           record={records.find(r => r.id === viewingRecord.id) || viewingRecord}
+                           canRestore={canEditTable(viewingRecord.tableId, 'update')}
+                           onRestored={() => setViewingRecord(null)}
+                       />
+                   )}
+                   {viewingRecord && recordPanel === 'fields' && schemas.find(s=>s.id === viewingRecord.tableId)?.fields.map(f => {
+                       const val = f.type === 'relation' ? formatRelation(viewingRecord.data[f.name]) : viewingRecord.data[f.name];
                        return (
                            <div key={f.id} className="grid grid-cols-3 gap-2 py-2 border-b last:border-0 items-baseline">
                                <span className="text-sm font-medium text-muted-foreground">{f.label}</span>
-                               <span className="col-span-2 text-sm break-words">{String(val || '-')}</span>
+                               {f.type === 'attachment' ? (
+                                   <div className="col-span-2"><AttachmentGallery attachments={attachmentRefs(val)} /></div>
+                               ) : FORMATTED_TYPES.includes(f.type) ? (
+                                   <div className="col-span-2 text-sm break-words"><FieldValue field={f} value={val} /></div>
+                               ) : (
+                                   <span className="col-span-2 text-sm break-words">{String(val || '-')}</span>
+                               )}
                            </div>
                        );
                    })}
                </div>
 
                <DialogFooter>
-                   {canEdit && viewingRecord && (
+                   {viewingRecord && (canEditTable(viewingRecord.tableId, 'update') || canEditTable(viewingRecord.tableId, 'delete')) && (
                         <div className="flex w-full justify-between">
-                            <Button variant="destructive" onClick={() => { setDeleteConfirmId(viewingRecord.id); }}>
-                                Delete
-                            </Button>
+                            {canEditTable(viewingRecord.tableId, 'delete') ? (
+                                <Button variant="destructive" onClick={() => { setDeleteConfirmId(viewingRecord.id); }}>
+                                    Delete
+                                </Button>
+                            ) : <div />}
                             <div className="flex gap-2">
                                 <Button variant="outline" onClick={() => setViewingRecord(null)}>Close</Button>
-                                <Button onClick={() => handleEditFeature(viewingRecord)}>Edit</Button>
+                                {canEditTable(viewingRecord.tableId, 'update') && <Button onClick={() => handleEditFeature(viewingRecord)}>Edit</Button>}
                             </div>
                         </div>
                    )}
-                   {(!canEdit || !viewingRecord) && (
+                   {(!viewingRecord || !(canEditTable(viewingRecord.tableId, 'update') || canEditTable(viewingRecord.tableId, 'delete'))) && (
                        <Button variant="outline" onClick={() => setViewingRecord(null)}>Close</Button>
                    )}
                </DialogFooter>
@@ -2388,7 +3089,7 @@ export const MapTab: React.FC = () => {
                        <AlertTriangle className="w-5 h-5" /> Confirm Delete
                    </DialogTitle>
                    <DialogDescription>
-                       Are you sure you want to delete this feature? This action cannot be undone.
+                       Are you sure you want to delete this feature? It will be moved to the trash, where an administrator can restore it.
                    </DialogDescription>
                </DialogHeader>
                <DialogFooter>
@@ -20,17 +20,36 @@ import { Calendar as NavCalendar } from './ui/calendar';
 import { Switch } from './ui/switch';
 import { DataRecord, CalendarSchema } from '../types';
 import { useToast } from './ui/use-toast';
+import { RecordPicker } from './RecordPicker';
+import { AttachmentInput } from './AttachmentInput';
+import { AttachmentGallery } from './AttachmentGallery';
+import { attachmentRefs } from '../services/attachments';
+import { inputType } from '../services/fieldFormat';
+import { ColorPicker } from './ColorPicker';
+import { MultiSelectInput, NumberInput, RichTextEditor } from './FieldInputs';
+import { FORMATTED_TYPES, FieldValue } from './FieldValue';
+import { useRelationLabels } from '../hooks/useRelationLabels';
+import { relationTargets } from '../services/relations';
+import { applyFormulas, defaultRecordData } from '../services/formulas';
 
 // Helper to generate ID
 const genId = () => Math.random().toString(36).substr(2, 9);
 
 export const PlanningTab: React.FC = () => {
-  const { schemas, records, calendars, addRecord, updateRecord, deleteRecord, hasPermission } = useAppStore();
+  const { visibleSchemas: schemas, records, calendars: allCalendars, loadTables, addRecord, updateRecord, deleteRecord, validateRecord, hasPermission, getTableAccess, currentUser } = useAppStore();
   const { t } = useTranslation();
   const { toast } = useToast();
+  const formatRelation = useRelationLabels(useMemo(() => Array.from(new Set(schemas.flatMap(s => relationTargets(s)))), [schemas]));
   const calendarRef = useRef<FullCalendar>(null);
 
   const canEdit = hasPermission('edit_data');
+  const canEditTable = (tableId: string, action: 'create' | 'update' | 'delete') => canEdit && getTableAccess(tableId)[action];
+
+  // Calendars over tables (and start fields) the user's role may read
+  const calendars = useMemo(() => allCalendars.filter(c =>
+    schemas.find(s => s.id === c.tableId)?.fields.some(f => f.name === c.startField)
+  ), [allCalendars, schemas]);
+  const creatableCalendars = calendars.filter(c => canEditTable(c.tableId, 'create'));
 
   // State to track which calendars are visible (by Calendar ID, not Table ID)
   const [visibleCalIds, setVisibleCalIds] = useState<Set<string>>(new Set());
@@ -107,6 +126,11 @@ export const PlanningTab: React.FC = () => {
     }
   }, [visibleCalIds, calendars]);
 
+  // Load the records behind visible calendars only
+  useEffect(() => {
+    loadTables(calendars.filter(c => visibleCalIds.has(c.id)).map(c => c.tableId));
+  }, [calendars, visibleCalIds, loadTables]);
+
   // Get dominant timezone
   const dominantTimeZone = useMemo(() => {
      const primaryCalId = Array.from(visibleCalIds)[0];
@@ -133,11 +157,13 @@ export const PlanningTab: React.FC = () => {
       const schema = schemas.find(s => s.id === record.tableId);
       if (!schema) return [];
       
-      const { titleField, startField, endField } = calendar;
+      const { titleField, startField } = calendar;
+      const hiddenFields = getTableAccess(record.tableId).hiddenFields;
+      const endField = calendar.endField && !hiddenFields.includes(calendar.endField) ? calendar.endField : undefined;
 
       if (!record.data[startField]) return [];
 
-      const title = record.data[titleField] ? String(record.data[titleField]) : 'Untitled';
+      const title = record.data[titleField] && !hiddenFields.includes(titleField) ? String(record.data[titleField]) : 'Untitled';
       
       // Prefer calendar specific color, fallback to schema color
       const eventColor = calendar.color || schema.color;
@@ -151,7 +177,7 @@ export const PlanningTab: React.FC = () => {
         borderColor: eventColor,
         textColor: '#ffffff',
         extendedProps: {
-          fullData: record.data,
+          fullData: Object.fromEntries(Object.entries(record.data).filter(([key]) => !hiddenFields.includes(key))),
           schemaName: schema.name,
           schemaColor: eventColor,
           tableId: record.tableId,
@@ -159,7 +185,7 @@ export const PlanningTab: React.FC = () => {
         }
       }];
     });
-  }, [schemas, records, calendars, visibleCalIds]);
+  }, [schemas, records, calendars, visibleCalIds, getTableAccess]);
 
   // --- Handlers ---
 
@@ -171,7 +197,7 @@ export const PlanningTab: React.FC = () => {
   };
 
   const handleDateSelect = (selectInfo: any) => {
-    if (!canEdit) return; // Prevent selection if no permission
+    if (creatableCalendars.length === 0) return; // Prevent selection if no permission
     const range = {
         start: selectInfo.start,
         end: selectInfo.end,
@@ -180,10 +206,10 @@ export const PlanningTab: React.FC = () => {
     setSelectedRange(range);
     setEditingEventId(null);
 
-    const activeOptions = calendars.filter(c => visibleCalIds.has(c.id));
+    const activeOptions = creatableCalendars.filter(c => visibleCalIds.has(c.id));
     
-    if (calendars.length === 1) {
-        prepareCreateForm(calendars[0].id, range);
+    if (creatableCalendars.length === 1) {
+        prepareCreateForm(creatableCalendars[0].id, range);
     } else if (activeOptions.length === 1) {
         prepareCreateForm(activeOptions[0].id, range);
     } else {
@@ -196,8 +222,8 @@ export const PlanningTab: React.FC = () => {
     setSelectedRange(today);
     setEditingEventId(null);
 
-    if (calendars.length === 1) {
-        prepareCreateForm(calendars[0].id, today);
+    if (creatableCalendars.length === 1) {
+        prepareCreateForm(creatableCalendars[0].id, today);
     } else {
         setIsSelectModalOpen(true);
     }
@@ -219,7 +245,7 @@ export const PlanningTab: React.FC = () => {
     setTargetCalId(calId);
     setFormErrors({});
     
-    const newFormData: any = {};
+    const newFormData: any = defaultRecordData(schema, { username: currentUser?.username });
     const formatDate = (d: Date) => d.toISOString().split('T')[0];
     // Format full datetime ISO string for datetime-local inputs
     const formatDateTime = (d: Date) => d.toISOString().slice(0, 16);
@@ -294,17 +320,22 @@ export const PlanningTab: React.FC = () => {
     setShowUnsavedDialog(false);
   };
 
-  const handleDeleteEvent = () => {
+  const handleDeleteEvent = async () => {
     if (!selectedEvent) return;
     if (confirm("Are you sure you want to delete this event?")) {
-      deleteRecord(selectedEvent.id);
+      try {
+        await deleteRecord(selectedEvent.id);
+      } catch (e) {
+        toast({ title: "Cannot Delete", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+        return;
+      }
       toast({ title: "Event Deleted", description: "Removed from calendar.", variant: "info" });
       setIsDetailModalOpen(false);
       setSelectedEvent(null);
     }
   };
 
-  const handleSaveEvent = (e: React.FormEvent) => {
+  const handleSaveEvent = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!targetCalId) return;
 
@@ -312,16 +343,10 @@ export const PlanningTab: React.FC = () => {
     if (!calendar) return;
     
     const schema = schemas.find(s => s.id === calendar.tableId);
+    const existingRecord = editingEventId ? records.find(r => r.id === editingEventId) : undefined;
+    const data = schema ? applyFormulas(schema, formData, { geometry: existingRecord?.geometry, username: currentUser?.username }) : formData;
     if (schema) {
-      const errors: Record<string, string> = {};
-      schema.fields.forEach(field => {
-        if (field.required) {
-          const val = formData[field.name];
-          if (val === undefined || val === null || val === '') {
-            errors[field.name] = `${field.label} is required`;
-          }
-        }
-      });
+      const errors = await validateRecord(schema, data, editingEventId || undefined);
 
       if (Object.keys(errors).length > 0) {
         setFormErrors(errors);
@@ -330,11 +355,10 @@ export const PlanningTab: React.FC = () => {
     }
 
     if (editingEventId) {
-      const existingRecord = records.find(r => r.id === editingEventId);
       if (existingRecord) {
         updateRecord({
           ...existingRecord,
-          data: formData,
+          data,
           updatedAt: new Date().toISOString()
         });
         toast({ title: "Event Updated", description: "Calendar updated successfully.", variant: "success" });
@@ -344,7 +368,7 @@ export const PlanningTab: React.FC = () => {
           id: genId(),
           tableId: calendar.tableId,
           geometry: null,
-          data: formData,
+          data,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
       };
@@ -370,6 +394,10 @@ export const PlanningTab: React.FC = () => {
   // Resolve target objects for form rendering
   const activeCalendar = calendars.find(c => c.id === targetCalId);
   const targetSchema = activeCalendar ? schemas.find(s => s.id === activeCalendar.tableId) : null;
+  // Computed fields of the event form as they will be saved
+  const computedData = isCreateModalOpen && targetSchema
+    ? applyFormulas(targetSchema, formData, { geometry: records.find(r => r.id === editingEventId)?.geometry, username: currentUser?.username })
+    : formData;
 
   if (calendars.length === 0) {
     return (
@@ -399,7 +427,7 @@ export const PlanningTab: React.FC = () => {
             <h2 className="font-semibold tracking-tight flex items-center gap-2">
               <Calendar className="w-4 h-4" /> Calendars
             </h2>
-            {canEdit && (
+            {creatableCalendars.length > 0 && (
               <Button className="w-full justify-start" size="sm" onClick={handleManualAdd}>
                 <Plus className="w-4 h-4 mr-2" /> Add Event
               </Button>
@@ -456,7 +484,7 @@ export const PlanningTab: React.FC = () => {
              center: 'title',
              right: 'dayGridMonth,timeGridWeek,timeGridDay,listWeek'
            }}
-           selectable={canEdit}
+           selectable={creatableCalendars.length > 0}
            selectMirror={true}
            select={handleDateSelect}
            events={events}
@@ -476,7 +504,7 @@ export const PlanningTab: React.FC = () => {
                <DialogDescription>Choose which calendar to add this event to.</DialogDescription>
              </DialogHeader>
              <div className="grid gap-2 py-4 max-h-[60vh] overflow-y-auto">
-                {calendars.map(cal => {
+                {creatableCalendars.map(cal => {
                    const schema = schemas.find(s => s.id === cal.tableId);
                    const color = cal.color || schema?.color;
                    return (
@@ -515,19 +543,60 @@ export const PlanningTab: React.FC = () => {
             {targetSchema && (
                <form id="calendar-form" onSubmit={handleSaveEvent} className="space-y-4 py-2">
                   {targetSchema.fields.map(field => (
-                     <div key={field.id} className="space-y-2">
+                     <fieldset key={field.id} disabled={getTableAccess(targetSchema.id).readOnlyFields.includes(field.name)} className="space-y-2 disabled:opacity-60">
                         <Label>
                           {field.label}
                           {field.required && <span className="text-red-500 ml-1">*</span>}
+                          {field.formula && <span className="ml-2 text-[10px] uppercase text-muted-foreground">Computed</span>}
                         </Label>
                         
-                        {field.type === 'select' ? (
+                        {field.formula ? (
+                           <Input readOnly value={String(computedData[field.name] ?? '')} title={`= ${field.formula}`} className="bg-muted/50" />
+                        ) : field.type === 'select' ? (
                            <Combobox 
                               options={field.options?.map(o => ({ value: o.value, label: o.label, color: o.color })) || []}
                               value={formData[field.name] || ''}
                               onChange={val => setFormData({...formData, [field.name]: val})}
                               className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
                            />
+                        ) : field.type === 'multiselect' ? (
+                           <MultiSelectInput
+                              field={field}
+                              value={formData[field.name]}
+                              onChange={val => setFormData({...formData, [field.name]: val})}
+                              className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                           />
+                        ) : field.type === 'richtext' ? (
+                           <RichTextEditor
+                              field={field}
+                              value={formData[field.name]}
+                              onChange={val => setFormData({...formData, [field.name]: val})}
+                              disabled={getTableAccess(targetSchema.id).readOnlyFields.includes(field.name)}
+                              className={cn(formErrors[field.name] && "border-red-500")}
+                           />
+                        ) : field.type === 'color' ? (
+                           <ColorPicker color={formData[field.name] || ''} onChange={val => setFormData({...formData, [field.name]: val})} />
+                        ) : field.type === 'number' ? (
+                           <NumberInput
+                              field={field}
+                              value={formData[field.name]}
+                              onChange={val => setFormData({...formData, [field.name]: val})}
+                              className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                           />
+                        ) : field.type === 'attachment' ? (
+                           <AttachmentInput
+                              field={field}
+                              tableId={targetSchema.id}
+                              value={formData[field.name]}
+                              onChange={val => setFormData({...formData, [field.name]: val})}
+                           />
+                        ) : field.type === 'relation' ? (
+                           <RecordPicker
+                              field={field}
+                              value={formData[field.name]}
+                              onChange={val => setFormData({...formData, [field.name]: val})}
+                              className={cn(formErrors[field.name] && "border-red-500 focus-visible:ring-red-500")}
+                           />
                         ) : field.type === 'boolean' ? (
                            <div className="flex items-center space-x-2">
                               <Switch 
@@ -554,7 +623,7 @@ export const PlanningTab: React.FC = () => {
                            />
                         ) : (
                            <Input 
-                              type={field.type === 'number' ? 'number' : 'text'}
+                              type={inputType(field.type)}
                               required={field.required}
                               value={formData[field.name] || ''}
                               onChange={e => setFormData({...formData, [field.name]: e.target.value})}
@@ -562,7 +631,7 @@ export const PlanningTab: React.FC = () => {
                            />
                         )}
                         {formErrors[field.name] && <p className="text-[10px] text-red-500 font-medium">{formErrors[field.name]}</p>}
-                     </div>
+                     </fieldset>
                   ))}
                </form>
             )}
@@ -620,6 +689,12 @@ export const PlanningTab: React.FC = () => {
                                   </span>
                                 );
                               }
+                           } else if (fieldDef?.type === 'relation') {
+                               displayVal = formatRelation(val) || '-';
+                           } else if (fieldDef?.type === 'attachment') {
+                               displayVal = <AttachmentGallery attachments={attachmentRefs(val)} />;
+                           } else if (fieldDef && FORMATTED_TYPES.includes(fieldDef.type)) {
+                               displayVal = <FieldValue field={fieldDef} value={val} />;
                            } else if (fieldDef?.type === 'datetime' && val) {
                                try {
                                    displayVal = new Date(val as string).toLocaleString();
@@ -641,14 +716,14 @@ export const PlanningTab: React.FC = () => {
                   </div>
 
                   <DialogFooter className="flex justify-between sm:justify-between gap-2">
-                     {canEdit && (
+                     {canEditTable(selectedEvent.tableId, 'delete') && (
                        <Button variant="destructive" onClick={handleDeleteEvent}>
                           <Trash2 className="w-4 h-4 mr-2" /> Delete
                        </Button>
                      )}
                      <div className="flex gap-2">
                         <Button variant="outline" onClick={() => setIsDetailModalOpen(false)}>Close</Button>
-                        {canEdit && (
+                        {canEditTable(selectedEvent.tableId, 'update') && (
                           <Button onClick={handleEditEvent}>
                              <Edit className="w-4 h-4 mr-2" /> Edit
                           </Button>
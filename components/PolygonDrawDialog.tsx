@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Trash2, Undo2 } from 'lucide-react';
+import { useAppStore } from '../store';
+import { DEFAULT_MAP_CENTER, DEFAULT_ZOOM } from '../constants';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+
+type LatLng = [number, number];
+
+interface PolygonDrawDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  value?: LatLng[];
+  onSave: (polygon: LatLng[]) => void;
+}
+
+// Outline of an area drawn by clicking its vertices on a map of the first web-mercator base layer
+export const PolygonDrawDialog = ({ open, onOpenChange, value, onSave }: PolygonDrawDialogProps) => {
+  const { mapConfig, mapState } = useAppStore();
+  const container = useRef<HTMLDivElement>(null);
+  const shapeLayer = useRef<L.LayerGroup | null>(null);
+  const [vertices, setVertices] = useState<LatLng[]>([]);
+
+  useEffect(() => {
+    if (open) setVertices(value || []);
+  }, [open, value]);
+
+  useEffect(() => {
+    if (!open || !container.current) return;
+    const map = L.map(container.current, { doubleClickZoom: false, attributionControl: false });
+    if (value && value.length >= 3) {
+      map.fitBounds(L.latLngBounds(value), { padding: [20, 20] });
+    } else {
+      map.setView(mapState.center || DEFAULT_MAP_CENTER, mapState.zoom || DEFAULT_ZOOM);
+    }
+
+    const base = mapConfig.tileLayers.find(l => (!l.type || l.type === 'xyz') && (!l.crs || l.crs === 'EPSG:3857'));
+    if (base) {
+      L.tileLayer(base.url, { attribution: base.attribution, maxZoom: base.maxZoom || 19, subdomains: base.subdomains || 'abc' }).addTo(map);
+    }
+    shapeLayer.current = L.layerGroup().addTo(map);
+    map.on('click', (e: L.LeafletMouseEvent) => setVertices(prev => [...prev, [e.latlng.lat, e.latlng.lng]]));
+    // The dialog is laid out after the map is created
+    const resize = setTimeout(() => map.invalidateSize(), 100);
+
+    return () => {
+      clearTimeout(resize);
+      map.remove();
+      shapeLayer.current = null;
+    };
+  }, [open]); // The view is only set when the dialog opens
+
+  useEffect(() => {
+    const layer = shapeLayer.current;
+    if (!layer) return;
+    layer.clearLayers();
+    if (vertices.length >= 2) {
+      L.polygon(vertices, { color: '#3b82f6', weight: 2, fillOpacity: 0.15 }).addTo(layer);
+    }
+    vertices.forEach(v => L.circleMarker(v, { radius: 4, color: '#1d4ed8', fillColor: '#fff', fillOpacity: 1, weight: 2 }).addTo(layer));
+  }, [vertices, open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} className="max-w-3xl">
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Draw Area</DialogTitle>
+          <DialogDescription>Click the map to place the corners of the area. Records lying entirely inside it are kept.</DialogDescription>
+        </DialogHeader>
+        <div ref={container} className="h-[420px] w-full rounded-md border cursor-crosshair" />
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">{vertices.length} point{vertices.length === 1 ? '' : 's'}</span>
+          <Button type="button" variant="outline" size="sm" className="ml-auto" disabled={vertices.length === 0} onClick={() => setVertices(prev => prev.slice(0, -1))}>
+            <Undo2 className="w-4 h-4 mr-1" /> Undo
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={vertices.length === 0} onClick={() => setVertices([])}>
+            <Trash2 className="w-4 h-4 mr-1" /> Clear
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={vertices.length < 3} onClick={() => { onSave(vertices); onOpenChange(false); }}>Use Area</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
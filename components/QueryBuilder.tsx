@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useAppStore } from '../store';
+import { FieldDefinition, FieldType, QueryCondition, QueryGroup, QueryOperator, SpatialFilter, SpatialFilterType } from '../types';
+import { QUERY_OPERATORS, SPATIAL_FILTER_TYPES } from '../constants';
+import { cn } from '../lib/utils';
+import { conditionError, isQueryGroup, listValues, operatorsFor, takesValue } from '../services/queryFilter';
+import { recordLabel } from '../services/relations';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select } from './ui/select';
+import { Combobox } from './ui/combobox';
+import { MultiSelectInput } from './FieldInputs';
+import { RecordPicker } from './RecordPicker';
+import { PolygonDrawDialog } from './PolygonDrawDialog';
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+// Groups nest this deep at most, enough for (a AND b) OR (c AND (d OR e))
+const MAX_DEPTH = 2;
+
+export const newQueryGroup = (): QueryGroup => ({ id: genId(), combinator: 'and', rules: [] });
+
+const newCondition = (field?: FieldDefinition): QueryCondition => ({
+  id: genId(),
+  field: field?.name || '',
+  operator: field ? operatorsFor(field.type)[0] : 'contains'
+});
+
+// Multiple choice values hold several options, so "is" reads as "includes" there
+const MULTISELECT_LABELS: Partial<Record<QueryOperator, string>> = {
+  equals: 'includes',
+  not_equals: 'does not include',
+  in: 'includes any of',
+  not_in: 'includes none of'
+};
+
+const operatorLabel = (type: FieldType | undefined, operator: QueryOperator) =>
+  (type === 'multiselect' && MULTISELECT_LABELS[operator]) || QUERY_OPERATORS.find(o => o.value === operator)?.label || operator;
+
+const valueInputType = (type: FieldType) =>
+  type === 'number' ? 'number' : type === 'date' ? 'date' : type === 'datetime' ? 'datetime-local' : 'text';
+
+// 'between' holds a pair and 'in' a list, so switching to or from them starts the value over
+const valueShape = (operator: QueryOperator) =>
+  operator === 'between' ? 'range' : operator === 'in' || operator === 'not_in' ? 'list' : takesValue(operator) ? 'single' : 'none';
+
+// --- Conditions ---
+
+interface ConditionRowProps {
+  condition: QueryCondition;
+  fields: FieldDefinition[];
+  onChange: (condition: QueryCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, fields, onChange, onRemove }) => {
+  const field = fields.find(f => f.name === condition.field);
+  const operators = field ? operatorsFor(field.type) : [];
+  const error = conditionError(condition);
+
+  const changeField = (name: string) => {
+    const next = fields.find(f => f.name === name);
+    if (!next) return;
+    const allowed = operatorsFor(next.type);
+    const operator = allowed.includes(condition.operator) ? condition.operator : allowed[0];
+    onChange({ ...condition, field: name, operator, value: undefined });
+  };
+
+  const changeOperator = (operator: QueryOperator) =>
+    onChange({ ...condition, operator, value: valueShape(operator) === valueShape(condition.operator) ? condition.value : undefined });
+
+  const renderValue = () => {
+    if (!field || !takesValue(condition.operator)) return null;
+    const hasOptions = field.type === 'select' || field.type === 'multiselect';
+
+    if (condition.operator === 'between') {
+      const [from, to] = Array.isArray(condition.value) ? condition.value : ['', ''];
+      return (
+        <div className="flex items-center gap-2">
+          <Input className="h-8 text-xs" type={valueInputType(field.type)} value={from ?? ''} onChange={e => onChange({ ...condition, value: [e.target.value, to ?? ''] })} />
+          <span className="text-xs text-muted-foreground">and</span>
+          <Input className="h-8 text-xs" type={valueInputType(field.type)} value={to ?? ''} onChange={e => onChange({ ...condition, value: [from ?? '', e.target.value] })} />
+        </div>
+      );
+    }
+
+    if (condition.operator === 'in' || condition.operator === 'not_in') {
+      return hasOptions ? (
+        <MultiSelectInput field={field} value={listValues(condition.value)} onChange={value => onChange({ ...condition, value })} className="h-8 text-xs" />
+      ) : (
+        <Input className="h-8 text-xs" placeholder="Values separated by commas" value={Array.isArray(condition.value) ? condition.value.join(', ') : condition.value ?? ''} onChange={e => onChange({ ...condition, value: e.target.value })} />
+      );
+    }
+
+    if (hasOptions) {
+      return (
+        <Select className="h-8 text-xs py-1" value={condition.value ?? ''} onChange={e => onChange({ ...condition, value: e.target.value })}>
+          <option value="">Select...</option>
+          {(field.options || []).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </Select>
+      );
+    }
+
+    return (
+      <div className="space-y-1">
+        <Input
+          className={cn("h-8 text-xs", condition.operator === 'regex' && "font-mono", error && "border-red-500")}
+          type={valueInputType(field.type)}
+          placeholder={condition.operator === 'regex' ? '^A-\\d+$' : field.type === 'color' ? '#rrggbb' : 'Value'}
+          value={condition.value ?? ''}
+          onChange={e => onChange({ ...condition, value: e.target.value })}
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-start gap-2">
+      <div className="w-44 shrink-0">
+        <Select className="h-8 text-xs py-1" value={condition.field} onChange={e => changeField(e.target.value)}>
+          {!field && <option value="">Field...</option>}
+          {fields.map(f => <option key={f.id} value={f.name}>{f.label}</option>)}
+        </Select>
+      </div>
+      <div className="w-40 shrink-0">
+        <Select className="h-8 text-xs py-1" value={condition.operator} onChange={e => changeOperator(e.target.value as QueryOperator)} disabled={!field}>
+          {operators.map(op => <option key={op} value={op}>{operatorLabel(field?.type, op)}</option>)}
+        </Select>
+      </div>
+      <div className="flex-1 min-w-0">{renderValue()}</div>
+      <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Remove condition" onClick={onRemove}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+// --- Groups ---
+
+interface GroupEditorProps {
+  group: QueryGroup;
+  fields: FieldDefinition[];
+  depth: number;
+  onChange: (group: QueryGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, fields, depth, onChange, onRemove }) => {
+  const setRule = (index: number, rule: QueryCondition | QueryGroup) =>
+    onChange({ ...group, rules: group.rules.map((r, i) => i === index ? rule : r) });
+  const removeRule = (index: number) => onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={cn("rounded-md border p-3 space-y-2", depth > 0 ? "bg-muted/20" : "bg-background")}>
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Match</span>
+        <div className="inline-flex rounded-md border overflow-hidden">
+          {(['and', 'or'] as const).map(combinator => (
+            <button
+              key={combinator}
+              type="button"
+              className={cn("px-2 py-1 font-medium", group.combinator === combinator ? "bg-primary text-primary-foreground" : "hover:bg-muted")}
+              onClick={() => onChange({ ...group, combinator })}
+            >
+              {combinator === 'and' ? 'All (AND)' : 'Any (OR)'}
+            </button>
+          ))}
+        </div>
+        <span className="text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7 ml-auto" title="Remove group" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-xs text-muted-foreground">No conditions yet: every record matches.</p>
+      )}
+      {group.rules.map((rule, index) => isQueryGroup(rule) ? (
+        <GroupEditor key={rule.id} group={rule} fields={fields} depth={depth + 1} onChange={next => setRule(index, next)} onRemove={() => removeRule(index)} />
+      ) : (
+        <ConditionRow key={rule.id} condition={rule} fields={fields} onChange={next => setRule(index, next)} onRemove={() => removeRule(index)} />
+      ))}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange({ ...group, rules: [...group.rules, newCondition(fields[0])] })}>
+          <Plus className="w-3 h-3 mr-1" /> Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange({ ...group, rules: [...group.rules, { ...newQueryGroup(), rules: [newCondition(fields[0])] }] })}>
+            <Plus className="w-3 h-3 mr-1" /> Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface QueryBuilderProps {
+  fields: FieldDefinition[];
+  value: QueryGroup;
+  onChange: (group: QueryGroup) => void;
+}
+
+export const QueryBuilder = ({ fields, value, onChange }: QueryBuilderProps) => (
+  <GroupEditor group={value} fields={fields} depth={0} onChange={onChange} />
+);
+
+// --- Spatial filter ---
+
+interface SpatialFilterEditorProps {
+  value: SpatialFilter | null;
+  onChange: (spatial: SpatialFilter | null) => void;
+}
+
+export const SpatialFilterEditor = ({ value, onChange }: SpatialFilterEditorProps) => {
+  const { visibleSchemas, records, mapState, loadTables } = useAppStore();
+  const [isDrawing, setIsDrawing] = useState(false);
+  const spatialSchemas = visibleSchemas.filter(s => s.geometryType !== 'none');
+  const featureTable = spatialSchemas.find(s => s.id === value?.tableId);
+
+  useEffect(() => {
+    if (value?.tableId) loadTables([value.tableId]);
+  }, [value?.tableId, loadTables]);
+
+  const changeType = (type: string) => {
+    if (!type) return onChange(null);
+    onChange(type === 'distance' ? { type, meters: value?.meters ?? 100 } : { type: type as SpatialFilterType });
+  };
+
+  // The feature's geometry is copied into the filter, so the table need not be loaded to run it
+  const pickFeature = (recordId: string) => {
+    const record = records.find(r => r.id === recordId);
+    onChange({
+      ...value!,
+      recordId: record?.id,
+      label: record ? recordLabel(featureTable, record) : undefined,
+      geometry: record?.geometry || undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select className="h-8 text-xs py-1" value={value?.type || ''} onChange={e => changeType(e.target.value)}>
+        <option value="">Anywhere</option>
+        {SPATIAL_FILTER_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+      </Select>
+
+      {value?.type === 'extent' && (
+        <p className="text-xs text-muted-foreground">
+          {mapState.bounds
+            ? 'Records touching the area the map shows; the filter follows the map as it moves.'
+            : 'Open the map once so its extent is known.'}
+        </p>
+      )}
+
+      {value?.type === 'polygon' && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {value.polygon?.length ? `Area with ${value.polygon.length} corners` : 'No area drawn yet.'}
+          </span>
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs ml-auto" onClick={() => setIsDrawing(true)}>
+            <Pencil className="w-3 h-3 mr-1" /> {value.polygon?.length ? 'Redraw' : 'Draw on Map'}
+          </Button>
+          <PolygonDrawDialog open={isDrawing} onOpenChange={setIsDrawing} value={value.polygon} onSave={polygon => onChange({ ...value, polygon })} />
+        </div>
+      )}
+
+      {value?.type === 'distance' && (
+        <div className="grid grid-cols-[1fr_1fr_120px] gap-2 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Layer</Label>
+            <Combobox
+              options={spatialSchemas.map(s => ({ value: s.id, label: s.name }))}
+              value={value.tableId}
+              onChange={tableId => onChange({ type: 'distance', meters: value.meters, tableId })}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Feature</Label>
+            {featureTable ? (
+              <RecordPicker
+                field={{ id: 'feature', name: 'feature', label: 'Feature', type: 'relation', required: false, relation: { tableId: featureTable.id } }}
+                value={value.recordId || ''}
+                onChange={id => pickFeature(String(id || ''))}
+                className="h-8 text-xs"
+              />
+            ) : (
+              <div className="text-xs text-muted-foreground border rounded-md p-2 bg-muted/20">Pick a layer first.</div>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Within (m)</Label>
+            <Input
+              type="number"
+              min={0}
+              className="h-8 text-xs"
+              value={value.meters ?? ''}
+              onChange={e => onChange({ ...value, meters: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          {value.recordId && !value.geometry && (
+            <p className="col-span-3 text-xs text-red-500">This feature has no geometry.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { useAppStore } from '../store';
+import { DataRecord, RecordRevision, TableSchema } from '../types';
+import { Button } from './ui/button';
+import { useToast } from './ui/use-toast';
+import { getDirtyFields } from '../lib/utils';
+import { formatAuditValue } from '../services/audit';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+
+interface RecordHistoryProps {
+  schema: TableSchema;
+  record: DataRecord;
+  canRestore: boolean;
+  onRestored?: () => void;
+}
+
+// Field changes of a revision against the one before it, leaving out fields hidden from the user
+const revisionChanges = (revision: RecordRevision, previous: RecordRevision | undefined, hiddenFields: string[]) => {
+  const fields = getDirtyFields(previous?.data, revision.data).filter(name => !hiddenFields.includes(name));
+  const geometryChanged = JSON.stringify(previous?.geometry ?? null) !== JSON.stringify(revision.geometry ?? null);
+  return { fields, geometryChanged };
+};
+
+export const RecordHistory = ({ schema, record, canRestore, onRestored }: RecordHistoryProps) => {
+  const { recordsVersion, getRecordRevisions, restoreRecordRevision, getTableAccess } = useAppStore();
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<RecordRevision[] | null>(null);
+
+  // Reloaded after every persisted record change, including restores made here
+  useEffect(() => {
+    let cancelled = false;
+    getRecordRevisions(record.id)
+      .then(list => { if (!cancelled) setRevisions(list.reverse()); })
+      .catch(e => {
+        console.error("Failed to load revisions", e);
+        if (!cancelled) setRevisions([]);
+      });
+    return () => { cancelled = true; };
+  }, [record.id, recordsVersion, getRecordRevisions]);
+
+  const hiddenFields = getTableAccess(schema.id).hiddenFields;
+  const labelOf = (name: string) => schema.fields.find(f => f.name === name)?.label || name;
+
+  const handleRestore = (revision: RecordRevision) => {
+    restoreRecordRevision(revision, record);
+    toast({ title: 'Version restored', description: `The record now matches the version of ${new Date(revision.timestamp).toLocaleString()}.`, variant: 'success' });
+    onRestored?.();
+  };
+
+  if (!revisions) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-sm text-muted-foreground gap-2">
+        <History className="w-6 h-6 opacity-30" />
+        No earlier versions of this record.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {revisions.map((revision, index) => {
+        const previous = revisions[index + 1];
+        const { fields, geometryChanged } = revisionChanges(revision, previous, hiddenFields);
+        const restoredFrom = revision.restoredFrom && revisions.find(r => r.id === revision.restoredFrom);
+        return (
+          <div key={revision.id} className="border rounded-md p-3 space-y-2 bg-muted/10">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="text-sm font-medium flex items-center gap-2">
+                  {new Date(revision.timestamp).toLocaleString()}
+                  {index === 0 && <span className="text-[10px] uppercase font-bold text-primary bg-primary/10 px-1.5 py-0.5 rounded">Current</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {revision.userId ? revision.username : 'Unknown author'}
+                  {!previous && ' · first version'}
+                  {restoredFrom && ` · restored the version of ${new Date(restoredFrom.timestamp).toLocaleString()}`}
+                </div>
+              </div>
+              {canRestore && index > 0 && (
+                <Button variant="outline" size="sm" className="h-7 text-xs shrink-0" onClick={() => handleRestore(revision)}>
+                  <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                </Button>
+              )}
+            </div>
+            {previous && (fields.length > 0 || geometryChanged) && (
+              <div className="space-y-1">
+                {fields.map(name => (
+                  <div key={name} className="grid grid-cols-[120px_1fr_1fr] gap-2 text-xs">
+                    <span className="text-muted-foreground truncate" title={labelOf(name)}>{labelOf(name)}</span>
+                    <span className="font-mono text-red-700 bg-red-50 px-1 rounded truncate" title={formatAuditValue(previous.data[name])}>{formatAuditValue(previous.data[name]) || '—'}</span>
+                    <span className="font-mono text-green-700 bg-green-50 px-1 rounded truncate" title={formatAuditValue(revision.data[name])}>{formatAuditValue(revision.data[name]) || '—'}</span>
+                  </div>
+                ))}
+                {geometryChanged && (
+                  <div className="grid grid-cols-[120px_1fr] gap-2 text-xs">
+                    <span className="text-muted-foreground">Geometry</span>
+                    <span className="text-blue-700">{revision.geometry ? (previous.geometry ? 'Moved or reshaped' : 'Added') : 'Removed'}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            {previous && fields.length === 0 && !geometryChanged && (
+              <div className="text-xs text-muted-foreground italic">No field changes</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
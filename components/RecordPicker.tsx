@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { useAppStore } from '../store';
+import { FieldDefinition } from '../types';
+import { cn } from '../lib/utils';
+import { recordLabel, relationIds, relationValue } from '../services/relations';
+import { Button } from './ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+// Large tables would make the list unusable, so only the first matches of the search are listed
+const MAX_OPTIONS = 50;
+
+interface RecordPickerProps {
+  field: FieldDefinition;
+  value: any;
+  onChange: (value: any) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Form input of a relation field: one record of the target table, or several when `multiple`
+export const RecordPicker = ({ field, value, onChange, className, disabled }: RecordPickerProps) => {
+  const { records, visibleSchemas, loadTables } = useAppStore();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const tableId = field.relation?.tableId;
+  const target = visibleSchemas.find(s => s.id === tableId);
+  const multiple = !!field.relation?.multiple;
+  const selected = relationIds(value);
+
+  useEffect(() => {
+    if (tableId) loadTables([tableId]);
+  }, [tableId, loadTables]);
+
+  const options = useMemo(() => records
+    .filter(r => r.tableId === tableId)
+    .map(r => ({ id: r.id, label: recordLabel(target, r) }))
+    .sort((a, b) => a.label.localeCompare(b.label)), [records, tableId, target]);
+
+  const labelOf = (id: string) => options.find(o => o.id === id)?.label || id;
+  const query = search.trim().toLowerCase();
+  const matches = options.filter(o => !query || o.label.toLowerCase().includes(query) || o.id.toLowerCase().includes(query));
+
+  const toggle = (id: string) => {
+    if (multiple) {
+      onChange(relationValue(field, selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]));
+    } else {
+      onChange(relationValue(field, selected[0] === id ? [] : [id]));
+      setOpen(false);
+    }
+  };
+
+  if (!target) {
+    return <div className="text-xs text-muted-foreground border rounded-md p-2 bg-muted/20">The linked table is not available to you.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {multiple && selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(id => (
+            <span key={id} className="inline-flex items-center gap-1 rounded-full border bg-muted/40 px-2 py-0.5 text-xs">
+              {labelOf(id)}
+              {!disabled && (
+                <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => toggle(id)} title="Remove link">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+      <Popover open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSearch(''); }} className="w-full">
+        <PopoverTrigger asChild>
+          <Button variant="outline" role="combobox" aria-expanded={open} type="button" className={cn("w-full justify-between", className)} disabled={disabled}>
+            <span className={cn("truncate", (multiple || selected.length === 0) && "text-muted-foreground")}>
+              {multiple ? `Link ${target.name} records...` : selected.length > 0 ? labelOf(selected[0]) : `Select a ${target.name} record...`}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder={`Search ${target.name}...`} value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No record found.</CommandEmpty>
+              <CommandGroup>
+                {matches.slice(0, MAX_OPTIONS).map(option => (
+                  <CommandItem key={option.id} value={option.id} onSelect={() => toggle(option.id)}>
+                    <Check className={cn("mr-2 h-4 w-4", selected.includes(option.id) ? "opacity-100" : "opacity-0")} />
+                    {option.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              {matches.length > MAX_OPTIONS && (
+                <div className="px-3 py-2 text-[10px] text-muted-foreground">{matches.length - MAX_OPTIONS} more; refine the search.</div>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect } from 'react';
+import { useAppStore } from '../store';
+import { DataRecord, TableSchema } from '../types';
+import { linksTo, recordLabel, referencingFields, relationIds } from '../services/relations';
+import { ArrowLeft, ArrowRight, Link2 } from 'lucide-react';
+
+interface RelatedRecordsProps {
+  record: DataRecord;
+  // Makes the listed records clickable, e.g. to show them on the map
+  onOpen?: (record: DataRecord) => void;
+}
+
+interface RelatedGroup {
+  key: string;
+  title: string;
+  incoming: boolean;
+  items: { id: string; label: string; record?: DataRecord }[];
+}
+
+// Records the given record links to through its relation fields, and records of any table linking to it
+export const RelatedRecords = ({ record, onOpen }: RelatedRecordsProps) => {
+  const { records, visibleSchemas, loadTables } = useAppStore();
+  const schema = visibleSchemas.find(s => s.id === record.tableId);
+  const outgoing = (schema?.fields || []).filter(f => f.type === 'relation' && f.relation);
+  const incoming = referencingFields(visibleSchemas, [record.tableId]);
+  const tableIds = Array.from(new Set([...outgoing.map(f => f.relation!.tableId), ...incoming.map(r => r.schema.id)]));
+
+  useEffect(() => {
+    if (tableIds.length > 0) loadTables(tableIds);
+  }, [tableIds.join(','), loadTables]);
+
+  const byId = new Map<string, DataRecord>(records.map(r => [r.id, r]));
+  const schemaOf = (r: DataRecord): TableSchema | undefined => visibleSchemas.find(s => s.id === r.tableId);
+  const groups: RelatedGroup[] = [];
+  outgoing.forEach(field => {
+    const ids = relationIds(record.data[field.name]);
+    if (ids.length === 0) return;
+    const target = visibleSchemas.find(s => s.id === field.relation!.tableId);
+    groups.push({
+      key: `out-${field.id}`,
+      title: `${field.label}${target ? ` (${target.name})` : ''}`,
+      incoming: false,
+      items: ids.map(id => {
+        const linked = byId.get(id);
+        return { id, label: linked ? recordLabel(schemaOf(linked), linked) : id, record: linked };
+      })
+    });
+  });
+  const self = new Set([record.id]);
+  incoming.forEach(({ schema: source, field }) => {
+    const linking = records.filter(r => r.tableId === source.id && linksTo(r, field, self));
+    if (linking.length === 0) return;
+    groups.push({
+      key: `in-${source.id}-${field.id}`,
+      title: `${source.name} · ${field.label}`,
+      incoming: true,
+      items: linking.map(r => ({ id: r.id, label: recordLabel(source, r), record: r }))
+    });
+  });
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-sm text-muted-foreground gap-2">
+        <Link2 className="w-6 h-6 opacity-30" />
+        No related records.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map(group => (
+        <div key={group.key} className="border rounded-md p-3 space-y-2 bg-muted/10">
+          <div className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+            {group.incoming ? <ArrowLeft className="w-3 h-3" /> : <ArrowRight className="w-3 h-3" />}
+            {group.incoming ? 'Linked from ' : 'Links to '}{group.title}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {group.items.map(item => onOpen && item.record ? (
+              <button key={item.id} type="button" className="rounded-full border bg-white px-2 py-0.5 text-xs hover:bg-primary/10 hover:border-primary/40" onClick={() => onOpen(item.record!)}>
+                {item.label}
+              </button>
+            ) : (
+              <span key={item.id} className={`rounded-full border bg-white px-2 py-0.5 text-xs ${item.record ? '' : 'text-muted-foreground font-mono'}`} title={item.record ? undefined : 'Not available'}>
+                {item.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { TableSchema, FieldDefinition, FieldType } from '../types';
+import { TableSchema, FieldDefinition, FieldType, FieldValidation, RelationDeleteAction } from '../types';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -9,10 +9,14 @@ import { Combobox } from './ui/combobox';
 import { Switch } from './ui/switch';
 import { ColorPicker } from './ColorPicker';
 import { useTranslation } from '../hooks/useTranslation';
-import { ChevronLeft, Plus, Trash2, GripVertical, Settings2, X } from 'lucide-react';
-import { FIELD_TYPES, GEO_TYPES, DIALOG_SIZE_PRESETS } from '../constants';
+import { AlertTriangle, ChevronLeft, Plus, Trash2, GripVertical, Settings2, X } from 'lucide-react';
+import { FIELD_TYPES, GEO_TYPES, DIALOG_SIZE_PRESETS, RELATION_DELETE_ACTIONS } from '../constants';
+import { useAppStore } from '../store';
 import { cn, getDirtyFields } from '../lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
+import { checkValidationRules, pruneValidation, supportsRule } from '../services/validation';
+import { EXPRESSION_FUNCTIONS, EXPRESSION_VARIABLES, checkExpression } from '../services/expression';
+import { MigrationPreview, renameFieldReferences, renameSchemaReferences } from '../services/schemaMigration';
 
 interface SchemaEditorProps {
   schema: TableSchema;
@@ -25,6 +29,7 @@ const genId = () => Math.random().toString(36).substr(2, 9);
 
 export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCancel }) => {
   const { t } = useTranslation();
+  const { schemas, previewSchemaMigration } = useAppStore();
   const [localSchema, setLocalSchema] = useState<TableSchema>({ ...schema });
   const [initialSchema] = useState<TableSchema>({ ...schema }); // Keep a copy
   const [activeTab, setActiveTab] = useState<'basic' | 'fields' | 'view'>('basic');
@@ -32,6 +37,11 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
   // Field Editing State
   const [editingField, setEditingField] = useState<FieldDefinition | null>(null);
   const [isFieldModalOpen, setIsFieldModalOpen] = useState(false);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  // Renamed or retyped fields are reviewed before their records are migrated
+  const [migration, setMigration] = useState<MigrationPreview | null>(null);
+  const [isCheckingMigration, setIsCheckingMigration] = useState(false);
 
   // Unsaved Changes Dialog State
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
@@ -77,11 +87,13 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
       sortable: true,
       filterable: true
     });
+    setRuleError(null);
     setIsFieldModalOpen(true);
   };
 
   const handleEditField = (field: FieldDefinition) => {
     setEditingField({ ...field });
+    setRuleError(null);
     setIsFieldModalOpen(true);
   };
 
@@ -98,17 +110,53 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
     // Auto-generate ID if missing
     if (!editingField.id) editingField.id = genId();
 
+    const isRelation = editingField.type === 'relation';
+    const isPicked = isRelation || editingField.type === 'attachment';
+    // A renamed field's references in this table follow the new name, its own rule included
+    const previousName = localSchema.fields.find(f => f.id === editingField.id)?.name;
+    const renames: Record<string, string> = previousName && previousName !== editingField.name ? { [previousName]: editingField.name } : {};
+    const field: FieldDefinition = renameFieldReferences({
+      ...editingField,
+      validation: pruneValidation(editingField.type, editingField.validation),
+      // Relations and attachments are picked, never computed
+      formula: isPicked ? undefined : editingField.formula?.trim() || undefined,
+      // A computed field has no default: its formula decides the value
+      defaultValue: isPicked || editingField.formula?.trim() ? undefined : editingField.defaultValue?.trim() || undefined,
+      relation: isRelation ? editingField.relation : undefined,
+      precision: editingField.type === 'number' ? editingField.precision : undefined,
+      unit: editingField.type === 'number' ? editingField.unit?.trim() || undefined : undefined
+    }, renames);
+    if (localSchema.fields.some(f => f.id !== field.id && f.name === field.name)) {
+      setRuleError(`Another field is already named ${field.name}.`);
+      return;
+    }
+    if (isRelation && !field.relation?.tableId) {
+      setRuleError('Choose the table this field links to.');
+      return;
+    }
+    const fieldNames = [...localSchema.fields.filter(f => f.id !== field.id).map(f => f.name), field.name];
+    // A formula cannot read its own field
+    const formulaError = field.formula ? checkExpression(field.formula, fieldNames.filter(n => n !== field.name)) : null;
+    const defaultError = field.defaultValue ? checkExpression(field.defaultValue, fieldNames) : null;
+    const error = formulaError ? `The formula is invalid: ${formulaError}`
+      : defaultError ? `The default value is invalid: ${defaultError}`
+      : checkValidationRules(field, fieldNames);
+    if (error) {
+      setRuleError(error);
+      return;
+    }
+
     setLocalSchema(prev => {
-      const exists = prev.fields.find(f => f.id === editingField.id);
+      const exists = prev.fields.find(f => f.id === field.id);
       if (exists) {
-        return {
+        return renameSchemaReferences({
           ...prev,
-          fields: prev.fields.map(f => f.id === editingField.id ? editingField : f)
-        };
+          fields: prev.fields.map(f => f.id === field.id ? field : f)
+        }, renames);
       } else {
         return {
           ...prev,
-          fields: [...prev.fields, editingField]
+          fields: [...prev.fields, field]
         };
       }
     });
@@ -116,6 +164,14 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
     setEditingField(null);
   };
 
+  const setRule = <K extends keyof FieldValidation>(rule: K, value: FieldValidation[K]) => {
+      if (!editingField) return;
+      setEditingField({ ...editingField, validation: { ...editingField.validation, [rule]: value } });
+      setRuleError(null);
+  };
+
+  const numberRule = (value: string) => value === '' ? undefined : Number(value);
+
   const handleOptionChange = (idx: number, key: 'label' | 'value' | 'color', val: string) => {
       if (!editingField || !editingField.options) return;
       const newOptions = [...editingField.options];
@@ -142,6 +198,22 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
       handleBasicChange('hoverFields', updated);
   };
 
+  const handleSave = async () => {
+    setIsCheckingMigration(true);
+    try {
+      const preview = await previewSchemaMigration(localSchema);
+      if (preview) {
+        setMigration(preview);
+        return;
+      }
+    } finally {
+      setIsCheckingMigration(false);
+    }
+    onSave(localSchema);
+  };
+
+  const typeLabel = (type: FieldType) => FIELD_TYPES.find(ft => ft.value === type)?.label || type;
+
   return (
     <div className="flex flex-col h-full bg-background animate-in fade-in slide-in-from-bottom-4 duration-300">
       {/* Header */}
@@ -157,7 +229,7 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
         </div>
         <div className="flex gap-2">
             <Button variant="outline" onClick={attemptCancel}>{t('common.cancel')}</Button>
-            <Button onClick={() => onSave(localSchema)} disabled={!localSchema.name}>{t('common.save')}</Button>
+            <Button onClick={handleSave} disabled={!localSchema.name || isCheckingMigration}>{t('common.save')}</Button>
         </div>
       </div>
 
@@ -241,6 +313,10 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
                                                 <div className="text-xs text-muted-foreground capitalize flex flex-wrap gap-2 items-center mt-1">
                                                     <span className="bg-secondary px-1.5 rounded border">{field.type}</span>
                                                     {field.required && <span className="text-destructive font-bold text-[10px] uppercase">Required</span>}
+                                                    {field.formula && <span className="text-cyan-600 font-medium text-[10px] uppercase">Computed</span>}
+                                                    {field.relation && <span className="text-indigo-600 font-medium text-[10px] uppercase">Links {schemas.find(s => s.id === field.relation!.tableId)?.name || 'missing table'}</span>}
+                                                    {field.validation?.unique && <span className="text-purple-500 font-medium text-[10px] uppercase">Unique</span>}
+                                                    {field.validation && Object.keys(field.validation).some(k => k !== 'unique') && <span className="text-amber-600 font-medium text-[10px] uppercase">Rules</span>}
                                                     {(field.sortable === undefined || field.sortable) && <span className="text-blue-500 font-medium text-[10px] uppercase">Sort</span>}
                                                     {(field.filterable === undefined || field.filterable) && <span className="text-green-500 font-medium text-[10px] uppercase">Filter</span>}
                                                 </div>
@@ -431,6 +507,48 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
                         />
                     </div>
 
+                    {/* Computed / Default Value */}
+                    {editingField.type !== 'relation' && editingField.type !== 'attachment' && (
+                        <div className="space-y-3 border p-3 rounded-md">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <Label className="cursor-pointer text-xs font-medium" htmlFor="computed-switch">Computed</Label>
+                                    <p className="text-[10px] text-muted-foreground">The value is calculated from a formula on every save and cannot be typed in.</p>
+                                </div>
+                                <Switch
+                                    id="computed-switch"
+                                    checked={editingField.formula !== undefined}
+                                    onCheckedChange={c => { setEditingField({ ...editingField, formula: c ? '' : undefined }); setRuleError(null); }}
+                                />
+                            </div>
+                            {editingField.formula !== undefined ? (
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Formula</Label>
+                                    <Input
+                                        className="h-8 text-sm font-mono"
+                                        value={editingField.formula}
+                                        onChange={e => { setEditingField({ ...editingField, formula: e.target.value }); setRuleError(null); }}
+                                        placeholder="e.g. concat(code, ' - ', name) or $area"
+                                    />
+                                </div>
+                            ) : (
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Default Value</Label>
+                                    <Input
+                                        className="h-8 text-sm font-mono"
+                                        value={editingField.defaultValue || ''}
+                                        onChange={e => { setEditingField({ ...editingField, defaultValue: e.target.value }); setRuleError(null); }}
+                                        placeholder="e.g. today(), $currentUser or 'open'"
+                                    />
+                                    <p className="text-[10px] text-muted-foreground">An expression filled in for new records; text needs quotes.</p>
+                                </div>
+                    )}
+                        <p className="text-[10px] text-muted-foreground">
+                            Variables: {EXPRESSION_VARIABLES.map(v => `${v.name} (${v.help})`).join(', ')}. Durations such as 7d, 2w or 12h can be added to dates.
+                        </p>
+                    </div>
+                    )}
+
                     <div className="grid grid-cols-3 gap-4">
                         <div className="flex flex-col items-center justify-center bg-muted/30 p-2 rounded border gap-2">
                             <Label className="cursor-pointer text-xs font-medium" htmlFor="req-switch">Required</Label>
@@ -447,7 +565,7 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
                     </div>
 
                     {/* Options Editor for Select Type */}
-                    {editingField.type === 'select' && (
+                    {(editingField.type === 'select' || editingField.type === 'multiselect') && (
                         <div className="space-y-2 border p-3 rounded-md bg-slate-50 dark:bg-slate-900">
                             <div className="flex justify-between items-center mb-2">
                                 <Label className="text-xs uppercase font-bold text-muted-foreground">Dropdown Options</Label>
@@ -485,6 +603,141 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
                             </div>
                         </div>
                     )}
+
+                    {/* Number Format */}
+                    {editingField.type === 'number' && (
+                        <div className="grid grid-cols-2 gap-3 border p-3 rounded-md bg-slate-50 dark:bg-slate-900">
+                            <div className="space-y-1">
+                                <Label className="text-xs">Decimal Places</Label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={10}
+                                    className="h-8 text-sm"
+                                    value={editingField.precision ?? ''}
+                                    onChange={e => setEditingField({ ...editingField, precision: e.target.value === '' ? undefined : Math.min(10, Math.max(0, Math.round(Number(e.target.value)))) })}
+                                    placeholder="Any"
+                                />
+                                <p className="text-[10px] text-muted-foreground">0 for whole numbers.</p>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Unit</Label>
+                                <Input className="h-8 text-sm" value={editingField.unit || ''} onChange={e => setEditingField({ ...editingField, unit: e.target.value })} placeholder="e.g. m, kg, €" />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Relation Target */}
+                    {editingField.type === 'relation' && (
+                        <div className="space-y-3 border p-3 rounded-md bg-slate-50 dark:bg-slate-900">
+                            <Label className="text-xs uppercase font-bold text-muted-foreground">Linked Table</Label>
+                            <Combobox
+                                options={schemas.map(s => ({ value: s.id, label: s.name, color: s.color }))}
+                                value={editingField.relation?.tableId || ''}
+                                onChange={val => { setEditingField({ ...editingField, relation: { ...editingField.relation, tableId: val } }); setRuleError(null); }}
+                                placeholder="Select a table..."
+                            />
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <Label className="cursor-pointer text-xs font-medium" htmlFor="multiple-switch">Multiple Records</Label>
+                                    <p className="text-[10px] text-muted-foreground">Each record can link to several records of the linked table.</p>
+                                </div>
+                                <Switch
+                                    id="multiple-switch"
+                                    checked={!!editingField.relation?.multiple}
+                                    onCheckedChange={c => setEditingField({ ...editingField, relation: { tableId: '', ...editingField.relation, multiple: c || undefined } })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">When a Linked Record Is Deleted</Label>
+                                <Combobox
+                                    options={RELATION_DELETE_ACTIONS}
+                                    value={editingField.relation?.onDelete || 'restrict'}
+                                    onChange={val => setEditingField({ ...editingField, relation: { tableId: '', ...editingField.relation, onDelete: val as RelationDeleteAction } })}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Validation Rules */}
+                    <div className="space-y-3 border p-3 rounded-md">
+                        <Label className="text-xs uppercase font-bold text-muted-foreground">Validation</Label>
+                        {editingField.type === 'number' && (
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Minimum</Label>
+                                    <Input type="number" className="h-8 text-sm" value={editingField.validation?.min ?? ''} onChange={e => setRule('min', numberRule(e.target.value))} />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Maximum</Label>
+                                    <Input type="number" className="h-8 text-sm" value={editingField.validation?.max ?? ''} onChange={e => setRule('max', numberRule(e.target.value))} />
+                                </div>
+                            </div>
+                        )}
+                        {(editingField.type === 'text' || editingField.type === 'richtext') && (
+                            <>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Min. Length</Label>
+                                        <Input type="number" min={0} className="h-8 text-sm" value={editingField.validation?.minLength ?? ''} onChange={e => setRule('minLength', numberRule(e.target.value))} />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-xs">Max. Length</Label>
+                                        <Input type="number" min={0} className="h-8 text-sm" value={editingField.validation?.maxLength ?? ''} onChange={e => setRule('maxLength', numberRule(e.target.value))} />
+                                    </div>
+                                </div>
+                                {editingField.type === 'text' && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div className="space-y-1">
+                                            <Label className="text-xs">Pattern (regular expression)</Label>
+                                            <Input className="h-8 text-sm font-mono" value={editingField.validation?.pattern || ''} onChange={e => setRule('pattern', e.target.value)} placeholder="[A-Z]{2}-\d{4}" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label className="text-xs">Pattern Message</Label>
+                                            <Input className="h-8 text-sm" value={editingField.validation?.patternMessage || ''} onChange={e => setRule('patternMessage', e.target.value)} placeholder="e.g. Use the format AB-1234" />
+                                        </div>
+                                    </div>
+                                )}
+                            </>
+                        )}
+                        {(editingField.type === 'date' || editingField.type === 'datetime') && (
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Earliest Date</Label>
+                                    <Input className="h-8 text-sm" value={editingField.validation?.minDate || ''} onChange={e => setRule('minDate', e.target.value.trim())} placeholder="YYYY-MM-DD or today" />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label className="text-xs">Latest Date</Label>
+                                    <Input className="h-8 text-sm" value={editingField.validation?.maxDate || ''} onChange={e => setRule('maxDate', e.target.value.trim())} placeholder="YYYY-MM-DD or today" />
+                                </div>
+                            </div>
+                        )}
+                        {supportsRule(editingField.type, 'unique') && (
+                            <div className="flex items-center justify-between">
+                                <Label className="cursor-pointer text-xs font-medium" htmlFor="unique-switch">Unique within the table</Label>
+                                <Switch id="unique-switch" checked={!!editingField.validation?.unique} onCheckedChange={c => setRule('unique', c)} />
+                            </div>
+                        )}
+                        <div className="space-y-1">
+                            <Label className="text-xs">Rule Expression</Label>
+                            <Input
+                                className="h-8 text-sm font-mono"
+                                value={editingField.validation?.expression || ''}
+                                onChange={e => setRule('expression', e.target.value)}
+                                placeholder={editingField.name ? `e.g. ${editingField.name} >= start_date` : 'e.g. end_date >= start_date'}
+                            />
+                            <Input
+                                className="h-8 text-sm"
+                                value={editingField.validation?.expressionMessage || ''}
+                                onChange={e => setRule('expressionMessage', e.target.value)}
+                                placeholder="Message shown when the rule is not met"
+                            />
+                            <p className="text-[10px] text-muted-foreground">
+                                The record is rejected when the expression is false. Use field names, and/or/not, = != &lt; &lt;= &gt; &gt;=, + - * / and {EXPRESSION_FUNCTIONS.map(f => `${f.name}()`).join(', ')}.
+                            </p>
+                        </div>
+                    </div>
+                    {ruleError && <p className="text-xs text-red-500 font-medium">{ruleError}</p>}
                 </div>
             )}
             <DialogFooter>
@@ -494,6 +747,95 @@ export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onCa
         </DialogContent>
       </Dialog>
       
+      {/* Data Migration Dialog */}
+      <Dialog open={!!migration} onOpenChange={open => !open && setMigration(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Migrate Existing Data</DialogTitle>
+            <DialogDescription>
+              {migration?.recordCount
+                ? `${migration.recordCount} record${migration.recordCount === 1 ? '' : 's'} will be updated to the new field definitions.`
+                : 'No records hold values in the changed fields.'}
+            </DialogDescription>
+          </DialogHeader>
+          {migration && (
+            <div className="space-y-4 text-sm">
+              <div className="space-y-1">
+                <Label>Changed Fields</Label>
+                <ul className="border rounded-md divide-y">
+                  {migration.changes.map(({ from, to }) => (
+                    <li key={to.id} className="px-3 py-2 flex flex-wrap gap-x-4 gap-y-1">
+                      <span className="font-medium">{to.label}</span>
+                      {from.name !== to.name && (
+                        <span className="text-muted-foreground">Renamed <span className="font-mono">{from.name}</span> → <span className="font-mono">{to.name}</span></span>
+                      )}
+                      {from.type !== to.type && (
+                        <span className="text-muted-foreground">{typeLabel(from.type)} → {typeLabel(to.type)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {migration.dependents.length > 0 && (
+                <div className="space-y-1">
+                  <Label>References Updated</Label>
+                  <p className="text-muted-foreground">{migration.dependents.join(', ')}</p>
+                </div>
+              )}
+
+              {migration.failures.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-amber-800">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>
+                      {migration.failures.length} value{migration.failures.length === 1 ? '' : 's'} cannot be converted and will be cleared.
+                    </span>
+                  </div>
+                  <div className="border rounded-md max-h-60 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead className="bg-muted/50 sticky top-0">
+                        <tr className="text-left">
+                          <th className="px-3 py-2 font-medium">Record</th>
+                          <th className="px-3 py-2 font-medium">Field</th>
+                          <th className="px-3 py-2 font-medium">Value</th>
+                          <th className="px-3 py-2 font-medium">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {migration.failures.slice(0, 100).map((failure, index) => (
+                          <tr key={index}>
+                            <td className="px-3 py-1.5 font-mono">{failure.recordId}</td>
+                            <td className="px-3 py-1.5">{failure.field}</td>
+                            <td className="px-3 py-1.5 max-w-[160px] truncate" title={String(failure.value)}>{Array.isArray(failure.value) ? failure.value.join(', ') : String(failure.value)}</td>
+                            <td className="px-3 py-1.5 text-muted-foreground">{failure.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {migration.failures.length > 100 && (
+                    <p className="text-xs text-muted-foreground">Showing the first 100 of {migration.failures.length}.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMigration(null)}>{t('common.cancel')}</Button>
+            <Button
+              variant={migration?.failures.length ? 'destructive' : 'default'}
+              onClick={() => {
+                setMigration(null);
+                onSave(localSchema);
+              }}
+            >
+              Save and Migrate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Unsaved Changes Dialog */}
        <Dialog open={showUnsavedDialog} onOpenChange={setShowUnsavedDialog}>
             <DialogContent>
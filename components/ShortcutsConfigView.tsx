@@ -24,8 +24,11 @@ const IconRenderer = ({ name, className }: { name: string, className?: string })
   return <LucideIcon className={className} />;
 };
 
+// Combobox value standing for a data view shortcut without a saved view
+const NO_VIEW = 'none';
+
 export const ShortcutsConfigView: React.FC = () => {
-    const { shortcuts, addShortcut, updateShortcut, deleteShortcut, schemas, dashboards } = useAppStore();
+    const { shortcuts, addShortcut, updateShortcut, deleteShortcut, schemas, dashboards, views, users } = useAppStore();
     const { toast } = useToast();
 
     const [editingShortcut, setEditingShortcut] = useState<Shortcut | null>(null);
@@ -159,17 +162,33 @@ export const ShortcutsConfigView: React.FC = () => {
                             <Combobox 
                                 options={schemas.map(s => ({ value: s.id, label: s.name }))}
                                 value={editingShortcut.config.tableId}
-                                onChange={val => updateConfig('tableId', val)}
+                                onChange={val => setEditingShortcut({ ...editingShortcut, config: { ...editingShortcut.config, tableId: val, viewId: undefined } })}
                             />
                         </div>
                         <div className="space-y-2">
-                            <Label>Default Search Query</Label>
-                            <Input 
-                                value={editingShortcut.config.search || ''} 
-                                onChange={e => updateConfig('search', e.target.value)} 
-                                placeholder="e.g. 'Critical'"
+                            <Label>Saved View</Label>
+                            <Combobox 
+                                options={[
+                                    { value: NO_VIEW, label: 'None (use the search below)' },
+                                    ...views
+                                        .filter(v => v.tableId === editingShortcut.config.tableId)
+                                        .map(v => ({ value: v.id, label: `${v.name} (${users.find(u => u.id === v.userId)?.username || 'unknown user'})` }))
+                                ]}
+                                value={editingShortcut.config.viewId || NO_VIEW}
+                                onChange={val => updateConfig('viewId', val === NO_VIEW ? undefined : val)}
                             />
+                            <p className="text-xs text-muted-foreground">Opens the view's query, spatial filter and sort. Views are saved from the data grid.</p>
                         </div>
+                        {!editingShortcut.config.viewId && (
+                            <div className="space-y-2">
+                                <Label>Default Search Query</Label>
+                                <Input 
+                                    value={editingShortcut.config.search || ''} 
+                                    onChange={e => updateConfig('search', e.target.value)} 
+                                    placeholder="e.g. 'Critical'"
+                                />
+                            </div>
+                        )}
                     </div>
                 );
             case 'dashboard_view':
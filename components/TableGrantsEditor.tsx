@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { useAppStore } from '../store';
+import { FieldAccess, RowFilter, TableAction, TableGrant } from '../types';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select } from './ui/select';
+import { Switch } from './ui/switch';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { CURRENT_USER_TOKEN } from '../services/access';
+
+interface TableGrantsEditorProps {
+  grants?: TableGrant[];
+  onChange: (grants: TableGrant[] | undefined) => void;
+  disabled?: boolean;
+}
+
+const ACTIONS: { value: TableAction; label: string }[] = [
+  { value: 'read', label: 'Read' },
+  { value: 'create', label: 'Create' },
+  { value: 'update', label: 'Update' },
+  { value: 'delete', label: 'Delete' }
+];
+
+const ROW_OPERATORS: { value: RowFilter['operator']; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' }
+];
+
+// Per-table access of a role. Without grants the role reaches every table; once restricted,
+// tables without a checked "Read" are out of reach.
+export const TableGrantsEditor = ({ grants, onChange, disabled }: TableGrantsEditorProps) => {
+  const { schemas } = useAppStore();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const grantOf = (tableId: string): TableGrant => grants?.find(g => g.tableId === tableId) || { tableId, actions: [] };
+
+  // Grants without any action are dropped
+  const updateGrant = (tableId: string, changes: Partial<TableGrant>) => {
+    const next = { ...grantOf(tableId), ...changes };
+    const others = (grants || []).filter(g => g.tableId !== tableId);
+    onChange(next.actions.length > 0 ? [...others, next] : others);
+  };
+
+  const toggleAction = (tableId: string, action: TableAction) => {
+    const actions = grantOf(tableId).actions;
+    if (actions.includes(action)) {
+      // Without read access nothing else applies
+      updateGrant(tableId, { actions: action === 'read' ? [] : actions.filter(a => a !== action) });
+    } else {
+      updateGrant(tableId, { actions: Array.from(new Set<TableAction>([...actions, 'read', action])) });
+    }
+  };
+
+  const setFieldAccess = (tableId: string, field: string, access: FieldAccess | '') => {
+    const { [field]: _, ...rest } = grantOf(tableId).fieldAccess || {};
+    updateGrant(tableId, { fieldAccess: access ? { ...rest, [field]: access } : rest });
+  };
+
+  const setRowFilter = (tableId: string, filter: RowFilter | undefined) => updateGrant(tableId, { rowFilter: filter });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Table Access</Label>
+          <p className="text-xs text-muted-foreground">
+            {grants ? 'Only the tables checked below are reachable.' : 'Every table is reachable, as far as the permissions above allow.'}
+          </p>
+        </div>
+        <Switch checked={!!grants} onCheckedChange={checked => onChange(checked ? [] : undefined)} disabled={disabled} />
+      </div>
+
+      {grants && (
+        <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+          {schemas.map(schema => {
+            const grant = grantOf(schema.id);
+            const isExpanded = expandedId === schema.id;
+            const restrictions = Object.keys(grant.fieldAccess || {}).length + (grant.rowFilter ? 1 : 0);
+            return (
+              <div key={schema.id}>
+                <div className="flex items-center gap-2 p-2 hover:bg-muted/50">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 flex-1 min-w-0 text-left text-sm font-medium disabled:opacity-50"
+                    onClick={() => setExpandedId(isExpanded ? null : schema.id)}
+                    disabled={!grant.actions.includes('read')}
+                  >
+                    {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ background: schema.color }} />
+                    <span className="truncate">{schema.name}</span>
+                    {restrictions > 0 && <span className="text-[10px] text-muted-foreground font-normal">{restrictions} restriction{restrictions > 1 ? 's' : ''}</span>}
+                  </button>
+                  {ACTIONS.map(action => (
+                    <label key={action.value} className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                        checked={grant.actions.includes(action.value)}
+                        onChange={() => toggleAction(schema.id, action.value)}
+                        disabled={disabled}
+                      />
+                      {action.label}
+                    </label>
+                  ))}
+                </div>
+
+                {isExpanded && grant.actions.includes('read') && (
+                  <div className="px-4 pb-3 pt-1 space-y-3 bg-muted/20">
+                    <div className="space-y-1">
+                      <div className="text-[10px] font-bold uppercase text-muted-foreground">Fields</div>
+                      {schema.fields.map(field => (
+                        <div key={field.id} className="grid grid-cols-[1fr_140px] items-center gap-2">
+                          <span className="text-xs truncate">{field.label}</span>
+                          <Select
+                            className="h-7 text-xs py-0"
+                            value={grant.fieldAccess?.[field.name] || ''}
+                            onChange={e => setFieldAccess(schema.id, field.name, e.target.value as FieldAccess | '')}
+                            disabled={disabled}
+                          >
+                            <option value="">Editable</option>
+                            <option value="readonly">Read-only</option>
+                            <option value="hidden">Hidden</option>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-[10px] font-bold uppercase text-muted-foreground">Visible Rows</div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Select
+                          className="h-7 text-xs py-0"
+                          value={grant.rowFilter?.field || ''}
+                          onChange={e => setRowFilter(schema.id, e.target.value
+                            ? { operator: 'equals', value: CURRENT_USER_TOKEN, ...grant.rowFilter, field: e.target.value }
+                            : undefined)}
+                          disabled={disabled}
+                        >
+                          <option value="">All rows</option>
+                          {schema.fields.map(f => <option key={f.id} value={f.name}>{f.label}</option>)}
+                        </Select>
+                        {grant.rowFilter && (
+                          <>
+                            <Select
+                              className="h-7 text-xs py-0"
+                              value={grant.rowFilter.operator}
+                              onChange={e => setRowFilter(schema.id, { ...grant.rowFilter!, operator: e.target.value as RowFilter['operator'] })}
+                              disabled={disabled}
+                            >
+                              {ROW_OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </Select>
+                            <Input
+                              className="h-7 text-xs"
+                              value={grant.rowFilter.value}
+                              onChange={e => setRowFilter(schema.id, { ...grant.rowFilter!, value: e.target.value })}
+                              disabled={disabled}
+                            />
+                          </>
+                        )}
+                      </div>
+                      {grant.rowFilter && (
+                        <p className="text-[10px] text-muted-foreground">{CURRENT_USER_TOKEN} stands for the signed-in username. New records get this value when the operator is "equals".</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {schemas.length === 0 && <div className="p-3 text-xs text-muted-foreground text-center">No tables yet.</div>}
+        </div>
+      )}
+    </div>
+  );
+};
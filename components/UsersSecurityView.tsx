@@ -1,26 +1,30 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useAppStore } from '../store';
-import { User, UserRole } from '../types';
+import { PasswordPolicy, SsoConfig, User, UserRole } from '../types';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Combobox } from './ui/combobox';
+import { Select } from './ui/select';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from './ui/dialog';
 import { useToast } from './ui/use-toast';
 import { PERMISSIONS_LIST } from '../constants';
-import { Users, Shield, Plus, Edit, Trash2, Key, ChevronLeft, ChevronRight, Eye, RefreshCw, Copy } from 'lucide-react';
+import { Users, Shield, Plus, Edit, Trash2, Key, ChevronLeft, ChevronRight, Eye, RefreshCw, Copy, Lock, LockOpen, Save, LogIn, X, Loader2 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { checkPasswordPolicy, describePasswordPolicy, hashSecret } from '../services/auth';
+import { discoverOidcProvider, getRedirectUri } from '../services/oidc';
+import { TableGrantsEditor } from './TableGrantsEditor';
 
 const genId = () => Math.random().toString(36).substr(2, 9);
 
 export const UsersSecurityView: React.FC = () => {
-    const { users, roles, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, hasPermission } = useAppStore();
+    const { users, roles, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, hasPermission, passwordPolicy, updatePasswordPolicy, issueResetCode, ssoConfig, updateSsoConfig } = useAppStore();
     const { toast } = useToast();
-    const [activeTab, setActiveTab] = useState<'users' | 'roles'>('users');
+    const [activeTab, setActiveTab] = useState<'users' | 'roles' | 'policy' | 'sso'>('users');
 
     // Pagination State
     const [userPage, setUserPage] = useState(1);
@@ -32,6 +36,16 @@ export const UsersSecurityView: React.FC = () => {
     const [editingUser, setEditingUser] = useState<Partial<User>>({});
     const [userPassword, setUserPassword] = useState('');
     const [showPasswordFields, setShowPasswordFields] = useState(false);
+    const [issuedCode, setIssuedCode] = useState<{ username: string; code: string } | null>(null);
+
+    // Password Policy State
+    const [policyDraft, setPolicyDraft] = useState<PasswordPolicy>(passwordPolicy);
+    useEffect(() => setPolicyDraft(passwordPolicy), [passwordPolicy]);
+
+    // Single Sign-On State
+    const [ssoDraft, setSsoDraft] = useState<SsoConfig>(ssoConfig);
+    const [isCheckingProvider, setIsCheckingProvider] = useState(false);
+    useEffect(() => setSsoDraft(ssoConfig), [ssoConfig]);
 
     // Role Dialog State
     const [isRoleModalOpen, setIsRoleModalOpen] = useState(false);
@@ -47,6 +61,8 @@ export const UsersSecurityView: React.FC = () => {
         return r?.permissions.includes('sys_admin') || u.username === 'admin';
     };
 
+    const isLocked = (u: User) => !!u.lockedUntil && new Date(u.lockedUntil).getTime() > Date.now();
+
     // --- User Logic ---
     const handleAddUser = () => {
         setEditingUser({ id: '', username: '', email: '', roleId: roles[0]?.id });
@@ -100,7 +116,7 @@ export const UsersSecurityView: React.FC = () => {
         setDeleteType(null);
     };
 
-    const handleSaveUser = () => {
+    const handleSaveUser = async () => {
         if (!editingUser.username || !editingUser.email || !editingUser.roleId) {
             toast({ title: "Validation Error", description: "Username, Email, and Role are required.", variant: "destructive" });
             return;
@@ -128,10 +144,25 @@ export const UsersSecurityView: React.FC = () => {
             }
         }
 
-        const userData = { ...editingUser } as User;
-        // Only update password if provided
         if (userPassword) {
-            userData.password = userPassword;
+            const missing = checkPasswordPolicy(userPassword, passwordPolicy);
+            if (missing.length > 0) {
+                toast({ title: "Weak Password", description: `Password needs ${missing.join(', ')}.`, variant: "destructive" });
+                return;
+            }
+        }
+
+        // Edits apply to the latest saved user, which may have changed meanwhile (lockouts, reset codes)
+        const original = users.find(u => u.id === editingUser.id);
+        const userData = (original
+            ? { ...original, username: editingUser.username, email: editingUser.email, roleId: editingUser.roleId }
+            : { ...editingUser }) as User;
+        // Only update password if provided; a new password also lifts a lockout, and updateUser ends
+        // the sessions signed in with the old one
+        if (userPassword) {
+            userData.passwordHash = await hashSecret(userPassword);
+            userData.failedLoginAttempts = 0;
+            userData.lockedUntil = undefined;
         }
 
         if (userData.id) {
@@ -146,10 +177,71 @@ export const UsersSecurityView: React.FC = () => {
         setIsUserModalOpen(false);
     };
 
-    const handleGenerateResetLink = () => {
-        const link = `https://geonexus.app/reset-password?token=${genId()}`;
-        navigator.clipboard.writeText(link);
-        toast({ title: "Link Copied", description: "Password reset link copied to clipboard.", variant: "success" });
+    // The code is shown once; the user enters it under "Forgot password?" on the sign-in page
+    const handleIssueResetCode = async () => {
+        if (!editingUser.id) return;
+        try {
+            const code = await issueResetCode(editingUser.id);
+            setIssuedCode({ username: editingUser.username || '', code });
+        } catch (e: any) {
+            toast({ title: "Error", description: e?.message || String(e), variant: "destructive" });
+        }
+    };
+
+    const handleCopyCode = () => {
+        if (!issuedCode) return;
+        navigator.clipboard.writeText(issuedCode.code);
+        toast({ title: "Code Copied", description: "Reset code copied to clipboard.", variant: "success" });
+    };
+
+    const handleUnlockUser = (user: User) => {
+        updateUser({ ...user, failedLoginAttempts: 0, lockedUntil: undefined });
+        toast({ title: "User Unlocked", description: `${user.username} can sign in again.`, variant: "success" });
+    };
+
+    // --- Policy Logic ---
+    const handleSavePolicy = () => {
+        if (policyDraft.minLength < 1 || policyDraft.sessionHours <= 0 || policyDraft.rememberDays <= 0 || policyDraft.resetCodeHours <= 0 || policyDraft.lockoutMinutes < 0 || policyDraft.maxFailedAttempts < 0) {
+            toast({ title: "Validation Error", description: "Lengths and durations must be positive numbers.", variant: "destructive" });
+            return;
+        }
+        updatePasswordPolicy(policyDraft);
+        toast({ title: "Policy Saved", variant: "success" });
+    };
+
+    const updatePolicyNumber = (key: keyof PasswordPolicy, value: string) => {
+        setPolicyDraft(prev => ({ ...prev, [key]: Number(value) }));
+    };
+
+    // --- Single Sign-On Logic ---
+    const handleSaveSso = () => {
+        if (ssoDraft.enabled && (!ssoDraft.issuer.trim() || !ssoDraft.clientId.trim())) {
+            toast({ title: "Validation Error", description: "Issuer URL and Client ID are required to enable single sign-on.", variant: "destructive" });
+            return;
+        }
+        updateSsoConfig({
+            ...ssoDraft,
+            issuer: ssoDraft.issuer.trim(),
+            clientId: ssoDraft.clientId.trim(),
+            redirectUri: ssoDraft.redirectUri?.trim() || undefined,
+            roleMappings: ssoDraft.roleMappings.filter(m => m.claimValue.trim() && m.roleId)
+        });
+        toast({ title: "Single Sign-On Saved", variant: "success" });
+    };
+
+    const handleCheckProvider = async () => {
+        setIsCheckingProvider(true);
+        try {
+            const discovery = await discoverOidcProvider(ssoDraft.issuer.trim());
+            toast({ title: "Provider Reachable", description: `Sign-in page: ${discovery.authorization_endpoint}`, variant: "success" });
+        } catch (e: any) {
+            toast({ title: "Provider Check Failed", description: e?.message || String(e), variant: "destructive" });
+        }
+        setIsCheckingProvider(false);
+    };
+
+    const updateMapping = (index: number, changes: Partial<SsoConfig['roleMappings'][number]>) => {
+        setSsoDraft(prev => ({ ...prev, roleMappings: prev.roleMappings.map((m, i) => i === index ? { ...m, ...changes } : m) }));
     };
 
     // --- Role Logic ---
@@ -213,6 +305,18 @@ export const UsersSecurityView: React.FC = () => {
                     >
                         Roles
                     </button>
+                    <button
+                        onClick={() => setActiveTab('policy')}
+                        className={cn("px-3 py-1.5 text-sm font-medium rounded-sm transition-all", activeTab === 'policy' ? "bg-background shadow text-foreground" : "text-muted-foreground hover:text-foreground")}
+                    >
+                        Password Policy
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('sso')}
+                        className={cn("px-3 py-1.5 text-sm font-medium rounded-sm transition-all", activeTab === 'sso' ? "bg-background shadow text-foreground" : "text-muted-foreground hover:text-foreground")}
+                    >
+                        Single Sign-On
+                    </button>
                 </div>
             </div>
 
@@ -243,6 +347,14 @@ export const UsersSecurityView: React.FC = () => {
                                                         {user.username.substring(0,2)}
                                                     </div>
                                                     {user.username}
+                                                    {user.authProvider === 'oidc' && (
+                                                        <span className="text-[10px] uppercase font-bold text-primary bg-primary/10 px-1.5 py-0.5 rounded" title="Signs in with single sign-on">SSO</span>
+                                                    )}
+                                                    {isLocked(user) && (
+                                                        <span className="inline-flex items-center gap-1 text-[10px] uppercase font-bold text-red-700 bg-red-100 px-1.5 py-0.5 rounded" title={`Locked until ${new Date(user.lockedUntil!).toLocaleString()}`}>
+                                                            <Lock className="w-3 h-3" /> Locked
+                                                        </span>
+                                                    )}
                                                 </TableCell>
                                                 <TableCell>{user.email}</TableCell>
                                                 <TableCell>
@@ -252,6 +364,11 @@ export const UsersSecurityView: React.FC = () => {
                                                 </TableCell>
                                                 <TableCell className="text-right">
                                                     <div className="flex justify-end gap-2">
+                                                        {isLocked(user) && (
+                                                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleUnlockUser(user)} title="Unlock">
+                                                                <LockOpen className="w-4 h-4" />
+                                                            </Button>
+                                                        )}
                                                         <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditUser(user)}>
                                                             <Edit className="w-4 h-4" />
                                                         </Button>
@@ -306,6 +423,11 @@ export const UsersSecurityView: React.FC = () => {
                                                 <span className="text-xs bg-blue-50 text-blue-700 px-2 py-1 rounded-full font-medium">
                                                     {role.permissions.length} access rules
                                                 </span>
+                                                {role.tableGrants && !role.permissions.includes('sys_admin') && (
+                                                    <span className="ml-1 text-xs bg-amber-50 text-amber-700 px-2 py-1 rounded-full font-medium">
+                                                        {role.tableGrants.length} table{role.tableGrants.length === 1 ? '' : 's'}
+                                                    </span>
+                                                )}
                                             </TableCell>
                                             <TableCell className="text-right">
                                                 <div className="flex justify-end gap-2">
@@ -341,6 +463,156 @@ export const UsersSecurityView: React.FC = () => {
                 </div>
             )}
 
+            {/* PASSWORD POLICY TAB */}
+            {activeTab === 'policy' && (
+                <div className="space-y-4 animate-in fade-in slide-in-from-right-2">
+                    <Card>
+                        <CardHeader><CardTitle className="text-base">Password Requirements</CardTitle></CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2 max-w-xs">
+                                <Label>Minimum Length</Label>
+                                <Input type="number" min={1} value={policyDraft.minLength} onChange={e => updatePolicyNumber('minLength', e.target.value)} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                {([
+                                    ['requireUppercase', 'Uppercase letter'],
+                                    ['requireLowercase', 'Lowercase letter'],
+                                    ['requireNumber', 'Number'],
+                                    ['requireSymbol', 'Symbol']
+                                ] as [keyof PasswordPolicy, string][]).map(([key, label]) => (
+                                    <div key={key} className="flex items-center justify-between border rounded-md p-3">
+                                        <Label className="font-normal">{label}</Label>
+                                        <Switch checked={!!policyDraft[key]} onCheckedChange={checked => setPolicyDraft(prev => ({ ...prev, [key]: checked }))} />
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">{describePasswordPolicy(policyDraft)} Existing passwords are checked at their next change.</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader><CardTitle className="text-base">Sign-in &amp; Sessions</CardTitle></CardHeader>
+                        <CardContent className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Failed Attempts Before Lockout</Label>
+                                <Input type="number" min={0} value={policyDraft.maxFailedAttempts} onChange={e => updatePolicyNumber('maxFailedAttempts', e.target.value)} />
+                                <p className="text-xs text-muted-foreground">0 never locks accounts.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Lockout Duration (minutes)</Label>
+                                <Input type="number" min={0} value={policyDraft.lockoutMinutes} onChange={e => updatePolicyNumber('lockoutMinutes', e.target.value)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Session Length (hours)</Label>
+                                <Input type="number" min={1} value={policyDraft.sessionHours} onChange={e => updatePolicyNumber('sessionHours', e.target.value)} />
+                                <p className="text-xs text-muted-foreground">Without "Remember me"; the session also ends when the browser tab closes.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>"Remember me" Duration (days)</Label>
+                                <Input type="number" min={1} value={policyDraft.rememberDays} onChange={e => updatePolicyNumber('rememberDays', e.target.value)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Reset Code Validity (hours)</Label>
+                                <Input type="number" min={1} value={policyDraft.resetCodeHours} onChange={e => updatePolicyNumber('resetCodeHours', e.target.value)} />
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <div className="flex justify-end">
+                        <Button onClick={handleSavePolicy}><Save className="w-4 h-4 mr-2" /> Save Policy</Button>
+                    </div>
+                </div>
+            )}
+
+            {/* SINGLE SIGN-ON TAB */}
+            {activeTab === 'sso' && (
+                <div className="space-y-4 animate-in fade-in slide-in-from-right-2">
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                            <CardTitle className="text-base">OpenID Connect Provider</CardTitle>
+                            <div className="flex items-center gap-2">
+                                <Label className="font-normal">Enabled</Label>
+                                <Switch checked={ssoDraft.enabled} onCheckedChange={enabled => setSsoDraft(prev => ({ ...prev, enabled }))} />
+                            </div>
+                        </CardHeader>
+                        <CardContent className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Issuer URL</Label>
+                                <Input placeholder="https://login.example.com/realms/gis" value={ssoDraft.issuer} onChange={e => setSsoDraft(prev => ({ ...prev, issuer: e.target.value }))} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Client ID</Label>
+                                <Input value={ssoDraft.clientId} onChange={e => setSsoDraft(prev => ({ ...prev, clientId: e.target.value }))} />
+                                <p className="text-xs text-muted-foreground">Register a public client (no secret) using PKCE.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Button Label</Label>
+                                <Input value={ssoDraft.providerName} onChange={e => setSsoDraft(prev => ({ ...prev, providerName: e.target.value }))} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Scopes</Label>
+                                <Input value={ssoDraft.scopes} onChange={e => setSsoDraft(prev => ({ ...prev, scopes: e.target.value }))} />
+                            </div>
+                            <div className="space-y-2 col-span-2">
+                                <Label>Redirect URI</Label>
+                                <Input placeholder={getRedirectUri({ ...ssoDraft, redirectUri: undefined })} value={ssoDraft.redirectUri || ''} onChange={e => setSsoDraft(prev => ({ ...prev, redirectUri: e.target.value }))} />
+                                <p className="text-xs text-muted-foreground">Must be registered with the provider. Leave empty to use the address of this app.</p>
+                            </div>
+                            <div className="col-span-2">
+                                <Button variant="outline" size="sm" onClick={handleCheckProvider} disabled={!ssoDraft.issuer.trim() || isCheckingProvider}>
+                                    {isCheckingProvider ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />} Check Provider
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader><CardTitle className="text-base">Accounts &amp; Roles</CardTitle></CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Username Claim</Label>
+                                    <Input value={ssoDraft.usernameClaim} onChange={e => setSsoDraft(prev => ({ ...prev, usernameClaim: e.target.value }))} />
+                                    <p className="text-xs text-muted-foreground">Names accounts created at their first sign-in.</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Groups / Roles Claim</Label>
+                                    <Input value={ssoDraft.rolesClaim} onChange={e => setSsoDraft(prev => ({ ...prev, rolesClaim: e.target.value }))} />
+                                    <p className="text-xs text-muted-foreground">Dotted paths reach nested claims, e.g. realm_access.roles.</p>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Role Mappings</Label>
+                                {ssoDraft.roleMappings.map((mapping, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <Input className="flex-1" placeholder="Claim value, e.g. gis-editors" value={mapping.claimValue} onChange={e => updateMapping(index, { claimValue: e.target.value })} />
+                                        <div className="flex-1">
+                                            <Select value={mapping.roleId} onChange={e => updateMapping(index, { roleId: e.target.value })}>
+                                                {roles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                                            </Select>
+                                        </div>
+                                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setSsoDraft(prev => ({ ...prev, roleMappings: prev.roleMappings.filter((_, i) => i !== index) }))}>
+                                            <X className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button variant="outline" size="sm" onClick={() => setSsoDraft(prev => ({ ...prev, roleMappings: [...prev.roleMappings, { claimValue: '', roleId: roles[0]?.id || '' }] }))}>
+                                    <Plus className="w-4 h-4 mr-2" /> Add Mapping
+                                </Button>
+                                <p className="text-xs text-muted-foreground">The first mapping whose value the claim contains sets the role, at every sign-in.</p>
+                            </div>
+                            <div className="space-y-2 max-w-xs">
+                                <Label>Role Without a Mapping</Label>
+                                <Select value={ssoDraft.defaultRoleId || ''} onChange={e => setSsoDraft(prev => ({ ...prev, defaultRoleId: e.target.value }))}>
+                                    <option value="">No access</option>
+                                    {roles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                                </Select>
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <div className="flex justify-end">
+                        <Button onClick={handleSaveSso}><Save className="w-4 h-4 mr-2" /> Save Single Sign-On</Button>
+                    </div>
+                </div>
+            )}
+
             {/* USER DIALOG */}
             <Dialog open={isUserModalOpen} onOpenChange={setIsUserModalOpen}>
                 <DialogContent>
@@ -365,6 +637,11 @@ export const UsersSecurityView: React.FC = () => {
                             />
                         </div>
                         
+                        {editingUser.authProvider === 'oidc' ? (
+                        <div className="border-t pt-4 text-xs text-muted-foreground">
+                            Signs in with single sign-on; the password is managed by the identity provider. Role mappings replace the role at the next sign-in.
+                        </div>
+                        ) : (
                         <div className="border-t pt-4">
                             <div className="flex items-center justify-between mb-2">
                                 <Label className="flex items-center gap-2"><Key className="w-4 h-4" /> Password Management</Label>
@@ -381,9 +658,10 @@ export const UsersSecurityView: React.FC = () => {
                                         value={userPassword} 
                                         onChange={e => setUserPassword(e.target.value)} 
                                     />
+                                    <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>
                                     {editingUser.id && (
-                                        <Button type="button" variant="outline" size="sm" className="w-full text-xs" onClick={handleGenerateResetLink}>
-                                            <RefreshCw className="w-3 h-3 mr-2" /> Generate Reset Link
+                                        <Button type="button" variant="outline" size="sm" className="w-full text-xs" onClick={handleIssueResetCode}>
+                                            <RefreshCw className="w-3 h-3 mr-2" /> Issue One-Time Reset Code
                                         </Button>
                                     )}
                                 </div>
@@ -391,6 +669,7 @@ export const UsersSecurityView: React.FC = () => {
                                 editingUser.id && <p className="text-xs text-muted-foreground">Toggle switch to change password.</p>
                             )}
                         </div>
+                        )}
                     </div>
                     <DialogFooter>
                         <Button variant="outline" onClick={() => setIsUserModalOpen(false)}>Cancel</Button>
@@ -399,9 +678,30 @@ export const UsersSecurityView: React.FC = () => {
                 </DialogContent>
             </Dialog>
 
+            {/* RESET CODE DIALOG */}
+            <Dialog open={!!issuedCode} onOpenChange={(open) => !open && setIssuedCode(null)}>
+                <DialogContent className="max-w-sm">
+                    <DialogHeader>
+                        <DialogTitle>Reset Code for {issuedCode?.username}</DialogTitle>
+                        <DialogDescription>
+                            Give this code to the user through a trusted channel. They enter it under "Forgot password?" on the sign-in page. It works once, expires after {passwordPolicy.resetCodeHours} hours and will not be shown again.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="flex items-center justify-center gap-2 py-4">
+                        <span className="font-mono text-2xl font-bold tracking-widest">{issuedCode?.code}</span>
+                        <Button variant="ghost" size="icon" onClick={handleCopyCode} title="Copy">
+                            <Copy className="w-4 h-4" />
+                        </Button>
+                    </div>
+                    <DialogFooter>
+                        <Button onClick={() => setIssuedCode(null)}>Done</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             {/* ROLE DIALOG */}
             <Dialog open={isRoleModalOpen} onOpenChange={setIsRoleModalOpen}>
-                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle>{editingRole.isSystem ? 'Role Details (System)' : (editingRole.id ? 'Edit Role' : 'New Role')}</DialogTitle>
                         {editingRole.isSystem && <DialogDescription>System roles cannot be modified.</DialogDescription>}
@@ -446,6 +746,15 @@ export const UsersSecurityView: React.FC = () => {
                                 })}
                             </div>
                         </div>
+                        {editingRole.permissions?.includes('sys_admin') ? (
+                            <p className="text-xs text-muted-foreground">System administrators can reach every table, so table access does not apply to this role.</p>
+                        ) : (
+                            <TableGrantsEditor
+                                grants={editingRole.tableGrants}
+                                onChange={tableGrants => setEditingRole({ ...editingRole, tableGrants })}
+                                disabled={editingRole.isSystem}
+                            />
+                        )}
                     </div>
                     <DialogFooter>
                         <Button variant="outline" onClick={() => setIsRoleModalOpen(false)}>Close</Button>
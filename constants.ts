@@ -1,15 +1,59 @@
-import { TableSchema, UserRole, User, Permission, AppPreferences, DataRecord, Shortcut, DashboardSchema, CalendarSchema, TileLayerConfig, MapConfig } from './types';
+import { TableSchema, UserRole, User, Permission, AppPreferences, DataRecord, Shortcut, DashboardSchema, CalendarSchema, TileLayerConfig, MapConfig, StorageConfig, AuditAction, AuditTargetType, PasswordPolicy, SsoConfig, QueryOperator, SpatialFilterType } from './types';
 
 export const DEFAULT_MAP_CENTER: [number, number] = [48.8566, 2.3522]; // Paris
 export const DEFAULT_ZOOM = 13;
 
 export const FIELD_TYPES = [
   { value: 'text', label: 'Text' },
+  { value: 'richtext', label: 'Rich Text' },
   { value: 'number', label: 'Number' },
   { value: 'date', label: 'Date' },
   { value: 'datetime', label: 'Date & Time' },
   { value: 'boolean', label: 'Checkbox' },
   { value: 'select', label: 'List' }, // Changed from Dropdown to List
+  { value: 'multiselect', label: 'Multiple Choice' },
+  { value: 'url', label: 'Web Address' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'color', label: 'Color' },
+  { value: 'relation', label: 'Relation' },
+  { value: 'attachment', label: 'Attachments' },
+];
+
+// What a relation field does when the record it links to is deleted
+export const RELATION_DELETE_ACTIONS = [
+  { value: 'restrict', label: 'Prevent the deletion' },
+  { value: 'clear', label: 'Remove the link' },
+  { value: 'cascade', label: 'Delete this record too' },
+];
+
+// Labels of the query builder operators; which ones a field offers depends on its type
+export const QUERY_OPERATORS: { value: QueryOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'starts_with', label: 'starts with' },
+  { value: 'regex', label: 'matches pattern' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'gte', label: 'at least' },
+  { value: 'lt', label: 'less than' },
+  { value: 'lte', label: 'at most' },
+  { value: 'between', label: 'between' },
+  { value: 'before', label: 'before' },
+  { value: 'after', label: 'after' },
+  { value: 'in', label: 'is any of' },
+  { value: 'not_in', label: 'is none of' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+  { value: 'is_true', label: 'is checked' },
+  { value: 'is_false', label: 'is not checked' },
+];
+
+export const SPATIAL_FILTER_TYPES: { value: SpatialFilterType; label: string }[] = [
+  { value: 'extent', label: 'Within the current map extent' },
+  { value: 'polygon', label: 'Within a drawn polygon' },
+  { value: 'distance', label: 'Within a distance of a feature' },
 ];
 
 export const GEO_TYPES = [
@@ -382,12 +426,12 @@ export const INITIAL_RECORDS: DataRecord[] = [
     tableId: '4',
     geometry: { 
       type: 'Polygon', 
-      coordinates: [
+      coordinates: [[
         [48.8630, 2.3260],
         [48.8650, 2.3280],
         [48.8640, 2.3340],
         [48.8615, 2.3320]
-      ] 
+      ]]
     },
     data: { name: 'Tuileries Garden', maintenance: 'Friday' },
     createdAt: new Date().toISOString(),
@@ -398,12 +442,12 @@ export const INITIAL_RECORDS: DataRecord[] = [
     tableId: '4',
     geometry: { 
       type: 'Polygon', 
-      coordinates: [
+      coordinates: [[
         [48.8460, 2.3370],
         [48.8480, 2.3372],
         [48.8482, 2.3420],
         [48.8455, 2.3415]
-      ] 
+      ]]
     },
     data: { name: 'Luxembourg Gardens', maintenance: 'Wednesday' },
     createdAt: new Date().toISOString(),
@@ -477,6 +521,81 @@ export const LANGUAGES = [
   { value: 'de', label: 'Deutsch' }
 ];
 
+export const STORAGE_BACKENDS = [
+  { value: 'local', label: 'Browser (localStorage)' },
+  { value: 'indexeddb', label: 'Browser (IndexedDB)' },
+  { value: 'rest', label: 'Shared JSON Server (REST)' }
+];
+
+export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
+  backend: 'local',
+  restUrl: 'http://localhost:3001/api'
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  maxFailedAttempts: 5,
+  lockoutMinutes: 15,
+  sessionHours: 8,
+  rememberDays: 30,
+  resetCodeHours: 24
+};
+
+export const DEFAULT_SSO_CONFIG: SsoConfig = {
+  enabled: false,
+  providerName: 'Single Sign-On',
+  issuer: '',
+  clientId: '',
+  scopes: 'openid profile email',
+  usernameClaim: 'preferred_username',
+  rolesClaim: 'groups',
+  roleMappings: [],
+  defaultRoleId: ''
+};
+
+// Deleted records and tables stay restorable this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'create', label: 'Create' },
+  { value: 'update', label: 'Update' },
+  { value: 'delete', label: 'Delete' },
+  { value: 'restore', label: 'Restore' },
+  { value: 'purge', label: 'Purge' },
+  { value: 'import', label: 'Import' },
+  { value: 'export', label: 'Export' },
+  { value: 'execute', label: 'Run Shortcut' },
+  { value: 'login', label: 'Login' },
+  { value: 'logout', label: 'Logout' }
+];
+
+export const AUDIT_TARGET_TYPES: { value: AuditTargetType; label: string }[] = [
+  { value: 'record', label: 'Record' },
+  { value: 'schema', label: 'Table' },
+  { value: 'user', label: 'User' },
+  { value: 'role', label: 'Role' },
+  { value: 'shortcut', label: 'Shortcut' },
+  { value: 'dashboard', label: 'Dashboard' },
+  { value: 'calendar', label: 'Calendar' },
+  { value: 'view', label: 'Saved View' },
+  { value: 'map_config', label: 'Map Configuration' },
+  { value: 'session', label: 'Session' },
+  { value: 'database', label: 'Database' },
+  { value: 'security_policy', label: 'Security Policy' },
+  { value: 'sso_config', label: 'SSO Configuration' }
+];
+
+// Travel speeds (km/h) of the map route tool
+export const ROUTE_PROFILES = [
+  { value: 'walk', label: 'Walk', speed: 5 },
+  { value: 'bike', label: 'Bike', speed: 15 },
+  { value: 'car', label: 'Car', speed: 50 }
+];
+
 export const DEFAULT_TILE_LAYERS: TileLayerConfig[] = [
   {
     id: 'carto_voyager',
@@ -645,6 +764,7 @@ export const TRANSLATIONS: Record<string, Record<string, string>> = {
     'data.export_json': 'Export JSON',
     'data.export_geojson': 'Export GeoJSON',
     'data.export_png': 'Screenshot',
+    'data.import': 'Import',
     'data.add': 'Add New',
     'data.add_map': 'Add on Map',
     'data.add_data': 'Add Record',
@@ -660,7 +780,7 @@ export const TRANSLATIONS: Record<string, Record<string, string>> = {
     'data.edit_desc': 'Modify existing data.',
     'data.save': 'Save Changes',
     'data.delete_title': 'Delete Record',
-    'data.delete_desc': 'Are you sure? This action cannot be undone.',
+    'data.delete_desc': 'The record will be moved to the trash, where an administrator can restore it.',
     'data.select': 'Select a table to view data.',
     'data.record_deleted': 'Record deleted successfully',
     'data.map_activated': 'Map Mode Activated',
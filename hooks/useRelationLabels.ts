@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useAppStore } from '../store';
+import { recordLabel, relationIds } from '../services/relations';
+
+// Formats relation values as the labels of the linked records, loading the given target tables.
+// Records the user cannot see, or not loaded yet, show as their id.
+export const useRelationLabels = (tableIds: string[]) => {
+  const { records, visibleSchemas, loadTables } = useAppStore();
+  const key = tableIds.join(',');
+
+  useEffect(() => {
+    if (tableIds.length > 0) loadTables(tableIds);
+  }, [key, loadTables]);
+
+  const labels = useMemo(() => {
+    const targets = new Set(tableIds);
+    const map = new Map<string, string>();
+    records.forEach(r => {
+      if (targets.has(r.tableId)) map.set(r.id, recordLabel(visibleSchemas.find(s => s.id === r.tableId), r));
+    });
+    return map;
+  }, [records, visibleSchemas, key]);
+
+  return useCallback((value: any) => relationIds(value).map(id => labels.get(id) || id).join(', '), [labels]);
+};
@@ -0,0 +1,86 @@
+import { LatLng } from "./geometry";
+
+// --- EXIF GPS reader ---
+// Reads the GPS position a camera or phone wrote into a JPEG, as [lat, lng].
+// Only the tags needed for that are decoded; anything unexpected yields null.
+
+const JPEG_START = 0xffd8;
+const APP1 = 0xffe1;
+const START_OF_SCAN = 0xffda;
+const GPS_IFD_TAG = 0x8825;
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Where the value starts: inline for values of 4 bytes or less
+}
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    // RATIONAL values are 8 bytes each; ASCII, BYTE and the others used here fit inline
+    const size = type === 5 ? 8 * valueCount : valueCount;
+    entries.set(view.getUint16(entry, little), {
+      type,
+      count: valueCount,
+      valueOffset: size > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8
+    });
+  }
+  return entries;
+};
+
+// Degrees, minutes and seconds as three rationals
+const readCoordinate = (view: DataView, entry: IfdEntry | undefined, little: boolean) => {
+  if (!entry || entry.type !== 5 || entry.count < 3 || entry.valueOffset + 24 > view.byteLength) return null;
+  const [degrees, minutes, seconds] = [0, 1, 2].map(i => {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, little);
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, little);
+    return denominator ? numerator / denominator : 0;
+  });
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+const readRef = (view: DataView, entry: IfdEntry | undefined) =>
+  entry && entry.valueOffset < view.byteLength ? String.fromCharCode(view.getUint8(entry.valueOffset)) : '';
+
+export const readExifLocation = (buffer: ArrayBuffer): LatLng | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_START) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === START_OF_SCAN || (marker & 0xff00) !== 0xff00) return null;
+    // APP1 starting with "Exif\0\0", followed by a TIFF header
+    if (marker === APP1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const gpsPointer = ifd0.get(GPS_IFD_TAG);
+      if (!gpsPointer) return null;
+      const gps = readIfd(view, tiff, view.getUint32(gpsPointer.valueOffset, little), little);
+      const lat = readCoordinate(view, gps.get(GPS_LATITUDE), little);
+      const lng = readCoordinate(view, gps.get(GPS_LONGITUDE), little);
+      if (lat === null || lng === null || (lat === 0 && lng === 0)) return null;
+      return [
+        readRef(view, gps.get(GPS_LATITUDE_REF)) === 'S' ? -lat : lat,
+        readRef(view, gps.get(GPS_LONGITUDE_REF)) === 'W' ? -lng : lng
+      ];
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
@@ -0,0 +1,222 @@
+import { FeatureGeometry } from "../types";
+
+export type LatLng = [number, number];
+export type Ring = LatLng[];
+export type SimpleGeometryType = 'Point' | 'LineString' | 'Polygon';
+
+// Geometry coordinates nest like GeoJSON, in [lat, lng] order and with open rings:
+//   Point: LatLng                 MultiPoint: LatLng[]
+//   LineString: LatLng[]          MultiLineString: LatLng[][]
+//   Polygon: Ring[] (outer first, then holes)
+//   MultiPolygon: Ring[][]
+// Polygons saved before holes were supported hold a single Ring; the helpers below accept both.
+
+const isPosition = (value: any): value is LatLng => Array.isArray(value) && typeof value[0] === 'number';
+
+const toRings = (coordinates: any): Ring[] => isPosition(coordinates?.[0]) ? [coordinates] : coordinates || [];
+
+export function getSimpleType(type: FeatureGeometry['type']): SimpleGeometryType {
+  return type.replace('Multi', '') as SimpleGeometryType;
+}
+
+export function isMultiGeometry(geometry: FeatureGeometry) {
+  return geometry.type.startsWith('Multi');
+}
+
+// Rewrites legacy single-ring polygons in the nested form
+export function normalizeGeometry(geometry: FeatureGeometry): FeatureGeometry {
+  return geometry.type === 'Polygon' ? { ...geometry, coordinates: toRings(geometry.coordinates) } : geometry;
+}
+
+export function getPoints(geometry: FeatureGeometry): LatLng[] {
+  if (geometry.type === 'Point') return [geometry.coordinates];
+  if (geometry.type === 'MultiPoint') return geometry.coordinates;
+  return [];
+}
+
+export function getLines(geometry: FeatureGeometry): LatLng[][] {
+  if (geometry.type === 'LineString') return [geometry.coordinates];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates;
+  return [];
+}
+
+// Each polygon as its rings
+export function getPolygons(geometry: FeatureGeometry): Ring[][] {
+  if (geometry.type === 'Polygon') return [toRings(geometry.coordinates)];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates.map(toRings);
+  return [];
+}
+
+// Every vertex with its index path into the (normalized) coordinates
+export function getVertices(geometry: FeatureGeometry): { path: number[]; position: LatLng }[] {
+  const vertices: { path: number[]; position: LatLng }[] = [];
+  const walk = (coords: any, path: number[]) => {
+    if (isPosition(coords)) {
+      vertices.push({ path, position: coords });
+    } else if (Array.isArray(coords)) {
+      coords.forEach((c, i) => walk(c, [...path, i]));
+    }
+  };
+  walk(normalizeGeometry(geometry).coordinates, []);
+  return vertices;
+}
+
+export function mapPositions(geometry: FeatureGeometry, fn: (position: LatLng) => LatLng): FeatureGeometry {
+  const map = (coords: any): any => isPosition(coords) ? fn(coords) : coords.map(map);
+  return { ...geometry, coordinates: map(normalizeGeometry(geometry).coordinates) };
+}
+
+export function moveVertex(geometry: FeatureGeometry, path: number[], position: LatLng): FeatureGeometry {
+  const set = (coords: any, depth: number): any =>
+    depth === path.length ? position : coords.map((c: any, i: number) => i === path[depth] ? set(c, depth + 1) : c);
+  return { ...geometry, coordinates: set(normalizeGeometry(geometry).coordinates, 0) };
+}
+
+export function translateGeometry(geometry: FeatureGeometry, latDiff: number, lngDiff: number): FeatureGeometry {
+  return mapPositions(geometry, ([lat, lng]) => [lat + latDiff, lng + lngDiff]);
+}
+
+// [[south, west], [north, east]]
+export function getGeometryBounds(geometry: FeatureGeometry): [LatLng, LatLng] | null {
+  const positions = getVertices(geometry).map(v => v.position);
+  if (positions.length === 0) return null;
+  const lats = positions.map(p => p[0]);
+  const lngs = positions.map(p => p[1]);
+  return [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]];
+}
+
+export function getGeometryCenter(geometry: FeatureGeometry): LatLng | null {
+  if (geometry.type === 'Point') return geometry.coordinates;
+  const bounds = getGeometryBounds(geometry);
+  return bounds ? [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2] : null;
+}
+
+// --- Measurement ---
+
+const EARTH_RADIUS = 6371008.8;
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+export function haversineDistance([lat1, lng1]: LatLng, [lat2, lng2]: LatLng) {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+const pathLength = (path: LatLng[], closed: boolean) =>
+  path.reduce((sum, p, i) => i + 1 < path.length ? sum + haversineDistance(p, path[i + 1]) : closed && path.length > 2 ? sum + haversineDistance(p, path[0]) : sum, 0);
+
+// Spherical excess of a ring, in m²
+const ringArea = (ring: Ring) => {
+  if (ring.length < 3) return 0;
+  let area = 0;
+  ring.forEach(([lat1, lng1], i) => {
+    const [lat2, lng2] = ring[(i + 1) % ring.length];
+    area += toRad(lng2 - lng1) * (2 + Math.sin(toRad(lat1)) + Math.sin(toRad(lat2)));
+  });
+  return Math.abs(area * EARTH_RADIUS * EARTH_RADIUS / 2);
+};
+
+// Polygons minus their holes, in m²; 0 for points and lines
+export function geometryArea(geometry: FeatureGeometry) {
+  return getPolygons(geometry).reduce((sum, [outer, ...holes]) =>
+    sum + (outer ? ringArea(outer) : 0) - holes.reduce((h, hole) => h + ringArea(hole), 0), 0);
+}
+
+// Length of the lines plus the perimeter of the polygons (holes included), in meters
+export function geometryLength(geometry: FeatureGeometry) {
+  return getLines(geometry).reduce((sum, line) => sum + pathLength(line, false), 0)
+    + getPolygons(geometry).flat().reduce((sum, ring) => sum + pathLength(ring, true), 0);
+}
+
+// --- Spatial predicates ---
+
+const pointInRing = ([lat, lng]: LatLng, ring: Ring) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lngI] = ring[i];
+    const [latJ, lngJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Inside the outer ring and outside every hole
+export function pointInPolygon(point: LatLng, rings: Ring[]) {
+  return rings.length > 0 && pointInRing(point, rings[0]) && !rings.slice(1).some(hole => pointInRing(point, hole));
+}
+
+const segmentsCross = (a: LatLng, b: LatLng, c: LatLng, d: LatLng) => {
+  const orient = (p: LatLng, q: LatLng, r: LatLng) => Math.sign((q[1] - p[1]) * (r[0] - p[0]) - (q[0] - p[0]) * (r[1] - p[1]));
+  return orient(a, b, c) !== orient(a, b, d) && orient(c, d, a) !== orient(c, d, b);
+};
+
+// True when the geometry touches the box [[south, west], [north, east]]
+export function intersectsBounds(geometry: FeatureGeometry, [[south, west], [north, east]]: [LatLng, LatLng]) {
+  const inBox = ([lat, lng]: LatLng) => lat >= south && lat <= north && lng >= west && lng <= east;
+  if (getVertices(geometry).some(v => inBox(v.position))) return true;
+
+  const box: Ring = [[south, west], [south, east], [north, east], [north, west]];
+  const boxEdges = box.map((p, i) => [p, box[(i + 1) % box.length]] as const);
+  const crossesBox = (path: LatLng[], closed: boolean) => path.some((p, i) => {
+    const next = i + 1 < path.length ? path[i + 1] : closed ? path[0] : null;
+    return !!next && boxEdges.some(([c, d]) => segmentsCross(p, next, c, d));
+  });
+
+  if (getLines(geometry).some(line => crossesBox(line, false))) return true;
+
+  // A polygon can also contain the whole box
+  return getPolygons(geometry).some(rings =>
+    rings.some(ring => crossesBox(ring, true)) || pointInPolygon(box[0], rings)
+  );
+}
+
+// True when every vertex of the geometry lies in the polygon
+export function withinPolygon(geometry: FeatureGeometry, rings: Ring[]) {
+  const vertices = getVertices(geometry);
+  return vertices.length > 0 && vertices.every(v => pointInPolygon(v.position, rings));
+}
+
+// Points as zero-length segments, then the edges of the lines and rings
+const segmentsOf = (geometry: FeatureGeometry): [LatLng, LatLng][] => {
+  const edges = (path: LatLng[], closed: boolean) => path.flatMap((p, i): [LatLng, LatLng][] => {
+    const next = i + 1 < path.length ? path[i + 1] : closed && path.length > 2 ? path[0] : null;
+    return next ? [[p, next]] : path.length === 1 ? [[p, p]] : [];
+  });
+  return [
+    ...getPoints(geometry).map((p): [LatLng, LatLng] => [p, p]),
+    ...getLines(geometry).flatMap(line => edges(line, false)),
+    ...getPolygons(geometry).flat().flatMap(ring => edges(ring, true))
+  ];
+};
+
+// Meters from a point to a segment, on a plane tangent at the point (accurate over a few kilometers)
+const pointSegmentDistance = (point: LatLng, [a, b]: [LatLng, LatLng]) => {
+  const scale = Math.cos(toRad(point[0]));
+  const project = ([lat, lng]: LatLng) => [toRad(lng - point[1]) * scale * EARTH_RADIUS, toRad(lat - point[0]) * EARTH_RADIUS];
+  const [ax, ay] = project(a);
+  const [bx, by] = project(b);
+  const length = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / length));
+  return Math.hypot(ax + t * (bx - ax), ay + t * (by - ay));
+};
+
+// Shortest distance between two geometries in meters; 0 when they touch or one contains the other
+export function geometryDistance(a: FeatureGeometry, b: FeatureGeometry) {
+  const contains = (outer: FeatureGeometry, inner: FeatureGeometry) =>
+    getVertices(inner).some(v => getPolygons(outer).some(rings => pointInPolygon(v.position, rings)));
+  if (contains(a, b) || contains(b, a)) return 0;
+
+  const segmentsA = segmentsOf(a);
+  const segmentsB = segmentsOf(b);
+  let distance = Infinity;
+  segmentsA.forEach(([p, q]) => segmentsB.forEach(([r, s]) => {
+    if (p !== q && r !== s && segmentsCross(p, q, r, s)) distance = 0;
+    distance = Math.min(distance,
+      pointSegmentDistance(p, [r, s]), pointSegmentDistance(q, [r, s]),
+      pointSegmentDistance(r, [p, q]), pointSegmentDistance(s, [p, q]));
+  }));
+  return distance;
+}
@@ -0,0 +1,45 @@
+// --- Rich text ---
+// Rich text fields store a small subset of HTML. Everything else is dropped when the text is
+// saved and again when it is shown, so values edited elsewhere cannot inject scripts or styles.
+
+const ALLOWED_TAGS = new Set(['B', 'STRONG', 'I', 'EM', 'U', 'S', 'P', 'DIV', 'BR', 'UL', 'OL', 'LI', 'A', 'H1', 'H2', 'H3', 'BLOCKQUOTE']);
+const SAFE_HREF = /^(https?:|mailto:|tel:)/i;
+
+const cleanNode = (node: Node, doc: Document): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) return [doc.createTextNode(node.textContent || '')];
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+  const element = node as Element;
+  const children = Array.from(element.childNodes).flatMap(child => cleanNode(child, doc));
+  // Unknown tags are unwrapped, except those whose content is code rather than text
+  if (['SCRIPT', 'STYLE', 'TEMPLATE', 'IFRAME', 'OBJECT'].includes(element.tagName)) return [];
+  if (!ALLOWED_TAGS.has(element.tagName)) return children;
+
+  const clean = doc.createElement(element.tagName.toLowerCase());
+  if (element.tagName === 'A') {
+    const href = element.getAttribute('href')?.trim() || '';
+    if (!SAFE_HREF.test(href)) return children;
+    clean.setAttribute('href', href);
+    clean.setAttribute('target', '_blank');
+    clean.setAttribute('rel', 'noopener noreferrer');
+  }
+  children.forEach(child => clean.appendChild(child));
+  return [clean];
+};
+
+export const sanitizeRichText = (html: string) => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const container = doc.createElement('div');
+  Array.from(doc.body.childNodes).flatMap(node => cleanNode(node, doc)).forEach(node => container.appendChild(node));
+  return container.innerHTML;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+// The text without markup, for searching, sorting, exports and length rules; works without a DOM
+export const richTextToPlain = (html: any) => String(html ?? '')
+  .replace(/<\/(p|div|li|h[1-3]|blockquote)>|<br\s*\/?>/gi, '\n')
+  .replace(/<[^>]*>/g, '')
+  .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity) => ENTITIES[entity])
+  .replace(/\n{2,}/g, '\n')
+  .trim();
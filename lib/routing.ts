@@ -0,0 +1,196 @@
+import { DataRecord } from "../types";
+import { LatLng, getLines, haversineDistance } from "./geometry";
+
+// --- Network routing ---
+// The lines of a table form an undirected graph: every vertex is a node and lines connect where
+// they share a vertex (same position to about a centimetre). Waypoints snap onto the nearest
+// segment, and each leg between consecutive waypoints is an A* search over edge lengths in meters.
+
+export interface RoutingGraph {
+  nodes: LatLng[];
+  adjacency: { node: number; length: number }[][];
+  segments: [number, number][];
+}
+
+export interface SnappedPoint {
+  position: LatLng; // Closest position on the network
+  segment: number;
+  offset: number; // Meters from the segment's first node
+  distance: number; // Meters from the requested position
+}
+
+export interface Route {
+  path: LatLng[];
+  distance: number; // Meters
+  waypoints: SnappedPoint[];
+}
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+export function buildRoutingGraph(records: DataRecord[]): RoutingGraph {
+  const graph: RoutingGraph = { nodes: [], adjacency: [], segments: [] };
+  const index = new Map<string, number>();
+
+  const nodeAt = (position: LatLng) => {
+    const key = `${position[0].toFixed(7)},${position[1].toFixed(7)}`;
+    let node = index.get(key);
+    if (node === undefined) {
+      node = graph.nodes.length;
+      index.set(key, node);
+      graph.nodes.push(position);
+      graph.adjacency.push([]);
+    }
+    return node;
+  };
+
+  records.forEach(record => {
+    if (!record.geometry) return;
+    getLines(record.geometry).forEach(line => {
+      for (let i = 0; i < line.length - 1; i++) {
+        const a = nodeAt(line[i]);
+        const b = nodeAt(line[i + 1]);
+        if (a === b) continue;
+        const length = haversineDistance(graph.nodes[a], graph.nodes[b]);
+        graph.adjacency[a].push({ node: b, length });
+        graph.adjacency[b].push({ node: a, length });
+        graph.segments.push([a, b]);
+      }
+    });
+  });
+  return graph;
+}
+
+// Nearest position on any segment, using a local equirectangular projection around the point
+export function snapToNetwork(graph: RoutingGraph, position: LatLng): SnappedPoint | null {
+  const scale = Math.cos(toRad(position[0]));
+  let best: SnappedPoint | null = null;
+  graph.segments.forEach(([a, b], segment) => {
+    const [aLat, aLng] = graph.nodes[a];
+    const [bLat, bLng] = graph.nodes[b];
+    const dx = (bLng - aLng) * scale;
+    const dy = bLat - aLat;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1,
+      (((position[1] - aLng) * scale) * dx + (position[0] - aLat) * dy) / lengthSq
+    ));
+    const snapped: LatLng = [aLat + (bLat - aLat) * t, aLng + (bLng - aLng) * t];
+    const distance = haversineDistance(position, snapped);
+    if (!best || distance < best.distance) {
+      best = { position: snapped, segment, offset: haversineDistance(graph.nodes[a], snapped), distance };
+    }
+  });
+  return best;
+}
+
+// Binary min-heap of [node, priority]
+class Queue {
+  private items: [number, number][] = [];
+
+  get size() { return this.items.length; }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push([node, priority]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][1] <= items[i][1]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][1] < items[smallest][1]) smallest = left;
+        if (right < items.length && items[right][1] < items[smallest][1]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top[0];
+  }
+}
+
+// Shortest path between two snapped points. They become temporary nodes (ids after the graph's
+// nodes) linked to the ends of their segment; null when the network does not connect them.
+function findLeg(graph: RoutingGraph, from: SnappedPoint, to: SnappedPoint): { path: LatLng[]; distance: number } | null {
+  const start = graph.nodes.length;
+  const goal = start + 1;
+  const position = (node: number) => node === start ? from.position : node === goal ? to.position : graph.nodes[node];
+
+  const links = (point: SnappedPoint) => {
+    const [a, b] = graph.segments[point.segment];
+    const length = haversineDistance(graph.nodes[a], graph.nodes[b]);
+    return [{ node: a, length: point.offset }, { node: b, length: Math.max(0, length - point.offset) }];
+  };
+  const startLinks = links(from);
+  const goalLinks = links(to);
+
+  const neighbours = (node: number) => {
+    const result = node === start ? [...startLinks] : node === goal ? [...goalLinks] : [...graph.adjacency[node]];
+    // Both points on the same segment: the direct stretch between them
+    if (node === start && from.segment === to.segment) result.push({ node: goal, length: Math.abs(to.offset - from.offset) });
+    startLinks.forEach(link => { if (link.node === node) result.push({ node: start, length: link.length }); });
+    goalLinks.forEach(link => { if (link.node === node) result.push({ node: goal, length: link.length }); });
+    return result;
+  };
+
+  const cost = new Map<number, number>([[start, 0]]);
+  const previous = new Map<number, number>();
+  const done = new Set<number>();
+  const queue = new Queue();
+  queue.push(start, 0);
+
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (node === goal) break;
+    if (done.has(node)) continue;
+    done.add(node);
+
+    neighbours(node).forEach(edge => {
+      const next = cost.get(node)! + edge.length;
+      if (next < (cost.get(edge.node) ?? Infinity)) {
+        cost.set(edge.node, next);
+        previous.set(edge.node, node);
+        queue.push(edge.node, next + haversineDistance(position(edge.node), to.position));
+      }
+    });
+  }
+
+  if (!cost.has(goal)) return null;
+  const path: LatLng[] = [];
+  for (let node: number | undefined = goal; node !== undefined; node = previous.get(node)) {
+    path.unshift(position(node));
+  }
+  return { path, distance: cost.get(goal)! };
+}
+
+// Route through the waypoints in order; null when a leg cannot be connected
+export function findRoute(graph: RoutingGraph, waypoints: LatLng[]): Route | null {
+  const snapped = waypoints.map(w => snapToNetwork(graph, w));
+  if (snapped.length < 2 || snapped.some(s => !s)) return null;
+
+  const route: Route = { path: [], distance: 0, waypoints: snapped as SnappedPoint[] };
+  for (let i = 0; i < route.waypoints.length - 1; i++) {
+    const leg = findLeg(graph, route.waypoints[i], route.waypoints[i + 1]);
+    if (!leg) return null;
+    // Waypoints snapped onto a node repeat its position
+    leg.path.forEach(position => {
+      const last = route.path[route.path.length - 1];
+      if (!last || last[0] !== position[0] || last[1] !== position[1]) route.path.push(position);
+    });
+    route.distance += leg.distance;
+  }
+  return route;
+}
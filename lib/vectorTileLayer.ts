@@ -0,0 +1,117 @@
+import L from 'leaflet';
+import maplibregl from 'maplibre-gl';
+import { resolveVectorStyle } from '../services/vectorStyle';
+
+// --- Vector tile base layers ---
+// A Leaflet layer that draws a MapLibre GL map (Mapbox Vector Tiles + MapLibre style) in the tile
+// pane, so it orders and fades like the raster base layers and stays below the feature overlays.
+// MapLibre is not interactive: Leaflet owns the view and the GL map follows it.
+
+export interface VectorTileLayerOptions {
+  style: string; // Style JSON or URL, see services/vectorStyle.ts
+  tilesUrl?: string;
+  attribution?: string;
+  onStyleError?: (error: unknown) => void;
+}
+
+export class VectorTileLayer extends L.Layer {
+  private map: L.Map | null = null;
+  private container: HTMLDivElement | null = null;
+  private glMap: maplibregl.Map | null = null;
+  private style: string;
+  private tilesUrl?: string;
+  private onStyleError?: (error: unknown) => void;
+  private opacity = 1;
+  private zIndex = 0;
+
+  constructor({ style, tilesUrl, attribution, onStyleError }: VectorTileLayerOptions) {
+    super({ attribution });
+    this.style = style;
+    this.tilesUrl = tilesUrl;
+    this.onStyleError = onStyleError;
+  }
+
+  onAdd(map: L.Map) {
+    this.map = map;
+    this.container = L.DomUtil.create('div', 'leaflet-layer', map.getPane('tilePane')) as HTMLDivElement;
+    this.container.style.pointerEvents = 'none';
+    this.container.style.opacity = String(this.opacity);
+    this.container.style.zIndex = String(this.zIndex);
+    this.resize();
+
+    const center = map.getCenter();
+    this.glMap = new maplibregl.Map({
+      container: this.container,
+      style: { version: 8, sources: {}, layers: [] },
+      center: [center.lng, center.lat],
+      zoom: map.getZoom() - 1,
+      interactive: false,
+      attributionControl: false,
+      // Keeps the frame readable by html2canvas for map printing
+      canvasContextAttributes: { preserveDrawingBuffer: true }
+    });
+    this.loadStyle();
+
+    map.on('move zoom zoomanim', this.update, this);
+    map.on('resize', this.resize, this);
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    map.off('move zoom zoomanim', this.update, this);
+    map.off('resize', this.resize, this);
+    this.glMap?.remove();
+    if (this.container) L.DomUtil.remove(this.container);
+    this.glMap = null;
+    this.container = null;
+    this.map = null;
+    return this;
+  }
+
+  // Switching the style (e.g. on a theme change) keeps the GL map and its tile cache
+  setStyle(style: string) {
+    if (style === this.style) return this;
+    this.style = style;
+    this.loadStyle();
+    return this;
+  }
+
+  setOpacity(opacity: number) {
+    this.opacity = opacity;
+    if (this.container) this.container.style.opacity = String(opacity);
+    return this;
+  }
+
+  setZIndex(zIndex: number) {
+    this.zIndex = zIndex;
+    if (this.container) this.container.style.zIndex = String(zIndex);
+    return this;
+  }
+
+  private loadStyle() {
+    const requested = this.style;
+    resolveVectorStyle(requested, this.tilesUrl)
+      .then(style => {
+        if (this.glMap && requested === this.style) this.glMap.setStyle(style);
+      })
+      .catch(error => this.onStyleError?.(error));
+  }
+
+  // The container sits at the map's top-left corner; MapLibre's 512 px tiles put its zoom one below Leaflet's
+  private update(e?: { center?: L.LatLng; zoom?: number }) {
+    if (!this.map || !this.container || !this.glMap) return;
+    L.DomUtil.setPosition(this.container, this.map.containerPointToLayerPoint([0, 0]));
+    const center = e?.center ?? this.map.getCenter();
+    const zoom = e?.zoom ?? this.map.getZoom();
+    this.glMap.jumpTo({ center: [center.lng, center.lat], zoom: zoom - 1 });
+  }
+
+  private resize() {
+    if (!this.map || !this.container) return;
+    const size = this.map.getSize();
+    this.container.style.width = `${size.x}px`;
+    this.container.style.height = `${size.y}px`;
+    this.glMap?.resize();
+    this.update();
+  }
+}
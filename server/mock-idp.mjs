@@ -0,0 +1,153 @@
+// Mock OpenID Connect provider for trying single sign-on locally. It signs in whoever fills in its
+// form, with the groups typed there, so it must never face a real network.
+// Usage: npm run mock-idp  (PORT env var is optional; the issuer is http://localhost:<port>)
+import { createServer } from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 3002;
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL = 60 * 1000;
+
+// A fresh key per run: sign-ins started before a restart fail with an unknown key
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = randomBytes(8).toString('hex');
+const JWK = { ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' };
+
+// code -> { clientId, redirectUri, challenge, nonce, claims, expiresAt }
+const codes = new Map();
+
+const base64Url = (input) => Buffer.from(input).toString('base64url');
+
+const signJwt = (claims) => {
+  const data = `${base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KID }))}.${base64Url(JSON.stringify(claims))}`;
+  return `${data}.${sign('sha256', Buffer.from(data), privateKey).toString('base64url')}`;
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...headers
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readForm = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(data)));
+  req.on('error', reject);
+});
+
+const escapeHtml = (text) => String(text).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const loginPage = (params) => `<!doctype html>
+<html><head><meta charset="utf-8"><title>Mock Identity Provider</title>
+<style>body{font-family:sans-serif;max-width:360px;margin:60px auto}label{display:block;margin-top:12px}input{width:100%;padding:6px;box-sizing:border-box}button{margin-top:16px;padding:8px 16px}</style>
+</head><body>
+<h2>Mock Identity Provider</h2>
+<p>Signing in to <b>${escapeHtml(params.get('client_id'))}</b>. Any values are accepted.</p>
+<form method="post" action="/authorize">
+${[...params].map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`).join('\n')}
+<label>Subject (stable user id)<input name="sub" value="alice"></label>
+<label>Username<input name="preferred_username" value="alice"></label>
+<label>Email<input name="email" value="alice@example.com"></label>
+<label>Groups (comma separated)<input name="groups" value="gis-editors"></label>
+<button type="submit">Sign in</button>
+<button type="submit" name="deny" value="1">Deny</button>
+</form>
+</body></html>`;
+
+const redirect = (res, target, params) => {
+  const url = new URL(target);
+  Object.entries(params).forEach(([key, value]) => value !== undefined && url.searchParams.set(key, value));
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+};
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const url = new URL(req.url, ISSUER);
+
+  switch (`${req.method} ${url.pathname}`) {
+    case 'GET /.well-known/openid-configuration':
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['none']
+      });
+
+    case 'GET /jwks':
+      return send(res, 200, { keys: [JWK] });
+
+    case 'GET /authorize': {
+      const params = url.searchParams;
+      if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge') || !params.get('redirect_uri')) {
+        return send(res, 400, { error: 'invalid_request', error_description: 'Expected response_type=code with an S256 code challenge' });
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      return res.end(loginPage(params));
+    }
+
+    case 'POST /authorize': {
+      const form = await readForm(req);
+      const redirectUri = form.get('redirect_uri');
+      const state = form.get('state') || undefined;
+      if (form.get('deny')) {
+        return redirect(res, redirectUri, { error: 'access_denied', error_description: 'The user denied the sign-in', state });
+      }
+      const code = randomBytes(24).toString('base64url');
+      codes.set(code, {
+        clientId: form.get('client_id'),
+        redirectUri,
+        challenge: form.get('code_challenge'),
+        nonce: form.get('nonce') || undefined,
+        expiresAt: Date.now() + CODE_TTL,
+        claims: {
+          sub: form.get('sub'),
+          preferred_username: form.get('preferred_username'),
+          email: form.get('email'),
+          email_verified: true,
+          groups: form.get('groups').split(',').map(g => g.trim()).filter(Boolean)
+        }
+      });
+      return redirect(res, redirectUri, { code, state });
+    }
+
+    case 'POST /token': {
+      const form = await readForm(req);
+      const entry = codes.get(form.get('code'));
+      codes.delete(form.get('code'));
+      const verifier = form.get('code_verifier') || '';
+      if (form.get('grant_type') !== 'authorization_code' || !entry || entry.expiresAt < Date.now()) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'The code is invalid, used or expired' });
+      }
+      if (entry.clientId !== form.get('client_id') || entry.redirectUri !== form.get('redirect_uri')) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'Client or redirect URI does not match the authorization request' });
+      }
+      if (createHash('sha256').update(verifier).digest('base64url') !== entry.challenge) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = signJwt({ iss: ISSUER, aud: entry.clientId, iat: now, exp: now + 300, nonce: entry.nonce, ...entry.claims });
+      return send(res, 200, { access_token: randomBytes(24).toString('base64url'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+    }
+
+    default:
+      return send(res, 404, { error: 'Not found' });
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(e => send(res, 500, { error: String(e?.message || e) }));
+}).listen(PORT, () => {
+  console.log(`Mock identity provider at ${ISSUER} (any client id is accepted)`);
+});
@@ -0,0 +1,130 @@
+// Minimal shared JSON storage server for the REST storage backend (services/storage.ts).
+// Usage: npm run storage-server  (PORT and STORAGE_FILE env vars are optional)
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync, existsSync, renameSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 3001;
+const FILE = process.env.STORAGE_FILE || join(dirname(fileURLToPath(import.meta.url)), 'data.json');
+
+// { collections: { [name]: Entity[] }, settings: { [name]: any } }
+let db = { collections: {}, settings: {} };
+if (existsSync(FILE)) {
+  db = JSON.parse(readFileSync(FILE, 'utf8'));
+}
+
+const flush = () => {
+  // Write then rename so a crash never leaves a truncated file behind
+  writeFileSync(`${FILE}.tmp`, JSON.stringify(db));
+  renameSync(`${FILE}.tmp`, FILE);
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'X-Total-Count',
+    ...headers
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : null);
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [prefix, name, id] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (prefix !== 'api' || !name) return send(res, 404, { error: 'Not found' });
+
+  // Settings: /api/settings/:key
+  if (name === 'settings') {
+    if (!id) return send(res, 404, { error: 'Not found' });
+    if (req.method === 'GET') {
+      return id in db.settings ? send(res, 200, db.settings[id]) : send(res, 404, { error: 'Not found' });
+    }
+    if (req.method === 'PUT') {
+      db.settings[id] = await readBody(req);
+      flush();
+      return send(res, 204);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  }
+
+  // Collections: /api/:collection[/:id]
+  const items = db.collections[name];
+  // Field filters (e.g. ?tableId=1); parameters starting with `_` control paging
+  const filters = [...url.searchParams.entries()].filter(([field]) => !field.startsWith('_'));
+  const matches = (item) => filters.every(([field, value]) => String(item[field]) === value);
+
+  switch (req.method) {
+    case 'GET': {
+      if (!items) return send(res, 404, { error: 'Not found' });
+      const found = filters.length > 0 ? items.filter(matches) : items;
+      const start = Number(url.searchParams.get('_start')) || 0;
+      const limit = url.searchParams.has('_limit') ? Number(url.searchParams.get('_limit')) : found.length;
+      return send(res, 200, found.slice(start, start + limit), { 'X-Total-Count': String(found.length) });
+    }
+
+    case 'PUT': {
+      const body = await readBody(req);
+      if (!id) {
+        if (!Array.isArray(body)) return send(res, 400, { error: 'Expected an array' });
+        db.collections[name] = body;
+      } else {
+        const list = items || [];
+        const exists = list.some(i => i.id === id);
+        db.collections[name] = exists ? list.map(i => i.id === id ? body : i) : [...list, body];
+      }
+      flush();
+      return send(res, 204);
+    }
+
+    case 'POST': {
+      // Bulk upsert: POST /api/:collection with an array body
+      const body = await readBody(req);
+      if (id || !Array.isArray(body)) return send(res, 400, { error: 'Expected an array' });
+      const incoming = new Map(body.map(i => [i.id, i]));
+      db.collections[name] = [...(items || []).filter(i => !incoming.has(i.id)), ...body];
+      flush();
+      return send(res, 204);
+    }
+
+    case 'DELETE': {
+      if (!items) return send(res, 204);
+      if (id) {
+        db.collections[name] = items.filter(i => i.id !== id);
+      } else {
+        // Bulk delete by field match, e.g. DELETE /api/records?tableId=1
+        if (filters.length === 0) return send(res, 400, { error: 'A field filter is required' });
+        db.collections[name] = items.filter(i => !matches(i));
+      }
+      flush();
+      return send(res, 204);
+    }
+
+    default:
+      return send(res, 405, { error: 'Method not allowed' });
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(e => send(res, 400, { error: String(e?.message || e) }));
+}).listen(PORT, () => {
+  console.log(`GeoNexus storage server listening on http://localhost:${PORT}/api (data: ${FILE})`);
+});
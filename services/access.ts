@@ -0,0 +1,68 @@
+import { DataRecord, RowFilter, TableSchema, User, UserRole } from "../types";
+import { matchesRowFilter } from "./recordQuery";
+
+// --- Per-table access ---
+// Roles without table grants reach every table (their global permissions decide what they may do
+// there). Once a role has grants, tables it has no readable grant for are out of reach.
+
+export const CURRENT_USER_TOKEN = '$currentUser';
+
+export interface TableAccess {
+  read: boolean;
+  create: boolean;
+  update: boolean;
+  delete: boolean;
+  hiddenFields: string[];
+  readOnlyFields: string[];
+  rowFilter?: RowFilter; // With the current user filled in
+}
+
+const FULL_ACCESS: TableAccess = { read: true, create: true, update: true, delete: true, hiddenFields: [], readOnlyFields: [] };
+const NO_ACCESS: TableAccess = { read: false, create: false, update: false, delete: false, hiddenFields: [], readOnlyFields: [] };
+
+export const resolveTableAccess = (role: UserRole | undefined, user: User | null, tableId: string): TableAccess => {
+  if (!role || !user) return NO_ACCESS;
+  if (role.permissions.includes('sys_admin') || !role.tableGrants) return FULL_ACCESS;
+  const grant = role.tableGrants.find(g => g.tableId === tableId);
+  if (!grant || !grant.actions.includes('read')) return NO_ACCESS;
+
+  const fields = Object.entries(grant.fieldAccess || {});
+  return {
+    read: true,
+    create: grant.actions.includes('create'),
+    update: grant.actions.includes('update'),
+    delete: grant.actions.includes('delete'),
+    hiddenFields: fields.filter(([, access]) => access === 'hidden').map(([name]) => name),
+    readOnlyFields: fields.filter(([, access]) => access === 'readonly').map(([name]) => name),
+    rowFilter: grant.rowFilter && { ...grant.rowFilter, value: grant.rowFilter.value.split(CURRENT_USER_TOKEN).join(user.username) }
+  };
+};
+
+export const canSeeRecord = (access: TableAccess, record: DataRecord) =>
+  access.read && (!access.rowFilter || matchesRowFilter(record, access.rowFilter));
+
+// The table as the user sees it: fields hidden from them are left out, also from map tooltips
+export const restrictSchema = (schema: TableSchema, access: TableAccess): TableSchema => {
+  if (access.hiddenFields.length === 0) return schema;
+  const visible = (name: string) => !access.hiddenFields.includes(name);
+  return { ...schema, fields: schema.fields.filter(f => visible(f.name)), hoverFields: schema.hoverFields?.filter(visible) };
+};
+
+// The record as the user sees it, for passing on (e.g. to AI analysis)
+export const hideFields = (record: DataRecord, access: TableAccess): DataRecord =>
+  access.hiddenFields.length === 0 ? record : { ...record, data: Object.fromEntries(Object.entries(record.data).filter(([key]) => !access.hiddenFields.includes(key))) };
+
+// Values the user may not change are taken from the stored version (or left out of a new record).
+// A new record also gets the row filter's value, so that it stays visible to the one who created it.
+export const protectRecord = (record: DataRecord, access: TableAccess, before?: DataRecord): DataRecord => {
+  const data = { ...record.data };
+  [...access.hiddenFields, ...access.readOnlyFields].forEach(name => {
+    if (before && name in before.data) data[name] = before.data[name];
+    else delete data[name];
+  });
+  const filter = access.rowFilter;
+  if (!before && filter?.operator === 'equals' && (data[filter.field] === undefined || data[filter.field] === '')) {
+    data[filter.field] = filter.value;
+  }
+  return { ...record, data };
+};
@@ -0,0 +1,81 @@
+import { AttachmentRef, StoredAttachment } from "../types";
+import { readExifLocation } from "../lib/exif";
+
+// --- Attachments ---
+// Attachment fields hold AttachmentRef lists, small enough to travel with the record (thumbnail
+// included); the files are stored once in the `attachments` collection and only read when opened.
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+const THUMBNAIL_SIZE = 160;
+
+const genAttachmentId = () => `att_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const isImage = (ref: { type: string }) => ref.type.startsWith('image/');
+
+export const attachmentRefs = (value: any): AttachmentRef[] =>
+  Array.isArray(value) ? value.filter(v => v && typeof v === 'object' && typeof v.id === 'string') : [];
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Where an attachment is written in an export archive; the id keeps files of the same name apart
+export const attachmentPath = (ref: AttachmentRef) => `attachments/${ref.id}_${ref.name.replace(/[\\/:*?"<>|]+/g, '_')}`;
+
+// --- Encoding, for the REST backend and backups ---
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const dataUrlToBlob = (dataUrl: string) => {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+// --- Upload ---
+
+// A JPEG of at most THUMBNAIL_SIZE pixels on its longest side; undefined when the browser cannot decode the image
+const createThumbnail = async (file: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (e) {
+    console.warn("Could not create a thumbnail", e);
+    return undefined;
+  }
+};
+
+// The stored file and the reference kept in the record; throws when the file is not accepted
+export const prepareAttachment = async (file: File, tableId: string, username: string): Promise<{ stored: StoredAttachment; ref: AttachmentRef }> => {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error(`${file.name} is not a photo or a PDF`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+  const id = genAttachmentId();
+  const ref: AttachmentRef = { id, name: file.name, type: file.type, size: file.size };
+  if (isImage(file)) {
+    ref.thumbnail = await createThumbnail(file);
+    const location = file.type === 'image/jpeg' ? readExifLocation(await file.arrayBuffer()) : null;
+    if (location) ref.location = location;
+  }
+  return {
+    stored: { id, tableId, name: file.name, type: file.type, size: file.size, data: file, createdAt: new Date().toISOString(), createdBy: username },
+    ref
+  };
+};
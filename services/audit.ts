@@ -0,0 +1,95 @@
+import { AuditAction, AuditChange, AuditEntry, AuditTargetType } from "../types";
+
+// A page request for the Logs screen; entries are returned newest first
+export interface AuditQuery {
+  offset: number;
+  limit: number;
+  search?: string; // Matches the user, target and details
+  userId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+}
+
+export const genAuditId = () => `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAuditMatcher = (query: AuditQuery) => {
+  const search = query.search?.trim().toLowerCase();
+  // Date bounds are local days
+  const from = query.from ? new Date(`${query.from}T00:00:00`).getTime() : -Infinity;
+  const to = query.to ? new Date(`${query.to}T23:59:59.999`).getTime() : Infinity;
+
+  return (entry: AuditEntry) => {
+    if (query.userId && entry.userId !== query.userId) return false;
+    if (query.action && entry.action !== query.action) return false;
+    if (query.targetType && entry.targetType !== query.targetType) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (time < from || time > to) return false;
+    if (!search) return true;
+    return [entry.username, entry.targetId, entry.targetLabel, entry.details]
+      .some(v => v && v.toLowerCase().includes(search));
+  };
+};
+
+// In-memory evaluation, for backends that cannot filter themselves
+export const applyAuditQuery = (entries: AuditEntry[], query: AuditQuery): AuditPage => {
+  const matches = entries.filter(createAuditMatcher(query)).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return { entries: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+};
+
+// --- Diffs ---
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+const SECRET_FIELD = /password|resetCode/i;
+const MASK = '••••••';
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Field-level changes between two versions of an entity; a missing version (create/delete)
+// lists every field. Nested objects are compared per key (e.g. 'data.status'), arrays as a whole.
+export const diffValues = (before: any, after: any, path = ''): AuditChange[] => {
+  if ((isObject(before) || before === undefined) && (isObject(after) || after === undefined) && (before || after)) {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    return [...keys]
+      .filter(key => path || !IGNORED_FIELDS.includes(key))
+      .flatMap(key => diffValues(before?.[key], after?.[key], path ? `${path}.${key}` : key));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  if (SECRET_FIELD.test(path)) {
+    return [{ field: path, before: before === undefined ? undefined : MASK, after: after === undefined ? undefined : MASK }];
+  }
+  return [{ field: path, before, after }];
+};
+
+export const formatAuditValue = (value: any) =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// --- CSV export ---
+
+const csvCell = (value: any) => {
+  const text = formatAuditValue(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditToCSV = (entries: AuditEntry[]) => {
+  const header = ['timestamp', 'user', 'action', 'target_type', 'target_id', 'target', 'status', 'details', 'changes'];
+  const rows = entries.map(e => [
+    e.timestamp,
+    e.username,
+    e.action,
+    e.targetType,
+    e.targetId,
+    e.targetLabel,
+    e.status,
+    e.details,
+    (e.changes || []).map(c => `${c.field}: ${formatAuditValue(c.before)} -> ${formatAuditValue(c.after)}`).join('; ')
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
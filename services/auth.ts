@@ -0,0 +1,90 @@
+import { PasswordHash, PasswordPolicy } from "../types";
+
+// --- Hashing ---
+// Passwords and reset codes are stored as salted PBKDF2-SHA256 hashes (WebCrypto). The iteration
+// count is kept with each hash so it can be raised later without invalidating existing passwords.
+const PBKDF2_ITERATIONS = 310000;
+
+const encoder = new TextEncoder();
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const derive = async (secret: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export const hashSecret = async (secret: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    hash: toBase64(await derive(secret, salt, PBKDF2_ITERATIONS))
+  };
+};
+
+// Compares every byte so the time taken does not reveal where the first difference is
+export const verifySecret = async (secret: string, stored: PasswordHash) => {
+  const actual = await derive(secret, fromBase64(stored.salt), stored.iterations);
+  const expected = fromBase64(stored.hash);
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ (expected[i] ?? 0);
+  return diff === 0;
+};
+
+// --- Password policy ---
+
+// Requirements the password misses, as phrases to follow "Password needs ..."
+export const checkPasswordPolicy = (password: string, policy: PasswordPolicy): string[] => {
+  const missing: string[] = [];
+  if (password.length < policy.minLength) missing.push(`at least ${policy.minLength} characters`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) missing.push('an uppercase letter');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) missing.push('a lowercase letter');
+  if (policy.requireNumber && !/[0-9]/.test(password)) missing.push('a number');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) missing.push('a symbol');
+  return missing;
+};
+
+export const describePasswordPolicy = (policy: PasswordPolicy) => {
+  // An empty password misses every rule, so this lists them all
+  const rules = checkPasswordPolicy('', { ...policy, minLength: Math.max(policy.minLength, 1) });
+  return `Passwords need ${rules.join(', ')}.`;
+};
+
+// --- Sessions ---
+// The browser keeps a random token; storage only holds its SHA-256, so reading the sessions
+// collection does not allow signing in as someone else.
+const SESSION_KEY = 'geo_session';
+
+export const generateSessionToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashSessionToken = async (token: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token))));
+
+// "Remember me" keeps the token across browser restarts; otherwise it ends with the tab
+export const saveSessionToken = (token: string, persistent: boolean) => {
+  clearSessionToken();
+  (persistent ? localStorage : sessionStorage).setItem(SESSION_KEY, token);
+};
+
+export const loadSessionToken = () => sessionStorage.getItem(SESSION_KEY) || localStorage.getItem(SESSION_KEY);
+
+export const clearSessionToken = () => {
+  sessionStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(SESSION_KEY);
+};
+
+// --- Reset codes ---
+// Issued by an administrator and typed by the user, so the alphabet avoids look-alike characters
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateResetCode = () => {
+  const chars = Array.from(crypto.getRandomValues(new Uint8Array(8)), b => CODE_ALPHABET[b % CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
+
+// Case and separators do not matter when the code is typed back
+export const normalizeResetCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
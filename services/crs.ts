@@ -0,0 +1,144 @@
+import proj4 from 'proj4';
+import { CrsDefinition, FeatureGeometry } from "../types";
+import { LatLng, mapPositions } from "../lib/geometry";
+
+// --- Coordinate reference systems ---
+// Geometries are always stored as WGS84 [lat, lng]. A CRS code (e.g. 'EPSG:2154') selects how
+// coordinates are shown, typed and exported, and which grid a tile layer is cut in.
+// Projected positions are [x, y] (easting, northing) in the units of their CRS.
+
+export const WGS84 = 'EPSG:4326';
+export const WEB_MERCATOR = 'EPSG:3857';
+
+export const BUILT_IN_CRS: CrsDefinition[] = [
+  {
+    code: WGS84,
+    name: 'WGS 84',
+    proj4: '+proj=longlat +datum=WGS84 +no_defs',
+    units: 'degrees'
+  },
+  {
+    code: WEB_MERCATOR,
+    name: 'WGS 84 / Pseudo-Mercator',
+    proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +wktext +no_defs',
+    units: 'meters'
+  },
+  {
+    code: 'EPSG:2154',
+    name: 'RGF93 / Lambert-93',
+    proj4: '+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+    units: 'meters'
+  }
+];
+
+BUILT_IN_CRS.forEach(crs => proj4.defs(crs.code, crs.proj4));
+
+let registry: CrsDefinition[] = BUILT_IN_CRS;
+
+// Returns an error message, or null when proj4 can use the definition
+export const validateProjDefinition = (definition: string): string | null => {
+  if (!definition.trim()) return 'The definition is empty.';
+  try {
+    proj4(definition.trim(), 'WGS84').forward([0, 0]);
+    return null;
+  } catch (e) {
+    return 'proj4 cannot read this definition.';
+  }
+};
+
+// Longitude/latitude definitions (proj strings or geographic WKT) are in degrees
+export const detectUnits = (definition: string): CrsDefinition['units'] =>
+  /\+proj=(longlat|latlong)\b|^\s*GEOG(CS|CRS)\[/i.test(definition) ? 'degrees' : 'meters';
+
+// Makes the user-defined systems known to proj4; built-in codes cannot be redefined
+export const registerCustomCrs = (custom: CrsDefinition[] = []): CrsDefinition[] => {
+  const usable = custom.filter(crs =>
+    crs.code && !BUILT_IN_CRS.some(b => b.code === crs.code) && validateProjDefinition(crs.proj4) === null
+  );
+  usable.forEach(crs => proj4.defs(crs.code, crs.proj4.trim()));
+  registry = [...BUILT_IN_CRS, ...usable];
+  return registry;
+};
+
+export const getCrs = (code: string | undefined) => registry.find(crs => crs.code === code);
+
+// Unknown codes are treated as WGS84
+export const isGeographic = (code: string | undefined) => (getCrs(code)?.units ?? 'degrees') === 'degrees';
+
+// --- Positions ---
+
+export const fromWgs84 = (code: string, [lat, lng]: LatLng): [number, number] => {
+  if (code === WGS84 || !getCrs(code)) return [lng, lat];
+  const [x, y] = proj4('WGS84', code, [lng, lat]);
+  return [x, y];
+};
+
+export const toWgs84 = (code: string, [x, y]: [number, number]): LatLng => {
+  if (code === WGS84 || !getCrs(code)) return [y, x];
+  const [lng, lat] = proj4(code, 'WGS84', [x, y]);
+  return [lat, lng];
+};
+
+// Geographic systems read "lat, lng" like the rest of the app; projected ones "x, y"
+export const formatCoordinate = (code: string, position: LatLng) => {
+  if (isGeographic(code)) {
+    const [lng, lat] = fromWgs84(code, position);
+    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  }
+  const [x, y] = fromWgs84(code, position);
+  return `${x.toFixed(2)}, ${y.toFixed(2)}`;
+};
+
+// Parses two numbers in the order used by formatCoordinate; null when the input is not a position
+export const parseCoordinateInput = (code: string, text: string): LatLng | null => {
+  const parts = text.trim().split(/[\s,;]+/).filter(Boolean).map(Number);
+  if (parts.length !== 2 || parts.some(n => !isFinite(n))) return null;
+
+  if (isGeographic(code)) {
+    const [lat, lng] = parts;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return toWgs84(code, [lng, lat]);
+  }
+
+  const position = toWgs84(code, [parts[0], parts[1]]);
+  return position.every(isFinite) ? position : null;
+};
+
+// --- Geometries ---
+// Parsers and writers of lng/lat formats read x as lng and y as lat, so a geometry in another
+// CRS travels through them with [y, x] positions.
+
+export const geometryFromCrs = (geometry: FeatureGeometry, code: string): FeatureGeometry =>
+  code === WGS84 ? geometry : mapPositions(geometry, ([y, x]) => toWgs84(code, [x, y]));
+
+export const geometryToCrs = (geometry: FeatureGeometry, code: string): FeatureGeometry =>
+  code === WGS84 ? geometry : mapPositions(geometry, position => {
+    const [x, y] = fromWgs84(code, position);
+    return [y, x];
+  });
+
+// --- CRS names in exchange formats ---
+
+// Legacy codes for Web Mercator
+const WEB_MERCATOR_ALIASES = ['900913', '3785', '102100', '102113'];
+
+// 'EPSG:2154', 'urn:ogc:def:crs:EPSG:6.18:2154', 'http://www.opengis.net/def/crs/EPSG/0/2154' -> 'EPSG:2154'.
+// OGC CRS84 is WGS84 in lng/lat order; unrecognised names are returned unchanged.
+export const normalizeCrsName = (name: string) => {
+  const trimmed = name.trim();
+  if (/CRS:?84$/i.test(trimmed)) return WGS84;
+  const epsg = trimmed.match(/EPSG(?::[\d.]*:|:|\/\d+\/)(\d+)$/i);
+  if (!epsg) return trimmed;
+  return WEB_MERCATOR_ALIASES.includes(epsg[1]) ? WEB_MERCATOR : `EPSG:${epsg[1]}`;
+};
+
+// GeoJSON "crs" member (2008 spec)
+export const crsFromGeoJSON = (crs: any): string | undefined => {
+  const name: string | undefined = crs?.properties?.name;
+  return name ? normalizeCrsName(name) : undefined;
+};
+
+export const toGeoJSONCrs = (code: string) => ({
+  type: 'name',
+  properties: { name: /^EPSG:\d+$/.test(code) ? `urn:ogc:def:crs:EPSG::${code.slice(5)}` : code }
+});
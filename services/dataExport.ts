@@ -0,0 +1,237 @@
+import { zipSync, strToU8 } from "fflate";
+import { AttachmentRef, DataRecord, FeatureGeometry, FieldDefinition, StoredAttachment, TableSchema } from "../types";
+import { getLines, getPoints, getPolygons, getSimpleType, LatLng, Ring } from "../lib/geometry";
+import { WGS84, geometryToCrs, toGeoJSONCrs } from "./crs";
+import { attachmentPath, attachmentRefs } from "./attachments";
+import { selectedOptions } from "./fieldFormat";
+import { richTextToPlain } from "../lib/richText";
+
+export type LayerExportFormat = 'geojson' | 'kml' | 'gpx';
+
+export const LAYER_EXPORT_FORMATS: { value: LayerExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { value: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { value: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+];
+
+// --- Values ---
+
+// Select values are written as their option label, booleans with their configured labels,
+// rich text without its markup and attachments as the paths of their files in the export archive
+export const formatExportValue = (value: any, field: FieldDefinition): any => {
+  if (value === undefined || value === null || value === '') return null;
+  if (field.type === 'attachment') {
+    const refs = attachmentRefs(value);
+    return refs.length > 0 ? refs.map(attachmentPath).join('; ') : null;
+  }
+  if (field.type === 'select') {
+    const option = field.options?.find(o => o.value === value);
+    return option ? option.label : value;
+  }
+  if (field.type === 'multiselect') {
+    const labels = selectedOptions(field, value).map(o => o.label);
+    return labels.length > 0 ? labels.join('; ') : null;
+  }
+  if (field.type === 'richtext') return richTextToPlain(value) || null;
+  if (field.type === 'boolean') {
+    return field.booleanLabels ? (value ? field.booleanLabels.true : field.booleanLabels.false) : !!value;
+  }
+  return value;
+};
+
+export const exportProperties = (record: DataRecord, schema: TableSchema) =>
+  Object.fromEntries(schema.fields.map(f => [f.name, formatExportValue(record.data[f.name], f)]));
+
+// --- Geometry ---
+
+// The app stores [lat, lng]; every GIS exchange format expects lng/lat order
+const toLngLat = (coord: LatLng) => [coord[1], coord[0]];
+
+// Rings are kept open in the app; exchange formats require closed rings
+const closeRing = (ring: Ring) => {
+  if (ring.length === 0) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+const toGeoJSONPolygon = (rings: Ring[]) => rings.map(ring => closeRing(ring).map(toLngLat));
+
+export const toGeoJSONGeometry = (geometry: FeatureGeometry) => {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: toLngLat(geometry.coordinates) };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: getPoints(geometry).map(toLngLat) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: geometry.coordinates.map(toLngLat) };
+    case 'MultiLineString':
+      return { type: 'MultiLineString', coordinates: getLines(geometry).map(line => line.map(toLngLat)) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: toGeoJSONPolygon(getPolygons(geometry)[0]) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: getPolygons(geometry).map(toGeoJSONPolygon) };
+  }
+};
+
+// --- Writers ---
+
+const escapeXml = (value: any) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Feature name: first hover field, else first text field, else the record id
+const featureName = (record: DataRecord, schema: TableSchema) => {
+  const key = schema.hoverFields?.[0] || schema.fields.find(f => f.type === 'text')?.name;
+  const value = key ? record.data[key] : undefined;
+  return value !== undefined && value !== '' ? String(value) : record.id;
+};
+
+// Coordinates outside WGS84 are announced with the (2008) "crs" member
+export const toGeoJSON = (records: DataRecord[], schema: TableSchema, crs = WGS84) => JSON.stringify({
+  type: 'FeatureCollection',
+  name: schema.name,
+  ...(crs !== WGS84 ? { crs: toGeoJSONCrs(crs) } : {}),
+  features: records.map(r => ({
+    type: 'Feature',
+    id: r.id,
+    geometry: r.geometry ? toGeoJSONGeometry(geometryToCrs(r.geometry, crs)) : null,
+    properties: exportProperties(r, schema)
+  }))
+}, null, 2);
+
+// KML colors are aabbggrr
+const toKmlColor = (hex: string, alpha = 'ff') => {
+  const clean = hex.replace('#', '').padEnd(6, '0');
+  return `${alpha}${clean.slice(4, 6)}${clean.slice(2, 4)}${clean.slice(0, 2)}`;
+};
+
+const kmlCoordinates = (coords: LatLng[]) => coords.map(c => `${c[1]},${c[0]}`).join(' ');
+
+const kmlRing = (ring: Ring) => `<LinearRing><coordinates>${kmlCoordinates(closeRing(ring))}</coordinates></LinearRing>`;
+
+const kmlPolygon = ([outer, ...holes]: Ring[]) =>
+  `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>${holes.map(h => `<innerBoundaryIs>${kmlRing(h)}</innerBoundaryIs>`).join('')}</Polygon>`;
+
+const toKmlGeometry = (geometry: FeatureGeometry) => {
+  const parts = getSimpleType(geometry.type) === 'Point'
+    ? getPoints(geometry).map(p => `<Point><coordinates>${kmlCoordinates([p])}</coordinates></Point>`)
+    : getSimpleType(geometry.type) === 'LineString'
+      ? getLines(geometry).map(line => `<LineString><coordinates>${kmlCoordinates(line)}</coordinates></LineString>`)
+      : getPolygons(geometry).map(kmlPolygon);
+  return parts.length === 1 ? parts[0] : `<MultiGeometry>${parts.join('')}</MultiGeometry>`;
+};
+
+export const toKML = (records: DataRecord[], schema: TableSchema) => {
+  const placemarks = records.filter(r => r.geometry).map(r => {
+    const data = Object.entries(exportProperties(r, schema))
+      .filter(([, v]) => v !== null)
+      .map(([k, v]) => `<Data name="${escapeXml(k)}"><value>${escapeXml(v)}</value></Data>`)
+      .join('');
+    return `    <Placemark id="${escapeXml(r.id)}">
+      <name>${escapeXml(featureName(r, schema))}</name>
+      <styleUrl>#layer</styleUrl>
+      <ExtendedData>${data}</ExtendedData>
+      ${toKmlGeometry(r.geometry!)}
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(schema.name)}</name>
+    <Style id="layer">
+      <LineStyle><color>${toKmlColor(schema.color)}</color><width>3</width></LineStyle>
+      <PolyStyle><color>${toKmlColor(schema.color, '66')}</color></PolyStyle>
+    </Style>
+${placemarks.join('\n')}
+  </Document>
+</kml>`;
+};
+
+// GPX has no polygons: each ring is written as a closed track segment
+export const toGPX = (records: DataRecord[], schema: TableSchema) => {
+  const describe = (r: DataRecord) => Object.entries(exportProperties(r, schema))
+    .filter(([, v]) => v !== null)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('\n');
+
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  records.filter(r => r.geometry).forEach(r => {
+    const geometry = r.geometry!;
+    const name = escapeXml(featureName(r, schema));
+    const desc = escapeXml(describe(r));
+
+    if (getSimpleType(geometry.type) === 'Point') {
+      getPoints(geometry).forEach(([lat, lng]) => {
+        waypoints.push(`  <wpt lat="${lat}" lon="${lng}"><name>${name}</name><desc>${desc}</desc></wpt>`);
+      });
+      return;
+    }
+
+    const segments = getSimpleType(geometry.type) === 'Polygon'
+      ? getPolygons(geometry).flat().map(closeRing)
+      : getLines(geometry);
+    const trksegs = segments
+      .map(seg => `<trkseg>${seg.map(([lat, lng]) => `<trkpt lat="${lat}" lon="${lng}"></trkpt>`).join('')}</trkseg>`)
+      .join('');
+    tracks.push(`  <trk><name>${name}</name><desc>${desc}</desc>${trksegs}</trk>`);
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="GeoNexus" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(schema.name)}</name></metadata>
+${[...waypoints, ...tracks].join('\n')}
+</gpx>`;
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Writes the records of one layer in the requested format and triggers the download.
+// KML and GPX are WGS84 by definition; only GeoJSON is written in the requested CRS.
+// When the records have attachments and `loadAttachment` is given, the layer file and the
+// attachment files are downloaded together as a zip archive.
+export const exportLayer = async (
+  records: DataRecord[],
+  schema: TableSchema,
+  format: LayerExportFormat,
+  crs = WGS84,
+  loadAttachment?: (id: string) => Promise<StoredAttachment | null>
+) => {
+  const meta = LAYER_EXPORT_FORMATS.find(f => f.value === format)!;
+  const content =
+    format === 'kml' ? toKML(records, schema) :
+    format === 'gpx' ? toGPX(records, schema) :
+    toGeoJSON(records, schema, crs);
+  const safeName = schema.name.trim().replace(/[^a-z0-9_-]+/gi, '_') || 'layer';
+  const attachments: AttachmentRef[] = schema.fields
+    .filter(f => f.type === 'attachment')
+    .flatMap(f => records.flatMap(r => attachmentRefs(r.data[f.name])));
+  if (!loadAttachment || attachments.length === 0) {
+    downloadFile(content, `${safeName}.${meta.extension}`, meta.mimeType);
+    return;
+  }
+
+  const files: Record<string, Uint8Array> = { [`${safeName}.${meta.extension}`]: strToU8(content) };
+  for (const ref of attachments) {
+    const stored = await loadAttachment(ref.id);
+    // Files no longer available are left out; the layer still names them
+    if (stored) files[attachmentPath(ref)] = new Uint8Array(await stored.data.arrayBuffer());
+  }
+  // Photos and PDFs are already compressed
+  downloadFile(zipSync(files, { level: 0 }), `${safeName}.zip`, 'application/zip');
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FieldDefinition } from '../types';
+import { convertValue, validateValue } from './dataImport';
+
+const dateField: FieldDefinition = { id: 'f1', name: 'visited', label: 'Visited', type: 'date', required: false };
+const dateTimeField: FieldDefinition = { ...dateField, type: 'datetime' };
+
+describe('date values', () => {
+  it('reads ISO and day-first dates as written', () => {
+    expect(convertValue('2024-03-05', dateField)).toBe('2024-03-05');
+    expect(convertValue('5/3/2024', dateField)).toBe('2024-03-05');
+    expect(convertValue('05.03.2024 14:30', dateTimeField)).toBe('2024-03-05T14:30');
+    expect(convertValue('2024-03-05 14:30:12', dateTimeField)).toBe('2024-03-05T14:30');
+  });
+
+  it('reads timestamps with a time zone as a moment', () => {
+    const moment = new Date('2024-03-05T14:30:00+02:00');
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const local = `${moment.getFullYear()}-${pad(moment.getMonth() + 1)}-${pad(moment.getDate())}T${pad(moment.getHours())}:${pad(moment.getMinutes())}`;
+    expect(validateValue('2024-03-05T14:30:00+02:00', dateTimeField)).toBeNull();
+    expect(convertValue('2024-03-05T14:30:00+02:00', dateTimeField)).toBe(local);
+    expect(validateValue('2024-03-05T12:30Z', dateTimeField)).toBeNull();
+  });
+
+  it.each(['12', '1.5', 'Room 5', 12, 'March 5', '2024-02-30', '31/02/2024'])('rejects %j', value => {
+    expect(validateValue(value, dateField)).toBe('Not a valid date');
+    expect(validateValue(value, dateTimeField)).toBe('Not a valid date');
+    expect(convertValue(value, dateField)).toBe('');
+    expect(convertValue(value, dateTimeField)).toBe('');
+  });
+});
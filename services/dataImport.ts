@@ -0,0 +1,635 @@
+import { DataRecord, FeatureGeometry, FieldDefinition, FieldType, GeometryType, TableSchema } from "../types";
+import { getSimpleType } from "../lib/geometry";
+import { WGS84, crsFromGeoJSON, geometryFromCrs, getCrs, isGeographic, toWgs84 } from "./crs";
+import { COLOR_PATTERN, EMAIL_PATTERN, PHONE_PATTERN, isWebUrl } from "./fieldFormat";
+
+// --- Shared import pipeline ---
+// Every file parser produces an ImportDataset; schema proposal and record creation
+// are then identical whatever the source format.
+
+export interface ImportedFeature {
+  geometry?: FeatureGeometry;
+  properties: Record<string, any>;
+  row?: number; // Line in the source file, when it has lines
+}
+
+// A problem with one feature, reported before anything is written
+export interface ImportRowError {
+  index: number; // Position in ImportDataset.features
+  row: number;
+  field?: string;
+  value?: string;
+  message: string;
+}
+
+export interface ImportDataset {
+  name: string;
+  features: ImportedFeature[];
+  properties: string[]; // Property names in first-seen order
+  warnings: string[];
+  rowErrors: ImportRowError[]; // Features whose source could not be read (e.g. bad coordinates)
+  fieldTypes?: Record<string, FieldType>; // Types declared by the source format (e.g. DBF columns)
+  crs?: string; // CRS the coordinates were read in, when the source declares a known code
+}
+
+// Source property -> target field name ('' = ignored)
+export type FieldMapping = Record<string, string>;
+
+const genId = () => Math.random().toString(36).substr(2, 9);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const SELECT_MAX_OPTIONS = 12;
+
+const SCHEMA_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export const sanitizeFieldName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9_]/g, '_') || 'field';
+
+const toLabel = (name: string) =>
+  name.replace(/[_-]+/g, ' ').trim().replace(/\b\w/g, c => c.toUpperCase()) || name;
+
+const collectProperties = (features: ImportedFeature[]) => {
+  const seen = new Set<string>();
+  features.forEach(f => Object.keys(f.properties).forEach(k => seen.add(k)));
+  return Array.from(seen);
+};
+
+export const createDataset = (name: string, features: ImportedFeature[], warnings: string[] = [], rowErrors: ImportRowError[] = []): ImportDataset => ({
+  name,
+  features,
+  properties: collectProperties(features),
+  warnings,
+  rowErrors
+});
+
+// Geometries are reprojected to WGS84 on the way in; an unknown source CRS is an error, not a silent misplacement
+export const requireCrs = (code: string) => {
+  if (!getCrs(code)) {
+    throw new Error(`Unknown coordinate system "${code}". Define it in Map Configuration or choose another one.`);
+  }
+  return code;
+};
+
+const rowOf = (dataset: ImportDataset, index: number) => dataset.features[index]?.row ?? index + 1;
+
+// Collapse repeated warnings into one line each
+export const summarizeWarnings = (warnings: string[]) => {
+  const counts = new Map<string, number>();
+  warnings.forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+  return Array.from(counts, ([w, n]) => n > 1 ? `${w} (${n} features)` : w);
+};
+
+// --- Values ---
+
+const NUMERIC = /^-?(0|[1-9]\d*)([.,]\d+)?$/;
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'oui'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'non'];
+const DMY_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[ T](\d{1,2}):(\d{2}))?$/;
+
+const parseNumber = (value: any) => typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+
+const ISO_LOCAL_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+const ISO_ZONED_DATE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+interface DateParts {
+  year: number;
+  month: number; // 1 to 12
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const datePart = ({ year, month, day }: DateParts) => `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+const dateTimePart = (parts: DateParts) => `${datePart(parts)}T${pad(parts.hours)}:${pad(parts.minutes)}`;
+
+// Rejects days a month does not have, such as 31/02/2024
+const validParts = (year: number, month: number, day: number, hours: number, minutes: number): DateParts | null => {
+  const check = new Date(Date.UTC(year, month - 1, day));
+  const valid = check.getUTCFullYear() === year && check.getUTCMonth() === month - 1 && check.getUTCDate() === day && hours < 24 && minutes < 60;
+  return valid ? { year, month, day, hours, minutes } : null;
+};
+
+// ISO dates, plus day-first dates (31/12/2024, 31.12.2024 14:30) common in spreadsheets. The app
+// stores dates and times as local wall-clock text (as datetime inputs give them), so text without a
+// time zone is taken as written; only text with a 'Z' or an offset is a moment, read in local time.
+// Nothing else is a date: the browser's lenient parsing would read "12" or "Room 5" as one.
+const parseDate = (value: any): DateParts | null => {
+  const text = String(value).trim();
+  const dmy = text.match(DMY_DATE);
+  if (dmy) return validParts(Number(dmy[3]), Number(dmy[2]), Number(dmy[1]), Number(dmy[4] || 0), Number(dmy[5] || 0));
+  const iso = text.match(ISO_LOCAL_DATE);
+  if (iso) return validParts(Number(iso[1]), Number(iso[2]), Number(iso[3]), Number(iso[4] || 0), Number(iso[5] || 0));
+  if (!ISO_ZONED_DATE.test(text)) return null;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), hours: date.getHours(), minutes: date.getMinutes() };
+};
+
+// Select values may be given either as the stored value or as the displayed label
+const findOption = (field: FieldDefinition, value: any) => {
+  const text = String(value).trim().toLowerCase();
+  return field.options?.find(o => o.value.toLowerCase() === text || o.label.toLowerCase() === text);
+};
+
+// Multiple choices come as a list, or as text separated by semicolons or commas
+const splitChoices = (value: any): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(/[;,]/)).map(v => v.trim()).filter(Boolean);
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// --- Inference ---
+
+export const inferFieldType = (values: any[]): { type: FieldType; options?: string[] } => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length === 0) return { type: 'text' };
+
+  if (present.every(v => typeof v === 'boolean')) return { type: 'boolean' };
+  if (present.every(v => typeof v === 'number' && isFinite(v))) return { type: 'number' };
+
+  if (present.every(v => typeof v === 'string')) {
+    // Text sources (CSV, DBF) carry every value as a string
+    if (present.every(v => NUMERIC.test(v.trim()))) return { type: 'number' };
+    if (present.every(v => ['true', 'false'].includes(v.trim().toLowerCase()))) return { type: 'boolean' };
+    if (present.every(v => ISO_DATE.test(v))) return { type: 'date' };
+    if (present.every(v => ISO_DATETIME.test(v))) return { type: 'datetime' };
+
+    // Few distinct values repeated across many features read as a list
+    const distinct = Array.from(new Set(present as string[]));
+    if (present.length >= 5 && distinct.length <= SELECT_MAX_OPTIONS && distinct.length <= present.length / 2) {
+      return { type: 'select', options: distinct.sort() };
+    }
+  }
+
+  return { type: 'text' };
+};
+
+export const inferGeometryType = (features: ImportedFeature[]): GeometryType => {
+  const types = new Set(features.filter(f => f.geometry).map(f => getSimpleType(f.geometry!.type)));
+  if (types.size === 0) return 'none';
+  if (types.size > 1) return 'mixed';
+  const [type] = Array.from(types);
+  if (type === 'Point') return 'point';
+  if (type === 'LineString') return 'line';
+  return 'polygon';
+};
+
+export const proposeSchema = (dataset: ImportDataset, existingCount = 0): TableSchema => {
+  const usedNames = new Set<string>();
+  const fields: FieldDefinition[] = dataset.properties.map(prop => {
+    let name = sanitizeFieldName(prop);
+    while (usedNames.has(name)) name = `${name}_`;
+    usedNames.add(name);
+
+    // Declared types win, except that declared text may still read as a list
+    const inferred = inferFieldType(dataset.features.map(f => f.properties[prop]));
+    const declared = dataset.fieldTypes?.[prop];
+    const { type, options } = declared && !(declared === 'text' && inferred.type === 'select') ? { type: declared, options: undefined } : inferred;
+    return {
+      id: genId(),
+      name,
+      label: toLabel(prop),
+      type,
+      required: false,
+      sortable: true,
+      filterable: true,
+      ...(options ? { options: options.map(o => ({ label: o, value: o })) } : {})
+    };
+  });
+
+  const geometryType = inferGeometryType(dataset.features);
+  return {
+    id: '',
+    name: dataset.name,
+    description: `Imported from ${dataset.name}`,
+    geometryType,
+    color: SCHEMA_COLORS[existingCount % SCHEMA_COLORS.length],
+    fields,
+    visibleInData: true,
+    visibleInMap: geometryType !== 'none',
+    isDefaultVisibleInMap: true,
+    allowNonSpatialEntry: geometryType === 'none',
+    mapDisplayMode: 'tooltip',
+    hoverFields: fields.slice(0, 2).map(f => f.name)
+  };
+};
+
+// Maps each property to the proposed field created for it
+export const identityMapping = (dataset: ImportDataset, schema: TableSchema): FieldMapping =>
+  Object.fromEntries(dataset.properties.map((prop, i) => [prop, schema.fields[i]?.name || '']));
+
+// Maps properties to existing fields with a matching name or label
+export const guessMapping = (dataset: ImportDataset, schema: TableSchema): FieldMapping =>
+  Object.fromEntries(dataset.properties.map(prop => {
+    const key = sanitizeFieldName(prop);
+    const field = schema.fields.find(f => f.name === key || f.label.toLowerCase() === prop.trim().toLowerCase());
+    return [prop, field ? field.name : ''];
+  }));
+
+// --- Record creation ---
+
+export const convertValue = (value: any, field: FieldDefinition): any => {
+  if (value === null || value === undefined || value === '') return field.type === 'boolean' ? false : '';
+
+  switch (field.type) {
+    case 'number': {
+      const n = parseNumber(value);
+      return isFinite(n) ? n : '';
+    }
+    case 'boolean':
+      return value === true || TRUE_VALUES.includes(String(value).trim().toLowerCase());
+    case 'date': {
+      const d = parseDate(value);
+      return d ? datePart(d) : '';
+    }
+    case 'datetime': {
+      const d = parseDate(value);
+      return d ? dateTimePart(d) : '';
+    }
+    case 'select':
+      return findOption(field, value)?.value ?? String(value);
+    case 'multiselect':
+      return splitChoices(value).map(choice => findOption(field, choice)?.value ?? choice);
+    case 'richtext':
+      // Imported text is plain; its line breaks are kept
+      return escapeText(String(value)).replace(/\r?\n/g, '<br>');
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+// Returns why a source value cannot be stored in the field, or null when it can
+export const validateValue = (value: any, field: FieldDefinition): string | null => {
+  if (value === null || value === undefined || String(value).trim() === '') {
+    return field.required ? 'Required value is missing' : null;
+  }
+
+  switch (field.type) {
+    case 'number':
+      return isFinite(parseNumber(value)) ? null : 'Not a number';
+    case 'date':
+    case 'datetime':
+      return parseDate(value) ? null : 'Not a valid date';
+    case 'boolean': {
+      const text = String(value).trim().toLowerCase();
+      return value === true || value === false || TRUE_VALUES.includes(text) || FALSE_VALUES.includes(text) ? null : 'Not a yes/no value';
+    }
+    case 'select':
+      return !field.options?.length || findOption(field, value)
+        ? null
+        : `Not one of the list options (${field.options.map(o => o.label).join(', ')})`;
+    case 'multiselect': {
+      const unknown = field.options?.length ? splitChoices(value).filter(choice => !findOption(field, choice)) : [];
+      return unknown.length === 0 ? null : `Not among the list options: ${unknown.join(', ')}`;
+    }
+    case 'url':
+      return isWebUrl(String(value).trim()) ? null : 'Not a web address';
+    case 'email':
+      return EMAIL_PATTERN.test(String(value).trim()) ? null : 'Not an email address';
+    case 'phone':
+      return PHONE_PATTERN.test(String(value).trim()) ? null : 'Not a phone number';
+    case 'color':
+      return COLOR_PATTERN.test(String(value).trim()) ? null : 'Not a color such as #3b82f6';
+    default:
+      return null;
+  }
+};
+
+// Checks every feature against the target fields; rows already rejected by the parser are included
+export const validateRecords = (dataset: ImportDataset, schema: TableSchema, mapping: FieldMapping): ImportRowError[] => {
+  const sources = Object.fromEntries(Object.entries(mapping).filter(([, name]) => name).map(([prop, name]) => [name, prop]));
+  const errors: ImportRowError[] = [...dataset.rowErrors];
+
+  dataset.features.forEach((feature, index) => {
+    schema.fields.forEach(field => {
+      const prop = sources[field.name];
+      const value = prop !== undefined ? feature.properties[prop] : undefined;
+      const message = validateValue(value, field);
+      if (message) {
+        errors.push({ index, row: rowOf(dataset, index), field: field.label, value: value === undefined || value === null ? '' : String(value), message });
+      }
+    });
+  });
+
+  return errors.sort((a, b) => a.index - b.index);
+};
+
+const GEOMETRY_KINDS: Record<GeometryType, FeatureGeometry['type'][]> = {
+  point: ['Point'],
+  line: ['LineString'],
+  polygon: ['Polygon'],
+  mixed: ['Point', 'LineString', 'Polygon'],
+  none: []
+};
+
+// Multi-part geometries go wherever their single-part kind does
+export const acceptsGeometry = (geometryType: GeometryType, geometry?: FeatureGeometry) =>
+  !!geometry && GEOMETRY_KINDS[geometryType].includes(getSimpleType(geometry.type));
+
+export const buildRecords = (dataset: ImportDataset, schema: TableSchema, mapping: FieldMapping): DataRecord[] => {
+  const now = new Date().toISOString();
+  return dataset.features.map(feature => {
+    const data: Record<string, any> = {};
+    Object.entries(mapping).forEach(([prop, fieldName]) => {
+      const field = schema.fields.find(f => f.name === fieldName);
+      if (field) data[field.name] = convertValue(feature.properties[prop], field);
+    });
+    return {
+      id: genId(),
+      tableId: schema.id,
+      geometry: acceptsGeometry(schema.geometryType, feature.geometry) ? feature.geometry : undefined,
+      data,
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+};
+
+// --- GeoJSON ---
+
+// GeoJSON positions are [lng, lat]; the app stores [lat, lng]
+const toLatLng = (position: number[]): [number, number] => [position[1], position[0]];
+
+// Rings are stored without the closing position
+const openRing = (ring: number[][]) => {
+  const coords = ring.map(toLatLng);
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  if (coords.length > 1 && first[0] === last[0] && first[1] === last[1]) coords.pop();
+  return coords;
+};
+
+export const fromGeoJSONGeometry = (geometry: any, warnings: string[]): FeatureGeometry | undefined => {
+  if (!geometry) return undefined;
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: toLatLng(geometry.coordinates) };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: geometry.coordinates.map(toLatLng) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: geometry.coordinates.map(toLatLng) };
+    case 'MultiLineString':
+      return { type: 'MultiLineString', coordinates: geometry.coordinates.map((line: number[][]) => line.map(toLatLng)) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: geometry.coordinates.map(openRing) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: geometry.coordinates.map((rings: number[][][]) => rings.map(openRing)) };
+    default:
+      warnings.push(`Unsupported geometry type "${geometry.type}" was skipped.`);
+      return undefined;
+  }
+};
+
+// The "crs" member of the file is used unless a source CRS is given
+export const parseGeoJSON = (text: string, fileName: string, crs?: string): ImportDataset => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const rawFeatures: any[] =
+    json?.type === 'FeatureCollection' ? json.features :
+    json?.type === 'Feature' ? [json] :
+    null;
+  if (!Array.isArray(rawFeatures)) {
+    throw new Error("Expected a GeoJSON FeatureCollection.");
+  }
+
+  const detected = crsFromGeoJSON(json.crs);
+  const source = requireCrs(crs || detected || WGS84);
+
+  const warnings: string[] = [];
+  const features = rawFeatures.map(f => {
+    const geometry = fromGeoJSONGeometry(f.geometry, warnings);
+    return {
+      geometry: geometry && geometryFromCrs(geometry, source),
+      properties: { ...(f.properties || {}) }
+    };
+  });
+
+  const dataset = createDataset(json.name || fileName.replace(/\.(geo)?json$/i, ''), features, summarizeWarnings(warnings));
+  return { ...dataset, crs: source };
+};
+
+// --- WKT ---
+
+const WKT_GEOMETRY = /^\s*(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON)\s*(?:Z|M|ZM)?\s*\((.*)\)\s*$/is;
+const WKT_POSITION = /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?(?:\s+-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)+/gi;
+
+// Turns the parenthesised WKT body into nested arrays of "lng lat [z]" positions
+const parseWKTBody = (body: string): any[] => {
+  const json = body
+    .replace(WKT_POSITION, position => `[${position.trim().split(/\s+/).join(',')}]`)
+    .replace(/\(/g, '[')
+    .replace(/\)/g, ']');
+  try {
+    return JSON.parse(`[${json}]`);
+  } catch (e) {
+    throw new Error('Invalid WKT coordinates');
+  }
+};
+
+export const parseWKT = (text: string): FeatureGeometry => {
+  const match = text.match(WKT_GEOMETRY);
+  if (!match) {
+    const type = text.trim().split(/[\s(]/)[0] || 'empty value';
+    throw new Error(`Unsupported or invalid WKT (${type})`);
+  }
+  const [, type, body] = match;
+  const items = parseWKTBody(body);
+
+  switch (type.toUpperCase()) {
+    case 'POINT':
+      return { type: 'Point', coordinates: toLatLng(items[0]) };
+    case 'MULTIPOINT':
+      // Both MULTIPOINT (1 2, 3 4) and MULTIPOINT ((1 2), (3 4)) are valid
+      return { type: 'MultiPoint', coordinates: items.map(p => toLatLng(typeof p[0] === 'number' ? p : p[0])) };
+    case 'LINESTRING':
+      return { type: 'LineString', coordinates: items.map(toLatLng) };
+    case 'MULTILINESTRING':
+      return { type: 'MultiLineString', coordinates: items.map((line: number[][]) => line.map(toLatLng)) };
+    case 'POLYGON':
+      return { type: 'Polygon', coordinates: items.map(openRing) };
+    default:
+      return { type: 'MultiPolygon', coordinates: items.map((rings: number[][][]) => rings.map(openRing)) };
+  }
+};
+
+// --- CSV ---
+
+export interface CsvTable {
+  name: string;
+  delimiter: string;
+  columns: string[];
+  rows: { line: number; cells: string[] }[];
+}
+
+export const CSV_DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+// Picks the candidate that splits the header line into the most columns
+export const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const count = header.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// RFC 4180 parsing: quoted cells may contain delimiters, doubled quotes and line breaks
+const parseCSVRows = (text: string, delimiter: string, keepBlankRows = false) => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (keepBlankRows || cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+};
+
+export const parseCSV = (text: string, fileName: string, delimiter = detectDelimiter(text)): CsvTable => {
+  const rows = parseCSVRows(text.replace(/^\uFEFF/, ''), delimiter);
+  if (rows.length === 0) throw new Error("The file is empty.");
+
+  // Blank or repeated headers still need distinct property names
+  const used = new Set<string>();
+  const columns = rows[0].cells.map((header, i) => {
+    let name = header.trim() || `column_${i + 1}`;
+    while (used.has(name)) name = `${name}_${i + 1}`;
+    used.add(name);
+    return name;
+  });
+
+  return {
+    name: fileName.replace(/\.(csv|tsv|txt)$/i, ''),
+    delimiter,
+    columns,
+    rows: rows.slice(1)
+  };
+};
+
+// Cells copied from a spreadsheet: tab separated and quoted as in a CSV file. Blank rows are kept
+// so pasted rows stay aligned; the line break spreadsheets end the copy with is not a row.
+export const parseTabularText = (text: string): string[][] =>
+  parseCSVRows(text.replace(/\r?\n$/, ''), '\t', true).map(row => row.cells);
+
+// Where point geometries come from in a CSV
+export type CoordinateSource =
+  | { kind: 'latlng'; lat: string; lng: string }
+  | { kind: 'wkt'; column: string }
+  | { kind: 'none' };
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y', 'lat_dd', 'latitude_dd'];
+const LNG_COLUMNS = ['lng', 'lon', 'long', 'longitude', 'x', 'lon_dd', 'longitude_dd'];
+const WKT_COLUMNS = ['wkt', 'geom', 'geometry', 'the_geom', 'shape'];
+
+export const guessCoordinateSource = (columns: string[]): CoordinateSource => {
+  const find = (names: string[]) => columns.find(c => names.includes(c.trim().toLowerCase()));
+  const lat = find(LAT_COLUMNS);
+  const lng = find(LNG_COLUMNS);
+  if (lat && lng) return { kind: 'latlng', lat, lng };
+  const wkt = find(WKT_COLUMNS);
+  if (wkt) return { kind: 'wkt', column: wkt };
+  return { kind: 'none' };
+};
+
+export const coordinateColumns = (source: CoordinateSource) =>
+  source.kind === 'latlng' ? [source.lat, source.lng] : source.kind === 'wkt' ? [source.column] : [];
+
+// In a projected CRS the latitude column holds Y and the longitude column X
+const readPoint = (latText: string, lngText: string, crs: string): FeatureGeometry => {
+  const lat = parseNumber(latText);
+  const lng = parseNumber(lngText);
+  if (!isFinite(lat) || !isFinite(lng)) throw new Error('Coordinates are not numbers');
+  if (!isGeographic(crs)) {
+    const position = toWgs84(crs, [lng, lat]);
+    if (!position.every(isFinite)) throw new Error(`Coordinates are outside the area of ${crs}`);
+    return { type: 'Point', coordinates: position };
+  }
+  if (Math.abs(lat) > 90) throw new Error('Latitude must be between -90 and 90');
+  if (Math.abs(lng) > 180) throw new Error('Longitude must be between -180 and 180');
+  return { type: 'Point', coordinates: toWgs84(crs, [lng, lat]) };
+};
+
+// Every column stays a property; the coordinate columns are only read for geometry
+export const csvToDataset = (table: CsvTable, source: CoordinateSource, crs = WGS84): ImportDataset => {
+  requireCrs(crs);
+  const rowErrors: ImportRowError[] = [];
+
+  const features = table.rows.map(({ line, cells }, index) => {
+    const properties = Object.fromEntries(table.columns.map((column, i) => [column, (cells[i] ?? '').trim()]));
+    const feature: ImportedFeature = { properties, row: line };
+
+    try {
+      if (source.kind === 'latlng') {
+        const lat = properties[source.lat];
+        const lng = properties[source.lng];
+        if (lat !== '' || lng !== '') {
+          if (lat === '' || lng === '') throw new Error(isGeographic(crs) ? 'Latitude and longitude must both be set' : 'X and Y must both be set');
+          feature.geometry = readPoint(lat, lng, crs);
+        }
+      } else if (source.kind === 'wkt' && properties[source.column] !== '') {
+        feature.geometry = geometryFromCrs(parseWKT(properties[source.column]), crs);
+      }
+    } catch (e) {
+      const column = source.kind === 'latlng' ? `${source.lat} / ${source.lng}` : source.kind === 'wkt' ? source.column : undefined;
+      const value = source.kind === 'latlng' ? `${properties[source.lat]} ${properties[source.lng]}` : source.kind === 'wkt' ? properties[source.column] : '';
+      rowErrors.push({ index, row: line, field: column, value, message: e instanceof Error ? e.message : String(e) });
+    }
+
+    return feature;
+  });
+
+  const dataset = createDataset(table.name, features, [], rowErrors);
+  return { ...dataset, properties: table.columns, crs };
+};
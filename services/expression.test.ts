@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+
+const run = (source: string, values: Record<string, any> = {}) => compileExpression(source).evaluate(values);
+
+describe('arithmetic', () => {
+  it('gives null when dividing by zero', () => {
+    expect(run('x / 0', { x: 5 })).toBeNull();
+    expect(run('x % 0', { x: 5 })).toBeNull();
+    expect(run('0 / 0')).toBeNull();
+  });
+
+  it('divides by other numbers', () => {
+    expect(run('x / 4', { x: 10 })).toBe(2.5);
+    expect(run('x % 4', { x: 10 })).toBe(2);
+  });
+});
+
+describe('names', () => {
+  it('reads only the record\'s own values and the given variables', () => {
+    expect(compileExpression('constructor').evaluate({})).toBeNull();
+    expect(compileExpression('$toString').evaluate({}, {})).toBeNull();
+    expect(run('constructor', { constructor: 'Acme' })).toBe('Acme');
+  });
+});
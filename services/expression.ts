@@ -0,0 +1,422 @@
+// --- Record expressions ---
+// A small formula language over one record's values, used by validation rules and computed fields,
+// e.g. `end_date >= start_date`, `concat(code, ' - ', name)` or `start + 7d`. Expressions are parsed
+// into a tree and interpreted; nothing is handed to eval. Names starting with $ are variables the
+// caller supplies, such as the record's $area.
+//
+// Empty values (missing, null or '') are null. Arithmetic and ordering with null give null, so a
+// rule over a field that has not been filled in is neither true nor false; `= null` tests emptiness.
+// Numbers held as text compare as numbers, other text compares as text, which keeps ISO dates
+// (YYYY-MM-DD, YYYY-MM-DDTHH:mm) in chronological order.
+// Durations are numbers of days: 7d, 2w and 12h read 7, 14 and 0.5. Adding days to a date gives a
+// date, and subtracting two dates gives the days between them.
+
+export type ExpressionValue = string | number | boolean | null;
+
+type Node =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'variable' | 'op' | 'end';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+// Lowest binding first
+const BINARY_LEVELS = [['or', '||'], ['and', '&&'], ['=', '==', '!=', '<>'], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+const KEYWORDS: Record<string, ExpressionValue> = { true: true, false: false, null: null };
+const DURATION_DAYS: Record<string, number> = { d: 1, w: 7, h: 1 / 24 };
+
+// Own keys only, so names like 'constructor' are not taken for built-ins or for a record's values
+const has = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) { i++; continue; }
+    const start = i;
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([dwh])?(?![A-Za-z0-9_])/.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected "${source[i + 1] ?? char}" at position ${i + 2}`);
+      i += match[0].length;
+      tokens.push({ type: 'number', text: String(Number(match[1]) * (match[2] ? DURATION_DAYS[match[2]] : 1)), position: start });
+    } else if (char === '"' || char === "'") {
+      let text = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i++];
+      }
+      if (i >= source.length) throw new Error(`Unterminated text starting at position ${start + 1}`);
+      i++;
+      tokens.push({ type: 'string', text, position: start });
+    } else if (char === '$') {
+      const match = /^\$[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+      if (!match) throw new Error(`Expected a variable name after "$" at position ${i + 1}`);
+      i += match[0].length;
+      tokens.push({ type: 'variable', text: match[0], position: start });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'name', text: match[0], position: start });
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+      i += op.length;
+      tokens.push({ type: 'op', text: op, position: start });
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  // 'and', 'or' and 'not' are words; everything else matches on the operator text
+  const isOperator = (token: Token, ops: string[]) =>
+    (token.type === 'op' || (token.type === 'name' && ['and', 'or', 'not'].includes(token.text.toLowerCase()))) && ops.includes(token.text.toLowerCase());
+  const expect = (text: string) => {
+    const token = next();
+    if (token.type !== 'op' || token.text !== text) {
+      throw new Error(token.type === 'end' ? `Expected "${text}" at the end` : `Expected "${text}" at position ${token.position + 1}`);
+    }
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (isOperator(peek(), BINARY_LEVELS[level])) {
+      const op = next().text.toLowerCase();
+      left = { kind: 'binary', op, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator(peek(), ['not', '!'])) {
+      next();
+      return { kind: 'unary', op: 'not', operand: parseUnary() };
+    }
+    if (isOperator(peek(), ['-'])) {
+      next();
+      return { kind: 'unary', op: '-', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    switch (token.type) {
+      case 'number': return { kind: 'literal', value: Number(token.text) };
+      case 'string': return { kind: 'literal', value: token.text };
+      case 'variable': return { kind: 'variable', name: token.text };
+      case 'name': {
+        if (isOperator(peek(), ['('])) {
+          next();
+          const args: Node[] = [];
+          if (!isOperator(peek(), [')'])) {
+            args.push(parseLevel(0));
+            while (isOperator(peek(), [','])) {
+              next();
+              args.push(parseLevel(0));
+            }
+          }
+          expect(')');
+          return { kind: 'call', name: token.text.toLowerCase(), args };
+        }
+        const keyword = token.text.toLowerCase();
+        if (has(KEYWORDS, keyword)) return { kind: 'literal', value: KEYWORDS[keyword] };
+        return { kind: 'field', name: token.text };
+      }
+      case 'op':
+        if (token.text === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.text}" at position ${token.position + 1}`);
+      default:
+        throw new Error('The expression ends too early');
+    }
+  };
+
+  const tree = parseLevel(0);
+  const rest = peek();
+  if (rest.type !== 'end') throw new Error(`Unexpected "${rest.text}" at position ${rest.position + 1}`);
+  return tree;
+};
+
+// --- Values ---
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+const toNumber = (value: ExpressionValue) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const toText = (value: ExpressionValue) => value === null ? '' : String(value);
+
+// Null stays unknown; text is true unless it is 'false', '0' or empty
+export const asBoolean = (value: ExpressionValue): boolean | null => {
+  if (value === null) return null;
+  if (typeof value === 'string') return !['false', '0', ''].includes(value.toLowerCase());
+  return Boolean(value);
+};
+
+const toDay = (value: ExpressionValue) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(toText(value));
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86400000 : NaN;
+};
+
+// Dates are shifted on the UTC calendar so a daylight saving change cannot move the time of day
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/;
+const isDate = (value: ExpressionValue) => typeof value === 'string' && DATE_PATTERN.test(value);
+
+const toTimestamp = (value: string) => {
+  const [, year, month, day, hours, minutes] = DATE_PATTERN.exec(value)!;
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0));
+};
+
+const shiftDate = (value: string, days: number): ExpressionValue => {
+  if (isNaN(days)) return null;
+  const date = new Date(toTimestamp(value) + Math.round(days * 1440) * 60000);
+  const day = date.toISOString().slice(0, 10);
+  // Date-only values stay dates unless hours were added
+  return value.length > 10 || !Number.isInteger(days) ? `${day}T${date.toISOString().slice(11, 16)}` : day;
+};
+
+const localDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Negative when a sorts before b
+const compare = (a: ExpressionValue, b: ExpressionValue) => {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!isNaN(numA) && !isNaN(numB)) return numA - numB;
+  const textA = toText(a);
+  const textB = toText(b);
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+};
+
+const equals = (a: ExpressionValue, b: ExpressionValue) => {
+  if (a === null || b === null) return a === b;
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!isNaN(numA) && !isNaN(numB)) return numA === numB;
+  return toText(a).toLowerCase() === toText(b).toLowerCase();
+};
+
+// Arithmetic without a number as its result, such as a division by zero, gives null
+const numeric = (fn: (...values: number[]) => number) => (...args: ExpressionValue[]): ExpressionValue => {
+  if (args.some(a => a === null)) return null;
+  const values = args.map(toNumber);
+  if (values.some(isNaN)) return null;
+  const result = fn(...values);
+  return isFinite(result) ? result : null;
+};
+
+const FUNCTIONS: Record<string, { args: [number, number]; fn: (...args: ExpressionValue[]) => ExpressionValue; help: string }> = {
+  today: { args: [0, 0], fn: () => localDate(new Date()), help: "today's date" },
+  now: { args: [0, 0], fn: () => `${localDate(new Date())}T${new Date().toTimeString().slice(0, 5)}`, help: 'the current date and time' },
+  days: {
+    args: [2, 2],
+    fn: (from, to) => {
+      const days = toDay(to) - toDay(from);
+      return isNaN(days) ? null : days;
+    },
+    help: 'days from the first date to the second'
+  },
+  concat: { args: [1, Infinity], fn: (...values) => values.map(toText).join(''), help: 'joins texts; empty values are skipped' },
+  len: { args: [1, 1], fn: value => value === null ? null : toText(value).length, help: 'length of a text' },
+  lower: { args: [1, 1], fn: value => value === null ? null : toText(value).toLowerCase(), help: 'text in lower case' },
+  upper: { args: [1, 1], fn: value => value === null ? null : toText(value).toUpperCase(), help: 'text in upper case' },
+  abs: { args: [1, 1], fn: numeric(Math.abs), help: 'absolute value' },
+  round: { args: [1, 2], fn: numeric((value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits), help: 'rounds to the given decimals' },
+  min: { args: [1, Infinity], fn: numeric(Math.min), help: 'smallest of the values' },
+  max: { args: [1, Infinity], fn: numeric(Math.max), help: 'largest of the values' },
+  coalesce: { args: [1, Infinity], fn: (...values) => values.find(v => v !== null) ?? null, help: 'first value that is not empty' },
+  if: { args: [3, 3], fn: (condition, then, otherwise) => asBoolean(condition) ? then : otherwise, help: 'second value when the first is true, else the third' }
+};
+
+export const EXPRESSION_FUNCTIONS = Object.entries(FUNCTIONS).map(([name, f]) => ({ name, help: f.help }));
+
+const evaluate = (node: Node, values: Record<string, any>, variables: ExpressionVariables): ExpressionValue => {
+  const evaluateChild = (child: Node) => evaluate(child, values, variables);
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+    case 'variable': {
+      const table = node.kind === 'field' ? values : variables;
+      if (!has(table, node.name)) return null;
+      const value = table[node.name];
+      if (isEmpty(value)) return null;
+      return typeof value === 'object' ? JSON.stringify(value) : value;
+    }
+    case 'unary': {
+      const operand = evaluateChild(node.operand);
+      if (node.op === 'not') {
+        const bool = asBoolean(operand);
+        return bool === null ? null : !bool;
+      }
+      return numeric(v => -v)(operand);
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      return fn.fn(...node.args.map(evaluateChild));
+    }
+    case 'binary': {
+      // and/or treat null as unknown: false and null is false, true or null is true
+      if (node.op === 'and' || node.op === '&&') {
+        const left = asBoolean(evaluateChild(node.left));
+        if (left === false) return false;
+        const right = asBoolean(evaluateChild(node.right));
+        return right === false ? false : left === null || right === null ? null : true;
+      }
+      if (node.op === 'or' || node.op === '||') {
+        const left = asBoolean(evaluateChild(node.left));
+        if (left === true) return true;
+        const right = asBoolean(evaluateChild(node.right));
+        return right === true ? true : left === null || right === null ? null : false;
+      }
+      const left = evaluateChild(node.left);
+      const right = evaluateChild(node.right);
+      switch (node.op) {
+        case '=': case '==': return equals(left, right);
+        case '!=': case '<>': return !equals(left, right);
+      }
+      if (left === null || right === null) return null;
+      switch (node.op) {
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+        case '+':
+          if (isDate(left) && !isDate(right)) return shiftDate(left as string, toNumber(right));
+          if (isDate(right) && !isDate(left)) return shiftDate(right as string, toNumber(left));
+          // Joins text unless both sides are numbers
+          return isNaN(toNumber(left)) || isNaN(toNumber(right)) ? toText(left) + toText(right) : toNumber(left) + toNumber(right);
+        case '-':
+          if (isDate(left) && isDate(right)) return (toTimestamp(left as string) - toTimestamp(right as string)) / 86400000;
+          if (isDate(left)) return shiftDate(left as string, -toNumber(right));
+          return numeric((a, b) => a - b)(left, right);
+        case '*': return numeric((a, b) => a * b)(left, right);
+        case '/': return numeric((a, b) => a / b)(left, right);
+        case '%': return numeric((a, b) => a % b)(left, right);
+      }
+      throw new Error(`Unknown operator ${node.op}`);
+    }
+  }
+};
+
+const collectNames = (node: Node, kind: 'field' | 'variable', into: Set<string>) => {
+  if (node.kind === kind) into.add(node.name);
+  if (node.kind === 'unary') collectNames(node.operand, kind, into);
+  if (node.kind === 'binary') { collectNames(node.left, kind, into); collectNames(node.right, kind, into); }
+  if (node.kind === 'call') node.args.forEach(arg => collectNames(arg, kind, into));
+  return into;
+};
+
+const checkCalls = (node: Node) => {
+  if (node.kind === 'call') {
+    const fn = has(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+    if (!fn) throw new Error(`Unknown function ${node.name}()`);
+    const [min, max] = fn.args;
+    if (node.args.length < min || node.args.length > max) {
+      throw new Error(min === max ? `${node.name}() takes ${min} argument${min === 1 ? '' : 's'}` : `${node.name}() takes ${min} or more arguments`);
+    }
+  }
+  if (node.kind === 'unary') checkCalls(node.operand);
+  if (node.kind === 'binary') { checkCalls(node.left); checkCalls(node.right); }
+  if (node.kind === 'call') node.args.forEach(checkCalls);
+};
+
+// Values of the $ names, keyed with the $
+export type ExpressionVariables = Record<string, any>;
+
+// The variables record forms provide (see services/formulas.ts)
+export const EXPRESSION_VARIABLES = [
+  { name: '$area', help: 'area of the geometry in m²' },
+  { name: '$length', help: 'length of the lines, or perimeter of the polygons, in m' },
+  { name: '$lat', help: 'latitude of the geometry centre' },
+  { name: '$lng', help: 'longitude of the geometry centre' },
+  { name: '$currentUser', help: 'username of the signed-in user' }
+];
+
+export interface CompiledExpression {
+  fields: string[]; // Field names the expression reads
+  variables: string[];
+  evaluate: (values: Record<string, any>, variables?: ExpressionVariables) => ExpressionValue;
+}
+
+const cache = new Map<string, CompiledExpression>();
+
+// Throws with a readable message when the expression is malformed or calls an unknown function
+export const compileExpression = (source: string): CompiledExpression => {
+  let compiled = cache.get(source);
+  if (!compiled) {
+    if (!source.trim()) throw new Error('The expression is empty');
+    const tree = parse(source);
+    checkCalls(tree);
+    compiled = {
+      fields: [...collectNames(tree, 'field', new Set())],
+      variables: [...collectNames(tree, 'variable', new Set())],
+      evaluate: (values, variables = {}) => evaluate(tree, values, variables)
+    };
+    cache.set(source, compiled);
+  }
+  return compiled;
+};
+
+// The parse error of an expression checked against a table's field names, or null when it is valid
+export const checkExpression = (source: string, fieldNames: string[]): string | null => {
+  try {
+    const compiled = compileExpression(source);
+    const unknown = compiled.fields.filter(name => !fieldNames.includes(name));
+    if (unknown.length > 0) return `Unknown field${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+    const unknownVariables = compiled.variables.filter(name => !EXPRESSION_VARIABLES.some(v => v.name === name));
+    return unknownVariables.length > 0 ? `Unknown variable${unknownVariables.length > 1 ? 's' : ''}: ${unknownVariables.join(', ')}` : null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+// The expression with its field references renamed, after fields changed name in their table.
+// Function calls, text, keywords and the and/or/not words are left alone; an expression that does
+// not parse is returned unchanged.
+export const renameExpressionFields = (source: string, renames: Record<string, string>) => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return source;
+  }
+  let result = '';
+  let copied = 0;
+  tokens.forEach((token, i) => {
+    if (token.type !== 'name' || !has(renames, token.text)) return;
+    const word = token.text.toLowerCase();
+    if (has(KEYWORDS, word) || ['and', 'or', 'not'].includes(word)) return;
+    const following = tokens[i + 1];
+    if (following.type === 'op' && following.text === '(') return;
+    result += source.slice(copied, token.position) + renames[token.text];
+    copied = token.position + token.text.length;
+  });
+  return result + source.slice(copied);
+};
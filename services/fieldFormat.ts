@@ -0,0 +1,84 @@
+import { FieldDefinition, FieldOption, FieldType } from "../types";
+import { richTextToPlain } from "../lib/richText";
+
+// --- Typed field values ---
+// How values of the richer field types are read, written as text and linked. Multi-select fields
+// store a list of option values, numbers are shown with their precision and unit, and URL, email
+// and phone fields are plain text that the views turn into links.
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits with the usual separators and an optional international prefix
+export const PHONE_PATTERN = /^\+?[\d\s().-]{5,24}$/;
+export const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// No value: an empty list counts as empty too (multiple choices, many-to-many relations, attachments)
+export const isEmptyValue = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const isWebUrl = (text: string) => {
+  try {
+    const url = new URL(text);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const multiSelectValues = (value: any): string[] => {
+  if (Array.isArray(value)) return value.filter(v => v !== undefined && v !== null && v !== '').map(String);
+  return value === undefined || value === null || value === '' ? [] : [String(value)];
+};
+
+// The options picked in a multi-select field; values no longer among the options show as they are
+export const selectedOptions = (field: FieldDefinition, value: any): FieldOption[] =>
+  multiSelectValues(value).map(v => field.options?.find(o => o.value === v) || { value: v, label: v });
+
+export const formatNumber = (field: FieldDefinition, value: any) => {
+  if (value === undefined || value === null || value === '') return '';
+  const number = Number(value);
+  if (isNaN(number)) return String(value);
+  const text = field.precision !== undefined ? number.toFixed(field.precision) : String(number);
+  return field.unit ? `${text} ${field.unit}` : text;
+};
+
+// The value as one line of text, for tooltips, charts, prompts and exports
+export const formatFieldValue = (field: FieldDefinition, value: any): string => {
+  switch (field.type) {
+    case 'number': return formatNumber(field, value);
+    case 'multiselect': return selectedOptions(field, value).map(o => o.label).join(', ');
+    case 'richtext': return richTextToPlain(value).replace(/\n/g, ' ');
+    default: return value === undefined || value === null ? '' : String(value);
+  }
+};
+
+// Where a URL, email or phone value leads; null for other fields and for values that are not addresses
+export const fieldLink = (field: FieldDefinition, value: any): string | null => {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  switch (field.type) {
+    case 'url': return isWebUrl(text) ? text : null;
+    case 'email': return EMAIL_PATTERN.test(text) ? `mailto:${text}` : null;
+    case 'phone': return PHONE_PATTERN.test(text) ? `tel:${text.replace(/[^\d+]/g, '')}` : null;
+    default: return null;
+  }
+};
+
+// The HTML input type for fields typed into a plain input
+export const inputType = (type: FieldType) =>
+  type === 'number' ? 'number' : type === 'url' ? 'url' : type === 'email' ? 'email' : type === 'phone' ? 'tel' : 'text';
+
+// Step of a number input: 1 for whole numbers, 0.01 for two decimals, anything when unset
+export const numberStep = (field: FieldDefinition) =>
+  field.precision === undefined ? 'any' : field.precision === 0 ? '1' : (1 / 10 ** field.precision).toFixed(field.precision);
+
+// A comparable form of the value, so numbers typed in as text still sort as numbers
+export const sortValue = (type: FieldType | undefined, value: any): string | number => {
+  if (value === undefined || value === null || value === '') return '';
+  if (type === 'number') {
+    const number = Number(value);
+    return isNaN(number) ? String(value).toLowerCase() : number;
+  }
+  if (type === 'richtext') return richTextToPlain(value).toLowerCase();
+  if (Array.isArray(value)) return value.join(', ').toLowerCase();
+  return typeof value === 'number' ? value : String(value).toLowerCase();
+};
@@ -0,0 +1,82 @@
+import { FeatureGeometry, FieldDefinition, TableSchema } from "../types";
+import { geometryArea, geometryLength, getGeometryCenter } from "../lib/geometry";
+import { ExpressionValue, ExpressionVariables, compileExpression } from "./expression";
+import { multiSelectValues } from "./fieldFormat";
+
+// --- Computed fields and default values ---
+// Formulas and defaults are expressions (see services/expression.ts) over the record's fields and
+// the $ variables below. Fields are computed in table order, so a formula can use the computed
+// fields listed above it.
+
+export interface FormulaContext {
+  geometry?: FeatureGeometry | null;
+  username?: string;
+}
+
+export const expressionVariables = ({ geometry, username }: FormulaContext): ExpressionVariables => {
+  const center = geometry ? getGeometryCenter(geometry) : null;
+  return {
+    $area: geometry ? Math.round(geometryArea(geometry) * 100) / 100 : null,
+    $length: geometry ? Math.round(geometryLength(geometry) * 100) / 100 : null,
+    $lat: center?.[0] ?? null,
+    $lng: center?.[1] ?? null,
+    $currentUser: username ?? null
+  };
+};
+
+// Results are stored like typed-in values: numbers as numbers, empty as ''
+const toFieldValue = (field: FieldDefinition, value: ExpressionValue) => {
+  if (value === null) return '';
+  if (field.type === 'number') {
+    const number = Number(value);
+    if (isNaN(number) || !isFinite(number)) return '';
+    return field.precision !== undefined ? Number(number.toFixed(field.precision)) : number;
+  }
+  if (field.type === 'multiselect') return multiSelectValues(value);
+  if (field.type === 'boolean') return value === true || value === 'true' || value === 1;
+  if (field.type === 'date') return String(value).slice(0, 10);
+  return String(value);
+};
+
+// A broken expression leaves the field empty rather than blocking the save; the schema editor
+// rejects expressions that do not parse, so this only happens with data edited elsewhere
+const evaluateOrEmpty = (field: FieldDefinition, source: string, data: Record<string, any>, variables: ExpressionVariables) => {
+  try {
+    return toFieldValue(field, compileExpression(source).evaluate(data, variables));
+  } catch (e) {
+    console.warn(`Could not evaluate ${field.name}: ${e instanceof Error ? e.message : String(e)}`);
+    return '';
+  }
+};
+
+export const hasFormulas = (schema: TableSchema) => schema.fields.some(f => f.formula);
+
+// The data with every computed field recalculated
+export const applyFormulas = (schema: TableSchema, data: Record<string, any>, context: FormulaContext) => {
+  if (!hasFormulas(schema)) return data;
+  const variables = expressionVariables(context);
+  const next = { ...data };
+  schema.fields.forEach(field => {
+    if (field.formula) next[field.name] = evaluateOrEmpty(field, field.formula, next, variables);
+  });
+  return next;
+};
+
+// Initial data of a new record: defaults first, then the formulas that depend on them
+export const defaultRecordData = (schema: TableSchema, context: FormulaContext) => {
+  const variables = expressionVariables(context);
+  const data: Record<string, any> = {};
+  schema.fields.forEach(field => {
+    if (field.defaultValue && !field.formula) {
+      const value = evaluateOrEmpty(field, field.defaultValue, data, variables);
+      if (value !== '') data[field.name] = value;
+    }
+  });
+  return applyFormulas(schema, data, context);
+};
+
+// True when saving the new schema changes what its computed fields hold
+export const formulasChanged = (before: TableSchema | undefined, after: TableSchema) => {
+  const signature = (schema?: TableSchema) => JSON.stringify((schema?.fields || []).filter(f => f.formula).map(f => [f.name, f.type, f.formula]));
+  return signature(before) !== signature(after);
+};
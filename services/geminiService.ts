@@ -1,5 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { TableSchema, DataRecord } from "../types";
+import { attachmentRefs } from "./attachments";
+import { richTextToPlain } from "../lib/richText";
 
 export const analyzeData = async (schema: TableSchema, records: DataRecord[]) => {
   if (!process.env.API_KEY) {
@@ -8,9 +10,16 @@ export const analyzeData = async (schema: TableSchema, records: DataRecord[]) =>
 
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
-  // Prepare a summary of the data for the prompt
-  const recordSummary = records.map(r => r.data);
-  const fieldInfo = schema.fields.map(f => `${f.name} (${f.type})`).join(', ');
+  // Prepare a summary of the data for the prompt; attachments by file name, as thumbnails would only bloat it,
+  // and rich text without its markup
+  const attachmentFields = schema.fields.filter(f => f.type === 'attachment').map(f => f.name);
+  const richTextFields = schema.fields.filter(f => f.type === 'richtext').map(f => f.name);
+  const recordSummary = records.map(r => attachmentFields.length === 0 && richTextFields.length === 0 ? r.data : {
+    ...r.data,
+    ...Object.fromEntries(attachmentFields.map(name => [name, attachmentRefs(r.data[name]).map(a => a.name)])),
+    ...Object.fromEntries(richTextFields.map(name => [name, richTextToPlain(r.data[name])]))
+  });
+  const fieldInfo = schema.fields.map(f => `${f.name} (${f.type}${f.unit ? `, in ${f.unit}` : ''})`).join(', ');
 
   const prompt = `
     You are a GIS data analyst. I will provide you with a dataset from a schema named "${schema.name}".
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { FieldDefinition } from '../types';
+import { parseCellText } from './gridEditing';
+
+const dateField: FieldDefinition = { id: 'f1', name: 'visited', label: 'Visited', type: 'date', required: false };
+
+describe('parseCellText', () => {
+  it('rejects a bare number typed into a date cell', () => {
+    expect(parseCellText(dateField, '3')).toEqual({ value: undefined, error: 'Not a valid date' });
+    expect(parseCellText({ ...dateField, type: 'datetime' }, '3')).toEqual({ value: undefined, error: 'Not a valid date' });
+  });
+
+  it('reads dates as the date input gives them', () => {
+    expect(parseCellText(dateField, '2024-03-05')).toEqual({ value: '2024-03-05' });
+    expect(parseCellText({ ...dateField, type: 'datetime' }, '2024-03-05T14:30')).toEqual({ value: '2024-03-05T14:30' });
+  });
+});
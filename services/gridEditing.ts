@@ -0,0 +1,78 @@
+import { DataRecord, FieldDefinition, FieldType, TableSchema } from "../types";
+import { convertValue, validateValue } from "./dataImport";
+import { selectedOptions } from "./fieldFormat";
+import { attachmentRefs } from "./attachments";
+import { richTextToPlain } from "../lib/richText";
+
+// --- Grid editing ---
+// Cells of the data grid are edited as text, the way a spreadsheet does: what is typed or pasted
+// is read into the field's type by the same rules as an imported file. Links and files need their
+// pickers and rich text its formatting, so those fields are only edited in the record form.
+
+const FORM_ONLY_TYPES: FieldType[] = ['relation', 'attachment', 'richtext'];
+
+// Computed fields and fields read-only for the user's role keep their value
+export const isEditableField = (field: FieldDefinition, readOnlyFields: string[]) =>
+  !field.formula && !readOnlyFields.includes(field.name) && !FORM_ONLY_TYPES.includes(field.type);
+
+// The value as text to edit or copy; parseCellText reads it back
+export const cellText = (field: FieldDefinition, value: any): string => {
+  if (value === undefined || value === null) return '';
+  switch (field.type) {
+    case 'boolean': return value === true || value === 'true' ? 'true' : 'false';
+    case 'multiselect': return selectedOptions(field, value).map(o => o.value).join('; ');
+    case 'richtext': return richTextToPlain(value);
+    case 'attachment': return attachmentRefs(value).map(a => a.name).join('; ');
+    default: return Array.isArray(value) ? value.join('; ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+// The typed or pasted text in the field's type, or why it cannot be stored. A required field left
+// empty is reported by the record's validation, like any other rule.
+export const parseCellText = (field: FieldDefinition, text: string): { value: any; error?: string } => {
+  const error = validateValue(text, { ...field, required: false });
+  return error ? { value: undefined, error } : { value: convertValue(text, field) };
+};
+
+// Cells as spreadsheets take them from the clipboard; values holding tabs, line breaks or quotes are quoted
+export const toTabularText = (rows: string[][]) =>
+  rows.map(cells => cells.map(cell => /[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join('\t')).join('\n');
+
+// --- Batches ---
+
+// Values compare by content, and a missing value is the same as an empty one
+export const sameValue = (a: any, b: any) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+export interface RecordEdit {
+  record: DataRecord;
+  data: Record<string, any>; // The record's data with the batch's changes
+  fields: string[]; // Names of the fields the batch changes
+}
+
+// Undoing a batch puts back the fields it changed on the record as it is now. A field edited again
+// since (in the record form, on the map, by someone else) keeps that newer value and is counted.
+export const revertFields = (current: DataRecord, before: DataRecord, after: DataRecord, fields: string[]) => {
+  const reverted = fields.filter(name => sameValue(current.data[name], after.data[name]));
+  return {
+    data: { ...current.data, ...Object.fromEntries(reverted.map(name => [name, before.data[name]])) },
+    changed: reverted.length > 0,
+    kept: fields.length - reverted.length
+  };
+};
+
+// A batch setting a unique field to one value on several records would pass the store's check,
+// which only compares each record with those already saved
+export const batchDuplicates = (schema: TableSchema, edits: RecordEdit[]) => {
+  const errors: { recordId: string; field: string; message: string }[] = [];
+  schema.fields.filter(f => f.validation?.unique).forEach(field => {
+    const seen = new Set<string>();
+    edits.forEach(edit => {
+      const value = edit.data[field.name];
+      if (!edit.fields.includes(field.name) || value === undefined || value === null || String(value).trim() === '') return;
+      const key = String(value).trim().toLowerCase();
+      if (seen.has(key)) errors.push({ recordId: edit.record.id, field: field.name, message: `${field.label} must be unique; "${value}" is set on more than one record` });
+      seen.add(key);
+    });
+  });
+  return errors;
+};
@@ -0,0 +1,277 @@
+import { TileGridConfig, TileLayerConfig, WmtsLayerOptions } from "../types";
+import { WEB_MERCATOR, WGS84, getCrs, isGeographic, normalizeCrsName } from "./crs";
+
+// --- OGC web map services ---
+// WMS layers are requested image by image through Leaflet's WMS layer and can be queried with
+// GetFeatureInfo. WMTS layers are resolved once from GetCapabilities into a tile URL template and,
+// when their tile matrix set is not the standard Web Mercator pyramid, a TileGridConfig.
+
+export const IMAGE_FORMATS = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+export const WMS_VERSIONS = [
+  { value: '1.3.0', label: '1.3.0' },
+  { value: '1.1.1', label: '1.1.1' },
+];
+
+export const INFO_FORMATS = [
+  { value: 'application/json', label: 'GeoJSON' },
+  { value: 'text/html', label: 'HTML' },
+  { value: 'text/plain', label: 'Plain text' },
+];
+
+// WMTS scale denominators assume 0.28 mm pixels
+const PIXEL_SIZE = 0.00028;
+const METERS_PER_DEGREE = 2 * Math.PI * 6378137 / 360;
+const WEB_MERCATOR_EXTENT = 20037508.342789244;
+const WEB_MERCATOR_RESOLUTION = 2 * WEB_MERCATOR_EXTENT / 256; // Zoom 0, 256 px tiles
+
+// --- URLs ---
+
+// Sets query parameters, replacing those the URL already has whatever their case. Leaflet {placeholders} stay readable.
+const withParams = (url: string, params: Record<string, string | number>) => {
+  const [base, query = ''] = url.split('?');
+  const keys = Object.keys(params).map(k => k.toUpperCase());
+  const kept = query.split('&').filter(pair => pair && !keys.includes(pair.split('=')[0].toUpperCase()));
+  const added = Object.entries(params).map(([k, v]) => `${k}=${encodeURIComponent(String(v))}`);
+  return `${base}?${[...kept, ...added].join('&')}`.replace(/%7B(\w+)%7D/g, '{$1}');
+};
+
+export const capabilitiesUrl = (url: string, service: 'WMS' | 'WMTS') =>
+  /request=getcapabilities/i.test(url) || /\.xml$/i.test(url.split('?')[0])
+    ? url
+    : withParams(url, { SERVICE: service, REQUEST: 'GetCapabilities' });
+
+// --- WMTS capabilities ---
+
+export interface WmtsTileMatrix {
+  identifier: string;
+  scaleDenominator: number;
+  topLeft: [number, number]; // In the axis order of the CRS
+  tileWidth: number;
+}
+
+export interface WmtsMatrixSet {
+  identifier: string;
+  supportedCrs: string; // As written in the document
+  crs: string; // Normalized code
+  matrices: WmtsTileMatrix[];
+}
+
+export interface WmtsLayerInfo {
+  identifier: string;
+  title: string;
+  styles: string[]; // Default style first
+  formats: string[];
+  matrixSets: string[];
+  resourceUrls: { format: string; template: string }[]; // RESTful tile templates
+}
+
+export interface WmtsCapabilities {
+  url: string;
+  layers: WmtsLayerInfo[];
+  matrixSets: Record<string, WmtsMatrixSet>;
+  getTileUrl?: string; // KVP endpoint
+}
+
+// Namespace-agnostic lookups: services disagree on prefixes
+const children = (el: Element | undefined, name: string) => el ? Array.from(el.children).filter(c => c.localName === name) : [];
+const child = (el: Element | undefined, name: string) => children(el, name)[0];
+const text = (el: Element | undefined, name: string) => child(el, name)?.textContent?.trim() || '';
+
+export const parseWmtsCapabilities = (xml: string, url: string): WmtsCapabilities => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  const contents = child(root, 'Contents');
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Capabilities' || !contents) {
+    throw new Error("The response is not a WMTS capabilities document.");
+  }
+
+  const matrixSets: Record<string, WmtsMatrixSet> = {};
+  children(contents, 'TileMatrixSet').forEach(set => {
+    const identifier = text(set, 'Identifier');
+    const supportedCrs = text(set, 'SupportedCRS');
+    matrixSets[identifier] = {
+      identifier,
+      supportedCrs,
+      crs: normalizeCrsName(supportedCrs),
+      matrices: children(set, 'TileMatrix').map(m => ({
+        identifier: text(m, 'Identifier'),
+        scaleDenominator: Number(text(m, 'ScaleDenominator')),
+        topLeft: text(m, 'TopLeftCorner').split(/\s+/).map(Number) as [number, number],
+        tileWidth: Number(text(m, 'TileWidth')) || 256
+      }))
+    };
+  });
+
+  const layers = children(contents, 'Layer').map(layer => {
+    const styles = children(layer, 'Style');
+    const defaultStyle = styles.find(s => s.getAttribute('isDefault') === 'true');
+    return {
+      identifier: text(layer, 'Identifier'),
+      title: text(layer, 'Title') || text(layer, 'Identifier'),
+      styles: [...(defaultStyle ? [defaultStyle] : []), ...styles.filter(s => s !== defaultStyle)].map(s => text(s, 'Identifier')),
+      formats: children(layer, 'Format').map(f => f.textContent?.trim() || ''),
+      matrixSets: children(layer, 'TileMatrixSetLink').map(link => text(link, 'TileMatrixSet')),
+      resourceUrls: children(layer, 'ResourceURL')
+        .filter(r => r.getAttribute('resourceType') === 'tile')
+        .map(r => ({ format: r.getAttribute('format') || '', template: r.getAttribute('template') || '' }))
+    };
+  });
+
+  const getTile = Array.from(root.getElementsByTagNameNS('*', 'Operation')).find(op => op.getAttribute('name') === 'GetTile');
+  const get = getTile?.getElementsByTagNameNS('*', 'Get')[0];
+  const getTileUrl = get?.getAttributeNS('http://www.w3.org/1999/xlink', 'href') || get?.getAttribute('xlink:href') || undefined;
+
+  if (layers.length === 0) throw new Error("The capabilities document lists no layers.");
+  return { url, layers, matrixSets, getTileUrl };
+};
+
+export const fetchWmtsCapabilities = async (url: string): Promise<WmtsCapabilities> => {
+  const requestUrl = capabilitiesUrl(url.trim(), 'WMTS');
+  const response = await fetch(requestUrl);
+  if (!response.ok) throw new Error(`The server answered ${response.status} ${response.statusText}`.trim());
+  return parseWmtsCapabilities(await response.text(), requestUrl);
+};
+
+// --- WMTS layer ---
+
+export interface WmtsChoice {
+  layer: string;
+  style: string;
+  tileMatrixSet: string;
+  format: string;
+}
+
+const tileTemplate = (capabilities: WmtsCapabilities, layer: WmtsLayerInfo, choice: WmtsChoice) => {
+  const resource = layer.resourceUrls.find(r => r.format === choice.format) || layer.resourceUrls[0];
+  if (resource) {
+    return resource.template
+      .replace(/\{Style\}/gi, choice.style)
+      .replace(/\{TileMatrixSet\}/gi, choice.tileMatrixSet)
+      .replace(/\{TileMatrix\}/gi, '{TileMatrix}')
+      .replace(/\{TileRow\}/gi, '{TileRow}')
+      .replace(/\{TileCol\}/gi, '{TileCol}');
+  }
+  return withParams(capabilities.getTileUrl || capabilities.url.split('?')[0], {
+    SERVICE: 'WMTS',
+    REQUEST: 'GetTile',
+    VERSION: '1.0.0',
+    LAYER: choice.layer,
+    STYLE: choice.style,
+    TILEMATRIXSET: choice.tileMatrixSet,
+    FORMAT: choice.format,
+    TILEMATRIX: '{TileMatrix}',
+    TILEROW: '{TileRow}',
+    TILECOL: '{TileCol}'
+  });
+};
+
+// The tile grid of a matrix set, or undefined when it is the standard Web Mercator pyramid
+const matrixSetGrid = (set: WmtsMatrixSet): TileGridConfig | undefined => {
+  const geographic = isGeographic(set.crs);
+  const metersPerUnit = geographic ? METERS_PER_DEGREE : 1;
+  const resolutions = set.matrices.map(m => m.scaleDenominator * PIXEL_SIZE / metersPerUnit);
+  // EPSG geographic systems are latitude first; OGC CRS84 is not
+  const [first] = set.matrices;
+  const origin: [number, number] = geographic && !/CRS:?84$/i.test(set.supportedCrs)
+    ? [first.topLeft[1], first.topLeft[0]]
+    : first.topLeft;
+  const tileSize = first.tileWidth;
+
+  const isStandard = set.crs === WEB_MERCATOR && tileSize === 256
+    && Math.abs(origin[0] + WEB_MERCATOR_EXTENT) < 1 && Math.abs(origin[1] - WEB_MERCATOR_EXTENT) < 1
+    && resolutions.every((r, z) => Math.abs(r / (WEB_MERCATOR_RESOLUTION / 2 ** z) - 1) < 1e-4);
+  return isStandard ? undefined : { origin, resolutions, tileSize };
+};
+
+// Layer settings for one layer/style/matrix set/format of a capabilities document
+export const createWmtsLayer = (capabilities: WmtsCapabilities, choice: WmtsChoice): Pick<TileLayerConfig, 'url' | 'crs' | 'tileGrid' | 'maxZoom' | 'wmts'> => {
+  const layer = capabilities.layers.find(l => l.identifier === choice.layer);
+  const set = capabilities.matrixSets[choice.tileMatrixSet];
+  if (!layer) throw new Error(`Layer "${choice.layer}" is not in the capabilities.`);
+  if (!set || set.matrices.length === 0) throw new Error(`Tile matrix set "${choice.tileMatrixSet}" is not described in the capabilities.`);
+  if (!getCrs(set.crs)) throw new Error(`Tile matrix set "${set.identifier}" uses ${set.crs}. Define it under Coordinate Systems first.`);
+
+  const wmts: WmtsLayerOptions = {
+    capabilitiesUrl: capabilities.url,
+    ...choice,
+    matrixIds: set.matrices.map(m => m.identifier)
+  };
+  return {
+    url: tileTemplate(capabilities, layer, choice),
+    crs: set.crs,
+    tileGrid: matrixSetGrid(set),
+    maxZoom: set.matrices.length - 1,
+    wmts
+  };
+};
+
+// --- WMS GetFeatureInfo ---
+
+// The map view the click happened in, in the CRS the WMS images are requested in
+export interface FeatureInfoView {
+  crs: string;
+  bbox: [number, number, number, number]; // minX, minY, maxX, maxY
+  width: number;
+  height: number;
+  x: number; // Clicked pixel
+  y: number;
+}
+
+export type FeatureInfoResult =
+  | { kind: 'features'; features: { id?: string; properties: Record<string, any> }[] }
+  | { kind: 'html'; html: string }
+  | { kind: 'text'; text: string };
+
+export const getFeatureInfoUrl = (layer: TileLayerConfig, view: FeatureInfoView) => {
+  const wms = layer.wms!;
+  const is13 = wms.version === '1.3.0';
+  const [minX, minY, maxX, maxY] = view.bbox;
+  // WMS 1.3.0 follows the axis order of the CRS: latitude first for EPSG:4326
+  const bbox = is13 && view.crs === WGS84 ? [minY, minX, maxY, maxX] : view.bbox;
+  return withParams(layer.url, {
+    SERVICE: 'WMS',
+    REQUEST: 'GetFeatureInfo',
+    VERSION: wms.version,
+    LAYERS: wms.layers,
+    QUERY_LAYERS: wms.layers,
+    STYLES: wms.styles || '',
+    FORMAT: wms.format,
+    [is13 ? 'CRS' : 'SRS']: view.crs,
+    BBOX: bbox.join(','),
+    WIDTH: view.width,
+    HEIGHT: view.height,
+    [is13 ? 'I' : 'X']: Math.round(view.x),
+    [is13 ? 'J' : 'Y']: Math.round(view.y),
+    INFO_FORMAT: wms.infoFormat || 'application/json',
+    FEATURE_COUNT: 10
+  });
+};
+
+export const fetchFeatureInfo = async (layer: TileLayerConfig, view: FeatureInfoView): Promise<FeatureInfoResult> => {
+  const response = await fetch(getFeatureInfoUrl(layer, view));
+  if (!response.ok) throw new Error(`The server answered ${response.status} ${response.statusText}`.trim());
+
+  const type = response.headers.get('content-type') || '';
+  const body = await response.text();
+
+  const exception = body.match(/<(?:\w+:)?ServiceException[^>]*>([\s\S]*?)<\/(?:\w+:)?ServiceException>/);
+  if (exception) throw new Error(exception[1].replace(/<!\[CDATA\[|\]\]>/g, '').trim());
+
+  if (/json/i.test(type) || /json/i.test(layer.wms?.infoFormat || 'application/json')) {
+    try {
+      const json = JSON.parse(body);
+      const features = (json.features || []).map((f: any) => ({ id: f.id, properties: f.properties || {} }));
+      return { kind: 'features', features };
+    } catch (e) {
+      // Not JSON after all: shown as returned
+    }
+  }
+  // Servers answer an empty page when nothing was hit
+  if (!body.replace(/<[^>]*>/g, '').trim()) return { kind: 'features', features: [] };
+  return /html/i.test(type) ? { kind: 'html', html: body } : { kind: 'text', text: body };
+};
@@ -0,0 +1,160 @@
+import { SsoConfig } from "../types";
+
+// --- OpenID Connect sign-in ---
+// Authorization code flow with PKCE: the browser is sent to the provider, comes back with a code
+// and exchanges it (with the PKCE verifier instead of a client secret) for an ID token. What the
+// round trip needs is kept in sessionStorage, since the redirect reloads the app.
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  [claim: string]: any;
+}
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  verifier: string;
+  redirectUri: string;
+  remember: boolean;
+}
+
+const PENDING_KEY = 'geo_oidc_pending';
+// Tolerated difference between our clock and the provider's, in seconds
+const CLOCK_SKEW = 60;
+
+const encoder = new TextEncoder();
+const toBase64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+};
+const randomString = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const discoverOidcProvider = async (issuer: string): Promise<OidcDiscovery> => {
+  let response: Response;
+  try {
+    response = await fetch(`${trimSlash(issuer)}/.well-known/openid-configuration`);
+  } catch (e) {
+    throw new Error(`Could not reach the identity provider at ${issuer}`);
+  }
+  if (!response.ok) throw new Error(`The identity provider did not return its configuration (HTTP ${response.status})`);
+  const discovery = await response.json() as OidcDiscovery;
+  if (trimSlash(discovery.issuer || '') !== trimSlash(issuer)) {
+    throw new Error(`The identity provider identifies as ${discovery.issuer}, not ${issuer}`);
+  }
+  return discovery;
+};
+
+export const getRedirectUri = (config: SsoConfig) => config.redirectUri || `${window.location.origin}${window.location.pathname}`;
+
+// Leaves the app for the provider's sign-in page
+export const beginOidcLogin = async (config: SsoConfig, remember: boolean) => {
+  const discovery = await discoverOidcProvider(config.issuer);
+  const pending: PendingLogin = { state: randomString(), nonce: randomString(), verifier: randomString(), redirectUri: getRedirectUri(config), remember };
+  const challenge = toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(pending.verifier))));
+  const scopes = new Set(['openid', ...config.scopes.split(/\s+/).filter(Boolean)]);
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: [...scopes].join(' '),
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256'
+  });
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  window.location.assign(`${discovery.authorization_endpoint}?${params}`);
+};
+
+// The current address is the provider sending the browser back to a sign-in started here
+export const hasOidcCallback = () => {
+  const params = new URLSearchParams(window.location.search);
+  return !!sessionStorage.getItem(PENDING_KEY) && params.has('state') && (params.has('code') || params.has('error'));
+};
+
+const ALGORITHMS: Record<string, { key: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+  RS256: { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: { name: 'RSASSA-PKCS1-v1_5' } },
+  ES256: { key: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } }
+};
+
+const verifyIdToken = async (token: string, discovery: OidcDiscovery, clientId: string, nonce: string): Promise<OidcClaims> => {
+  const [headerPart, payloadPart, signaturePart] = token.split('.');
+  const decode = (part: string) => JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+  const header = decode(headerPart);
+  const claims = decode(payloadPart) as OidcClaims;
+
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`ID tokens signed with ${header.alg} are not supported; use RS256 or ES256`);
+  const jwks = await fetch(discovery.jwks_uri).then(r => r.json());
+  const jwk = (jwks.keys || []).find((k: JsonWebKey & { kid?: string }) => header.kid ? k.kid === header.kid : k.alg === header.alg);
+  if (!jwk) throw new Error('The key that signed the ID token is not published by the identity provider');
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.key, false, ['verify']);
+  if (!(await crypto.subtle.verify(algorithm.verify, key, fromBase64Url(signaturePart), encoder.encode(`${headerPart}.${payloadPart}`)))) {
+    throw new Error('The ID token signature is invalid');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer || !audiences.includes(clientId) || claims.nonce !== nonce) {
+    throw new Error('The ID token was not issued for this application');
+  }
+  if (!(claims.exp > Date.now() / 1000 - CLOCK_SKEW)) throw new Error('The ID token has expired');
+  return claims;
+};
+
+// Finishes the sign-in the provider redirected back for; the claims are verified but not yet matched to a user
+export const completeOidcLogin = async (config: SsoConfig): Promise<{ claims: OidcClaims; remember: boolean }> => {
+  const params = new URLSearchParams(window.location.search);
+  const stored = sessionStorage.getItem(PENDING_KEY);
+  const pending: PendingLogin | null = stored ? JSON.parse(stored) : null;
+  // The code works once: drop it from storage and the address bar whatever happens next
+  sessionStorage.removeItem(PENDING_KEY);
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+
+  if (!pending || params.get('state') !== pending.state) throw new Error('The sign-in response does not belong to this browser session. Please try again.');
+  if (params.has('error')) throw new Error(params.get('error_description') || `The identity provider refused the sign-in (${params.get('error')})`);
+
+  const discovery = await discoverOidcProvider(config.issuer);
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code')!,
+      redirect_uri: pending.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pending.verifier
+    })
+  });
+  const tokens = await response.json().catch(() => ({}));
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(tokens.error_description || tokens.error || `The identity provider did not issue a token (HTTP ${response.status})`);
+  }
+  return { claims: await verifyIdToken(tokens.id_token, discovery, config.clientId, pending.nonce), remember: pending.remember };
+};
+
+// --- Claims ---
+
+// Dotted paths reach nested claims, e.g. Keycloak's 'realm_access.roles'
+export const getClaim = (claims: OidcClaims, path: string) =>
+  path.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], claims);
+
+// The first mapping whose value the roles claim contains, else the default role
+export const mapClaimsToRole = (claims: OidcClaims, config: SsoConfig): string | undefined => {
+  const raw = getClaim(claims, config.rolesClaim);
+  const values = (Array.isArray(raw) ? raw : raw == null ? [] : String(raw).split(/[\s,]+/)).map(String);
+  return config.roleMappings.find(m => values.includes(m.claimValue))?.roleId || config.defaultRoleId || undefined;
+};
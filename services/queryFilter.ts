@@ -0,0 +1,197 @@
+import { FeatureGeometry, FieldType, QueryCondition, QueryGroup, QueryOperator, SpatialFilter } from "../types";
+import { richTextToPlain } from "../lib/richText";
+import { geometryDistance, intersectsBounds, withinPolygon } from "../lib/geometry";
+import { isEmptyValue, multiSelectValues } from "./fieldFormat";
+
+// --- Query builder filters ---
+// A query is a tree of groups joined by AND or OR, whose leaves compare one field with an
+// operator fitting its type. Conditions still missing their value are left out rather than
+// matching nothing, so the grid does not empty while a condition is being typed.
+
+const TEXT_OPERATORS: QueryOperator[] = ['contains', 'not_contains', 'equals', 'not_equals', 'starts_with', 'regex', 'in', 'not_in', 'is_empty', 'is_not_empty'];
+const NUMBER_OPERATORS: QueryOperator[] = ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'not_in', 'is_empty', 'is_not_empty'];
+const DATE_OPERATORS: QueryOperator[] = ['equals', 'before', 'after', 'between', 'is_empty', 'is_not_empty'];
+const CHOICE_OPERATORS: QueryOperator[] = ['equals', 'not_equals', 'in', 'not_in', 'is_empty', 'is_not_empty'];
+const PRESENCE_OPERATORS: QueryOperator[] = ['is_empty', 'is_not_empty'];
+
+export const operatorsFor = (type: FieldType): QueryOperator[] => {
+  switch (type) {
+    case 'number': return NUMBER_OPERATORS;
+    case 'date':
+    case 'datetime': return DATE_OPERATORS;
+    case 'select':
+    case 'multiselect':
+    case 'color': return CHOICE_OPERATORS;
+    case 'boolean': return ['is_true', 'is_false'];
+    case 'relation':
+    case 'attachment': return PRESENCE_OPERATORS;
+    default: return TEXT_OPERATORS;
+  }
+};
+
+export const takesValue = (operator: QueryOperator) => !['is_empty', 'is_not_empty', 'is_true', 'is_false'].includes(operator);
+
+export const isQueryGroup = (rule: QueryCondition | QueryGroup): rule is QueryGroup => 'rules' in rule;
+
+const isBlank = (value: any) => value === undefined || value === null || String(value).trim() === '';
+// Text of only spaces counts as empty as well
+const isEmptyOrBlank = (value: any) => isEmptyValue(value) || isBlank(value);
+
+// The values of 'in' and 'not_in': picked options, or text typed with commas between the values
+export const listValues = (value: any): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value ?? '').split(',')).map(v => v.trim()).filter(Boolean);
+
+export const isActiveCondition = (condition: QueryCondition) => {
+  if (!condition.field) return false;
+  if (!takesValue(condition.operator)) return true;
+  if (condition.operator === 'between') return Array.isArray(condition.value) && condition.value.some(v => !isBlank(v));
+  if (condition.operator === 'in' || condition.operator === 'not_in') return listValues(condition.value).length > 0;
+  return !isBlank(condition.value);
+};
+
+// Conditions that take part in the query, nested groups included
+export const countConditions = (group?: QueryGroup): number =>
+  (group?.rules || []).reduce((sum, rule) => sum + (isQueryGroup(rule) ? countConditions(rule) : isActiveCondition(rule) ? 1 : 0), 0);
+
+// The group with each condition replaced or, when `fn` returns null, removed
+export const mapQueryConditions = (group: QueryGroup, fn: (condition: QueryCondition) => QueryCondition | null): QueryGroup => ({
+  ...group,
+  rules: group.rules.flatMap((rule): (QueryCondition | QueryGroup)[] => {
+    if (isQueryGroup(rule)) return [mapQueryConditions(rule, fn)];
+    const next = fn(rule);
+    return next ? [next] : [];
+  })
+});
+
+// The reason a condition cannot be evaluated, e.g. a pattern that is not a regular expression
+export const conditionError = (condition: QueryCondition): string | null => {
+  if (condition.operator !== 'regex' || isBlank(condition.value)) return null;
+  try {
+    new RegExp(String(condition.value));
+    return null;
+  } catch (e: any) {
+    return e?.message || 'Invalid pattern';
+  }
+};
+
+// --- Evaluation ---
+
+type DataTest = (data: Record<string, any>) => boolean;
+
+const textOf = (type: FieldType | undefined, value: any) => {
+  if (value === undefined || value === null) return '';
+  if (type === 'richtext') return richTextToPlain(value).toLowerCase();
+  return (Array.isArray(value) ? value.join(', ') : String(value)).toLowerCase();
+};
+
+// Dates and date-times are stored as ISO text, so comparing the value's prefix of the operand's
+// length compares by day for a date and by minute for a date and time
+const compareDate = (value: any, operand: string) => {
+  const text = String(value).slice(0, operand.length);
+  return text < operand ? -1 : text > operand ? 1 : 0;
+};
+
+const compileCondition = (condition: QueryCondition, type: FieldType | undefined): DataTest => {
+  const { field, operator, value } = condition;
+  switch (operator) {
+    case 'is_empty': return data => isEmptyOrBlank(data[field]);
+    case 'is_not_empty': return data => !isEmptyOrBlank(data[field]);
+    case 'is_true': return data => data[field] === true || data[field] === 'true';
+    case 'is_false': return data => !(data[field] === true || data[field] === 'true');
+  }
+
+  const list = listValues(value).map(v => v.toLowerCase());
+  const [from, to] = Array.isArray(value) ? value.map(v => isBlank(v) ? null : String(v).trim()) : [null, null];
+
+  // Each option picked counts: "is" means the value includes it
+  if (type === 'multiselect') {
+    const wanted = operator === 'in' || operator === 'not_in' ? list : [String(value).toLowerCase()];
+    const includes: DataTest = data => multiSelectValues(data[field]).some(v => wanted.includes(v.toLowerCase()));
+    return operator === 'not_equals' || operator === 'not_in' ? data => !includes(data) : includes;
+  }
+
+  if (type === 'date' || type === 'datetime') {
+    const operand = String(value ?? '').trim();
+    const dated = (test: (data: any) => boolean): DataTest => data => !isEmptyOrBlank(data[field]) && test(data[field]);
+    switch (operator) {
+      case 'equals': return dated(v => compareDate(v, operand) === 0);
+      case 'before': return dated(v => compareDate(v, operand) < 0);
+      case 'after': return dated(v => compareDate(v, operand) > 0);
+      case 'between': return dated(v => (!from || compareDate(v, from) >= 0) && (!to || compareDate(v, to) <= 0));
+    }
+  }
+
+  if (type === 'number') {
+    const operand = Number(value);
+    const numeric = (test: (n: number) => boolean): DataTest => data => {
+      if (isEmptyOrBlank(data[field])) return false;
+      const n = Number(data[field]);
+      return !isNaN(n) && test(n);
+    };
+    switch (operator) {
+      case 'equals': return numeric(n => n === operand);
+      case 'not_equals': return data => !numeric(n => n === operand)(data);
+      case 'gt': return numeric(n => n > operand);
+      case 'gte': return numeric(n => n >= operand);
+      case 'lt': return numeric(n => n < operand);
+      case 'lte': return numeric(n => n <= operand);
+      case 'between': return numeric(n => (from === null || n >= Number(from)) && (to === null || n <= Number(to)));
+      case 'in': return numeric(n => list.map(Number).includes(n));
+      case 'not_in': return data => !numeric(n => list.map(Number).includes(n))(data);
+    }
+  }
+
+  // Text, compared ignoring case
+  const expected = String(value ?? '').toLowerCase();
+  const text = (data: Record<string, any>) => textOf(type, data[field]);
+  switch (operator) {
+    case 'equals': return data => text(data) === expected;
+    case 'not_equals': return data => text(data) !== expected;
+    case 'contains': return data => text(data).includes(expected);
+    case 'not_contains': return data => !text(data).includes(expected);
+    case 'starts_with': return data => text(data).startsWith(expected);
+    case 'in': return data => list.includes(text(data));
+    case 'not_in': return data => !list.includes(text(data));
+    case 'regex': {
+      if (conditionError(condition)) return () => false;
+      const pattern = new RegExp(String(value), 'i');
+      return data => pattern.test(type === 'richtext' ? richTextToPlain(data[field]) : String(data[field] ?? ''));
+    }
+    default: return () => false;
+  }
+};
+
+// `fieldTypes` decides how values compare: numbers as numbers, dates by their ISO text, and so on
+export const createQueryMatcher = (group: QueryGroup, fieldTypes: Record<string, FieldType> = {}): DataTest => {
+  const compile = (g: QueryGroup): DataTest | null => {
+    const tests = g.rules
+      .map(rule => isQueryGroup(rule) ? compile(rule) : isActiveCondition(rule) ? compileCondition(rule, fieldTypes[rule.field]) : null)
+      .filter((test): test is DataTest => !!test);
+    if (tests.length === 0) return null;
+    return g.combinator === 'or' ? data => tests.some(test => test(data)) : data => tests.every(test => test(data));
+  };
+  return compile(group) || (() => true);
+};
+
+// --- Spatial filters ---
+
+// False until the filter has what it needs: the map's bounds, three vertices, or a feature and a radius
+export const isActiveSpatialFilter = (spatial?: SpatialFilter | null): spatial is SpatialFilter => {
+  switch (spatial?.type) {
+    case 'extent': return !!spatial.bounds;
+    case 'polygon': return (spatial.polygon?.length || 0) >= 3;
+    case 'distance': return !!spatial.geometry && typeof spatial.meters === 'number' && spatial.meters >= 0;
+    default: return false;
+  }
+};
+
+// Features touching the extent (as they would show on the map), lying inside the polygon, or
+// no further than the radius from the picked feature; records without a geometry never match
+export const createSpatialMatcher = (spatial: SpatialFilter) => (geometry?: FeatureGeometry | null) => {
+  if (!geometry) return false;
+  switch (spatial.type) {
+    case 'extent': return intersectsBounds(geometry, spatial.bounds!);
+    case 'polygon': return withinPolygon(geometry, [spatial.polygon!]);
+    case 'distance': return geometryDistance(geometry, spatial.geometry!) <= spatial.meters!;
+  }
+};
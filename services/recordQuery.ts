@@ -0,0 +1,102 @@
+import { DataRecord, FieldType, QueryGroup, RowFilter, SpatialFilter } from "../types";
+import { sortValue } from "./fieldFormat";
+import { countConditions, createQueryMatcher, createSpatialMatcher, isActiveSpatialFilter } from "./queryFilter";
+
+export interface RecordSort {
+  key: string;
+  direction: 'asc' | 'desc';
+  type?: FieldType; // Dates are compared chronologically, numbers typed in as text numerically
+}
+
+// A page request for one table, as used by the DataTab grid
+export interface RecordQuery {
+  tableId: string;
+  offset: number;
+  limit: number;
+  search?: string;
+  columnFilters?: Record<string, string>;
+  filter?: QueryGroup; // Built with the query builder
+  fieldTypes?: Record<string, FieldType>; // Of the table's fields, so `filter` compares by type
+  spatial?: SpatialFilter | null; // An extent filter must have its bounds filled in
+  sort?: RecordSort | null;
+  rowFilter?: RowFilter; // Set by the store from the user's table grant
+  ids?: string[]; // Only these records, e.g. to re-read the current version of some
+}
+
+export interface RecordPage {
+  records: DataRecord[];
+  total: number;
+}
+
+// True when the page can be read straight from the table in insertion order
+export const isPlainQuery = (query: RecordQuery) =>
+  !query.search && !query.sort && !query.rowFilter && !query.ids && !Object.values(query.columnFilters || {}).some(Boolean) &&
+  countConditions(query.filter) === 0 && !isActiveSpatialFilter(query.spatial);
+
+// Values are compared as text, ignoring case
+export const matchesRowFilter = (record: DataRecord, filter: RowFilter) => {
+  const value = String(record.data[filter.field] ?? '').toLowerCase();
+  const expected = filter.value.toLowerCase();
+  switch (filter.operator) {
+    case 'equals': return value === expected;
+    case 'not_equals': return value !== expected;
+    case 'contains': return value.includes(expected);
+  }
+};
+
+export const createRecordMatcher = (query: RecordQuery) => {
+  const search = query.search?.toLowerCase();
+  const filters = Object.entries(query.columnFilters || {})
+    .filter(([, value]) => !!value)
+    .map(([key, value]) => [key, String(value).toLowerCase()] as const);
+  const matchesFilter = query.filter ? createQueryMatcher(query.filter, query.fieldTypes) : null;
+  const matchesSpatial = isActiveSpatialFilter(query.spatial) ? createSpatialMatcher(query.spatial) : null;
+  const ids = query.ids ? new Set(query.ids) : null;
+
+  return (record: DataRecord) => {
+    if (record.tableId !== query.tableId) return false;
+    if (ids && !ids.has(record.id)) return false;
+    if (query.rowFilter && !matchesRowFilter(record, query.rowFilter)) return false;
+    if (search && !Object.values(record.data).some(v => String(v).toLowerCase().includes(search))) return false;
+    if (!filters.every(([key, value]) => String(record.data[key] || '').toLowerCase().includes(value))) return false;
+    if (matchesFilter && !matchesFilter(record.data)) return false;
+    return !matchesSpatial || matchesSpatial(record.geometry);
+  };
+};
+
+export const compareRecords = (sort: RecordSort) => (a: DataRecord, b: DataRecord) => {
+  const valA = a.data[sort.key];
+  const valB = b.data[sort.key];
+
+  // Handle Dates
+  if (sort.type === 'date') {
+    const dateA = new Date(valA || 0).getTime();
+    const dateB = new Date(valB || 0).getTime();
+    return sort.direction === 'asc' ? dateA - dateB : dateB - dateA;
+  }
+
+  const sortA = sortValue(sort.type, valA);
+  const sortB = sortValue(sort.type, valB);
+
+  // Handle Numbers
+  if (typeof sortA === 'number' && typeof sortB === 'number') {
+    return sort.direction === 'asc' ? sortA - sortB : sortB - sortA;
+  }
+
+  // Default String Comparison
+  const strA = String(sortA);
+  const strB = String(sortB);
+  if (strA < strB) return sort.direction === 'asc' ? -1 : 1;
+  if (strA > strB) return sort.direction === 'asc' ? 1 : -1;
+  return 0;
+};
+
+// In-memory evaluation, for backends that cannot filter or sort themselves
+export const applyRecordQuery = (records: DataRecord[], query: RecordQuery): RecordPage => {
+  const matches = records.filter(createRecordMatcher(query));
+  if (query.sort) matches.sort(compareRecords(query.sort));
+  return {
+    records: matches.slice(query.offset, query.offset + query.limit),
+    total: matches.length
+  };
+};
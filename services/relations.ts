@@ -0,0 +1,39 @@
+import { DataRecord, FieldDefinition, TableSchema } from "../types";
+
+// --- Relations between tables ---
+// A relation field stores record ids of its target table: one id, or a list when the field is
+// `multiple`. Links are only followed by id, so a missing target simply shows as its id.
+
+export const relationIds = (value: any): string[] => {
+  if (Array.isArray(value)) return value.filter(v => v !== undefined && v !== null && v !== '').map(String);
+  return value === undefined || value === null || value === '' ? [] : [String(value)];
+};
+
+// The stored form of a set of ids for the given field
+export const relationValue = (field: FieldDefinition, ids: string[]) => field.relation?.multiple ? ids : (ids[0] || '');
+
+// The relation fields of every table that point at one of the given tables
+export const referencingFields = (schemas: TableSchema[], tableIds: Iterable<string>) => {
+  const targets = new Set(tableIds);
+  return schemas.flatMap(schema => schema.fields
+    .filter(field => field.type === 'relation' && field.relation && targets.has(field.relation.tableId))
+    .map(field => ({ schema, field })));
+};
+
+// Tables the relation fields of a schema point at, to load their records for labels and pickers
+export const relationTargets = (schema?: TableSchema) =>
+  Array.from(new Set((schema?.fields || []).filter(f => f.type === 'relation' && f.relation).map(f => f.relation!.tableId)));
+
+// How a record is shown in pickers and lists: its first plain field, as in the data table
+export const recordLabel = (schema: TableSchema | undefined, record: DataRecord) => {
+  const field = schema?.fields.find(f => !['relation', 'boolean', 'attachment', 'multiselect', 'richtext'].includes(f.type));
+  const value = field ? record.data[field.name] : undefined;
+  return value === undefined || value === null || value === '' ? record.id : String(value);
+};
+
+export const linksTo = (record: DataRecord, field: FieldDefinition, ids: Set<string>) =>
+  relationIds(record.data[field.name]).some(id => ids.has(id));
+
+// Whether a table links to others or is linked from them, to offer its related records
+export const hasRelations = (schemas: TableSchema[], schema: TableSchema) =>
+  relationTargets(schema).length > 0 || referencingFields(schemas, [schema.id]).length > 0;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DataRecord, FieldDefinition } from '../types';
+import { FieldChange, migrateRecordData, previewRecordMigration } from './schemaMigration';
+
+const field = (type: FieldDefinition['type']): FieldDefinition => ({ id: 'f1', name: 'lot', label: 'Lot', type, required: false });
+
+const record = (id: string, value: any): DataRecord =>
+  ({ id, tableId: 't1', data: { lot: value }, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' });
+
+describe('converting to a date field', () => {
+  const fromText: FieldChange = { from: field('text'), to: field('date') };
+  const fromNumber: FieldChange = { from: field('number'), to: field('date') };
+
+  it('lists text and numbers that are not dates as failures', () => {
+    const preview = previewRecordMigration([record('r1', 'Lot 7'), record('r2', '2024-03-05')], [fromText]);
+    expect(preview.recordCount).toBe(2);
+    expect(preview.failures).toEqual([{ recordId: 'r1', field: 'Lot', value: 'Lot 7', reason: 'Not a valid date' }]);
+
+    expect(previewRecordMigration([record('r3', 12)], [fromNumber]).failures)
+      .toEqual([{ recordId: 'r3', field: 'Lot', value: 12, reason: 'Not a valid date' }]);
+  });
+
+  it('clears those values rather than rewriting them as dates', () => {
+    expect(migrateRecordData({ lot: 'Lot 7' }, [fromText]).data).toEqual({ lot: '' });
+    expect(migrateRecordData({ lot: 12 }, [fromNumber]).data).toEqual({ lot: '' });
+    expect(migrateRecordData({ lot: '05/03/2024' }, [fromText]).data).toEqual({ lot: '2024-03-05' });
+  });
+});
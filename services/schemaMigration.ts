@@ -0,0 +1,175 @@
+import { CalendarSchema, DashboardSchema, DataRecord, FieldDefinition, SavedView, Shortcut, TableSchema, UserRole } from "../types";
+import { renameExpressionFields } from "./expression";
+import { convertValue, validateValue } from "./dataImport";
+import { isEmptyValue, selectedOptions } from "./fieldFormat";
+import { mapQueryConditions } from "./queryFilter";
+import { richTextToPlain } from "../lib/richText";
+
+// --- Schema migration ---
+// Fields are matched across a schema edit by id, so a changed `name` is a rename and a changed
+// `type` a conversion. Saving such a schema moves the records' values to the new keys, converts
+// them to the new type, and rewrites the dashboards, calendars, saved views, roles and shortcuts
+// naming the field.
+// References inside the schema itself (expressions, hover fields, sub-layers) are renamed by the
+// schema editor as soon as the field is renamed.
+
+export interface FieldChange {
+  from: FieldDefinition;
+  to: FieldDefinition;
+}
+
+export interface MigrationFailure {
+  recordId: string;
+  field: string; // Label of the field after the change
+  value: any;
+  reason: string;
+}
+
+export interface MigrationPreview {
+  changes: FieldChange[];
+  recordCount: number; // Records with a value in one of the changed fields
+  failures: MigrationFailure[]; // Values that cannot be converted; they are cleared
+  dependents: string[]; // Configuration rewritten for renamed fields, e.g. 'Dashboard "Assets"'
+}
+
+export const fieldChanges = (before: TableSchema | undefined, after: TableSchema): FieldChange[] =>
+  (before?.fields || []).flatMap(from => {
+    const to = after.fields.find(f => f.id === from.id);
+    return to && (to.name !== from.name || to.type !== from.type) ? [{ from, to }] : [];
+  });
+
+// Old name to new name of the renamed fields
+export const fieldRenames = (changes: FieldChange[]): Record<string, string> =>
+  Object.fromEntries(changes.filter(c => c.from.name !== c.to.name).map(c => [c.from.name, c.to.name]));
+
+const renamed = (name: string, renames: Record<string, string>) =>
+  Object.prototype.hasOwnProperty.call(renames, name) ? renames[name] : name;
+
+const renameKeys = <T>(values: Record<string, T>, renames: Record<string, string>) =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [renamed(key, renames), value]));
+
+// --- Values ---
+
+const DATE_TYPES = ['date', 'datetime'];
+const STORED_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?/;
+
+// Links and files only mean something in their own field type
+const UNCONVERTIBLE = ['relation', 'attachment'];
+
+// The value as a file would hold it, so the import conversion can read it into the new type
+const rawValue = (field: FieldDefinition, value: any) => {
+  if (field.type === 'multiselect') return selectedOptions(field, value).map(o => o.value).join('; ');
+  if (field.type === 'richtext') return richTextToPlain(value);
+  return value;
+};
+
+// The value in the new field's type, or why it has none; empty values stay empty
+export const convertFieldValue = (value: any, from: FieldDefinition, to: FieldDefinition): { value: any; error?: string } => {
+  if (from.type === to.type || isEmptyValue(value)) return { value };
+  if (UNCONVERTIBLE.includes(from.type) || UNCONVERTIBLE.includes(to.type)) {
+    return { value: '', error: `${from.type === 'attachment' || to.type === 'attachment' ? 'Attachments' : 'Links'} cannot be converted` };
+  }
+  // Dates and times are stored as ISO text: cut or extend it rather than read it as a moment again
+  if (DATE_TYPES.includes(from.type) && DATE_TYPES.includes(to.type) && STORED_DATE.test(String(value))) {
+    const day = String(value).slice(0, 10);
+    return { value: to.type === 'date' ? day : `${day}T${String(value).slice(11, 16) || '00:00'}` };
+  }
+  const raw = rawValue(from, value);
+  const error = validateValue(raw, { ...to, required: false });
+  if (error) return { value: '', error };
+  const converted = convertValue(raw, to);
+  // A date must read back as itself, or saving the record again would move it
+  if (DATE_TYPES.includes(to.type) && convertValue(converted, to) !== converted) {
+    return { value: '', error: 'The date would change when converted' };
+  }
+  return { value: converted };
+};
+
+// Record data with the changed fields moved and converted. Every old key is removed before the new
+// ones are written, so fields that swapped names keep their own values.
+export const migrateRecordData = (data: Record<string, any>, changes: FieldChange[]) => {
+  const next = { ...data };
+  const failures: { change: FieldChange; value: any; reason: string }[] = [];
+  changes.forEach(({ from }) => { delete next[from.name]; });
+  changes.forEach(change => {
+    if (!(change.from.name in data)) return;
+    const value = data[change.from.name];
+    const converted = convertFieldValue(value, change.from, change.to);
+    if (converted.error) failures.push({ change, value, reason: converted.error });
+    next[change.to.name] = converted.value;
+  });
+  return { data: next, failures };
+};
+
+export const previewRecordMigration = (records: DataRecord[], changes: FieldChange[]) => {
+  let recordCount = 0;
+  const failures: MigrationFailure[] = [];
+  records.forEach(record => {
+    if (changes.some(c => !isEmptyValue(record.data[c.from.name]))) recordCount++;
+    migrateRecordData(record.data, changes).failures.forEach(f => failures.push({
+      recordId: record.id, field: f.change.to.label, value: f.value, reason: f.reason
+    }));
+  });
+  return { recordCount, failures };
+};
+
+// --- Configuration naming fields ---
+
+// The formula, default value and rule expression of a field
+export const renameFieldReferences = (field: FieldDefinition, renames: Record<string, string>): FieldDefinition => ({
+  ...field,
+  ...(field.formula ? { formula: renameExpressionFields(field.formula, renames) } : {}),
+  ...(field.defaultValue ? { defaultValue: renameExpressionFields(field.defaultValue, renames) } : {}),
+  ...(field.validation?.expression ? { validation: { ...field.validation, expression: renameExpressionFields(field.validation.expression, renames) } } : {})
+});
+
+// Expressions, hover fields and the sub-layer field of a schema
+export const renameSchemaReferences = (schema: TableSchema, renames: Record<string, string>): TableSchema => ({
+  ...schema,
+  fields: schema.fields.map(f => renameFieldReferences(f, renames)),
+  ...(schema.hoverFields ? { hoverFields: schema.hoverFields.map(name => renamed(name, renames)) } : {}),
+  ...(schema.subLayerConfig ? { subLayerConfig: { ...schema.subLayerConfig, field: renamed(schema.subLayerConfig.field, renames) } } : {})
+});
+
+export const renameDashboardFields = (dashboard: DashboardSchema, renames: Record<string, string>): DashboardSchema => ({
+  ...dashboard,
+  widgets: dashboard.widgets.map(w => ({ ...w, field: renamed(w.field, renames) })),
+  filters: dashboard.filters.map(f => ({ ...f, field: renamed(f.field, renames) }))
+});
+
+export const renameCalendarFields = (calendar: CalendarSchema, renames: Record<string, string>): CalendarSchema => ({
+  ...calendar,
+  titleField: renamed(calendar.titleField, renames),
+  startField: renamed(calendar.startField, renames),
+  ...(calendar.endField ? { endField: renamed(calendar.endField, renames) } : {})
+});
+
+// Field restrictions and the row filter of the role's grant on the table
+export const renameRoleFields = (role: UserRole, tableId: string, renames: Record<string, string>): UserRole => ({
+  ...role,
+  ...(role.tableGrants ? {
+    tableGrants: role.tableGrants.map(g => g.tableId !== tableId ? g : {
+      ...g,
+      ...(g.fieldAccess ? { fieldAccess: renameKeys(g.fieldAccess, renames) } : {}),
+      ...(g.rowFilter ? { rowFilter: { ...g.rowFilter, field: renamed(g.rowFilter.field, renames) } } : {})
+    })
+  } : {})
+});
+
+// Quick-add values and map search criteria aimed at the table
+export const renameShortcutFields = (shortcut: Shortcut, tableId: string, renames: Record<string, string>): Shortcut => ({
+  ...shortcut,
+  config: {
+    ...shortcut.config,
+    ...(shortcut.config.data && shortcut.config.targetTableId === tableId ? { data: renameKeys(shortcut.config.data, renames) } : {}),
+    ...(shortcut.config.filterCriteria && shortcut.config.filterLayerId === tableId ? { filterCriteria: renameKeys(shortcut.config.filterCriteria, renames) } : {})
+  }
+});
+
+// Column filters, query conditions and the sort column of a saved view of the table
+export const renameViewFields = (view: SavedView, renames: Record<string, string>): SavedView => ({
+  ...view,
+  ...(view.columnFilters ? { columnFilters: renameKeys(view.columnFilters, renames) } : {}),
+  ...(view.filter ? { filter: mapQueryConditions(view.filter, c => ({ ...c, field: renamed(c.field, renames) })) } : {}),
+  ...(view.sort ? { sort: { ...view.sort, key: renamed(view.sort.key, renames) } } : {})
+});
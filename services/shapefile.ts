@@ -0,0 +1,302 @@
+import { unzipSync } from 'fflate';
+import proj4 from 'proj4';
+import { FeatureGeometry, FieldType } from "../types";
+import { ImportDataset, ImportedFeature, createDataset, requireCrs, summarizeWarnings } from "./dataImport";
+import { mapPositions, pointInPolygon } from "../lib/geometry";
+import { toWgs84 } from "./crs";
+
+// --- Zipped ESRI shapefile reader ---
+// .shp holds the geometries, .dbf the attributes (one row per shape, same order),
+// .prj the coordinate system and the optional .cpg the attribute encoding.
+
+type Position = [number, number]; // [x, y] in the source CRS
+
+interface ShapefileParts {
+  name: string;
+  shp: Uint8Array;
+  dbf?: Uint8Array;
+  prj?: string;
+  cpg?: string;
+}
+
+const SHP_FILE_CODE = 9994;
+
+// Shape types, including their Z and M variants
+const POINT_TYPES = [1, 11, 21];
+const POLYLINE_TYPES = [3, 13, 23];
+const POLYGON_TYPES = [5, 15, 25];
+const MULTIPOINT_TYPES = [8, 18, 28];
+
+// DBF column types -> app field types (C, M and anything unknown are text)
+const DBF_FIELD_TYPES: Record<string, FieldType> = {
+  N: 'number',
+  F: 'number',
+  I: 'number',
+  L: 'boolean',
+  D: 'date'
+};
+
+const decodeText = (bytes: Uint8Array) => new TextDecoder('utf-8').decode(bytes);
+
+// --- Archive ---
+
+const extractShapefile = (buffer: ArrayBuffer, fileName: string, warnings: string[]): ShapefileParts => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch (e) {
+    throw new Error("The file is not a valid zip archive.");
+  }
+
+  // Group the archive entries by base name, ignoring macOS metadata
+  const groups = new Map<string, { name: string; files: Record<string, Uint8Array> }>();
+  Object.entries(files).forEach(([path, data]) => {
+    if (path.startsWith('__MACOSX/')) return;
+    const match = path.match(/^(.*)\.(shp|dbf|prj|cpg)$/i);
+    if (!match) return;
+    const key = match[1].toLowerCase();
+    if (!groups.has(key)) groups.set(key, { name: match[1].split('/').pop() || match[1], files: {} });
+    groups.get(key)!.files[match[2].toLowerCase()] = data;
+  });
+
+  const shapefiles = Array.from(groups.values()).filter(g => g.files.shp);
+  if (shapefiles.length === 0) {
+    throw new Error(`No .shp file was found in ${fileName}.`);
+  }
+
+  const [{ name, files: found }] = shapefiles;
+  if (shapefiles.length > 1) {
+    warnings.push(`The archive contains ${shapefiles.length} shapefiles; only "${name}" was imported.`);
+  }
+
+  return {
+    name,
+    shp: found.shp,
+    dbf: found.dbf,
+    prj: found.prj ? decodeText(found.prj).trim() : undefined,
+    cpg: found.cpg ? decodeText(found.cpg).trim() : undefined
+  };
+};
+
+// --- Geometry (.shp) ---
+
+// Positive for clockwise rings, which the format uses for outer rings
+const ringArea = (ring: Position[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += (ring[i + 1][0] - ring[i][0]) * (ring[i + 1][1] + ring[i][1]);
+  }
+  return sum / 2;
+};
+
+// Rings are stored closed; the app keeps them open
+const openRing = (ring: Position[]) => {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+const readPoints = (view: DataView, offset: number, count: number) => {
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([view.getFloat64(offset + i * 16, true), view.getFloat64(offset + i * 16 + 8, true)]);
+  }
+  return points;
+};
+
+const readParts = (view: DataView, offset: number) => {
+  const numParts = view.getInt32(offset + 36, true);
+  const numPoints = view.getInt32(offset + 40, true);
+  const partStarts: number[] = [];
+  for (let i = 0; i < numParts; i++) partStarts.push(view.getInt32(offset + 44 + i * 4, true));
+
+  const points = readPoints(view, offset + 44 + numParts * 4, numPoints);
+  return partStarts.map((start, i) => points.slice(start, i + 1 < partStarts.length ? partStarts[i + 1] : numPoints));
+};
+
+// Each hole belongs to the outer ring that contains it
+const groupRings = (rings: Position[][]): Position[][][] => {
+  const outers = rings.filter(r => ringArea(r) >= 0).map(r => [openRing(r)]);
+  const holes = rings.filter(r => ringArea(r) < 0).map(openRing);
+  if (outers.length === 0) return holes.map(h => [h]);
+
+  holes.forEach(hole => {
+    const owner = outers.find(polygon => pointInPolygon(hole[0], [polygon[0]])) || outers[0];
+    owner.push(hole);
+  });
+  return outers;
+};
+
+// Returns the shape in source [x, y] coordinates; projection happens afterwards
+const readShape = (view: DataView, offset: number, warnings: string[]): FeatureGeometry | undefined => {
+  const shapeType = view.getInt32(offset, true);
+
+  if (shapeType === 0) return undefined;
+
+  if (POINT_TYPES.includes(shapeType)) {
+    return { type: 'Point', coordinates: readPoints(view, offset + 4, 1)[0] };
+  }
+
+  if (MULTIPOINT_TYPES.includes(shapeType)) {
+    const points = readPoints(view, offset + 40, view.getInt32(offset + 36, true));
+    if (points.length === 0) return undefined;
+    return points.length === 1 ? { type: 'Point', coordinates: points[0] } : { type: 'MultiPoint', coordinates: points };
+  }
+
+  if (POLYLINE_TYPES.includes(shapeType)) {
+    const parts = readParts(view, offset).filter(p => p.length > 1);
+    if (parts.length === 0) return undefined;
+    return parts.length === 1 ? { type: 'LineString', coordinates: parts[0] } : { type: 'MultiLineString', coordinates: parts };
+  }
+
+  if (POLYGON_TYPES.includes(shapeType)) {
+    const polygons = groupRings(readParts(view, offset).filter(r => r.length > 3));
+    if (polygons.length === 0) return undefined;
+    return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  warnings.push(`Unsupported geometry type "${shapeType === 31 ? 'MultiPatch' : shapeType}" was skipped.`);
+  return undefined;
+};
+
+const readShapes = (shp: Uint8Array, warnings: string[]) => {
+  const view = new DataView(shp.buffer, shp.byteOffset, shp.byteLength);
+  if (shp.byteLength < 100 || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error("The .shp file is not a valid shapefile.");
+  }
+
+  // The header gives the file length in 16-bit words
+  const fileLength = Math.min(view.getInt32(24, false) * 2, shp.byteLength);
+  const shapes: (FeatureGeometry | undefined)[] = [];
+  let offset = 100;
+  while (offset + 8 <= fileLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    shapes.push(readShape(view, offset + 8, warnings));
+    offset += 8 + contentLength;
+  }
+  return shapes;
+};
+
+// --- Attributes (.dbf) ---
+
+// UTF-8 unless the .cpg names another code page; old files without .cpg are usually Windows-1252
+const createDecoder = (cpg: string | undefined, bytes: Uint8Array) => {
+  const label = cpg?.toLowerCase().replace(/^(ansi |cp)/, 'windows-').replace(/^(\d{4})$/, 'windows-$1');
+  if (label) {
+    try {
+      return new TextDecoder(label);
+    } catch (e) {
+      // Unknown code page: fall through to detection
+    }
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return new TextDecoder('utf-8');
+  } catch (e) {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+const readDbfValue = (raw: string, type: string): any => {
+  const text = raw.trim();
+  switch (type) {
+    case 'N':
+    case 'F': {
+      if (text === '' || /^\*+$/.test(text)) return null;
+      const n = Number(text);
+      return isFinite(n) ? n : null;
+    }
+    case 'L':
+      return /^[YyTt]$/.test(text) ? true : /^[NnFf]$/.test(text) ? false : null;
+    case 'D':
+      return /^\d{8}$/.test(text) && text !== '00000000' ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6, 8)}` : null;
+    default:
+      return text;
+  }
+};
+
+const readAttributes = (dbf: Uint8Array, cpg: string | undefined) => {
+  const view = new DataView(dbf.buffer, dbf.byteOffset, dbf.byteLength);
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const decoder = createDecoder(cpg, dbf.subarray(headerLength));
+  const fields: { name: string; type: string; offset: number; length: number }[] = [];
+  let fieldOffset = 1; // Each record starts with a deletion flag
+  for (let pos = 32; pos + 32 <= headerLength && dbf[pos] !== 0x0D; pos += 32) {
+    const nameBytes = dbf.subarray(pos, pos + 11);
+    const end = nameBytes.indexOf(0);
+    const name = decoder.decode(end >= 0 ? nameBytes.subarray(0, end) : nameBytes).trim();
+    const type = String.fromCharCode(dbf[pos + 11]).toUpperCase();
+    const length = dbf[pos + 16];
+    fields.push({ name, type, offset: fieldOffset, length });
+    fieldOffset += length;
+  }
+
+  const rows: { deleted: boolean; values: Record<string, any> }[] = [];
+  for (let i = 0; i < numRecords; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > dbf.byteLength) break;
+    const values: Record<string, any> = {};
+    fields.forEach(f => {
+      const bytes = dbf.subarray(start + f.offset, start + f.offset + f.length);
+      // Binary integer columns are the exception to the all-text layout
+      values[f.name] = f.type === 'I'
+        ? new DataView(bytes.buffer, bytes.byteOffset, 4).getInt32(0, true)
+        : readDbfValue(decoder.decode(bytes), f.type);
+    });
+    rows.push({ deleted: dbf[start] === 0x2A, values });
+  }
+
+  const fieldTypes = Object.fromEntries(fields.map(f => [f.name, DBF_FIELD_TYPES[f.type] || 'text' as FieldType]));
+  return { rows, fieldTypes };
+};
+
+// --- Projection (.prj) ---
+
+// Source [x, y] -> app [lat, lng]; a chosen CRS code overrides the .prj
+const createProjector = (prj: string | undefined, crs: string | undefined, warnings: string[]): ((p: Position) => [number, number]) => {
+  if (crs) return (p) => toWgs84(crs, p);
+  if (!prj) {
+    warnings.push('No .prj file was found; coordinates were read as WGS84 longitude/latitude.');
+    return ([x, y]) => [y, x];
+  }
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(prj, 'WGS84');
+  } catch (e) {
+    throw new Error("The coordinate system in the .prj file is not supported.");
+  }
+  return (p) => {
+    const [lng, lat] = converter.forward(p);
+    return [lat, lng];
+  };
+};
+
+// --- Entry point ---
+
+export const parseShapefileZip = (buffer: ArrayBuffer, fileName: string, crs?: string): ImportDataset => {
+  const warnings: string[] = [];
+  const parts = extractShapefile(buffer, fileName, warnings);
+  const shapes = readShapes(parts.shp, warnings);
+  const project = createProjector(parts.prj, crs && requireCrs(crs), warnings);
+
+  const attributes = parts.dbf ? readAttributes(parts.dbf, parts.cpg) : null;
+  if (!attributes) warnings.push('No .dbf file was found; features were imported without attributes.');
+  if (attributes && attributes.rows.length !== shapes.length) {
+    warnings.push(`The .shp and .dbf files disagree on the feature count (${shapes.length} vs ${attributes.rows.length}).`);
+  }
+
+  const features: ImportedFeature[] = [];
+  shapes.forEach((shape, i) => {
+    const row = attributes?.rows[i];
+    if (row?.deleted) return;
+
+    const geometry = shape ? mapPositions(shape, project) : undefined;
+    features.push({ geometry, properties: { ...(row?.values || {}) }, row: i + 1 });
+  });
+
+  const dataset = createDataset(parts.name, features, summarizeWarnings(warnings));
+  return { ...dataset, properties: attributes ? Object.keys(attributes.fieldTypes) : dataset.properties, fieldTypes: attributes?.fieldTypes, crs };
+};
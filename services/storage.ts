@@ -0,0 +1,561 @@
+import { AuditEntry, DataRecord, RecordRevision, StorageBackend, StorageConfig, StoredAttachment } from "../types";
+import { DEFAULT_STORAGE_CONFIG } from "../constants";
+import { RecordPage, RecordQuery, applyRecordQuery, compareRecords, createRecordMatcher, isPlainQuery } from "./recordQuery";
+import { AuditPage, AuditQuery, applyAuditQuery, createAuditMatcher } from "./audit";
+import { blobToDataUrl, dataUrlToBlob } from "./attachments";
+
+// Collections hold arrays of entities keyed by `id`; settings hold single documents.
+export type CollectionName = 'schemas' | 'records' | 'users' | 'roles' | 'shortcuts' | 'dashboards' | 'calendars' | 'audit' | 'revisions' | 'trash' | 'sessions' | 'attachments' | 'views';
+export type SettingName = 'map_config' | 'security_policy' | 'sso_config';
+
+export const COLLECTIONS: CollectionName[] = ['schemas', 'records', 'users', 'roles', 'shortcuts', 'dashboards', 'calendars', 'audit', 'revisions', 'trash', 'sessions', 'attachments', 'views'];
+
+type Entity = { id: string };
+
+/**
+ * Persistence backend used by the AppProvider store.
+ * `load`/`getSetting` resolve to null when nothing has been stored yet so the
+ * store can seed the backend with its initial data.
+ * Records can grow far beyond the other collections, so they are read per table
+ * (`getRecordsByTable`) or per page (`queryRecords`) rather than through `load`.
+ * The audit log only grows: it is appended with `put` and read per page (`queryAudit`).
+ * Record revisions are read per record (`getRevisions`), oldest first.
+ * Attachment files are written and read one at a time (`putAttachment`/`getAttachment`) and
+ * removed through `remove`/`removeWhere`; the REST backend sends their content base64-encoded.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  hasCollection(collection: CollectionName): Promise<boolean>;
+  load<T extends Entity>(collection: CollectionName): Promise<T[] | null>;
+  saveAll<T extends Entity>(collection: CollectionName, items: T[]): Promise<void>;
+  put<T extends Entity>(collection: CollectionName, item: T): Promise<void>;
+  putMany<T extends Entity>(collection: CollectionName, items: T[]): Promise<void>;
+  remove(collection: CollectionName, id: string): Promise<void>;
+  removeWhere(collection: CollectionName, field: string, value: string): Promise<void>;
+  getSetting<T>(name: SettingName): Promise<T | null>;
+  setSetting<T>(name: SettingName, value: T): Promise<void>;
+  getRecordsByTable(tableId: string): Promise<DataRecord[]>;
+  countRecords(tableId: string): Promise<number>;
+  queryRecords(query: RecordQuery): Promise<RecordPage>;
+  queryAudit(query: AuditQuery): Promise<AuditPage>;
+  getRevisions(recordId: string): Promise<RecordRevision[]>;
+  putAttachment(attachment: StoredAttachment): Promise<void>;
+  getAttachment(id: string): Promise<StoredAttachment | null>;
+}
+
+// --- localStorage ---
+
+// Keys are kept identical to the ones used before adapters existed so existing data is picked up.
+const localKey = (name: CollectionName | SettingName) => `geo_${name}`;
+
+// Records, revisions, the audit log, the trash (which holds deleted records) and attachment files
+// live in IndexedDB even for this backend: localStorage quota is only a few MB.
+const INDEXED_COLLECTIONS: CollectionName[] = ['records', 'audit', 'revisions', 'trash', 'attachments'];
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'local' as const;
+  private recordStore = new IndexedDBAdapter('geonexus_local');
+  private migration: Promise<void> | null = null;
+
+  // One-off move of records saved by earlier versions under the `geo_records` key
+  private migrateRecords() {
+    if (!this.migration) {
+      this.migration = (async () => {
+        const legacy = this.read<DataRecord[]>(localKey('records'));
+        if (!legacy) return;
+        if (!(await this.recordStore.hasCollection('records'))) {
+          await this.recordStore.saveAll('records', legacy);
+        }
+        localStorage.removeItem(localKey('records'));
+      })();
+    }
+    return this.migration;
+  }
+
+  private async records() {
+    await this.migrateRecords();
+    return this.recordStore;
+  }
+
+  private read<T>(key: string): T | null {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    try {
+      return JSON.parse(saved);
+    } catch (e) {
+      console.error(`Failed to parse ${key}`, e);
+      return null;
+    }
+  }
+
+  async hasCollection(collection: CollectionName) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).hasCollection(collection);
+    return localStorage.getItem(localKey(collection)) !== null;
+  }
+
+  async load<T extends Entity>(collection: CollectionName) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).load<T>(collection);
+    const items = this.read<T[]>(localKey(collection));
+    return Array.isArray(items) ? items : null;
+  }
+
+  async saveAll<T extends Entity>(collection: CollectionName, items: T[]) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).saveAll(collection, items);
+    localStorage.setItem(localKey(collection), JSON.stringify(items));
+  }
+
+  async put<T extends Entity>(collection: CollectionName, item: T) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).put(collection, item);
+    const items = (await this.load<T>(collection)) || [];
+    const exists = items.some(i => i.id === item.id);
+    await this.saveAll(collection, exists ? items.map(i => i.id === item.id ? item : i) : [...items, item]);
+  }
+
+  async putMany<T extends Entity>(collection: CollectionName, items: T[]) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).putMany(collection, items);
+    const incoming = new Map(items.map(i => [i.id, i]));
+    const existing = ((await this.load<T>(collection)) || []).filter(i => !incoming.has(i.id));
+    await this.saveAll(collection, [...existing, ...items]);
+  }
+
+  async remove(collection: CollectionName, id: string) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).remove(collection, id);
+    const items = (await this.load<Entity>(collection)) || [];
+    await this.saveAll(collection, items.filter(i => i.id !== id));
+  }
+
+  async removeWhere(collection: CollectionName, field: string, value: string) {
+    if (INDEXED_COLLECTIONS.includes(collection)) return (await this.records()).removeWhere(collection, field, value);
+    const items = (await this.load<Entity>(collection)) || [];
+    await this.saveAll(collection, items.filter(i => (i as any)[field] !== value));
+  }
+
+  async getSetting<T>(name: SettingName) {
+    return this.read<T>(localKey(name));
+  }
+
+  async setSetting<T>(name: SettingName, value: T) {
+    localStorage.setItem(localKey(name), JSON.stringify(value));
+  }
+
+  async getRecordsByTable(tableId: string) {
+    return (await this.records()).getRecordsByTable(tableId);
+  }
+
+  async countRecords(tableId: string) {
+    return (await this.records()).countRecords(tableId);
+  }
+
+  async queryRecords(query: RecordQuery) {
+    return (await this.records()).queryRecords(query);
+  }
+
+  async queryAudit(query: AuditQuery) {
+    return (await this.records()).queryAudit(query);
+  }
+
+  async getRevisions(recordId: string) {
+    return (await this.records()).getRevisions(recordId);
+  }
+
+  async putAttachment(attachment: StoredAttachment) {
+    return (await this.records()).putAttachment(attachment);
+  }
+
+  async getAttachment(id: string) {
+    return (await this.records()).getAttachment(id);
+  }
+}
+
+// --- IndexedDB ---
+
+const IDB_VERSION = 8;
+const SETTINGS_STORE = 'settings';
+// Per-table indexes on the records store: membership, and insertion order for paging
+const TABLE_INDEX = 'tableId';
+const TABLE_ORDER_INDEX = 'tableId_createdAt';
+const AUDIT_TIME_INDEX = 'timestamp';
+// Named after the field so `removeWhere('revisions', 'recordId', ...)` can use it
+const REVISION_RECORD_INDEX = 'recordId';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly backend = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName = 'geonexus') {}
+
+  private open() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          COLLECTIONS.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'id' });
+            }
+          });
+          const records = request.transaction!.objectStore('records');
+          if (!records.indexNames.contains(TABLE_INDEX)) {
+            records.createIndex(TABLE_INDEX, 'tableId');
+          }
+          if (!records.indexNames.contains(TABLE_ORDER_INDEX)) {
+            records.createIndex(TABLE_ORDER_INDEX, ['tableId', 'createdAt']);
+          }
+          const audit = request.transaction!.objectStore('audit');
+          if (!audit.indexNames.contains(AUDIT_TIME_INDEX)) {
+            audit.createIndex(AUDIT_TIME_INDEX, 'timestamp');
+          }
+          const revisions = request.transaction!.objectStore('revisions');
+          if (!revisions.indexNames.contains(REVISION_RECORD_INDEX)) {
+            revisions.createIndex(REVISION_RECORD_INDEX, 'recordId');
+          }
+          if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+            db.createObjectStore(SETTINGS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async hasCollection(collection: CollectionName) {
+    const db = await this.open();
+    const tx = db.transaction(SETTINGS_STORE, 'readonly');
+    return !!(await promisify(tx.objectStore(SETTINGS_STORE).get(`seeded:${collection}`)));
+  }
+
+  async load<T extends Entity>(collection: CollectionName) {
+    const db = await this.open();
+    const tx = db.transaction([collection, SETTINGS_STORE], 'readonly');
+    // An empty store is ambiguous, so a marker records that the collection was seeded
+    const [seeded, items] = await Promise.all([
+      promisify(tx.objectStore(SETTINGS_STORE).get(`seeded:${collection}`)),
+      promisify(tx.objectStore(collection).getAll())
+    ]);
+    return seeded ? items as T[] : null;
+  }
+
+  async saveAll<T extends Entity>(collection: CollectionName, items: T[]) {
+    const db = await this.open();
+    const tx = db.transaction([collection, SETTINGS_STORE], 'readwrite');
+    const store = tx.objectStore(collection);
+    store.clear();
+    items.forEach(item => store.put(item));
+    tx.objectStore(SETTINGS_STORE).put(true, `seeded:${collection}`);
+    await transactionDone(tx);
+  }
+
+  async put<T extends Entity>(collection: CollectionName, item: T) {
+    const db = await this.open();
+    const tx = db.transaction(collection, 'readwrite');
+    tx.objectStore(collection).put(item);
+    await transactionDone(tx);
+  }
+
+  async putMany<T extends Entity>(collection: CollectionName, items: T[]) {
+    const db = await this.open();
+    const tx = db.transaction(collection, 'readwrite');
+    const store = tx.objectStore(collection);
+    items.forEach(item => store.put(item));
+    await transactionDone(tx);
+  }
+
+  async remove(collection: CollectionName, id: string) {
+    const db = await this.open();
+    const tx = db.transaction(collection, 'readwrite');
+    tx.objectStore(collection).delete(id);
+    await transactionDone(tx);
+  }
+
+  async removeWhere(collection: CollectionName, field: string, value: string) {
+    const db = await this.open();
+    const tx = db.transaction(collection, 'readwrite');
+    const store = tx.objectStore(collection);
+    const request = store.indexNames.contains(field)
+      ? store.index(field).openCursor(IDBKeyRange.only(value))
+      : store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (cursor.value[field] === value) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+
+  async getSetting<T>(name: SettingName) {
+    const db = await this.open();
+    const tx = db.transaction(SETTINGS_STORE, 'readonly');
+    const value = await promisify(tx.objectStore(SETTINGS_STORE).get(name));
+    return value === undefined ? null : value as T;
+  }
+
+  async setSetting<T>(name: SettingName, value: T) {
+    const db = await this.open();
+    const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+    tx.objectStore(SETTINGS_STORE).put(value, name);
+    await transactionDone(tx);
+  }
+
+  async getRecordsByTable(tableId: string) {
+    const db = await this.open();
+    const tx = db.transaction('records', 'readonly');
+    return promisify(tx.objectStore('records').index(TABLE_INDEX).getAll(IDBKeyRange.only(tableId))) as Promise<DataRecord[]>;
+  }
+
+  async countRecords(tableId: string) {
+    const db = await this.open();
+    const tx = db.transaction('records', 'readonly');
+    return promisify(tx.objectStore('records').index(TABLE_INDEX).count(IDBKeyRange.only(tableId)));
+  }
+
+  async queryRecords(query: RecordQuery) {
+    const db = await this.open();
+    const tx = db.transaction('records', 'readonly');
+    const store = tx.objectStore('records');
+    // Records of one table, in creation order
+    const range = IDBKeyRange.bound([query.tableId], [query.tableId, []]);
+    const request = store.index(TABLE_ORDER_INDEX).openCursor(range);
+
+    // Without filters the cursor can jump straight to the page
+    if (isPlainQuery(query)) {
+      const total = await promisify(store.index(TABLE_INDEX).count(IDBKeyRange.only(query.tableId)));
+      const records: DataRecord[] = [];
+      let skipped = query.offset === 0;
+      await new Promise<void>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || records.length >= query.limit) return resolve();
+          if (!skipped) {
+            skipped = true;
+            cursor.advance(query.offset);
+            return;
+          }
+          records.push(cursor.value);
+          cursor.continue();
+        };
+      });
+      return { records, total };
+    }
+
+    // Otherwise scan the table, keeping only what the page needs (all matches when sorting)
+    const matches = createRecordMatcher(query);
+    const records: DataRecord[] = [];
+    let total = 0;
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const record = cursor.value as DataRecord;
+        if (matches(record)) {
+          if (query.sort || (total >= query.offset && total < query.offset + query.limit)) {
+            records.push(record);
+          }
+          total++;
+        }
+        cursor.continue();
+      };
+    });
+
+    if (!query.sort) return { records, total };
+    records.sort(compareRecords(query.sort));
+    return { records: records.slice(query.offset, query.offset + query.limit), total };
+  }
+
+  async queryAudit(query: AuditQuery) {
+    const db = await this.open();
+    const tx = db.transaction('audit', 'readonly');
+    // Newest first, keeping only the requested page of the matches
+    const request = tx.objectStore('audit').index(AUDIT_TIME_INDEX).openCursor(null, 'prev');
+    const matches = createAuditMatcher(query);
+    const entries: AuditEntry[] = [];
+    let total = 0;
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const entry = cursor.value as AuditEntry;
+        if (matches(entry)) {
+          if (total >= query.offset && total < query.offset + query.limit) entries.push(entry);
+          total++;
+        }
+        cursor.continue();
+      };
+    });
+    return { entries, total };
+  }
+
+  async getRevisions(recordId: string) {
+    const db = await this.open();
+    const tx = db.transaction('revisions', 'readonly');
+    const revisions = await promisify(tx.objectStore('revisions').index(REVISION_RECORD_INDEX).getAll(IDBKeyRange.only(recordId))) as RecordRevision[];
+    return revisions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  // IndexedDB stores the Blob as it is
+  async putAttachment(attachment: StoredAttachment) {
+    return this.put('attachments', attachment);
+  }
+
+  async getAttachment(id: string) {
+    const db = await this.open();
+    const tx = db.transaction('attachments', 'readonly');
+    return (await promisify(tx.objectStore('attachments').get(id)) as StoredAttachment | undefined) ?? null;
+  }
+}
+
+// --- REST (shared JSON server, see server/storage-server.mjs) ---
+
+export class RestAdapter implements StorageAdapter {
+  readonly backend = 'rest' as const;
+
+  constructor(private baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async fetch(path: string, init?: RequestInit) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) }
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Storage server responded ${response.status} for ${init?.method || 'GET'} ${path}`);
+    }
+    return response;
+  }
+
+  private async request(path: string, init?: RequestInit) {
+    const response = await this.fetch(path, init);
+    if (response.status === 404) return null;
+    return response.status === 204 ? null : response.json();
+  }
+
+  async hasCollection(collection: CollectionName) {
+    const response = await this.fetch(`/${collection}?_limit=0`);
+    return response.status !== 404;
+  }
+
+  async load<T extends Entity>(collection: CollectionName) {
+    const items = await this.request(`/${collection}`);
+    return Array.isArray(items) ? items as T[] : null;
+  }
+
+  async saveAll<T extends Entity>(collection: CollectionName, items: T[]) {
+    await this.request(`/${collection}`, { method: 'PUT', body: JSON.stringify(items) });
+  }
+
+  async put<T extends Entity>(collection: CollectionName, item: T) {
+    await this.request(`/${collection}/${encodeURIComponent(item.id)}`, { method: 'PUT', body: JSON.stringify(item) });
+  }
+
+  async putMany<T extends Entity>(collection: CollectionName, items: T[]) {
+    await this.request(`/${collection}`, { method: 'POST', body: JSON.stringify(items) });
+  }
+
+  async remove(collection: CollectionName, id: string) {
+    await this.request(`/${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async removeWhere(collection: CollectionName, field: string, value: string) {
+    const query = new URLSearchParams({ [field]: value }).toString();
+    await this.request(`/${collection}?${query}`, { method: 'DELETE' });
+  }
+
+  async getSetting<T>(name: SettingName) {
+    return (await this.request(`/settings/${name}`)) as T | null;
+  }
+
+  async setSetting<T>(name: SettingName, value: T) {
+    await this.request(`/settings/${name}`, { method: 'PUT', body: JSON.stringify(value) });
+  }
+
+  async getRecordsByTable(tableId: string) {
+    const items = await this.request(`/records?${new URLSearchParams({ tableId })}`);
+    return Array.isArray(items) ? items as DataRecord[] : [];
+  }
+
+  async countRecords(tableId: string) {
+    const response = await this.fetch(`/records?${new URLSearchParams({ tableId, _limit: '0' })}`);
+    return Number(response.headers.get('X-Total-Count')) || 0;
+  }
+
+  async queryRecords(query: RecordQuery) {
+    // The server only pages; searching and sorting happen on the fetched table
+    if (!isPlainQuery(query)) {
+      return applyRecordQuery(await this.getRecordsByTable(query.tableId), query);
+    }
+    const params = new URLSearchParams({ tableId: query.tableId, _start: String(query.offset), _limit: String(query.limit) });
+    const response = await this.fetch(`/records?${params}`);
+    if (response.status === 404) return { records: [], total: 0 };
+    return {
+      records: await response.json() as DataRecord[],
+      total: Number(response.headers.get('X-Total-Count')) || 0
+    };
+  }
+
+  async queryAudit(query: AuditQuery) {
+    // The server only matches exact fields; date ranges and search happen here
+    return applyAuditQuery((await this.load<AuditEntry>('audit')) || [], query);
+  }
+
+  async getRevisions(recordId: string) {
+    const items = await this.request(`/revisions?${new URLSearchParams({ recordId })}`);
+    return Array.isArray(items) ? (items as RecordRevision[]).sort((a, b) => a.timestamp.localeCompare(b.timestamp)) : [];
+  }
+
+  async putAttachment(attachment: StoredAttachment) {
+    await this.put('attachments', { ...attachment, data: await blobToDataUrl(attachment.data) });
+  }
+
+  async getAttachment(id: string) {
+    const item = await this.request(`/attachments/${encodeURIComponent(id)}`);
+    return item ? { ...item, data: dataUrlToBlob(item.data) } as StoredAttachment : null;
+  }
+}
+
+// --- Backend selection ---
+
+// The selected backend is machine-local: it must be known before any shared data can be loaded.
+const STORAGE_CONFIG_KEY = 'geo_storage';
+
+export const loadStorageConfig = (): StorageConfig => {
+  const saved = localStorage.getItem(STORAGE_CONFIG_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_STORAGE_CONFIG, ...JSON.parse(saved) };
+    } catch (e) { console.error("Failed to parse storage config", e); }
+  }
+  return DEFAULT_STORAGE_CONFIG;
+};
+
+export const saveStorageConfig = (config: StorageConfig) => {
+  localStorage.setItem(STORAGE_CONFIG_KEY, JSON.stringify(config));
+};
+
+export const createStorageAdapter = (config: StorageConfig): StorageAdapter => {
+  switch (config.backend) {
+    case 'indexeddb':
+      return new IndexedDBAdapter();
+    case 'rest':
+      return new RestAdapter(config.restUrl || DEFAULT_STORAGE_CONFIG.restUrl!);
+    default:
+      return new LocalStorageAdapter();
+  }
+};
@@ -0,0 +1,152 @@
+import { DataRecord, FieldDefinition, FieldType, FieldValidation, TableSchema } from "../types";
+import { asBoolean, checkExpression, compileExpression } from "./expression";
+import { COLOR_PATTERN, EMAIL_PATTERN, PHONE_PATTERN, isEmptyValue, isWebUrl } from "./fieldFormat";
+import { richTextToPlain } from "../lib/richText";
+
+// --- Record validation ---
+// Messages are keyed by field name, ready for the inline errors of the record forms.
+
+// 'today' is the local date, so a bound of today accepts anything entered today
+const resolveDate = (bound: string) => {
+  if (bound !== 'today') return bound;
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const uniqueKey = (value: any) => String(value).trim().toLowerCase();
+
+const checkField = (field: FieldDefinition, data: Record<string, any>): string | null => {
+  const value = data[field.name];
+  if (isEmptyValue(value)) {
+    if (field.required) return `${field.label} is required`;
+  } else {
+    const rules = field.validation || {};
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (isNaN(number)) return `${field.label} must be a number`;
+      if (rules.min !== undefined && number < rules.min) return `${field.label} must be at least ${rules.min}`;
+      if (rules.max !== undefined && number > rules.max) return `${field.label} must be at most ${rules.max}`;
+      const scaled = field.precision !== undefined ? number * 10 ** field.precision : 0;
+      if (Math.abs(scaled - Math.round(scaled)) > 1e-6) {
+        return field.precision === 0 ? `${field.label} must be a whole number` : `${field.label} must have at most ${field.precision} decimal places`;
+      }
+    }
+    if (field.type === 'url' && !isWebUrl(String(value).trim())) return `${field.label} must be a web address starting with http:// or https://`;
+    if (field.type === 'email' && !EMAIL_PATTERN.test(String(value).trim())) return `${field.label} must be an email address`;
+    if (field.type === 'phone' && !PHONE_PATTERN.test(String(value).trim())) return `${field.label} must be a phone number`;
+    if (field.type === 'color' && !COLOR_PATTERN.test(String(value))) return `${field.label} must be a color such as #3b82f6`;
+    if (field.type === 'text' || field.type === 'richtext') {
+      // Rich text is measured without its markup
+      const text = field.type === 'richtext' ? richTextToPlain(value) : String(value);
+      if (rules.minLength !== undefined && text.length < rules.minLength) return `${field.label} must be at least ${rules.minLength} characters`;
+      if (rules.maxLength !== undefined && text.length > rules.maxLength) return `${field.label} must be at most ${rules.maxLength} characters`;
+      if (rules.pattern) {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(`^(?:${rules.pattern})$`);
+        } catch {
+          return `${field.label} has an invalid pattern rule; ask an administrator to fix it`;
+        }
+        if (!pattern.test(text)) return rules.patternMessage || `${field.label} does not have the expected format`;
+      }
+    }
+    if (field.type === 'date' || field.type === 'datetime') {
+      // Bounds are whole days, so the time of a datetime does not matter
+      const day = String(value).slice(0, 10);
+      if (rules.minDate && day < resolveDate(rules.minDate)) return `${field.label} must be on or after ${resolveDate(rules.minDate)}`;
+      if (rules.maxDate && day > resolveDate(rules.maxDate)) return `${field.label} must be on or before ${resolveDate(rules.maxDate)}`;
+    }
+  }
+
+  const expression = field.validation?.expression;
+  if (expression) {
+    try {
+      if (asBoolean(compileExpression(expression).evaluate(data)) === false) {
+        return field.validation?.expressionMessage || `${field.label} must satisfy ${expression}`;
+      }
+    } catch (e) {
+      return `${field.label} has an invalid rule (${e instanceof Error ? e.message : String(e)}); ask an administrator to fix it`;
+    }
+  }
+  return null;
+};
+
+// Every rule except uniqueness, which needs the other records of the table (see findDuplicates)
+export const validateRecordData = (schema: TableSchema, data: Record<string, any>, skipFields: string[] = []) => {
+  const errors: Record<string, string> = {};
+  schema.fields.forEach(field => {
+    if (skipFields.includes(field.name)) return;
+    const error = checkField(field, data);
+    if (error) errors[field.name] = error;
+  });
+  return errors;
+};
+
+// Fields marked unique whose value another record already has; text is compared ignoring case
+export const findDuplicates = (schema: TableSchema, data: Record<string, any>, others: DataRecord[], recordId?: string, skipFields: string[] = []) => {
+  const errors: Record<string, string> = {};
+  schema.fields
+    .filter(field => field.validation?.unique && !skipFields.includes(field.name) && !isEmptyValue(data[field.name]))
+    .forEach(field => {
+      const key = uniqueKey(data[field.name]);
+      if (others.some(r => r.id !== recordId && !isEmptyValue(r.data[field.name]) && uniqueKey(r.data[field.name]) === key)) {
+        errors[field.name] = `${field.label} must be unique; another record already has "${data[field.name]}"`;
+      }
+    });
+  return errors;
+};
+
+export const hasUniqueFields = (schema: TableSchema) => schema.fields.some(f => f.validation?.unique);
+
+// --- Schema editing ---
+
+const RULES_BY_TYPE: Record<FieldType, (keyof FieldValidation)[]> = {
+  text: ['minLength', 'maxLength', 'pattern', 'patternMessage', 'unique'],
+  number: ['min', 'max', 'unique'],
+  date: ['minDate', 'maxDate', 'unique'],
+  datetime: ['minDate', 'maxDate', 'unique'],
+  select: ['unique'],
+  multiselect: [],
+  boolean: [],
+  relation: [],
+  attachment: [],
+  url: ['unique'],
+  email: ['unique'],
+  phone: ['unique'],
+  richtext: ['minLength', 'maxLength'],
+  color: []
+};
+
+export const supportsRule = (type: FieldType, rule: keyof FieldValidation) =>
+  rule === 'expression' || rule === 'expressionMessage' || RULES_BY_TYPE[type].includes(rule);
+
+// Drops empty rules and those the field type does not use; undefined when nothing is left
+export const pruneValidation = (type: FieldType, validation?: FieldValidation): FieldValidation | undefined => {
+  const entries = Object.entries(validation || {})
+    .filter(([rule, value]) => supportsRule(type, rule as keyof FieldValidation) && !isEmptyValue(value) && value !== false);
+  return entries.length > 0 ? Object.fromEntries(entries) as FieldValidation : undefined;
+};
+
+// The first problem with a field's rules, for the schema editor
+export const checkValidationRules = (field: FieldDefinition, fieldNames: string[]): string | null => {
+  const rules = field.validation || {};
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) return 'The minimum is larger than the maximum.';
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) return 'The minimum length is larger than the maximum length.';
+  for (const bound of [rules.minDate, rules.maxDate]) {
+    if (bound && bound !== 'today' && !/^\d{4}-\d{2}-\d{2}$/.test(bound)) return `"${bound}" is not a date; use YYYY-MM-DD or today.`;
+  }
+  if (rules.minDate && rules.maxDate && resolveDate(rules.minDate) > resolveDate(rules.maxDate)) return 'The earliest date is after the latest date.';
+  if (rules.pattern) {
+    try {
+      new RegExp(rules.pattern);
+    } catch (e) {
+      return `The pattern is not a valid regular expression: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  }
+  if (rules.expression) {
+    const error = checkExpression(rules.expression, fieldNames);
+    if (error) return `The rule expression is invalid: ${error}`;
+  }
+  return null;
+};
@@ -0,0 +1,39 @@
+import { StyleSpecification } from 'maplibre-gl';
+
+// --- MapLibre styles of vector tile base layers ---
+// A style is configured either as the style JSON itself or as the URL of one.
+
+// Returns an error message, or null when the value is a style URL or a readable style document
+export const validateVectorStyle = (value: string): string | null => {
+  const text = value.trim();
+  if (!text) return 'The style is empty.';
+  if (!text.startsWith('{')) return null;
+  try {
+    const style = JSON.parse(text);
+    if (style.version !== 8) return 'MapLibre styles must have "version": 8.';
+    if (!style.sources || !Array.isArray(style.layers)) return 'The style needs "sources" and "layers".';
+    return null;
+  } catch (e) {
+    return 'The style is not valid JSON.';
+  }
+};
+
+// Loads an inline or remote style. Vector sources that declare neither a TileJSON url nor tiles
+// are served from tilesUrl, which lets one style work against a self-hosted tile folder.
+export const resolveVectorStyle = async (value: string, tilesUrl?: string): Promise<StyleSpecification> => {
+  const text = value.trim();
+  let style: StyleSpecification;
+  if (text.startsWith('{')) {
+    style = JSON.parse(text);
+  } else {
+    const response = await fetch(text);
+    if (!response.ok) throw new Error(`Style request failed (${response.status})`);
+    style = await response.json();
+  }
+  if (!tilesUrl) return style;
+
+  const sources = Object.fromEntries(Object.entries(style.sources || {}).map(([id, source]) =>
+    source.type === 'vector' && !source.url && !source.tiles ? [id, { ...source, tiles: [tilesUrl] }] : [id, source]
+  ));
+  return { ...style, sources };
+};
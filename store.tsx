@@ -1,19 +1,62 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
-import { TableSchema, DataRecord, User, UserRole, AppPreferences, ViewTab, MapToolMode, Shortcut, DashboardSchema, CalendarSchema, Permission, MapConfig } from './types';
-import { INITIAL_SCHEMAS, INITIAL_USERS, INITIAL_ROLES, DEFAULT_PREFERENCES, INITIAL_RECORDS, INITIAL_SHORTCUTS, LANGUAGES, INITIAL_DASHBOARDS, INITIAL_CALENDARS, INITIAL_MAP_CONFIG } from './constants';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback, useRef } from 'react';
+import { TableSchema, DataRecord, User, UserRole, AppPreferences, ViewTab, MapToolMode, Shortcut, DashboardSchema, CalendarSchema, Permission, MapConfig, StorageConfig, CrsDefinition, AuditEntry, RecordRevision, TrashEntry, PasswordPolicy, AuthSession, SsoConfig, AttachmentRef, StoredAttachment, AuditTargetType, SavedView } from './types';
+import { INITIAL_SCHEMAS, INITIAL_USERS, INITIAL_ROLES, DEFAULT_PREFERENCES, INITIAL_RECORDS, INITIAL_SHORTCUTS, LANGUAGES, INITIAL_DASHBOARDS, INITIAL_CALENDARS, INITIAL_MAP_CONFIG, TRASH_RETENTION_DAYS, DEFAULT_PASSWORD_POLICY, DEFAULT_SSO_CONFIG } from './constants';
+import { CollectionName, StorageAdapter, createStorageAdapter, loadStorageConfig, saveStorageConfig } from './services/storage';
+import { RecordPage, RecordQuery } from './services/recordQuery';
+import { registerCustomCrs } from './services/crs';
+import { AuditPage, AuditQuery, diffValues, genAuditId } from './services/audit';
+import { findDuplicates, hasUniqueFields, validateRecordData } from './services/validation';
+import { applyFormulas, formulasChanged, hasFormulas } from './services/formulas';
+import {
+  MigrationPreview, fieldChanges, fieldRenames, migrateRecordData, previewRecordMigration,
+  renameCalendarFields, renameDashboardFields, renameRoleFields, renameShortcutFields, renameViewFields
+} from './services/schemaMigration';
+import { mapQueryConditions } from './services/queryFilter';
+import { linksTo, recordLabel, referencingFields, relationIds, relationValue } from './services/relations';
+import { attachmentRefs, prepareAttachment } from './services/attachments';
+import { TableAccess, canSeeRecord, protectRecord, resolveTableAccess, restrictSchema } from './services/access';
+import {
+  checkPasswordPolicy, clearSessionToken, generateResetCode, generateSessionToken, hashSecret, hashSessionToken,
+  loadSessionToken, normalizeResetCode, saveSessionToken, verifySecret
+} from './services/auth';
+import { beginOidcLogin, completeOidcLogin, getClaim, mapClaimsToRole } from './services/oidc';
+import { sameValue } from './services/gridEditing';
+
+// What a caller describes when logging an action; who and when are filled in by the store
+export type AuditInput = Pick<AuditEntry, 'action' | 'targetType' | 'targetId'> &
+  Partial<Pick<AuditEntry, 'targetLabel' | 'changes' | 'status' | 'details'>> & {
+    user?: User | null; // Defaults to the signed-in user (logins pass the new one)
+    username?: string; // For failed logins, the name that was typed
+  };
+
+export type StorageStatus = 'loading' | 'ready' | 'error';
 
 interface AppState {
   schemas: TableSchema[];
-  records: DataRecord[];
+  visibleSchemas: TableSchema[]; // Tables the current user may read, without the fields hidden from them
+  records: DataRecord[]; // Only the tables requested through loadTables, and rows the user may see
+  recordCounts: Record<string, number>; // Record count per table, loaded or not
+  recordsVersion: number; // Bumped once a record change has been persisted
+  auditVersion: number; // Bumped once an audit entry has been persisted
+  trashVersion: number; // Bumped once the trash has changed
   users: User[];
   roles: UserRole[];
   shortcuts: Shortcut[];
   dashboards: DashboardSchema[];
   calendars: CalendarSchema[];
+  views: SavedView[]; // Saved DataTab views of every user; the DataTab lists the current user's
   mapConfig: MapConfig;
-  currentUser: User | null;
-  setCurrentUser: (user: User | null) => void;
+  crsList: CrsDefinition[]; // Built-in and user-defined coordinate systems
+  currentUser: User | null; // Set by login, or restored from a saved session on load
   preferences: AppPreferences;
+  passwordPolicy: PasswordPolicy;
+  ssoConfig: SsoConfig;
+
+  // Persistence Backend
+  storageConfig: StorageConfig;
+  storageStatus: StorageStatus;
+  storageError: string | null;
+  setStorageConfig: (config: StorageConfig) => void;
   
   // Navigation State
   activeTab: ViewTab;
@@ -37,7 +80,8 @@ interface AppState {
     filterCriteria: Record<string, string>;
     center?: [number, number];
     zoom?: number;
-    projection: string;
+    bounds?: [[number, number], [number, number]]; // [[south, west], [north, east]] when the map last moved
+    projection: string; // CRS code used to display, type and export coordinates
     featureDefaults?: Record<string, any>;
   };
   setMapState: (state: Partial<{ 
@@ -54,6 +98,7 @@ interface AppState {
     filterCriteria: Record<string, string>;
     center?: [number, number];
     zoom?: number;
+    bounds?: [[number, number], [number, number]];
     projection: string;
     featureDefaults?: Record<string, any>;
   }>) => void;
@@ -62,8 +107,9 @@ interface AppState {
   dataState: {
     activeTableId: string | null;
     searchQuery: string;
+    activeViewId: string | null; // Saved view to apply to the grid, e.g. when a shortcut opens it
   };
-  setDataState: (state: Partial<{ activeTableId: string | null; searchQuery: string }>) => void;
+  setDataState: (state: Partial<{ activeTableId: string | null; searchQuery: string; activeViewId: string | null }>) => void;
 
   // Dashboard State
   dashboardState: {
@@ -72,12 +118,28 @@ interface AppState {
   setDashboardState: (state: Partial<{ activeDashboardId: string | null }>) => void;
 
   addSchema: (schema: TableSchema) => void;
+  // Renamed and retyped fields carry their records' values and every configuration naming them along
   updateSchema: (schema: TableSchema) => void;
-  deleteSchema: (id: string) => void;
+  // What saving the schema would migrate; null when no field was renamed or retyped
+  previewSchemaMigration: (schema: TableSchema) => Promise<MigrationPreview | null>;
+  // Rejects with the reason when a relation restricts the deletion
+  deleteSchema: (id: string) => Promise<void>;
   
   addRecord: (record: DataRecord) => void;
-  updateRecord: (record: DataRecord) => void;
-  deleteRecord: (id: string) => void;
+  addRecords: (records: DataRecord[]) => Promise<void>;
+  // `previous`/`record`: the version being replaced, for the audit log when it may not be loaded (DataTab pages)
+  updateRecord: (record: DataRecord, previous?: DataRecord) => void;
+  deleteRecord: (id: string, record?: DataRecord) => Promise<void>;
+  getRecordRevisions: (recordId: string) => Promise<RecordRevision[]>;
+  // Saves the revision's data and geometry as the record's newest version
+  restoreRecordRevision: (revision: RecordRevision, current?: DataRecord) => void;
+  loadTables: (tableIds: string[]) => void;
+  queryRecords: (query: RecordQuery) => Promise<RecordPage>;
+  // Inline form errors keyed by field name; empty when the data can be saved
+  validateRecord: (schema: TableSchema, data: Record<string, any>, recordId?: string) => Promise<Record<string, string>>;
+  // Stores the file and resolves to the reference to keep in an attachment field of the table
+  addAttachment: (file: File, tableId: string) => Promise<AttachmentRef>;
+  getAttachment: (id: string) => Promise<StoredAttachment | null>;
 
   addUser: (user: User) => void;
   updateUser: (user: User) => void;
@@ -99,68 +161,114 @@ interface AppState {
   updateCalendar: (calendar: CalendarSchema) => void; 
   deleteCalendar: (id: string) => void; 
 
+  addView: (view: SavedView) => void;
+  updateView: (view: SavedView) => void;
+  deleteView: (id: string) => void;
+
   updatePreferences: (prefs: Partial<AppPreferences>) => void;
   updateMapConfig: (config: MapConfig) => void;
+  updatePasswordPolicy: (policy: PasswordPolicy) => void;
+  updateSsoConfig: (config: SsoConfig) => void;
+
+  // Authentication; failures reject with a message to show on the sign-in form
+  login: (identifier: string, password: string, remember: boolean) => Promise<User>;
+  beginSsoLogin: (remember: boolean) => Promise<void>; // Navigates away to the identity provider
+  completeSsoLogin: () => Promise<User>; // On return from the provider; provisions the user on first sign-in
+  logout: () => void;
+  issueResetCode: (userId: string) => Promise<string>; // The code is only returned, never stored in clear
+  resetPassword: (identifier: string, code: string, newPassword: string) => Promise<void>;
   
   // Helper to run shortcut
   executeShortcut: (shortcut: Shortcut) => void;
+
+  // Trash: deleted records and tables (with what they cascaded to) until restored or purged
+  loadTrash: () => Promise<TrashEntry[]>;
+  // Both throw when the user may not: restoring needs table access, purging sys_admin
+  restoreTrashEntry: (entry: TrashEntry) => void;
+  purgeTrashEntry: (entry: TrashEntry) => void;
+
+  // Audit Log
+  logAudit: (input: AuditInput) => void;
+  queryAudit: (query: AuditQuery) => Promise<AuditPage>;
   
   // Auth Helper
   hasPermission: (permission: Permission) => boolean;
+  getTableAccess: (tableId: string) => TableAccess; // Per-table grants of the current user's role
 }
 
 const AppContext = createContext<AppState | undefined>(undefined);
 
+const INVALID_CREDENTIALS = 'Invalid username or password';
+const INVALID_RESET_CODE = 'The reset code is invalid or has expired';
+const SSO_PASSWORD = 'This account signs in with single sign-on and has no password here';
+const HOUR = 60 * 60 * 1000;
+
+// Permanently removes a trash entry along with the revision history and attachment files of what it
+// holds. A table's own revisions and files are found by table; records deleted with it by cascade
+// (or with a record) one by one, including files only their older versions referenced.
+const purgeTrash = async (storage: StorageAdapter, entry: TrashEntry) => {
+  const records = (entry.items.records || []).filter(r => entry.type === 'record' || r.tableId !== entry.targetId);
+  const revisions = (await Promise.all(records.map(r => storage.getRevisions(r.id)))).flat();
+  const attachmentIds = new Set([...records, ...revisions].flatMap(v => Object.values(v.data).flatMap(attachmentRefs)).map(a => a.id));
+  await Promise.all([
+    storage.remove('trash', entry.id),
+    ...(entry.type === 'schema' ? [
+      storage.removeWhere('revisions', 'tableId', entry.targetId),
+      storage.removeWhere('attachments', 'tableId', entry.targetId)
+    ] : []),
+    ...records.map(r => storage.removeWhere('revisions', 'recordId', r.id)),
+    ...Array.from(attachmentIds, id => storage.remove('attachments', id))
+  ]);
+};
+
+const getDefaultVisibleLayers = (schemas: TableSchema[]) => schemas
+  .filter(s => s.geometryType !== 'none' && s.visibleInMap && (s.isDefaultVisibleInMap !== false))
+  .map(s => s.id);
+
+const getDefaultBaseLayerState = (mapConfig: MapConfig) => {
+  // Derive initial base layers from config
+  const visibleBaseLayers = mapConfig.tileLayers
+      .filter(l => l.isDefaultVisible)
+      .map(l => l.id);
+
+  // Fallback if none configured but layers exist (legacy or user disabled all)
+  if (visibleBaseLayers.length === 0 && mapConfig.tileLayers.length > 0) {
+      visibleBaseLayers.push(mapConfig.tileLayers[0].id);
+  }
+
+  const baseLayerOpacity = mapConfig.tileLayers.reduce((acc, l) => ({
+      ...acc,
+      [l.id]: l.defaultOpacity !== undefined ? l.defaultOpacity : 1
+  }), {} as Record<string, number>);
+
+  return { visibleBaseLayers, baseLayerOpacity };
+};
+
 export const AppProvider = ({ children }: { children?: ReactNode }) => {
-  const [schemas, setSchemas] = useState<TableSchema[]>(() => {
-    const saved = localStorage.getItem('geo_schemas');
-    return saved ? JSON.parse(saved) : INITIAL_SCHEMAS;
-  });
+  const [schemas, setSchemas] = useState<TableSchema[]>(INITIAL_SCHEMAS);
 
-  const [records, setRecords] = useState<DataRecord[]>(() => {
-    const saved = localStorage.getItem('geo_records');
-    return saved ? JSON.parse(saved) : INITIAL_RECORDS;
-  });
+  const [records, setRecords] = useState<DataRecord[]>([]);
+  const [recordCounts, setRecordCounts] = useState<Record<string, number>>({});
+  const [recordsVersion, setRecordsVersion] = useState(0);
+  const [auditVersion, setAuditVersion] = useState(0);
+  const [trashVersion, setTrashVersion] = useState(0);
 
-  const [users, setUsers] = useState<User[]>(() => {
-    const saved = localStorage.getItem('geo_users');
-    return saved ? JSON.parse(saved) : INITIAL_USERS;
-  });
+  const [users, setUsers] = useState<User[]>(INITIAL_USERS);
 
-  const [roles, setRoles] = useState<UserRole[]>(() => {
-    const saved = localStorage.getItem('geo_roles');
-    return saved ? JSON.parse(saved) : INITIAL_ROLES;
-  });
+  const [roles, setRoles] = useState<UserRole[]>(INITIAL_ROLES);
 
-  const [shortcuts, setShortcuts] = useState<Shortcut[]>(() => {
-    const saved = localStorage.getItem('geo_shortcuts');
-    return saved ? JSON.parse(saved) : INITIAL_SHORTCUTS;
-  });
+  const [shortcuts, setShortcuts] = useState<Shortcut[]>(INITIAL_SHORTCUTS);
 
-  const [dashboards, setDashboards] = useState<DashboardSchema[]>(() => {
-    const saved = localStorage.getItem('geo_dashboards');
-    return saved ? JSON.parse(saved) : INITIAL_DASHBOARDS;
-  });
+  const [dashboards, setDashboards] = useState<DashboardSchema[]>(INITIAL_DASHBOARDS);
 
-  const [calendars, setCalendars] = useState<CalendarSchema[]>(() => {
-    const saved = localStorage.getItem('geo_calendars');
-    return saved ? JSON.parse(saved) : INITIAL_CALENDARS;
-  });
+  const [calendars, setCalendars] = useState<CalendarSchema[]>(INITIAL_CALENDARS);
 
-  const [mapConfig, setMapConfig] = useState<MapConfig>(() => {
-    const saved = localStorage.getItem('geo_map_config');
-    // Safety check for existing configs that might be corrupted or old
-    if (saved) {
-        try {
-            const parsed = JSON.parse(saved);
-            if (parsed && Array.isArray(parsed.tileLayers)) {
-                return parsed;
-            }
-        } catch (e) { console.error("Failed to parse map config", e); }
-    }
-    return INITIAL_MAP_CONFIG;
-  });
+  const [views, setViews] = useState<SavedView[]>([]);
 
+  const [mapConfig, setMapConfig] = useState<MapConfig>(INITIAL_MAP_CONFIG);
+  const crsList = useMemo(() => registerCustomCrs(mapConfig.customCrs), [mapConfig.customCrs]);
+
+  // Preferences are per device and always stay in localStorage, whatever the data backend
   const [preferences, setPreferences] = useState<AppPreferences>(() => {
     const saved = localStorage.getItem('geo_prefs');
     if (saved) {
@@ -181,25 +289,9 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
   const [activeTab, setActiveTab] = useState<ViewTab>('map');
   
   // Map State
-  // Initialize visible layers based on schema config
-  const initialMapSchemas = schemas
-    .filter(s => s.geometryType !== 'none' && s.visibleInMap && (s.isDefaultVisibleInMap !== false))
-    .map(s => s.id);
-
-  // Derive initial base layers from config
-  const initialBaseLayers = mapConfig.tileLayers
-      .filter(l => l.isDefaultVisible)
-      .map(l => l.id);
-  
-  // Fallback if none configured but layers exist (legacy or user disabled all)
-  if (initialBaseLayers.length === 0 && mapConfig.tileLayers.length > 0) {
-      initialBaseLayers.push(mapConfig.tileLayers[0].id);
-  }
-
-  const initialBaseOpacity = mapConfig.tileLayers.reduce((acc, l) => ({
-      ...acc,
-      [l.id]: l.defaultOpacity !== undefined ? l.defaultOpacity : 1
-  }), {} as Record<string, number>);
+  // Initialize visible layers based on schema config (recomputed once storage is loaded)
+  const initialMapSchemas = getDefaultVisibleLayers(schemas);
+  const { visibleBaseLayers: initialBaseLayers, baseLayerOpacity: initialBaseOpacity } = getDefaultBaseLayerState(mapConfig);
 
   const [mapState, setMapStateRaw] = useState<{ 
     activeLayerId: string | null; 
@@ -215,6 +307,7 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
     filterCriteria: Record<string, string>;
     center?: [number, number];
     zoom?: number;
+    bounds?: [[number, number], [number, number]];
     projection: string;
     featureDefaults?: Record<string, any>;
   }>({
@@ -238,12 +331,13 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
   }, []);
 
   // Data View State
-  const [dataState, setDataStateRaw] = useState<{ activeTableId: string | null; searchQuery: string }>({
+  const [dataState, setDataStateRaw] = useState<{ activeTableId: string | null; searchQuery: string; activeViewId: string | null }>({
     activeTableId: null,
-    searchQuery: ''
+    searchQuery: '',
+    activeViewId: null
   });
   
-  const setDataState = useCallback((updates: Partial<{ activeTableId: string | null; searchQuery: string }>) => {
+  const setDataState = useCallback((updates: Partial<{ activeTableId: string | null; searchQuery: string; activeViewId: string | null }>) => {
     setDataStateRaw(prev => ({ ...prev, ...updates }));
   }, []);
 
@@ -259,91 +353,972 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
 
   // User Session State
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [ssoConfig, setSsoConfig] = useState<SsoConfig>(DEFAULT_SSO_CONFIG);
 
   useEffect(() => {
-    localStorage.setItem('geo_schemas', JSON.stringify(schemas));
-  }, [schemas]);
+    localStorage.setItem('geo_prefs', JSON.stringify(preferences));
+  }, [preferences]);
 
-  useEffect(() => {
-    localStorage.setItem('geo_records', JSON.stringify(records));
-  }, [records]);
+  // Persistence Backend
+  const [storageConfig, setStorageConfigRaw] = useState<StorageConfig>(loadStorageConfig);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>('loading');
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const storage = useMemo(() => createStorageAdapter(storageConfig), [storageConfig]);
 
-  useEffect(() => {
-    localStorage.setItem('geo_users', JSON.stringify(users));
-  }, [users]);
+  // Latest in-memory data, used to seed a backend that has never been written to
+  const dataRef = useRef({ schemas, users, roles, shortcuts, dashboards, calendars, views, mapConfig });
+  dataRef.current = { schemas, users, roles, shortcuts, dashboards, calendars, views, mapConfig };
+  // Records are not all held in memory, so they are copied from the previous backend instead
+  const previousStorageRef = useRef<StorageAdapter | null>(null);
+  const loadedTablesRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
-    localStorage.setItem('geo_roles', JSON.stringify(roles));
-  }, [roles]);
+    let cancelled = false;
+    const seed = dataRef.current;
+    const previousStorage = previousStorageRef.current;
+    previousStorageRef.current = storage;
 
-  useEffect(() => {
-    localStorage.setItem('geo_shortcuts', JSON.stringify(shortcuts));
-  }, [shortcuts]);
+    const loadOrSeed = async <T extends { id: string }>(collection: CollectionName, fallback: T[]) => {
+      const items = await storage.load<T>(collection);
+      if (items) return items;
+      await storage.saveAll(collection, fallback);
+      return fallback;
+    };
 
-  useEffect(() => {
-    localStorage.setItem('geo_dashboards', JSON.stringify(dashboards));
-  }, [dashboards]);
+    const seedRecords = async () => {
+      if (await storage.hasCollection('records')) return;
+      const previous = previousStorage ? await previousStorage.load<DataRecord>('records') : null;
+      await storage.saveAll('records', previous || INITIAL_RECORDS);
+    };
 
-  useEffect(() => {
-    localStorage.setItem('geo_calendars', JSON.stringify(calendars));
-  }, [calendars]);
+    // The audit log, record revisions, trash and sign-in sessions follow the data to a new backend
+    const seedHistory = async (collection: 'audit' | 'revisions' | 'trash' | 'sessions') => {
+      if (await storage.hasCollection(collection)) return;
+      const previous = previousStorage ? await previousStorage.load<AuditEntry | RecordRevision | TrashEntry | AuthSession>(collection) : null;
+      await storage.saveAll(collection, previous || []);
+    };
 
-  useEffect(() => {
-    localStorage.setItem('geo_map_config', JSON.stringify(mapConfig));
-  }, [mapConfig]);
+    const hydrate = async () => {
+      setStorageStatus('loading');
+      const [nextSchemas, loadedUsers, nextRoles, nextShortcuts, nextDashboards, nextCalendars, nextViews, savedMapConfig, savedPolicy, savedSsoConfig] = await Promise.all([
+        loadOrSeed('schemas', seed.schemas),
+        loadOrSeed('users', seed.users),
+        loadOrSeed('roles', seed.roles),
+        loadOrSeed('shortcuts', seed.shortcuts),
+        loadOrSeed('dashboards', seed.dashboards),
+        loadOrSeed('calendars', seed.calendars),
+        loadOrSeed('views', seed.views),
+        storage.getSetting<MapConfig>('map_config'),
+        storage.getSetting<PasswordPolicy>('security_policy'),
+        storage.getSetting<SsoConfig>('sso_config')
+      ]);
 
-  useEffect(() => {
-    localStorage.setItem('geo_prefs', JSON.stringify(preferences));
-  }, [preferences]);
+      // Seed users (and data saved by earlier versions) carry plain-text passwords; only hashes are kept
+      const nextUsers = await Promise.all(loadedUsers.map(async user => {
+        if (user.password === undefined) return user;
+        const { password, ...rest } = user;
+        return { ...rest, passwordHash: await hashSecret(password) };
+      }));
+      if (loadedUsers.some(u => u.password !== undefined)) await storage.saveAll('users', nextUsers);
+
+      // Safety check for existing configs that might be corrupted or old
+      let nextMapConfig = seed.mapConfig;
+      if (savedMapConfig && Array.isArray(savedMapConfig.tileLayers)) {
+        nextMapConfig = savedMapConfig;
+      } else {
+        await storage.setSetting('map_config', seed.mapConfig);
+      }
+
+      // Only counts are read up front; records are loaded per table on demand
+      await seedRecords();
+      await seedHistory('audit');
+      await seedHistory('revisions');
+      await seedHistory('trash');
+      await seedHistory('sessions');
+      const now = new Date().toISOString();
+      const expired = ((await storage.load<TrashEntry>('trash')) || []).filter(e => e.expiresAt < now);
+      await Promise.all(expired.map(e => purgeTrash(storage, e)));
+
+      // Sign back in from a remembered (or still open) session
+      const sessions = (await storage.load<AuthSession>('sessions')) || [];
+      await Promise.all(sessions.filter(s => s.expiresAt < now).map(s => storage.remove('sessions', s.id)));
+      const token = loadSessionToken();
+      const tokenId = token ? await hashSessionToken(token) : null;
+      const session = sessions.find(s => s.id === tokenId && s.expiresAt >= now);
+      const sessionUser = session && nextUsers.find(u => u.id === session.userId);
+      if (token && !sessionUser) clearSessionToken();
+      const counts = await Promise.all(nextSchemas.map(s => storage.countRecords(s.id)));
+
+      if (cancelled) return;
+      loadedTablesRef.current = new Set();
+      setSchemas(nextSchemas);
+      setRecords([]);
+      setRecordCounts(Object.fromEntries(nextSchemas.map((s, i) => [s.id, counts[i]])));
+      setRecordsVersion(v => v + 1);
+      setAuditVersion(v => v + 1);
+      setTrashVersion(v => v + 1);
+      setUsers(nextUsers);
+      setRoles(nextRoles);
+      setShortcuts(nextShortcuts);
+      setDashboards(nextDashboards);
+      setCalendars(nextCalendars);
+      setViews(nextViews);
+      setMapConfig(nextMapConfig);
+      setPasswordPolicy({ ...DEFAULT_PASSWORD_POLICY, ...savedPolicy });
+      setSsoConfig({ ...DEFAULT_SSO_CONFIG, ...savedSsoConfig });
+      if (sessionUser) setCurrentUser(sessionUser);
+      setMapStateRaw(prev => ({
+        ...prev,
+        visibleLayers: getDefaultVisibleLayers(nextSchemas),
+        ...getDefaultBaseLayerState(nextMapConfig)
+      }));
+      setStorageError(null);
+      setStorageStatus('ready');
+    };
+
+    hydrate().catch(e => {
+      if (cancelled) return;
+      console.error("Failed to load data from storage", e);
+      setStorageError(e instanceof Error ? e.message : String(e));
+      setStorageStatus('error');
+    });
+
+    return () => { cancelled = true; };
+  }, [storage]);
+
+  // Writes are applied to state immediately and persisted in the background
+  const persist = useCallback((task: Promise<unknown>) => {
+    task.catch(e => {
+      console.error("Failed to persist change", e);
+      setStorageError(e instanceof Error ? e.message : String(e));
+    });
+  }, []);
+
+  const setStorageConfig = useCallback((config: StorageConfig) => {
+    saveStorageConfig(config);
+    setStorageConfigRaw(config);
+  }, []);
+
+  const bumpRecordsVersion = useCallback(() => setRecordsVersion(v => v + 1), []);
+
+  // --- Audit Log ---
+  // Every mutation below appends an entry; the user is read from a ref so the actions stay stable
+  const currentUserRef = useRef(currentUser);
+  currentUserRef.current = currentUser;
+  // In-memory records, to diff against when a caller does not pass the previous version
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+
+  // --- Table Access ---
+  // Record actions ignore writes the user's table grants do not allow, and keep the values of
+  // fields that are read-only or hidden for them
+  const getTableAccess = useCallback((tableId: string) =>
+    resolveTableAccess(roles.find(r => r.id === currentUser?.roleId), currentUser, tableId), [currentUser, roles]);
+  const tableAccessRef = useRef(getTableAccess);
+  tableAccessRef.current = getTableAccess;
+
+  // Authorization Check
+  const hasPermission = useCallback((permission: Permission) => {
+    if (!currentUser) return false;
+    const role = roles.find(r => r.id === currentUser.roleId);
+    if (!role) return false;
+    
+    // System Admins have all permissions implicit or explicit
+    if (role.permissions.includes('sys_admin')) return true;
+    
+    return role.permissions.includes(permission);
+  }, [currentUser, roles]);
+  const hasPermissionRef = useRef(hasPermission);
+  hasPermissionRef.current = hasPermission;
+
+  const logAudit = useCallback((input: AuditInput) => {
+    const { user: userOverride, username, ...rest } = input;
+    const user = userOverride !== undefined ? userOverride : currentUserRef.current;
+    const entry: AuditEntry = {
+      id: genAuditId(),
+      timestamp: new Date().toISOString(),
+      userId: user?.id ?? null,
+      username: username ?? user?.username ?? 'anonymous',
+      status: 'success',
+      ...rest
+    };
+    persist(storage.put('audit', entry).then(() => setAuditVersion(v => v + 1)));
+  }, [storage, persist]);
+
+  const queryAudit = useCallback((query: AuditQuery) => storage.queryAudit(query), [storage]);
+
+  const schemaName = (tableId: string) => dataRef.current.schemas.find(s => s.id === tableId)?.name;
+  // Computed fields are recalculated whenever a record is written
+  const computeRecord = (record: DataRecord): DataRecord => {
+    const schema = dataRef.current.schemas.find(s => s.id === record.tableId);
+    if (!schema || !hasFormulas(schema)) return record;
+    return { ...record, data: applyFormulas(schema, record.data, { geometry: record.geometry, username: currentUserRef.current?.username }) };
+  };
+
+  const refreshRecordCounts = useCallback(async () => {
+    const tableIds = dataRef.current.schemas.map(s => s.id);
+    const counts = await Promise.all(tableIds.map(id => storage.countRecords(id)));
+    setRecordCounts(Object.fromEntries(tableIds.map((id, i) => [id, counts[i]])));
+  }, [storage]);
+
+  // --- Trash ---
+  const bumpTrashVersion = useCallback(() => setTrashVersion(v => v + 1), []);
+
+  const moveToTrash = useCallback((type: TrashEntry['type'], targetId: string, label: string, items: TrashEntry['items'], unlinked: TrashEntry['unlinked'] = []) => {
+    const deletedAt = new Date();
+    const entry: TrashEntry = {
+      id: genAuditId(),
+      type,
+      targetId,
+      label,
+      deletedAt: deletedAt.toISOString(),
+      deletedBy: currentUserRef.current?.username ?? 'anonymous',
+      expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      items,
+      ...(unlinked.length > 0 ? { unlinked } : {})
+    };
+    return storage.put('trash', entry).then(bumpTrashVersion);
+  }, [storage, bumpTrashVersion]);
+
+  const loadTrash = useCallback(async () => (await storage.load<TrashEntry>('trash')) || [], [storage]);
+
+  const purgeTrashEntry = useCallback((entry: TrashEntry) => {
+    if (!hasPermissionRef.current('sys_admin')) throw new Error('Only system administrators can permanently delete from the trash');
+    persist(purgeTrash(storage, entry).then(bumpTrashVersion));
+    logAudit({ action: 'purge', targetType: entry.type, targetId: entry.targetId, targetLabel: entry.label });
+  }, [storage, persist, bumpTrashVersion, logAudit]);
 
   // Schema Actions
-  const addSchema = useCallback((schema: TableSchema) => setSchemas(prev => [...prev, schema]), []);
-  const updateSchema = useCallback((schema: TableSchema) => setSchemas(prev => prev.map(s => s.id === schema.id ? schema : s)), []);
-  const deleteSchema = useCallback((id: string) => {
+  const addSchema = useCallback((schema: TableSchema) => {
+    setSchemas(prev => [...prev, schema]);
+    persist(storage.put('schemas', schema));
+    logAudit({ action: 'create', targetType: 'schema', targetId: schema.id, targetLabel: schema.name, changes: diffValues(undefined, schema) });
+  }, [storage, persist, logAudit]);
+  // --- Schema migration ---
+  // Dashboards, calendars, saved views, roles and shortcuts of a table that name renamed fields, before and after
+  const renamedDependents = (tableId: string, renames: Record<string, string>) => {
+    const { dashboards, calendars, views, roles, shortcuts } = dataRef.current;
+    const changed = <T,>(items: T[], rename: (item: T) => T) => items
+      .map(before => ({ before, after: rename(before) }))
+      .filter(({ before, after }) => JSON.stringify(before) !== JSON.stringify(after));
+    return {
+      dashboards: changed(dashboards.filter(d => d.tableId === tableId), (d: DashboardSchema) => renameDashboardFields(d, renames)),
+      calendars: changed(calendars.filter(c => c.tableId === tableId), (c: CalendarSchema) => renameCalendarFields(c, renames)),
+      views: changed(views.filter(v => v.tableId === tableId), (v: SavedView) => renameViewFields(v, renames)),
+      roles: changed(roles, (r: UserRole) => renameRoleFields(r, tableId, renames)),
+      shortcuts: changed(shortcuts, (s: Shortcut) => renameShortcutFields(s, tableId, renames))
+    };
+  };
+
+  const previewSchemaMigration = useCallback(async (schema: TableSchema): Promise<MigrationPreview | null> => {
+    const changes = fieldChanges(dataRef.current.schemas.find(s => s.id === schema.id), schema);
+    if (changes.length === 0) return null;
+    const { recordCount, failures } = previewRecordMigration(await storage.getRecordsByTable(schema.id), changes);
+    const dependents = renamedDependents(schema.id, fieldRenames(changes));
+    return {
+      changes,
+      recordCount,
+      failures,
+      dependents: [
+        ...dependents.dashboards.map(({ before }) => `Dashboard "${before.name}"`),
+        ...dependents.calendars.map(({ before }) => `Calendar "${before.name}"`),
+        ...dependents.views.map(({ before }) => `Saved view "${before.name}"`),
+        ...dependents.roles.map(({ before }) => `Role "${before.name}"`),
+        ...dependents.shortcuts.map(({ before }) => `Shortcut "${before.name}"`)
+      ]
+    };
+  }, [storage]);
+
+  const updateSchema = useCallback((schema: TableSchema) => {
+    const previous = dataRef.current.schemas.find(s => s.id === schema.id);
+    const changes = fieldChanges(previous, schema);
+    setSchemas(prev => prev.map(s => s.id === schema.id ? schema : s));
+    persist(storage.put('schemas', schema));
+    logAudit({ action: 'update', targetType: 'schema', targetId: schema.id, targetLabel: schema.name, changes: diffValues(previous, schema) });
+
+    const renames = fieldRenames(changes);
+    if (Object.keys(renames).length > 0) {
+      const { dashboards, calendars, views, roles, shortcuts } = renamedDependents(schema.id, renames);
+      const details = `Fields renamed in ${schema.name}`;
+      const apply = <T extends { id: string; name: string }>(
+        items: { before: T; after: T }[], collection: CollectionName, targetType: AuditTargetType, setter: React.Dispatch<React.SetStateAction<T[]>>
+      ) => {
+        if (items.length === 0) return;
+        const byId = new Map(items.map(({ after }) => [after.id, after]));
+        setter(prev => prev.map(item => byId.get(item.id) || item));
+        persist(storage.putMany(collection, items.map(({ after }) => after)));
+        items.forEach(({ before, after }) => logAudit({ action: 'update', targetType, targetId: after.id, targetLabel: after.name, changes: diffValues(before, after), details }));
+      };
+      apply(dashboards, 'dashboards', 'dashboard', setDashboards);
+      apply(calendars, 'calendars', 'calendar', setCalendars);
+      apply(views, 'views', 'view', setViews);
+      apply(roles, 'roles', 'role', setRoles);
+      apply(shortcuts, 'shortcuts', 'shortcut', setShortcuts);
+    }
+
+    // Stored values follow renamed and retyped fields and changed formulas; values that cannot be
+    // converted are cleared (the schema editor previews them). This is bookkeeping, so no revisions
+    // are written, but existing ones are migrated too so that restoring one brings back current names.
+    if (changes.length > 0 || formulasChanged(previous, schema)) {
+      persist((async () => {
+        const context = { username: currentUserRef.current?.username };
+        const tableRecords = await storage.getRecordsByTable(schema.id);
+        const updated = tableRecords
+          .map(r => {
+            const data = changes.length > 0 ? migrateRecordData(r.data, changes).data : r.data;
+            return { before: r, after: { ...r, data: applyFormulas(schema, data, { ...context, geometry: r.geometry }) } };
+          })
+          .filter(({ before, after }) => JSON.stringify(before.data) !== JSON.stringify(after.data))
+          .map(({ after }) => after);
+        if (changes.length > 0) {
+          const revisions = (await Promise.all(tableRecords.map(r => storage.getRevisions(r.id)))).flat()
+            .map(revision => ({ ...revision, data: migrateRecordData(revision.data, changes).data }));
+          if (revisions.length > 0) await storage.putMany('revisions', revisions);
+        }
+        if (updated.length === 0) return;
+        await storage.putMany('records', updated);
+        const byId = new Map(updated.map(r => [r.id, r]));
+        setRecords(prev => prev.map(r => byId.get(r.id) || r));
+        bumpRecordsVersion();
+      })());
+    }
+  }, [storage, persist, bumpRecordsVersion, logAudit]);
+
+  // --- Record Revisions ---
+  // Appends a record's new version. Records without history yet (imported, or saved before
+  // revisions existed) first get their previous version as an anonymous baseline.
+  const saveRevision = useCallback(async (record: DataRecord, before?: DataRecord, restoredFrom?: string) => {
+    const user = currentUserRef.current;
+    const revision = (version: DataRecord, author: User | null, timestamp: string): RecordRevision => ({
+      id: genAuditId(),
+      recordId: version.id,
+      tableId: version.tableId,
+      data: version.data,
+      geometry: version.geometry ?? null,
+      userId: author?.id ?? null,
+      username: author?.username ?? 'unknown',
+      timestamp
+    });
+    if (before && (await storage.getRevisions(record.id)).length === 0) {
+      await storage.put('revisions', revision(before, null, before.updatedAt));
+    }
+    await storage.put('revisions', { ...revision(record, user, new Date().toISOString()), ...(restoredFrom ? { restoredFrom } : {}) });
+  }, [storage]);
+
+  const getRecordRevisions = useCallback((recordId: string) => storage.getRevisions(recordId), [storage]);
+
+  // Record Actions
+  const addRecord = useCallback((input: DataRecord) => {
+    const access = tableAccessRef.current(input.tableId);
+    if (!access.create) return;
+    const record = computeRecord(protectRecord(input, access));
+    setRecords(prev => [...prev, record]);
+    setRecordCounts(prev => ({ ...prev, [record.tableId]: (prev[record.tableId] || 0) + 1 }));
+    persist(Promise.all([storage.put('records', record), saveRevision(record)]).then(bumpRecordsVersion));
+    logAudit({ action: 'create', targetType: 'record', targetId: record.id, targetLabel: schemaName(record.tableId), changes: diffValues(undefined, record) });
+  }, [storage, persist, bumpRecordsVersion, logAudit, saveRevision]);
+  // Bulk insert (imports); resolves once the records are persisted
+  const addRecords = useCallback(async (input: DataRecord[]) => {
+    if (input.length === 0) return;
+    const denied = input.find(r => !tableAccessRef.current(r.tableId).create);
+    if (denied) throw new Error(`You are not allowed to add records to ${schemaName(denied.tableId) || denied.tableId}`);
+    const newRecords = input.map(r => computeRecord(protectRecord(r, tableAccessRef.current(r.tableId))));
+    await storage.putMany('records', newRecords);
+    // Only tables already in memory need the new records; others load them on demand
+    setRecords(prev => [...prev, ...newRecords.filter(r => loadedTablesRef.current.has(r.tableId))]);
+    setRecordCounts(prev => {
+      const next = { ...prev };
+      newRecords.forEach(r => next[r.tableId] = (next[r.tableId] || 0) + 1);
+      return next;
+    });
+    bumpRecordsVersion();
+    // One entry per imported table rather than per record
+    const perTable = new Map<string, number>();
+    newRecords.forEach(r => perTable.set(r.tableId, (perTable.get(r.tableId) || 0) + 1));
+    perTable.forEach((count, tableId) => logAudit({
+      action: 'import', targetType: 'schema', targetId: tableId, targetLabel: schemaName(tableId), details: `${count} records`
+    }));
+  }, [storage, bumpRecordsVersion, logAudit]);
+  const updateRecord = useCallback((input: DataRecord, previous?: DataRecord) => {
+    const before = previous || recordsRef.current.find(r => r.id === input.id);
+    const access = tableAccessRef.current(input.tableId);
+    if (!access.update || (before && !canSeeRecord(access, before))) return;
+    const record = computeRecord(protectRecord(input, access, before));
+    setRecords(prev => prev.map(r => r.id === record.id ? record : r));
+    persist(Promise.all([storage.put('records', record), saveRevision(record, before)]).then(bumpRecordsVersion));
+    logAudit({ action: 'update', targetType: 'record', targetId: record.id, targetLabel: schemaName(record.tableId), changes: diffValues(before, record) });
+  }, [storage, persist, bumpRecordsVersion, logAudit, saveRevision]);
+  const restoreRecordRevision = useCallback((revision: RecordRevision, current?: DataRecord) => {
+    const before = current || recordsRef.current.find(r => r.id === revision.recordId);
+    const access = tableAccessRef.current(revision.tableId);
+    if (!before || !access.update || !canSeeRecord(access, before)) return;
+    const record = computeRecord(protectRecord({ ...before, data: revision.data, geometry: revision.geometry ?? null, updatedAt: new Date().toISOString() }, access, before));
+    setRecords(prev => prev.map(r => r.id === record.id ? record : r));
+    persist(Promise.all([storage.put('records', record), saveRevision(record, before, revision.id)]).then(bumpRecordsVersion));
+    logAudit({
+      action: 'update', targetType: 'record', targetId: record.id, targetLabel: schemaName(record.tableId),
+      changes: diffValues(before, record), details: `Restored the version of ${revision.timestamp}`
+    });
+  }, [storage, persist, bumpRecordsVersion, logAudit, saveRevision]);
+  // --- Referential actions ---
+  // Deleting records applies the onDelete action of every relation field pointing at them:
+  // 'restrict' refuses, 'clear' removes the link and 'cascade' deletes the linking record too (and,
+  // in turn, what links to it). The whole plan is worked out before anything is changed.
+  // `skipTables` are being deleted wholesale, so links inside them do not matter.
+  const planDeletion = useCallback(async (roots: DataRecord[], skipTables: string[] = []) => {
+    const currentSchemas = dataRef.current.schemas;
+    const deleted = new Map(roots.map(r => [r.id, r]));
+    const cleared = new Map<string, { before: DataRecord; after: DataRecord }>();
+    const tables = new Map<string, Promise<DataRecord[]>>();
+    const tableRecords = (tableId: string) => {
+      if (!tables.has(tableId)) tables.set(tableId, storage.getRecordsByTable(tableId));
+      return tables.get(tableId)!;
+    };
+    const updatedAt = new Date().toISOString();
+    let frontier = roots;
+    while (frontier.length > 0) {
+      const ids = new Set(frontier.map(r => r.id));
+      const next: DataRecord[] = [];
+      for (const { schema, field } of referencingFields(currentSchemas, frontier.map(r => r.tableId))) {
+        if (skipTables.includes(schema.id)) continue;
+        for (const record of await tableRecords(schema.id)) {
+          if (deleted.has(record.id)) continue;
+          const current = cleared.get(record.id)?.after || record;
+          if (!linksTo(current, field, ids)) continue;
+          const action = field.relation!.onDelete || 'restrict';
+          const access = tableAccessRef.current(schema.id);
+          if (action === 'restrict') {
+            throw new Error(`${schema.name} "${recordLabel(schema, record)}" still links to it through ${field.label}`);
+          }
+          if (action === 'cascade') {
+            if (!access.delete) throw new Error(`It would also delete linked records of ${schema.name}, which you are not allowed to delete`);
+            deleted.set(record.id, record);
+            cleared.delete(record.id);
+            next.push(record);
+          } else {
+            if (!access.update) throw new Error(`It would change linked records of ${schema.name}, which you are not allowed to edit`);
+            const remaining = relationIds(current.data[field.name]).filter(id => !ids.has(id));
+            cleared.set(record.id, { before: record, after: { ...current, data: { ...current.data, [field.name]: relationValue(field, remaining) }, updatedAt } });
+          }
+        }
+      }
+      frontier = next;
+    }
+    return { deleted: Array.from(deleted.values()), cleared: Array.from(cleared.values()) };
+  }, [storage]);
+
+  // Records whose links were cleared by a deletion get a revision like any other edit
+  const applyDeletionPlan = useCallback((deleted: DataRecord[], cleared: { before: DataRecord; after: DataRecord }[], reason: string) => {
+    const deletedIds = new Set(deleted.map(r => r.id));
+    const updated = new Map(cleared.map(c => [c.after.id, c.after]));
+    setRecords(prev => prev.filter(r => !deletedIds.has(r.id)).map(r => updated.get(r.id) || r));
+    cleared.forEach(({ before, after }) => logAudit({
+      action: 'update', targetType: 'record', targetId: after.id, targetLabel: schemaName(after.tableId),
+      changes: diffValues(before, after), details: `Link removed: ${reason} was deleted`
+    }));
+    return Promise.all([
+      ...deleted.map(r => storage.remove('records', r.id)),
+      ...cleared.map(({ before, after }) => Promise.all([storage.put('records', after), saveRevision(after, before)]))
+    ]);
+  }, [storage, logAudit, saveRevision]);
+
+  // Links a deletion cleared are put back when it is restored, field by field, except where the
+  // field was edited since; the records get a revision like any other edit
+  const relinkRecords = useCallback(async (unlinked: { before: DataRecord; after: DataRecord }[], reason: string) => {
+    const relinked: { before: DataRecord; after: DataRecord }[] = [];
+    const updatedAt = new Date().toISOString();
+    for (const tableId of new Set(unlinked.map(u => u.after.tableId))) {
+      const items = unlinked.filter(u => u.after.tableId === tableId);
+      const current = (await storage.queryRecords({ tableId, offset: 0, limit: items.length, ids: items.map(u => u.after.id) })).records;
+      items.forEach(({ before, after }) => {
+        const record = current.find(r => r.id === after.id);
+        if (!record) return;
+        const fields = Object.keys(before.data).filter(name => !sameValue(before.data[name], after.data[name]) && sameValue(record.data[name], after.data[name]));
+        if (fields.length === 0) return;
+        relinked.push({ before: record, after: { ...record, data: { ...record.data, ...Object.fromEntries(fields.map(name => [name, before.data[name]])) }, updatedAt } });
+      });
+    }
+    const updated = new Map(relinked.map(r => [r.after.id, r.after]));
+    setRecords(prev => prev.map(r => updated.get(r.id) || r));
+    relinked.forEach(({ before, after }) => logAudit({
+      action: 'update', targetType: 'record', targetId: after.id, targetLabel: schemaName(after.tableId),
+      changes: diffValues(before, after), details: `Link restored: ${reason} was restored`
+    }));
+    await Promise.all(relinked.map(({ before, after }) => Promise.all([storage.put('records', after), saveRevision(after, before)])));
+  }, [storage, logAudit, saveRevision]);
+
+  // Puts everything the entry holds back in its collection (item keys are collection names).
+  // Throws unless the user may manage tables (for a table) or add records to every table the
+  // entry's records go back to, cascaded ones included.
+  const restoreTrashEntry = useCallback((entry: TrashEntry) => {
+    const { schemas: trashedSchemas = [], records: trashedRecords = [], dashboards: trashedDashboards = [], calendars: trashedCalendars = [] } = entry.items;
+    if (entry.type === 'schema' && !hasPermissionRef.current('manage_schemas')) {
+      throw new Error('You are not allowed to restore tables');
+    }
+    const denied = trashedRecords.find(r => r.tableId !== (entry.type === 'schema' ? entry.targetId : null) && !tableAccessRef.current(r.tableId).create);
+    if (denied) throw new Error(`You are not allowed to add records to ${schemaName(denied.tableId) || denied.tableId}`);
+    setSchemas(prev => [...prev, ...trashedSchemas]);
+    setDashboards(prev => [...prev, ...trashedDashboards]);
+    setCalendars(prev => [...prev, ...trashedCalendars]);
+    setRecords(prev => [...prev, ...trashedRecords.filter(r => loadedTablesRef.current.has(r.tableId))]);
+    const writes = (Object.entries(entry.items) as [CollectionName, { id: string }[]][])
+      .filter(([, items]) => items.length > 0)
+      .map(([collection, items]) => storage.putMany(collection, items));
+    persist(Promise.all(writes)
+      .then(() => relinkRecords(entry.unlinked || [], entry.type === 'schema' ? `the ${entry.label} table` : `${schemaName(trashedRecords[0]?.tableId) || 'record'} "${entry.label}"`))
+      .then(() => storage.remove('trash', entry.id))
+      .then(refreshRecordCounts)
+      .then(() => { bumpRecordsVersion(); bumpTrashVersion(); }));
+    logAudit({
+      action: 'restore', targetType: entry.type, targetId: entry.targetId, targetLabel: entry.label,
+      details: entry.type === 'schema' ? `${trashedRecords.length} records, ${trashedDashboards.length} dashboards, ${trashedCalendars.length} calendars` : undefined
+    });
+  }, [storage, persist, refreshRecordCounts, bumpRecordsVersion, bumpTrashVersion, logAudit, relinkRecords]);
+
+  // The trash keeps the deleted version, so the record must be in memory or passed by the caller.
+  // Rejects when the record is unknown, when the user may not delete it, or when a relation restricts
+  // the deletion, so callers can count what was deleted; records deleted by cascade share its trash entry.
+  const deleteRecord = useCallback(async (id: string, record?: DataRecord) => {
+    const before = record || recordsRef.current.find(r => r.id === id);
+    if (!before) throw new Error('The record is no longer there');
+    const access = tableAccessRef.current(before.tableId);
+    if (!access.delete || !canSeeRecord(access, before)) {
+      throw new Error(`You are not allowed to delete this record of ${schemaName(before.tableId) || before.tableId}`);
+    }
+    const { deleted, cleared } = await planDeletion([before]);
+    const label = schemaName(before.tableId);
+    // Listed in the trash by its first field, as in the data table
+    const firstField = dataRef.current.schemas.find(s => s.id === before.tableId)?.fields[0];
+    const trashLabel = String((firstField && before.data[firstField.name]) || id);
+    // The record may not be in memory (e.g. a DataTab page), so counts are re-read afterwards
+    persist(moveToTrash('record', id, trashLabel, { records: deleted }, cleared)
+      .then(() => applyDeletionPlan(deleted, cleared, `${label} "${trashLabel}"`))
+      .then(refreshRecordCounts)
+      .then(bumpRecordsVersion));
+    deleted.forEach(r => logAudit({
+      action: 'delete', targetType: 'record', targetId: r.id, targetLabel: schemaName(r.tableId), changes: diffValues(r, undefined),
+      details: r.id === id ? undefined : `Deleted with the ${label} record it linked to`
+    }));
+  }, [persist, refreshRecordCounts, bumpRecordsVersion, logAudit, moveToTrash, planDeletion, applyDeletionPlan]);
+  // The table goes to the trash together with its records, dashboards and calendars, and the
+  // records of other tables deleted by cascade
+  const deleteSchema = useCallback(async (id: string) => {
+    const { schemas: currentSchemas, dashboards: currentDashboards, calendars: currentCalendars } = dataRef.current;
+    const previous = currentSchemas.find(s => s.id === id);
+    if (!previous) return;
+    const { deleted, cleared } = await planDeletion(await storage.getRecordsByTable(id), [id]);
+    const cascaded = deleted.filter(r => r.tableId !== id);
+    logAudit({ action: 'delete', targetType: 'schema', targetId: id, targetLabel: previous.name, changes: diffValues(previous, undefined) });
+    cascaded.forEach(r => logAudit({
+      action: 'delete', targetType: 'record', targetId: r.id, targetLabel: schemaName(r.tableId), changes: diffValues(r, undefined),
+      details: `Deleted with the ${previous.name} table it linked to`
+    }));
     setSchemas(prev => prev.filter(s => s.id !== id));
     setRecords(prev => prev.filter(r => r.tableId !== id));
+    setRecordCounts(prev => { const { [id]: _, ...rest } = prev; return rest; });
     setDashboards(prev => prev.filter(d => d.tableId !== id));
     setCalendars(prev => prev.filter(c => c.tableId !== id));
-  }, []);
+    persist((async () => {
+      await moveToTrash('schema', id, previous.name, {
+        schemas: [previous],
+        records: deleted,
+        dashboards: currentDashboards.filter(d => d.tableId === id),
+        calendars: currentCalendars.filter(c => c.tableId === id)
+      }, cleared);
+      await Promise.all([
+        storage.remove('schemas', id),
+        storage.removeWhere('records', 'tableId', id),
+        applyDeletionPlan(cascaded, cleared, `the ${previous.name} table`),
+        storage.removeWhere('dashboards', 'tableId', id),
+        storage.removeWhere('calendars', 'tableId', id)
+      ]);
+      if (cascaded.length > 0) await refreshRecordCounts();
+      bumpRecordsVersion();
+    })());
+  }, [storage, persist, refreshRecordCounts, bumpRecordsVersion, logAudit, moveToTrash, planDeletion, applyDeletionPlan]);
 
-  // Record Actions
-  const addRecord = useCallback((record: DataRecord) => setRecords(prev => [...prev, record]), []);
-  const updateRecord = useCallback((record: DataRecord) => setRecords(prev => prev.map(r => r.id === record.id ? record : r)), []);
-  const deleteRecord = useCallback((id: string) => setRecords(prev => prev.filter(r => r.id !== id)), []);
+  // Loads every record of the given tables into memory (map layers, calendars, dashboards)
+  const loadTables = useCallback((tableIds: string[]) => {
+    const missing = tableIds.filter(id => !loadedTablesRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => loadedTablesRef.current.add(id));
+
+    Promise.all(missing.map(id => storage.getRecordsByTable(id)))
+      .then(lists => {
+        const loaded = lists.flat();
+        setRecords(prev => {
+          // Keep in-memory versions of records changed while the table was loading
+          const known = new Set(prev.map(r => r.id));
+          return [...prev, ...loaded.filter(r => !known.has(r.id))];
+        });
+      })
+      .catch(e => {
+        missing.forEach(id => loadedTablesRef.current.delete(id));
+        console.error("Failed to load records", e);
+        setStorageError(e instanceof Error ? e.message : String(e));
+      });
+  }, [storage]);
+
+  // Pages only hold the rows the user's table grant lets them see, and conditions on fields hidden
+  // from them (say, in a view opened through a shortcut) are dropped rather than revealing values
+  const queryRecords = useCallback(async (query: RecordQuery): Promise<RecordPage> => {
+    const access = getTableAccess(query.tableId);
+    if (!access.read) return { records: [], total: 0 };
+    const filter = query.filter && access.hiddenFields.length > 0
+      ? mapQueryConditions(query.filter, c => access.hiddenFields.includes(c.field) ? null : c)
+      : query.filter;
+    return storage.queryRecords({ ...query, filter, ...(access.rowFilter ? { rowFilter: access.rowFilter } : {}) });
+  }, [storage, getTableAccess]);
+
+  // Read-only fields keep their stored value, so their rules are not the user's to meet.
+  // Uniqueness is checked against every row of the table, including rows the user cannot see.
+  const validateRecord = useCallback(async (schema: TableSchema, data: Record<string, any>, recordId?: string) => {
+    const readOnlyFields = getTableAccess(schema.id).readOnlyFields;
+    const errors = validateRecordData(schema, data, readOnlyFields);
+    if (!hasUniqueFields(schema)) return errors;
+    const others = await storage.getRecordsByTable(schema.id);
+    return { ...findDuplicates(schema, data, others, recordId, [...readOnlyFields, ...Object.keys(errors)]), ...errors };
+  }, [storage, getTableAccess]);
+
+  // --- Attachments ---
+  // Files are written right away so the form can show them; the record refers to them once saved
+  const addAttachment = useCallback(async (file: File, tableId: string) => {
+    const access = tableAccessRef.current(tableId);
+    if (!access.create && !access.update) throw new Error(`You are not allowed to add files to ${schemaName(tableId) || tableId}`);
+    const { stored, ref } = await prepareAttachment(file, tableId, currentUserRef.current?.username ?? 'anonymous');
+    await storage.putAttachment(stored);
+    return ref;
+  }, [storage]);
+  const getAttachment = useCallback(async (id: string) => {
+    const attachment = await storage.getAttachment(id);
+    return attachment && tableAccessRef.current(attachment.tableId).read ? attachment : null;
+  }, [storage]);
 
   // User Actions
-  const addUser = useCallback((user: User) => setUsers(prev => [...prev, user]), []);
-  const updateUser = useCallback((user: User) => setUsers(prev => prev.map(u => u.id === user.id ? user : u)), []);
-  const deleteUser = useCallback((id: string) => setUsers(prev => prev.filter(u => u.id !== id)), []);
+  // Signs a user out everywhere but in this browser, so an administrator changing their own password stays signed in
+  const endOtherSessions = useCallback(async (userId: string) => {
+    const token = loadSessionToken();
+    const currentId = token ? await hashSessionToken(token) : null;
+    const sessions = (await storage.load<AuthSession>('sessions')) || [];
+    await Promise.all(sessions.filter(s => s.userId === userId && s.id !== currentId).map(s => storage.remove('sessions', s.id)));
+  }, [storage]);
+  const addUser = useCallback((user: User) => {
+    setUsers(prev => [...prev, user]);
+    persist(storage.put('users', user));
+    logAudit({ action: 'create', targetType: 'user', targetId: user.id, targetLabel: user.username, changes: diffValues(undefined, user) });
+  }, [storage, persist, logAudit]);
+  const updateUser = useCallback((user: User) => {
+    const previous = dataRef.current.users.find(u => u.id === user.id);
+    setUsers(prev => prev.map(u => u.id === user.id ? user : u));
+    persist(storage.put('users', user));
+    // Sessions opened with the old password end, as after a reset with a one-time code
+    if (previous && user.passwordHash !== previous.passwordHash) persist(endOtherSessions(user.id));
+    logAudit({ action: 'update', targetType: 'user', targetId: user.id, targetLabel: user.username, changes: diffValues(previous, user) });
+  }, [storage, persist, logAudit, endOtherSessions]);
+  const deleteUser = useCallback((id: string) => {
+    const previous = dataRef.current.users.find(u => u.id === id);
+    setUsers(prev => prev.filter(u => u.id !== id));
+    setViews(prev => prev.filter(v => v.userId !== id));
+    persist(Promise.all([storage.remove('users', id), storage.removeWhere('sessions', 'userId', id), storage.removeWhere('views', 'userId', id)]));
+    logAudit({ action: 'delete', targetType: 'user', targetId: id, targetLabel: previous?.username, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
+
+  // --- Authentication ---
+  const passwordPolicyRef = useRef(passwordPolicy);
+  passwordPolicyRef.current = passwordPolicy;
+  const ssoConfigRef = useRef(ssoConfig);
+  ssoConfigRef.current = ssoConfig;
+
+  // Failed attempts, lockouts and reset codes are bookkeeping: saved without an audit entry of their own
+  const storeUser = useCallback((user: User) => {
+    setUsers(prev => prev.map(u => u.id === user.id ? user : u));
+    persist(storage.put('users', user));
+  }, [storage, persist]);
+
+  const findAccount = (identifier: string) => dataRef.current.users.find(u => u.username === identifier || u.email === identifier);
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+  const lockedMessage = (user: User) => `Too many failed attempts. Try again after ${new Date(user.lockedUntil!).toLocaleTimeString()}.`;
+
+  // Counts a wrong password or reset code; reaching the policy limit locks the account for a while
+  const registerFailure = useCallback((user: User) => {
+    const policy = passwordPolicyRef.current;
+    const attempts = (user.failedLoginAttempts || 0) + 1;
+    const locks = policy.maxFailedAttempts > 0 && attempts >= policy.maxFailedAttempts;
+    storeUser({
+      ...user,
+      failedLoginAttempts: locks ? 0 : attempts,
+      lockedUntil: locks ? new Date(Date.now() + policy.lockoutMinutes * 60 * 1000).toISOString() : undefined
+    });
+    return locks ? `; account locked for ${policy.lockoutMinutes} min` : '';
+  }, [storeUser]);
+
+  // Shared by every way of signing in: creates the session the browser keeps a token for
+  const startSession = useCallback(async (user: User, remember: boolean, method: string) => {
+    const policy = passwordPolicyRef.current;
+    const token = generateSessionToken();
+    const createdAt = new Date();
+    const session: AuthSession = {
+      id: await hashSessionToken(token),
+      userId: user.id,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + (remember ? policy.rememberDays * 24 : policy.sessionHours) * HOUR).toISOString(),
+      persistent: remember
+    };
+    await storage.put('sessions', session);
+    saveSessionToken(token, remember);
+    setCurrentUser(user);
+    logAudit({
+      action: 'login', targetType: 'session', targetId: user.id, targetLabel: user.username, user,
+      details: [method, remember ? 'Remembered' : ''].filter(Boolean).join(', ') || undefined
+    });
+    return user;
+  }, [storage, logAudit]);
+
+  const login = useCallback(async (identifier: string, password: string, remember: boolean) => {
+    const user = findAccount(identifier);
+    const fail = (target: User | undefined, details: string) => logAudit({
+      action: 'login', targetType: 'session', targetId: target?.id || identifier, targetLabel: target?.username,
+      user: null, username: identifier, status: 'failure', details
+    });
+    if (!user) {
+      fail(user, 'Unknown user');
+      throw new Error(INVALID_CREDENTIALS);
+    }
+    if (isLocked(user)) {
+      fail(user, 'Account locked');
+      throw new Error(lockedMessage(user));
+    }
+    if (user.authProvider === 'oidc') {
+      fail(user, 'Password sign-in of a single sign-on account');
+      throw new Error(SSO_PASSWORD);
+    }
+    if (!user.passwordHash || !(await verifySecret(password, user.passwordHash))) {
+      fail(user, `Invalid credentials${registerFailure(user)}`);
+      throw new Error(INVALID_CREDENTIALS);
+    }
+
+    const signedIn: User = { ...user, failedLoginAttempts: 0, lockedUntil: undefined };
+    if (user.failedLoginAttempts || user.lockedUntil) storeUser(signedIn);
+    return startSession(signedIn, remember, '');
+  }, [logAudit, storeUser, registerFailure, startSession]);
+
+  const beginSsoLogin = useCallback(async (remember: boolean) => {
+    const config = ssoConfigRef.current;
+    if (!config.enabled) throw new Error('Single sign-on is not enabled');
+    await beginOidcLogin(config, remember);
+  }, []);
+
+  // Accounts are matched on the provider's subject, never on a typed name, so an identity provider
+  // user cannot take over a local account. The role follows the claims at every sign-in.
+  const completeSsoLogin = useCallback(async () => {
+    const config = ssoConfigRef.current;
+    const { claims, remember } = await completeOidcLogin(config);
+    const externalId = `${claims.iss}#${claims.sub}`;
+    const username = String(getClaim(claims, config.usernameClaim) || claims.email || claims.sub);
+    const fail = (details: string, message: string) => {
+      logAudit({ action: 'login', targetType: 'session', targetId: externalId, targetLabel: username, user: null, username, status: 'failure', details: `Single sign-on: ${details}` });
+      return new Error(message);
+    };
+
+    const roleId = mapClaimsToRole(claims, config);
+    if (!roleId || !dataRef.current.roles.some(r => r.id === roleId)) {
+      throw fail('no role mapped', 'Your account has no access to this application. Ask an administrator to map your group to a role.');
+    }
+
+    const existing = dataRef.current.users.find(u => u.externalId === externalId);
+    if (existing) {
+      const synced: User = { ...existing, roleId, email: claims.email || existing.email };
+      if (synced.roleId !== existing.roleId || synced.email !== existing.email) {
+        setUsers(prev => prev.map(u => u.id === synced.id ? synced : u));
+        persist(storage.put('users', synced));
+        logAudit({ action: 'update', targetType: 'user', targetId: synced.id, targetLabel: synced.username, user: synced, changes: diffValues(existing, synced), details: 'Updated from single sign-on claims' });
+      }
+      return startSession(synced, remember, 'Single sign-on');
+    }
+
+    if (dataRef.current.users.some(u => u.username === username)) {
+      throw fail('username taken', `The username ${username} already belongs to another account. Ask an administrator to resolve the conflict.`);
+    }
+    const provisioned: User = {
+      id: genAuditId(),
+      username,
+      email: claims.email || '',
+      roleId,
+      createdAt: new Date().toISOString(),
+      authProvider: 'oidc',
+      externalId
+    };
+    setUsers(prev => [...prev, provisioned]);
+    persist(storage.put('users', provisioned));
+    logAudit({ action: 'create', targetType: 'user', targetId: provisioned.id, targetLabel: username, user: provisioned, changes: diffValues(undefined, provisioned), details: 'Provisioned on first single sign-on' });
+    return startSession(provisioned, remember, 'Single sign-on');
+  }, [storage, persist, logAudit, startSession]);
+
+  const logout = useCallback(() => {
+    const user = currentUserRef.current;
+    if (user) logAudit({ action: 'logout', targetType: 'session', targetId: user.id, targetLabel: user.username });
+    const token = loadSessionToken();
+    clearSessionToken();
+    if (token) persist(hashSessionToken(token).then(id => storage.remove('sessions', id)));
+    setCurrentUser(null);
+  }, [storage, persist, logAudit]);
+
+  const issueResetCode = useCallback(async (userId: string) => {
+    const user = dataRef.current.users.find(u => u.id === userId);
+    if (!user) throw new Error('User not found');
+    if (user.authProvider === 'oidc') throw new Error(SSO_PASSWORD);
+    const code = generateResetCode();
+    const expiresAt = new Date(Date.now() + passwordPolicyRef.current.resetCodeHours * HOUR).toISOString();
+    storeUser({ ...user, resetCode: { hash: await hashSecret(normalizeResetCode(code)), expiresAt } });
+    logAudit({ action: 'update', targetType: 'user', targetId: user.id, targetLabel: user.username, details: 'Issued a password reset code' });
+    return code;
+  }, [storeUser, logAudit]);
+
+  // Unknown users and wrong or expired codes get the same answer
+  const resetPassword = useCallback(async (identifier: string, code: string, newPassword: string) => {
+    const user = findAccount(identifier);
+    if (!user?.resetCode) throw new Error(INVALID_RESET_CODE);
+    if (isLocked(user)) throw new Error(lockedMessage(user));
+    const missing = checkPasswordPolicy(newPassword, passwordPolicyRef.current);
+    if (missing.length > 0) throw new Error(`Password needs ${missing.join(', ')}.`);
+
+    const expired = new Date(user.resetCode.expiresAt).getTime() < Date.now();
+    if (expired || !(await verifySecret(normalizeResetCode(code), user.resetCode.hash))) {
+      logAudit({
+        action: 'update', targetType: 'user', targetId: user.id, targetLabel: user.username, user: null, username: identifier,
+        status: 'failure', details: `${expired ? 'Expired' : 'Invalid'} password reset code${registerFailure(user)}`
+      });
+      throw new Error(INVALID_RESET_CODE);
+    }
+
+    // The code is single use, and other sessions of the account end with the old password
+    const { resetCode, ...rest } = user;
+    storeUser({ ...rest, passwordHash: await hashSecret(newPassword), failedLoginAttempts: 0, lockedUntil: undefined });
+    persist(storage.removeWhere('sessions', 'userId', user.id));
+    logAudit({ action: 'update', targetType: 'user', targetId: user.id, targetLabel: user.username, user, details: 'Password reset with a one-time code' });
+  }, [storage, persist, storeUser, registerFailure, logAudit]);
+
+  const updatePasswordPolicy = useCallback((policy: PasswordPolicy) => {
+    logAudit({ action: 'update', targetType: 'security_policy', targetId: 'security_policy', targetLabel: 'Password policy', changes: diffValues(passwordPolicyRef.current, policy) });
+    setPasswordPolicy(policy);
+    persist(storage.setSetting('security_policy', policy));
+  }, [storage, persist, logAudit]);
+
+  const updateSsoConfig = useCallback((config: SsoConfig) => {
+    logAudit({ action: 'update', targetType: 'sso_config', targetId: 'sso_config', targetLabel: 'Single sign-on', changes: diffValues(ssoConfigRef.current, config) });
+    setSsoConfig(config);
+    persist(storage.setSetting('sso_config', config));
+  }, [storage, persist, logAudit]);
 
   // Role Actions
-  const addRole = useCallback((role: UserRole) => setRoles(prev => [...prev, role]), []);
-  const updateRole = useCallback((role: UserRole) => setRoles(prev => prev.map(r => r.id === role.id ? role : r)), []);
-  const deleteRole = useCallback((id: string) => setRoles(prev => prev.filter(r => r.id !== id)), []);
+  const addRole = useCallback((role: UserRole) => {
+    setRoles(prev => [...prev, role]);
+    persist(storage.put('roles', role));
+    logAudit({ action: 'create', targetType: 'role', targetId: role.id, targetLabel: role.name, changes: diffValues(undefined, role) });
+  }, [storage, persist, logAudit]);
+  const updateRole = useCallback((role: UserRole) => {
+    const previous = dataRef.current.roles.find(r => r.id === role.id);
+    setRoles(prev => prev.map(r => r.id === role.id ? role : r));
+    persist(storage.put('roles', role));
+    logAudit({ action: 'update', targetType: 'role', targetId: role.id, targetLabel: role.name, changes: diffValues(previous, role) });
+  }, [storage, persist, logAudit]);
+  const deleteRole = useCallback((id: string) => {
+    const previous = dataRef.current.roles.find(r => r.id === id);
+    setRoles(prev => prev.filter(r => r.id !== id));
+    persist(storage.remove('roles', id));
+    logAudit({ action: 'delete', targetType: 'role', targetId: id, targetLabel: previous?.name, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
 
   // Shortcut Actions
-  const addShortcut = useCallback((shortcut: Shortcut) => setShortcuts(prev => [...prev, shortcut]), []);
-  const updateShortcut = useCallback((shortcut: Shortcut) => setShortcuts(prev => prev.map(s => s.id === shortcut.id ? shortcut : s)), []);
-  const deleteShortcut = useCallback((id: string) => setShortcuts(prev => prev.filter(s => s.id !== id)), []);
+  const addShortcut = useCallback((shortcut: Shortcut) => {
+    setShortcuts(prev => [...prev, shortcut]);
+    persist(storage.put('shortcuts', shortcut));
+    logAudit({ action: 'create', targetType: 'shortcut', targetId: shortcut.id, targetLabel: shortcut.name, changes: diffValues(undefined, shortcut) });
+  }, [storage, persist, logAudit]);
+  const updateShortcut = useCallback((shortcut: Shortcut) => {
+    const previous = dataRef.current.shortcuts.find(s => s.id === shortcut.id);
+    setShortcuts(prev => prev.map(s => s.id === shortcut.id ? shortcut : s));
+    persist(storage.put('shortcuts', shortcut));
+    logAudit({ action: 'update', targetType: 'shortcut', targetId: shortcut.id, targetLabel: shortcut.name, changes: diffValues(previous, shortcut) });
+  }, [storage, persist, logAudit]);
+  const deleteShortcut = useCallback((id: string) => {
+    const previous = dataRef.current.shortcuts.find(s => s.id === id);
+    setShortcuts(prev => prev.filter(s => s.id !== id));
+    persist(storage.remove('shortcuts', id));
+    logAudit({ action: 'delete', targetType: 'shortcut', targetId: id, targetLabel: previous?.name, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
 
   // Dashboard Actions
-  const addDashboard = useCallback((dashboard: DashboardSchema) => setDashboards(prev => [...prev, dashboard]), []);
-  const updateDashboard = useCallback((dashboard: DashboardSchema) => setDashboards(prev => prev.map(d => d.id === dashboard.id ? dashboard : d)), []);
-  const deleteDashboard = useCallback((id: string) => setDashboards(prev => prev.filter(d => d.id !== id)), []);
+  const addDashboard = useCallback((dashboard: DashboardSchema) => {
+    setDashboards(prev => [...prev, dashboard]);
+    persist(storage.put('dashboards', dashboard));
+    logAudit({ action: 'create', targetType: 'dashboard', targetId: dashboard.id, targetLabel: dashboard.name, changes: diffValues(undefined, dashboard) });
+  }, [storage, persist, logAudit]);
+  const updateDashboard = useCallback((dashboard: DashboardSchema) => {
+    const previous = dataRef.current.dashboards.find(d => d.id === dashboard.id);
+    setDashboards(prev => prev.map(d => d.id === dashboard.id ? dashboard : d));
+    persist(storage.put('dashboards', dashboard));
+    logAudit({ action: 'update', targetType: 'dashboard', targetId: dashboard.id, targetLabel: dashboard.name, changes: diffValues(previous, dashboard) });
+  }, [storage, persist, logAudit]);
+  const deleteDashboard = useCallback((id: string) => {
+    const previous = dataRef.current.dashboards.find(d => d.id === id);
+    setDashboards(prev => prev.filter(d => d.id !== id));
+    persist(storage.remove('dashboards', id));
+    logAudit({ action: 'delete', targetType: 'dashboard', targetId: id, targetLabel: previous?.name, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
 
   // Calendar Actions
-  const addCalendar = useCallback((calendar: CalendarSchema) => setCalendars(prev => [...prev, calendar]), []);
-  const updateCalendar = useCallback((calendar: CalendarSchema) => setCalendars(prev => prev.map(c => c.id === calendar.id ? calendar : c)), []);
-  const deleteCalendar = useCallback((id: string) => setCalendars(prev => prev.filter(c => c.id !== id)), []);
+  const addCalendar = useCallback((calendar: CalendarSchema) => {
+    setCalendars(prev => [...prev, calendar]);
+    persist(storage.put('calendars', calendar));
+    logAudit({ action: 'create', targetType: 'calendar', targetId: calendar.id, targetLabel: calendar.name, changes: diffValues(undefined, calendar) });
+  }, [storage, persist, logAudit]);
+  const updateCalendar = useCallback((calendar: CalendarSchema) => {
+    const previous = dataRef.current.calendars.find(c => c.id === calendar.id);
+    setCalendars(prev => prev.map(c => c.id === calendar.id ? calendar : c));
+    persist(storage.put('calendars', calendar));
+    logAudit({ action: 'update', targetType: 'calendar', targetId: calendar.id, targetLabel: calendar.name, changes: diffValues(previous, calendar) });
+  }, [storage, persist, logAudit]);
+  const deleteCalendar = useCallback((id: string) => {
+    const previous = dataRef.current.calendars.find(c => c.id === id);
+    setCalendars(prev => prev.filter(c => c.id !== id));
+    persist(storage.remove('calendars', id));
+    logAudit({ action: 'delete', targetType: 'calendar', targetId: id, targetLabel: previous?.name, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
+
+  // Saved View Actions
+  const addView = useCallback((view: SavedView) => {
+    setViews(prev => [...prev, view]);
+    persist(storage.put('views', view));
+    logAudit({ action: 'create', targetType: 'view', targetId: view.id, targetLabel: view.name, changes: diffValues(undefined, view) });
+  }, [storage, persist, logAudit]);
+  const updateView = useCallback((view: SavedView) => {
+    const previous = dataRef.current.views.find(v => v.id === view.id);
+    setViews(prev => prev.map(v => v.id === view.id ? view : v));
+    persist(storage.put('views', view));
+    logAudit({ action: 'update', targetType: 'view', targetId: view.id, targetLabel: view.name, changes: diffValues(previous, view) });
+  }, [storage, persist, logAudit]);
+  const deleteView = useCallback((id: string) => {
+    const previous = dataRef.current.views.find(v => v.id === id);
+    setViews(prev => prev.filter(v => v.id !== id));
+    persist(storage.remove('views', id));
+    logAudit({ action: 'delete', targetType: 'view', targetId: id, targetLabel: previous?.name, changes: diffValues(previous, undefined) });
+  }, [storage, persist, logAudit]);
 
   // Map Config Action
-  const updateMapConfig = useCallback((config: MapConfig) => setMapConfig(config), []);
+  const updateMapConfig = useCallback((config: MapConfig) => {
+    logAudit({ action: 'update', targetType: 'map_config', targetId: 'map_config', targetLabel: 'Map configuration', changes: diffValues(dataRef.current.mapConfig, config) });
+    setMapConfig(config);
+    persist(storage.setSetting('map_config', config));
+  }, [storage, persist, logAudit]);
 
   // Preferences Action
   const updatePreferences = useCallback((prefs: Partial<AppPreferences>) => setPreferences(prev => ({ ...prev, ...prefs })), []);
 
   // Execution Logic
   const executeShortcut = useCallback((shortcut: Shortcut) => {
+    logAudit({ action: 'execute', targetType: 'shortcut', targetId: shortcut.id, targetLabel: shortcut.name, details: shortcut.type });
     switch(shortcut.type) {
       case 'map_preset':
          setActiveTab('map');
@@ -360,13 +1335,17 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
          setMapState(updates);
          break;
 
-      case 'data_view':
+      case 'data_view': {
          setActiveTab('data');
+         // A saved view brings its own search; the DataTab applies the rest of it
+         const view = shortcut.config.viewId ? dataRef.current.views.find(v => v.id === shortcut.config.viewId) : undefined;
          setDataState({ 
-           activeTableId: shortcut.config.tableId || null,
-           searchQuery: shortcut.config.search || ''
+           activeTableId: view?.tableId || shortcut.config.tableId || null,
+           searchQuery: view ? view.search || '' : shortcut.config.search || '',
+           activeViewId: view?.id || null
          });
          break;
+      }
 
       case 'quick_add':
          setActiveTab('map');
@@ -402,45 +1381,56 @@ export const AppProvider = ({ children }: { children?: ReactNode }) => {
          });
          break;
     }
-  }, [setActiveTab, setMapState, setDataState, setDashboardState]);
+  }, [setActiveTab, setMapState, setDataState, setDashboardState, logAudit]);
 
-  // Authorization Check
-  const hasPermission = useCallback((permission: Permission) => {
-    if (!currentUser) return false;
-    const role = roles.find(r => r.id === currentUser.roleId);
-    if (!role) return false;
-    
-    // System Admins have all permissions implicit or explicit
-    if (role.permissions.includes('sys_admin')) return true;
-    
-    return role.permissions.includes(permission);
-  }, [currentUser, roles]);
+  const visibleSchemas = useMemo(() => schemas
+    .map(schema => ({ schema, access: getTableAccess(schema.id) }))
+    .filter(({ access }) => access.read)
+    .map(({ schema, access }) => restrictSchema(schema, access)), [schemas, getTableAccess]);
+
+  const visibleRecords = useMemo(() => {
+    const accessByTable = new Map<string, TableAccess>();
+    return records.filter(record => {
+      if (!accessByTable.has(record.tableId)) accessByTable.set(record.tableId, getTableAccess(record.tableId));
+      return canSeeRecord(accessByTable.get(record.tableId)!, record);
+    });
+  }, [records, getTableAccess]);
 
   const contextValue = useMemo(() => ({ 
-      schemas, records, users, roles, shortcuts, dashboards, calendars, mapConfig, currentUser, setCurrentUser, preferences,
+      schemas, visibleSchemas, records: visibleRecords, recordCounts, recordsVersion, auditVersion, trashVersion, users, roles, shortcuts, dashboards, calendars, views, mapConfig, crsList, currentUser, preferences, passwordPolicy, ssoConfig,
+      storageConfig, storageStatus, storageError, setStorageConfig,
       activeTab, setActiveTab,
       mapState, setMapState,
       dataState, setDataState,
       dashboardState, setDashboardState,
-      addSchema, updateSchema, deleteSchema, 
-      addRecord, updateRecord, deleteRecord,
+      addSchema, updateSchema, previewSchemaMigration, deleteSchema, 
+      addRecord, addRecords, updateRecord, deleteRecord, getRecordRevisions, restoreRecordRevision, loadTables, queryRecords, validateRecord, addAttachment, getAttachment,
       addUser, updateUser, deleteUser,
       addRole, updateRole, deleteRole,
       addShortcut, updateShortcut, deleteShortcut,
       addDashboard, updateDashboard, deleteDashboard,
       addCalendar, updateCalendar, deleteCalendar,
-      updatePreferences, updateMapConfig, executeShortcut, hasPermission
+      addView, updateView, deleteView,
+      updatePreferences, updateMapConfig, updatePasswordPolicy, updateSsoConfig, executeShortcut, hasPermission, getTableAccess,
+      login, beginSsoLogin, completeSsoLogin, logout, issueResetCode, resetPassword,
+      loadTrash, restoreTrashEntry, purgeTrashEntry,
+      logAudit, queryAudit
     }), 
     [
-      schemas, records, users, roles, shortcuts, dashboards, calendars, mapConfig, currentUser, preferences, activeTab, mapState, dataState, dashboardState,
-      setMapState, setDataState, setDashboardState, addSchema, updateSchema, deleteSchema, 
-      addRecord, updateRecord, deleteRecord, 
+      schemas, visibleSchemas, visibleRecords, recordCounts, recordsVersion, auditVersion, trashVersion, users, roles, shortcuts, dashboards, calendars, views, mapConfig, crsList, currentUser, preferences, passwordPolicy, ssoConfig, activeTab, mapState, dataState, dashboardState,
+      storageConfig, storageStatus, storageError, setStorageConfig,
+      setMapState, setDataState, setDashboardState, addSchema, updateSchema, previewSchemaMigration, deleteSchema, 
+      addRecord, addRecords, updateRecord, deleteRecord, getRecordRevisions, restoreRecordRevision, loadTables, queryRecords, validateRecord, addAttachment, getAttachment,
       addUser, updateUser, deleteUser, 
       addRole, updateRole, deleteRole,
       addShortcut, updateShortcut, deleteShortcut,
       addDashboard, updateDashboard, deleteDashboard,
       addCalendar, updateCalendar, deleteCalendar,
-      updatePreferences, updateMapConfig, executeShortcut, hasPermission
+      addView, updateView, deleteView,
+      updatePreferences, updateMapConfig, updatePasswordPolicy, updateSsoConfig, executeShortcut, hasPermission, getTableAccess,
+      login, beginSsoLogin, completeSsoLogin, logout, issueResetCode, resetPassword,
+      loadTrash, restoreTrashEntry, purgeTrashEntry,
+      logAudit, queryAudit
     ]
   );
 
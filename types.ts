@@ -1,6 +1,7 @@
 
 
-export type FieldType = 'text' | 'number' | 'date' | 'datetime' | 'select' | 'boolean';
+export type FieldType = 'text' | 'number' | 'date' | 'datetime' | 'select' | 'multiselect' | 'boolean' | 'relation' | 'attachment'
+  | 'url' | 'email' | 'phone' | 'richtext' | 'color';
 export type GeometryType = 'point' | 'line' | 'polygon' | 'mixed' | 'none';
 export type MapDisplayMode = 'tooltip' | 'dialog';
 
@@ -17,9 +18,64 @@ export interface FieldDefinition {
   type: FieldType;
   required: boolean;
   options?: FieldOption[]; // Updated for Label/Value support
+  precision?: number; // Number fields: decimal places, 0 for whole numbers
+  unit?: string; // Number fields: shown after the value, e.g. 'm' or 'kg'
   booleanLabels?: { true: string; false: string }; // Custom labels for checkbox
   sortable?: boolean;
   filterable?: boolean;
+  validation?: FieldValidation;
+  // Computed field: the value is this expression, recalculated on every save and never typed in
+  formula?: string;
+  // Expression filled in when a record is created, e.g. 'today()' or '$currentUser' (see services/formulas.ts)
+  defaultValue?: string;
+  relation?: RelationConfig; // Relation fields only
+}
+
+// An attachment field holds a list of these; the files themselves are stored apart (see services/attachments.ts)
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  thumbnail?: string; // Small JPEG data URL, images only
+  location?: [number, number]; // [lat, lng] from the photo's EXIF GPS tags
+}
+
+export interface StoredAttachment {
+  id: string;
+  tableId: string; // Table of the record it was added to, to purge it with the table
+  name: string;
+  type: string;
+  size: number;
+  data: Blob;
+  createdAt: string;
+  createdBy: string;
+}
+
+// What deleting a linked record does to the records pointing at it
+export type RelationDeleteAction = 'restrict' | 'clear' | 'cascade';
+
+// A relation field holds the id of a record of another table, or a list of ids when `multiple`
+export interface RelationConfig {
+  tableId: string;
+  multiple?: boolean;
+  onDelete?: RelationDeleteAction; // Defaults to 'restrict'
+}
+
+// Constraints checked when a record is saved from a form, on top of `required` (see services/validation.ts).
+// The expression is checked on every save, the other rules only once the field has a value.
+export interface FieldValidation {
+  min?: number; // Number fields
+  max?: number;
+  minLength?: number; // Text fields
+  maxLength?: number;
+  pattern?: string; // Text fields: regular expression the whole value must match
+  patternMessage?: string;
+  minDate?: string; // Date fields: YYYY-MM-DD or 'today'
+  maxDate?: string;
+  unique?: boolean; // No other record of the table has the same value
+  expression?: string; // Must not be false, e.g. 'end_date >= start_date' (see services/expression.ts)
+  expressionMessage?: string;
 }
 
 // Standalone Calendar Schema
@@ -106,8 +162,8 @@ export interface TableSchema {
 }
 
 export interface FeatureGeometry {
-  type: 'Point' | 'LineString' | 'Polygon';
-  coordinates: any; // [lat, lng] or [[lat, lng], ...]
+  type: 'Point' | 'LineString' | 'Polygon' | 'MultiPoint' | 'MultiLineString' | 'MultiPolygon';
+  coordinates: any; // [lat, lng] positions nested as in GeoJSON; a Polygon is a list of rings (outer, then holes). See lib/geometry.ts
 }
 
 export interface DataRecord {
@@ -119,6 +175,39 @@ export interface DataRecord {
   updatedAt: string;
 }
 
+// A saved version of a record's data and geometry, written on every create, update and restore
+export interface RecordRevision {
+  id: string;
+  recordId: string;
+  tableId: string;
+  data: Record<string, any>;
+  geometry?: FeatureGeometry | null;
+  userId: string | null; // Null for the baseline of records that predate revisions (e.g. imports)
+  username: string;
+  timestamp: string;
+  restoredFrom?: string; // Id of the revision this one restored
+}
+
+// A deleted record or table, kept together with everything its delete cascaded to
+// until it is restored, purged, or expires
+export interface TrashEntry {
+  id: string;
+  type: 'record' | 'schema';
+  targetId: string;
+  label: string;
+  deletedAt: string;
+  deletedBy: string; // Username
+  expiresAt: string;
+  items: {
+    schemas?: TableSchema[];
+    records?: DataRecord[];
+    dashboards?: DashboardSchema[];
+    calendars?: CalendarSchema[];
+  };
+  // Records whose links to the deleted ones were cleared, linked and cleared; relinked on restore
+  unlinked?: { before: DataRecord; after: DataRecord }[];
+}
+
 export type Permission = 
   | 'sys_admin'        // Full access to everything
   | 'manage_users'     // Create/Edit users and roles
@@ -136,6 +225,76 @@ export interface UserRole {
   description?: string;
   permissions: Permission[];
   isSystem?: boolean; // System roles cannot be deleted
+  tableGrants?: TableGrant[]; // When set, the role only reaches the listed tables, as far as each grant allows
+}
+
+export type TableAction = 'read' | 'create' | 'update' | 'delete';
+export type FieldAccess = 'readonly' | 'hidden';
+
+// Access of a role to one table, on top of its global permissions (edit_data, edit_map, ...)
+export interface TableGrant {
+  tableId: string;
+  actions: TableAction[];
+  fieldAccess?: Record<string, FieldAccess>; // By field name; fields not listed are editable
+  rowFilter?: RowFilter; // Only matching records are visible, e.g. assignee equals $currentUser
+}
+
+export interface RowFilter {
+  field: string;
+  operator: 'equals' | 'not_equals' | 'contains';
+  value: string; // '$currentUser' stands for the signed-in username
+}
+
+// --- Record queries ---
+
+export type QueryOperator =
+  | 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'starts_with' | 'regex'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'before' | 'after'
+  | 'in' | 'not_in' | 'is_empty' | 'is_not_empty' | 'is_true' | 'is_false';
+
+export interface QueryCondition {
+  id: string;
+  field: string; // FieldDefinition.name
+  operator: QueryOperator;
+  value?: any; // [from, to] for 'between' (either may be blank), a list for 'in' / 'not_in'
+}
+
+// Conditions and nested groups joined by AND or OR; an empty group matches everything
+export interface QueryGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  rules: (QueryCondition | QueryGroup)[];
+}
+
+export type SpatialFilterType = 'extent' | 'polygon' | 'distance';
+
+export interface SpatialFilter {
+  type: SpatialFilterType;
+  // extent: the map's view, filled in when the query runs so saved views follow the map
+  bounds?: [[number, number], [number, number]]; // [[south, west], [north, east]]
+  // polygon: the outer ring drawn by the user, [lat, lng]
+  polygon?: [number, number][];
+  // distance: a feature of any table and a radius around it
+  tableId?: string;
+  recordId?: string;
+  label?: string;
+  geometry?: FeatureGeometry; // The feature's geometry when it was picked
+  meters?: number;
+}
+
+// A named filter of the DataTab grid, owned by one user; data_view shortcuts can open it
+export interface SavedView {
+  id: string;
+  name: string;
+  userId: string;
+  tableId: string;
+  search?: string;
+  columnFilters?: Record<string, string>;
+  filter?: QueryGroup;
+  spatial?: SpatialFilter;
+  sort?: { key: string; direction: 'asc' | 'desc' } | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface User {
@@ -145,7 +304,85 @@ export interface User {
   roleId: string;
   avatar?: string;
   createdAt: string;
-  password?: string; // Added for mock auth
+  password?: string; // Plain-text initial password of seed data; replaced by passwordHash on load
+  passwordHash?: PasswordHash;
+  failedLoginAttempts?: number;
+  lockedUntil?: string;
+  resetCode?: { hash: PasswordHash; expiresAt: string }; // One-time code issued by an administrator
+  authProvider?: AuthProviderType; // How the user signs in; absent means 'password'
+  externalId?: string; // Issuer and subject of single sign-on accounts
+}
+
+export type AuthProviderType = 'password' | 'oidc';
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64
+  hash: string; // Base64
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  maxFailedAttempts: number; // 0 never locks the account
+  lockoutMinutes: number;
+  sessionHours: number; // Sign-ins without "Remember me"
+  rememberDays: number;
+  resetCodeHours: number;
+}
+
+// OpenID Connect sign-in: authorization code flow with PKCE, the app being a public client
+export interface SsoConfig {
+  enabled: boolean;
+  providerName: string; // Shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  scopes: string; // Space separated; 'openid' is always requested
+  redirectUri?: string; // Defaults to the address the app is served from
+  usernameClaim: string; // Username of accounts provisioned on first sign-in
+  rolesClaim: string; // Claim listing the user's groups or roles; dotted paths reach nested claims
+  roleMappings: SsoRoleMapping[]; // First match wins, applied at every sign-in
+  defaultRoleId?: string; // Without a matching mapping; empty refuses the sign-in
+}
+
+export interface SsoRoleMapping {
+  claimValue: string;
+  roleId: string;
+}
+
+export interface AuthSession {
+  id: string; // SHA-256 of the token kept by the browser
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  persistent: boolean;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import' | 'export' | 'execute' | 'login' | 'logout';
+export type AuditTargetType = 'record' | 'schema' | 'user' | 'role' | 'shortcut' | 'dashboard' | 'calendar' | 'view' | 'map_config' | 'session' | 'database' | 'security_policy' | 'sso_config';
+
+export interface AuditChange {
+  field: string; // Dotted path, e.g. 'data.status'
+  before?: any;
+  after?: any;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  userId: string | null; // null for failed logins
+  username: string; // As it was when the action happened
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string; // e.g. the table or user name
+  changes?: AuditChange[];
+  status: 'success' | 'failure';
+  details?: string;
 }
 
 export type ThemeMode = 'light' | 'dark' | 'system';
@@ -156,19 +393,75 @@ export interface AppPreferences {
   primaryColor: string; // Hex code
 }
 
+export type StorageBackend = 'local' | 'indexeddb' | 'rest';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  restUrl?: string; // Base URL of the shared JSON server (rest backend only)
+}
+
+export interface CrsDefinition {
+  code: string; // e.g. 'EPSG:2154'
+  name: string;
+  proj4: string; // proj4 definition string
+  units: 'degrees' | 'meters';
+}
+
+// Tile pyramid of a non-Web-Mercator layer, in the units of its CRS
+export interface TileGridConfig {
+  origin: [number, number]; // Top-left corner [x, y]
+  resolutions: number[]; // Units per pixel, one per zoom level
+  tileSize?: number; // Defaults to 256
+}
+
+export type TileLayerType = 'xyz' | 'wms' | 'wmts' | 'vector';
+
+export interface WmsLayerOptions {
+  layers: string; // Comma-separated layer names
+  styles?: string;
+  format: string; // e.g. 'image/png'
+  transparent: boolean;
+  version: '1.1.1' | '1.3.0';
+  queryable?: boolean; // GetFeatureInfo on map click
+  infoFormat?: string; // GetFeatureInfo response type, defaults to 'application/json'
+}
+
+// Resolved from a GetCapabilities document when the layer is configured
+export interface WmtsLayerOptions {
+  capabilitiesUrl: string;
+  layer: string;
+  style: string;
+  tileMatrixSet: string;
+  format: string;
+  matrixIds: string[]; // TileMatrix identifier of each zoom level
+}
+
+// Mapbox Vector Tiles drawn by MapLibre (Web Mercator only)
+export interface VectorTileOptions {
+  style: string; // MapLibre style JSON, or the URL of one
+  darkStyle?: string; // Used with the dark theme, defaults to style
+}
+
 export interface TileLayerConfig {
   id: string;
   name: string;
-  url: string;
+  type?: TileLayerType; // Defaults to 'xyz'
+  url: string; // XYZ/WMTS tile template, the WMS endpoint, or the MVT template for style sources without tiles
   attribution?: string;
   maxZoom?: number;
   subdomains?: string; // e.g., 'abcd'
   isDefaultVisible?: boolean;
   defaultOpacity?: number; // 0 to 1
+  crs?: string; // CRS code of the tile grid, defaults to 'EPSG:3857'
+  tileGrid?: TileGridConfig; // Required for grids other than Web Mercator and plate carrée
+  wms?: WmsLayerOptions;
+  wmts?: WmtsLayerOptions;
+  vector?: VectorTileOptions;
 }
 
 export interface MapConfig {
   tileLayers: TileLayerConfig[];
+  customCrs?: CrsDefinition[]; // User-defined coordinate systems
 }
 
 export type ViewTab = 'map' | 'data' | 'dashboard' | 'planning' | 'settings' | 'profile';
@@ -192,6 +485,7 @@ export interface Shortcut {
     // data_view
     tableId?: string;
     search?: string;
+    viewId?: string; // A saved view of the table, opened instead of the search
 
     // quick_add
     targetTableId?: string;